@@ -2,32 +2,77 @@ import { useEffect, useMemo, useRef, useState } from 'react'
 import { ChordControls } from './components/ChordControls'
 import { ShapeCard } from './components/ShapeCard'
 import { TriadExplorer } from './components/TriadExplorer'
+import { DropVoicingExplorer } from './components/DropVoicingExplorer'
+import { ArpeggioExplorer } from './components/ArpeggioExplorer'
 import { ProgressionViewer } from './components/ProgressionViewer'
 import { ScaleExplorer } from './components/ScaleExplorer'
+import { Harmonizer } from './components/Harmonizer'
 import { CircleOfFifths } from './components/CircleOfFifths'
 import { ChordAnalyzer } from './components/ChordAnalyzer'
 import { SongBuilder } from './components/SongBuilder'
 import { DarkModeToggle } from './components/DarkModeToggle'
+import { TuningEditor } from './components/TuningEditor'
 import { NOTE_OPTIONS } from './data/notes'
+import { VOICING_WINDOWS } from './data/voicings'
+import { TUNING_PRESETS } from './data/tunings'
 import { CHORD_QUALITIES, QUALITY_MAP } from './data/chordQualities'
 import { buildChordShapes } from './utils/chordUtils'
-import type { ChordQuality, NoteId, RuntimeChordShape } from './types/music'
-import type { AnimationSpeed, ChordProgression } from './types/progression'
+import { generateVoicings } from './utils/voicingGenerator'
+import { getChordSymbolBass, getChordSymbolQuality } from './utils/chordSymbolParser'
+import { spelledNoteToId } from './utils/noteSpelling'
+import { saveCustomProgression } from './utils/progressionLibrary'
+import { getActiveOrientation, setActiveOrientation } from './utils/orientation'
+import {
+  deleteCustomTuning,
+  getActiveCapo,
+  getActiveTuning,
+  getInstrument,
+  getStrings,
+  getTuningList,
+  isStandardTuning,
+  saveCustomTuning,
+  setActiveCapo,
+  setActiveTuning
+} from './utils/tuning'
+import type { CapoSetting, ChordQuality, FretboardOrientation, NoteId, RuntimeChordShape } from './types/music'
+import type { ParsedChordSymbol } from './types/chordSymbol'
+import type { AnimationSpeed, ChordProgression, TransposedChord } from './types/progression'
+import type { VoiceLeadingOptions } from './types/voicing'
+import type { TrackDraft } from './types/songBuilder'
+import type { TuningDefinition } from './types/analyzer'
 import { ChordAudioEngine, orderNotesForStrum } from './audio/engine'
 
+const VOICING_PAGE_SIZE = 12
+const CAPO_OPEN_GRIPS = 3
+const OPEN_POSITION = { start: 0, end: 4 }
+
 export default function App() {
   const [root, setRoot] = useState<NoteId>('E')
   const [quality, setQuality] = useState<ChordQuality>('minor')
+  const [typedChord, setTypedChord] = useState<ParsedChordSymbol | null>(null)
+  const [voicingWindowId, setVoicingWindowId] = useState<string | null>(null)
+  const [voicingLimit, setVoicingLimit] = useState(VOICING_PAGE_SIZE)
+  const [tuning, setTuning] = useState<TuningDefinition>(getActiveTuning)
+  const [capo, setCapo] = useState<CapoSetting>(getActiveCapo)
+  const [tuningEditorOpen, setTuningEditorOpen] = useState(false)
+  const [orientation, setOrientation] = useState<FretboardOrientation>(getActiveOrientation)
+  const [progressionChordIndex, setProgressionChordIndex] = useState<number | undefined>()
   const [progressionChordRoot, setProgressionChordRoot] = useState<NoteId | undefined>()
   const [progressionChordQuality, setProgressionChordQuality] = useState<ChordQuality | undefined>()
+  const [progressionChords, setProgressionChords] = useState<TransposedChord[]>([])
   const [isDarkMode, setIsDarkMode] = useState(() => {
     const saved = localStorage.getItem('darkMode')
     return saved ? JSON.parse(saved) : false
   })
   const [songBuilderOpen, setSongBuilderOpen] = useState(false)
   const [songBuilderProgression, setSongBuilderProgression] = useState<ChordProgression | null>(null)
+  const [songBuilderRoot, setSongBuilderRoot] = useState<NoteId>('E')
   const [songBuilderSpeed, setSongBuilderSpeed] = useState<AnimationSpeed>('medium')
+  const [songBuilderVoiceLeading, setSongBuilderVoiceLeading] = useState<VoiceLeadingOptions>({})
+  const [songBuilderTrack, setSongBuilderTrack] = useState<TrackDraft | null>(null)
+  const [openedProgression, setOpenedProgression] = useState<ChordProgression | null>(null)
   const engineRef = useRef<ChordAudioEngine | null>(null)
+  const progressionViewerRef = useRef<HTMLDivElement | null>(null)
 
   if (!engineRef.current) {
     engineRef.current = new ChordAudioEngine()
@@ -47,7 +92,25 @@ export default function App() {
     setIsDarkMode((prev: boolean) => !prev)
   }
 
-  const shapes = useMemo(() => buildChordShapes(root, quality), [root, quality])
+  const bass = typedChord ? getChordSymbolBass(typedChord) : undefined
+  const hasChordShapes = getInstrument(tuning).chordShapes
+  // Instruments without CAGED templates always list searched voicings
+  const voicingWindow =
+    VOICING_WINDOWS.find((range) => range.id === voicingWindowId) ?? (hasChordShapes ? undefined : VOICING_WINDOWS[0])
+  const allShapes = useMemo(() => {
+    if (voicingWindow) {
+      return generateVoicings(root, quality, { fretRange: voicingWindow, bass, tuning })
+    }
+    const classic = buildChordShapes(root, quality, { bass })
+    if (capo.fret === 0) {
+      return classic
+    }
+    // Under a capo, lead with the open chords the grips are known by
+    const openGrips = generateVoicings(root, quality, { fretRange: OPEN_POSITION, bass, limit: CAPO_OPEN_GRIPS })
+    const seen = new Set(openGrips.map((shape) => JSON.stringify(shape.notesForAudio)))
+    return [...openGrips, ...classic.filter((shape) => !seen.has(JSON.stringify(shape.notesForAudio)))]
+  }, [root, quality, bass, voicingWindow, tuning, capo])
+  const shapes = voicingWindow ? allShapes.slice(0, voicingLimit) : allShapes
   const qualityDef = QUALITY_MAP[quality]
 
   const handlePlay = (shape: RuntimeChordShape) => {
@@ -57,27 +120,118 @@ export default function App() {
 
   const handleRootChange = (note: NoteId) => {
     setRoot(note)
+    setTypedChord(null)
+    setVoicingLimit(VOICING_PAGE_SIZE)
   }
 
   const handleQualityChange = (nextQuality: ChordQuality) => {
     setQuality(nextQuality)
+    setTypedChord(null)
+    setVoicingLimit(VOICING_PAGE_SIZE)
+  }
+
+  const handleVoicingWindowChange = (windowId: string | null) => {
+    setVoicingWindowId(windowId)
+    setVoicingLimit(VOICING_PAGE_SIZE)
+  }
+
+  // Every shape, scale, riff and sound reads the active tuning, so set it before re-rendering
+  const handleTuningChange = (tuningId: string) => {
+    const nextTuning = getTuningList().find((option) => option.id === tuningId)
+    if (nextTuning) {
+      setActiveTuning(nextTuning)
+      setTuning(nextTuning)
+      // A partial capo only carries over to an instrument with the same strings
+      if (nextTuning.notes.length !== tuning.notes.length) {
+        const nextCapo = { fret: capo.fret, strings: getStrings(nextTuning) }
+        setActiveCapo(nextCapo)
+        setCapo(nextCapo)
+      }
+      setVoicingLimit(VOICING_PAGE_SIZE)
+    }
+  }
+
+  // Saving switches to the tuning, which also refreshes every tuning dropdown
+  const handleTuningSave = (nextTuning: TuningDefinition) => {
+    saveCustomTuning(nextTuning)
+    handleTuningChange(nextTuning.id)
+    setTuningEditorOpen(false)
+  }
+
+  const handleTuningDelete = (tuningId: string) => {
+    deleteCustomTuning(tuningId)
+    handleTuningChange(TUNING_PRESETS.standard.id)
+    setTuningEditorOpen(false)
+  }
+
+  const handleCapoChange = (nextCapo: CapoSetting) => {
+    setActiveCapo(nextCapo)
+    setCapo(nextCapo)
+    setVoicingLimit(VOICING_PAGE_SIZE)
+  }
+
+  // Diagrams read the active orientation while rendering, so set it before re-rendering
+  const handleOrientationChange = (nextOrientation: FretboardOrientation) => {
+    setActiveOrientation(nextOrientation)
+    setOrientation(nextOrientation)
+  }
+
+  const handleChordSymbolSubmit = (chord: ParsedChordSymbol) => {
+    setRoot(spelledNoteToId(chord.root))
+    setQuality(getChordSymbolQuality(chord).quality)
+    setTypedChord(chord)
   }
 
   const handleProgressionChordChange = (
-    _chordIndex: number,
+    chordIndex: number,
     chordRoot: NoteId,
-    chordQuality: ChordQuality
+    chordQuality: ChordQuality,
+    chords: TransposedChord[]
   ) => {
+    setProgressionChordIndex(chordIndex)
     setProgressionChordRoot(chordRoot)
     setProgressionChordQuality(chordQuality)
+    setProgressionChords(chords)
   }
 
-  const handleSongBuilderOpen = (progression: ChordProgression, speed: AnimationSpeed) => {
+  const handleSongBuilderOpen = (
+    progression: ChordProgression,
+    speed: AnimationSpeed,
+    voiceLeading: VoiceLeadingOptions,
+    progressionRoot: NoteId = root
+  ) => {
     setSongBuilderProgression(progression)
+    setSongBuilderRoot(progressionRoot)
     setSongBuilderSpeed(speed)
+    setSongBuilderVoiceLeading(voiceLeading)
     setSongBuilderOpen(true)
   }
 
+  // An arpeggio study opens over its own chord and joins the Song Builder's tracks
+  const handleArpeggioSend = (progression: ChordProgression, progressionRoot: NoteId, track: TrackDraft) => {
+    setSongBuilderTrack(track)
+    handleSongBuilderOpen(progression, songBuilderSpeed, {}, progressionRoot)
+  }
+
+  // A chord from the harmonizer or analyzer opens in the shape explorer at the top of the page
+  const handleChordOpen = (chordRoot: NoteId, chordQuality: ChordQuality, symbol?: ParsedChordSymbol) => {
+    if (symbol) {
+      handleChordSymbolSubmit(symbol)
+    } else {
+      handleRootChange(chordRoot)
+      handleQualityChange(chordQuality)
+    }
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  // A progression built elsewhere is saved and shown in the viewer, which plays in the main root
+  const handleProgressionOpen = (progression: ChordProgression, progressionRoot: NoteId) => {
+    saveCustomProgression(progression)
+    handleRootChange(progressionRoot)
+    setOpenedProgression(progression)
+    progressionViewerRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }
+
   const handleSongBuilderClose = () => {
     setSongBuilderOpen(false)
   }
@@ -87,7 +241,7 @@ export default function App() {
       <header className="app-header">
         <div className="header-content">
           <h1 className="app-title">Chord Seeker</h1>
-          <p className="app-subtitle">Explore guitar chord shapes and voicings</p>
+          <p className="app-subtitle">Explore chord shapes and voicings for guitar, bass, ukulele and mandolin</p>
         </div>
         <DarkModeToggle isDark={isDarkMode} onToggle={toggleDarkMode} />
       </header>
@@ -99,8 +253,29 @@ export default function App() {
         chordQualities={CHORD_QUALITIES}
         onRootChange={handleRootChange}
         onQualityChange={handleQualityChange}
+        typedChord={typedChord}
+        onChordSymbolSubmit={handleChordSymbolSubmit}
+        voicingWindowId={voicingWindowId}
+        onVoicingWindowChange={handleVoicingWindowChange}
+        tuningId={tuning.id}
+        onTuningChange={handleTuningChange}
+        onTuningEdit={() => setTuningEditorOpen(true)}
+        capo={capo}
+        onCapoChange={handleCapoChange}
+        orientation={orientation}
+        onOrientationChange={handleOrientationChange}
       />
 
+      {tuningEditorOpen && (
+        <TuningEditor
+          key={tuning.id}
+          tuning={tuning}
+          onSave={handleTuningSave}
+          onDelete={handleTuningDelete}
+          onClose={() => setTuningEditorOpen(false)}
+        />
+      )}
+
       <section className="shape-grid">
         {shapes.length ? (
           shapes.map((shape) => (
@@ -112,24 +287,73 @@ export default function App() {
             />
           ))
         ) : (
-          <p className="empty-state">No shapes available for this chord yet.</p>
+          <p className="empty-state">
+            {voicingWindow
+              ? `No playable voicings in ${voicingWindow.label.toLowerCase()}.`
+              : isStandardTuning(tuning)
+                ? 'No shapes available for this chord yet.'
+                : 'None of the classic shapes fit this tuning. Try "All voicings".'}
+          </p>
+        )}
+        {shapes.length < allShapes.length && (
+          <div className="shape-grid-footer">
+            <button
+              className="btn btn-secondary"
+              onClick={() => setVoicingLimit((limit) => limit + VOICING_PAGE_SIZE)}
+            >
+              Show more voicings ({allShapes.length - shapes.length} left)
+            </button>
+          </div>
         )}
       </section>
 
-      <TriadExplorer root={root} quality={quality} audioEngine={engineRef.current} />
+      <TriadExplorer
+        root={root}
+        quality={quality}
+        tuning={tuning}
+        capo={capo}
+        audioEngine={engineRef.current}
+        progressionChords={progressionChords}
+        progressionChordIndex={progressionChordIndex}
+      />
 
-      <ProgressionViewer
+      <DropVoicingExplorer
         root={root}
         quality={quality}
-        onChordChange={handleProgressionChordChange}
-        onSongBuilderOpen={handleSongBuilderOpen}
+        tuning={tuning}
+        capo={capo}
+        audioEngine={engineRef.current}
       />
 
+      <ArpeggioExplorer root={root} quality={quality} tuning={tuning} capo={capo} onSongBuilderSend={handleArpeggioSend} />
+
+      <div ref={progressionViewerRef}>
+        <ProgressionViewer
+          root={root}
+          quality={quality}
+          tuning={tuning}
+          capo={capo}
+          openedProgression={openedProgression}
+          onChordChange={handleProgressionChordChange}
+          onSongBuilderOpen={handleSongBuilderOpen}
+        />
+      </div>
+
       <ScaleExplorer
         root={root}
         quality={quality}
         syncedRoot={progressionChordRoot}
         syncedQuality={progressionChordQuality}
+        progressionChords={progressionChords}
+        audioEngine={engineRef.current}
+      />
+
+      <Harmonizer
+        root={root}
+        onChordOpen={handleChordOpen}
+        onSongBuilderOpen={(progression, progressionRoot) =>
+          handleSongBuilderOpen(progression, songBuilderSpeed, songBuilderVoiceLeading, progressionRoot)
+        }
       />
 
       <CircleOfFifths
@@ -137,16 +361,31 @@ export default function App() {
         currentQuality={quality}
         onRootChange={handleRootChange}
         onQualityChange={handleQualityChange}
+        progressionChords={progressionChords}
+        progressionChordIndex={progressionChordIndex}
       />
 
-      <ChordAnalyzer />
+      {/* Remounted when the string count changes so the clicked grip starts over */}
+      <ChordAnalyzer
+        key={tuning.notes.length}
+        tuning={tuning}
+        capo={capo}
+        onTuningChange={handleTuningChange}
+        audioEngine={engineRef.current}
+        onChordOpen={handleChordOpen}
+        onProgressionOpen={handleProgressionOpen}
+      />
 
       <SongBuilder
         isOpen={songBuilderOpen}
         onClose={handleSongBuilderClose}
         progression={songBuilderProgression}
-        rootNote={root}
+        rootNote={songBuilderRoot}
         speed={songBuilderSpeed}
+        voiceLeading={songBuilderVoiceLeading}
+        tuning={tuning}
+        capo={capo}
+        incomingTrack={songBuilderTrack}
       />
     </div>
   )
@@ -1,5 +1,5 @@
-import { GUITAR_STRINGS, STRING_TUNINGS } from '../data/notes'
 import type { GuitarString } from '../types/music'
+import { getMidiNote } from '../utils/tuning'
 
 export interface NoteToPlay {
   string: GuitarString
@@ -27,25 +27,54 @@ export class ChordAudioEngine {
     this.stop()
     const startTime = ctx.currentTime + 0.05
     notes.forEach((note, index) => {
-      const tuning = STRING_TUNINGS[note.string]
-      const midiValue = tuning.midi + note.fret
-      const freq = midiToFrequency(midiValue)
-      const osc = ctx.createOscillator()
-      const gain = ctx.createGain()
-      osc.type = 'triangle'
-      const strikeTime = startTime + index * 0.035
-      osc.frequency.setValueAtTime(freq, strikeTime)
-      gain.gain.setValueAtTime(0.0001, strikeTime)
-      gain.gain.linearRampToValueAtTime(0.5, strikeTime + 0.015)
-      gain.gain.exponentialRampToValueAtTime(0.0001, strikeTime + 1.8)
-      osc.connect(gain)
-      gain.connect(ctx.destination)
-      osc.start(strikeTime)
-      osc.stop(strikeTime + 2)
-      this.activeNodes.push({ osc, gain })
+      this.strike(ctx, getMidiNote(note.string, note.fret), startTime + index * 0.035, 1.8)
     })
   }
 
+  // One note after another, as in a scale run; each note dies away before the next but one
+  playSequence(notes: NoteToPlay[], noteLength: number = 0.28) {
+    if (!notes.length) {
+      return
+    }
+    const ctx = this.ensureContext()
+    this.stop()
+    const startTime = ctx.currentTime + 0.05
+    notes.forEach((note, index) => {
+      this.strike(ctx, getMidiNote(note.string, note.fret), startTime + index * noteLength, noteLength * 2)
+    })
+  }
+
+  // Chords strummed one after another, as when auditioning a passage
+  playChords(chords: NoteToPlay[][], chordLength: number = 1.1) {
+    if (!chords.length) {
+      return
+    }
+    const ctx = this.ensureContext()
+    this.stop()
+    const startTime = ctx.currentTime + 0.05
+    chords.forEach((notes, chordIndex) => {
+      notes.forEach((note, index) => {
+        const strikeTime = startTime + chordIndex * chordLength + index * 0.035
+        this.strike(ctx, getMidiNote(note.string, note.fret), strikeTime, chordLength * 1.5)
+      })
+    })
+  }
+
+  private strike(ctx: AudioContext, midiValue: number, strikeTime: number, decay: number) {
+    const osc = ctx.createOscillator()
+    const gain = ctx.createGain()
+    osc.type = 'triangle'
+    osc.frequency.setValueAtTime(midiToFrequency(midiValue), strikeTime)
+    gain.gain.setValueAtTime(0.0001, strikeTime)
+    gain.gain.linearRampToValueAtTime(0.5, strikeTime + 0.015)
+    gain.gain.exponentialRampToValueAtTime(0.0001, strikeTime + decay)
+    osc.connect(gain)
+    gain.connect(ctx.destination)
+    osc.start(strikeTime)
+    osc.stop(strikeTime + decay + 0.2)
+    this.activeNodes.push({ osc, gain })
+  }
+
   stop() {
     if (!this.ctx || !this.activeNodes.length) {
       return
@@ -60,6 +89,7 @@ export class ChordAudioEngine {
   }
 }
 
-export function orderNotesForStrum(notes: NoteToPlay[]) {
-  return [...notes].sort((a, b) => GUITAR_STRINGS.indexOf(a.string) - GUITAR_STRINGS.indexOf(b.string))
+// Strum from the lowest string (highest string number) up
+export function orderNotesForStrum<T extends NoteToPlay>(notes: T[]): T[] {
+  return [...notes].sort((a, b) => b.string - a.string)
 }
@@ -1,8 +1,8 @@
-import { STRING_TUNINGS } from '../data/notes'
-import type { GuitarString, NoteId, ChordQuality } from '../types/music'
-import type { RuntimeChordShape } from '../types/music'
+import type { CapoSetting, GuitarString } from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
 import type { ProgressionRiff, TabSheet, Technique, Track } from '../types/songBuilder'
-import { buildChordShapes } from '../utils/chordUtils'
+import { getChordRiffVoicing } from '../utils/voiceLeading'
+import { getMidiNote } from '../utils/tuning'
 import { orderNotesForStrum } from './engine'
 
 export interface NoteToPlay {
@@ -10,6 +10,8 @@ export interface NoteToPlay {
   fret: number
   technique?: Technique
   targetFret?: number
+  tuning?: TuningDefinition // The riff's own instrument; defaults to the active tuning
+  capo?: CapoSetting
 }
 
 interface ScheduledEvent {
@@ -169,8 +171,7 @@ export class SongAudioEngine {
     const orderedNotes = orderNotesForStrum(notes)
 
     orderedNotes.forEach((note, index) => {
-      const tuning = STRING_TUNINGS[note.string]
-      const midiValue = tuning.midi + note.fret
+      const midiValue = getMidiNote(note.string, note.fret, note.tuning, note.capo)
       const freq = midiToFrequency(midiValue)
 
       const osc = ctx.createOscillator()
@@ -206,7 +207,6 @@ export class SongAudioEngine {
       : this.riffGain
     if (!targetGain) return
 
-    const tuning = STRING_TUNINGS[note.string]
     const technique = note.technique || 'normal'
 
     // Handle muted notes differently
@@ -221,7 +221,7 @@ export class SongAudioEngine {
       return
     }
 
-    const midiValue = tuning.midi + note.fret
+    const midiValue = getMidiNote(note.string, note.fret, note.tuning, note.capo)
     const freq = midiToFrequency(midiValue)
 
     const osc = ctx.createOscillator()
@@ -236,7 +236,7 @@ export class SongAudioEngine {
 
     // Handle slides
     if ((technique === 'slide-up' || technique === 'slide-down') && note.targetFret !== undefined) {
-      const targetMidiValue = tuning.midi + note.targetFret
+      const targetMidiValue = getMidiNote(note.string, note.targetFret, note.tuning, note.capo)
       const targetFreq = midiToFrequency(targetMidiValue)
 
       osc.frequency.setValueAtTime(freq, startTime)
@@ -248,7 +248,7 @@ export class SongAudioEngine {
     }
     // Handle bends
     else if (technique === 'bend' && note.targetFret !== undefined) {
-      const targetMidiValue = tuning.midi + note.targetFret
+      const targetMidiValue = getMidiNote(note.string, note.targetFret, note.tuning, note.capo)
       const targetFreq = midiToFrequency(targetMidiValue)
 
       osc.frequency.setValueAtTime(freq, startTime)
@@ -335,8 +335,7 @@ export class SongAudioEngine {
       : this.riffGain
     if (!targetGain) return
 
-    const tuning = STRING_TUNINGS[note.string]
-    const baseMidiValue = tuning.midi // Open string
+    const baseMidiValue = getMidiNote(note.string, 0, note.tuning, note.capo) // Open string
 
     // Calculate harmonic frequency based on fret position
     // Natural harmonics: 12th fret = 2x, 7th fret = 3x, 5th fret = 4x
@@ -382,13 +381,13 @@ export class SongAudioEngine {
 
     riff.chordRiffs.forEach((chordRiff) => {
       // Schedule chord strum at the beginning of each measure
-      const chordShape = this.getChordShape(chordRiff.chordRoot, chordRiff.chordQuality)
-      if (chordShape) {
+      const chordNotes = getChordRiffVoicing(chordRiff)
+      if (chordNotes) {
         this.scheduledEvents.push({
           type: 'chord',
           trackId: '_legacy_chord',
           time: currentTime,
-          notes: chordShape.notesForAudio,
+          notes: chordNotes.map((note) => ({ ...note, tuning: riff.tuning, capo: riff.capo })),
           duration: secondsPerMeasure
         })
       }
@@ -406,7 +405,9 @@ export class SongAudioEngine {
             string: note.string,
             fret: note.fret,
             technique: note.technique,
-            targetFret: note.targetFret
+            targetFret: note.targetFret,
+            tuning: riff.tuning,
+            capo: riff.capo
           }],
           duration: noteDuration
         })
@@ -442,13 +443,13 @@ export class SongAudioEngine {
       track.riff.chordRiffs.forEach((chordRiff) => {
         if (track.type === 'chord') {
           // Schedule chord strums
-          const chordShape = this.getChordShape(chordRiff.chordRoot, chordRiff.chordQuality)
-          if (chordShape) {
+          const chordNotes = getChordRiffVoicing(chordRiff)
+          if (chordNotes) {
             this.scheduledEvents.push({
               type: 'chord',
               trackId: track.id,
               time: currentTime,
-              notes: chordShape.notesForAudio,
+              notes: chordNotes.map((note) => ({ ...note, tuning: track.riff.tuning, capo: track.riff.capo })),
               duration: secondsPerMeasure
             })
           }
@@ -466,7 +467,9 @@ export class SongAudioEngine {
                 string: note.string,
                 fret: note.fret,
                 technique: note.technique,
-                targetFret: note.targetFret
+                targetFret: note.targetFret,
+                tuning: track.riff.tuning,
+                capo: track.riff.capo
               }],
               duration: noteDuration
             })
@@ -509,15 +512,6 @@ export class SongAudioEngine {
     })
   }
 
-  /**
-   * Get a chord shape for a given root and quality
-   */
-  private getChordShape(root: NoteId, quality: ChordQuality): RuntimeChordShape | null {
-    const shapes = buildChordShapes(root, quality)
-    // Return the first shape (usually the most common voicing)
-    return shapes[0] || null
-  }
-
   /**
    * Set callback for beat updates
    */
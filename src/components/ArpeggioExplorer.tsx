@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { CapoSetting, ChordQuality, NoteId } from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
+import type { ArpeggioShapeKind, PickingStyle } from '../types/arpeggio'
+import type { AnimationSpeed, ChordProgression } from '../types/progression'
+import type { Track, TrackDraft } from '../types/songBuilder'
+import { SPEED_TO_BPM, TRACK_COLORS } from '../types/songBuilder'
+import { SongAudioEngine } from '../audio/songEngine'
+import { QUALITY_MAP } from '../data/chordQualities'
+import {
+  ARPEGGIO_SHAPE_LABELS,
+  PICKING_STYLE_LABELS,
+  createArpeggioProgression,
+  createArpeggioRiff,
+  formatArpeggioName,
+  generateArpeggioShapes,
+  getArpeggioNeck
+} from '../utils/arpeggioGenerator'
+import { formatChordName } from '../utils/chordUtils'
+import { riffToTabSheet } from '../utils/tabFormatter'
+import { ScaleNeck } from './ScaleNeck'
+import { TabDisplay } from './TabDisplay'
+
+interface Props {
+  root: NoteId
+  quality: ChordQuality
+  tuning: TuningDefinition // Shapes are laid out again when the tuning or capo changes
+  capo: CapoSetting
+  onSongBuilderSend: (progression: ChordProgression, root: NoteId, track: TrackDraft) => void
+}
+
+// Sweeps are picked as sweeps, everything else starts out alternate picked
+const DEFAULT_PICKING: Record<ArpeggioShapeKind, PickingStyle> = {
+  oneOctave: 'alternate',
+  twoOctave: 'alternate',
+  sweep: 'sweep',
+  caged: 'economy'
+}
+
+export function ArpeggioExplorer({ root, quality, tuning, capo, onSongBuilderSend }: Props) {
+  const [kind, setKind] = useState<ArpeggioShapeKind>('oneOctave')
+  const [shapeIndex, setShapeIndex] = useState(0)
+  const [picking, setPicking] = useState<PickingStyle>(DEFAULT_PICKING.oneOctave)
+  const [speed, setSpeed] = useState<AnimationSpeed>('slow')
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentMeasure, setCurrentMeasure] = useState(-1)
+  const [currentSubdivision, setCurrentSubdivision] = useState(-1)
+
+  const audioEngineRef = useRef<SongAudioEngine | null>(null)
+
+  const qualityDef = QUALITY_MAP[quality]
+  const chordName = formatChordName(root, quality)
+  const bpm = SPEED_TO_BPM[speed]
+
+  const shapes = useMemo(() => generateArpeggioShapes(root, quality, kind), [root, quality, kind, tuning, capo])
+  const neckNotes = useMemo(() => getArpeggioNeck(root, quality), [root, quality, tuning, capo])
+  const shape = shapes[shapeIndex] ?? shapes[0] ?? null
+  const riff = useMemo(
+    () => (shape ? createArpeggioRiff(root, quality, shape, picking, bpm) : null),
+    [root, quality, shape, picking, bpm]
+  )
+  const tabSheet = useMemo(() => (riff ? riffToTabSheet(riff) : null), [riff])
+
+  // Initialize audio engine
+  useEffect(() => {
+    if (!audioEngineRef.current) {
+      audioEngineRef.current = new SongAudioEngine()
+    }
+    audioEngineRef.current.onBeat((measure, subdivision) => {
+      setCurrentMeasure(measure)
+      setCurrentSubdivision(subdivision)
+    })
+    return () => {
+      audioEngineRef.current?.stop()
+    }
+  }, [])
+
+  // A different chord starts from its first shape
+  useEffect(() => {
+    setShapeIndex(0)
+  }, [root, quality, tuning, capo])
+
+  // Anything that changes the tab stops playback
+  useEffect(() => {
+    audioEngineRef.current?.stop()
+    setIsPlaying(false)
+    setCurrentMeasure(-1)
+    setCurrentSubdivision(-1)
+  }, [riff])
+
+  const handleKindChange = (nextKind: ArpeggioShapeKind) => {
+    setKind(nextKind)
+    setShapeIndex(0)
+    setPicking(DEFAULT_PICKING[nextKind])
+  }
+
+  const handlePlayStop = () => {
+    const engine = audioEngineRef.current
+    if (!engine || !riff || !tabSheet) {
+      return
+    }
+    if (isPlaying) {
+      engine.stop()
+      setIsPlaying(false)
+      setCurrentMeasure(-1)
+      setCurrentSubdivision(-1)
+      return
+    }
+    // One riff track, so only the arpeggio sounds, looping until stopped
+    const track: Track = {
+      id: 'arpeggio',
+      name: 'Arpeggio',
+      type: 'riff',
+      riff,
+      volume: 0.8,
+      isMuted: false,
+      isSoloed: false,
+      color: TRACK_COLORS[0]
+    }
+    engine.playAllTracks([track], tabSheet, bpm)
+    setIsPlaying(true)
+  }
+
+  const handleSend = () => {
+    if (!riff || !shape) {
+      return
+    }
+    onSongBuilderSend(createArpeggioProgression(quality, riff.chordRiffs.length), root, {
+      name: formatArpeggioName(root, quality, shape),
+      type: 'riff',
+      riff
+    })
+  }
+
+  return (
+    <section className="triad-explorer arpeggio-explorer">
+      <h2 className="triad-title">Arpeggio Explorer</h2>
+      <p className="triad-subtitle">
+        {chordName} arpeggios: {qualityDef.intervals.join(' ')}, played up and back down
+      </p>
+
+      <div className="drop-voicing-controls">
+        <div className="btn-group btn-group-tight">
+          {(Object.keys(ARPEGGIO_SHAPE_LABELS) as ArpeggioShapeKind[]).map((option) => (
+            <button
+              key={option}
+              className={`btn btn-sm ${kind === option ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => handleKindChange(option)}
+            >
+              {ARPEGGIO_SHAPE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        {shapes.length > 0 && (
+          <select
+            className="scale-select"
+            value={shapes.indexOf(shape)}
+            onChange={(e) => setShapeIndex(Number(e.target.value))}
+            aria-label="Arpeggio shape"
+          >
+            {shapes.map((option, index) => (
+              <option key={option.id} value={index}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {!shape || !tabSheet ? (
+        <p className="triad-empty-state">
+          No {ARPEGGIO_SHAPE_LABELS[kind].toLowerCase()} shapes of {chordName} fit this neck
+        </p>
+      ) : (
+        <>
+          <ScaleNeck
+            scaleNotes={shape.notes}
+            backgroundNotes={neckNotes}
+            primaryColor={qualityDef.color}
+            accentColor={qualityDef.accent}
+            scaleName={`${chordName} · ${shape.label}`}
+          />
+
+          <div className="drop-voicing-controls">
+            <span className="speed-label">Picking:</span>
+            <div className="btn-group btn-group-tight">
+              {(Object.keys(PICKING_STYLE_LABELS) as PickingStyle[]).map((option) => (
+                <button
+                  key={option}
+                  className={`btn btn-secondary btn-sm ${picking === option ? 'active' : ''}`}
+                  onClick={() => setPicking(option)}
+                >
+                  {PICKING_STYLE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+            <span className="speed-label">Speed:</span>
+            <div className="btn-group btn-group-tight">
+              {(Object.keys(SPEED_TO_BPM) as AnimationSpeed[]).map((option) => (
+                <button
+                  key={option}
+                  className={`btn btn-secondary btn-sm ${speed === option ? 'active' : ''}`}
+                  onClick={() => setSpeed(option)}
+                >
+                  {SPEED_TO_BPM[option]} BPM
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <TabDisplay tabSheet={tabSheet} currentMeasure={currentMeasure} currentSubdivision={currentSubdivision} />
+
+          <div className="btn-group" style={{ justifyContent: 'center' }}>
+            <button className="btn btn-primary" onClick={handlePlayStop}>
+              {isPlaying ? 'Stop' : 'Play'}
+            </button>
+            <button className="btn btn-secondary" onClick={handleSend}>
+              Send to Song Builder
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,33 @@
+import type { CapoSetting, GuitarString } from '../types/music'
+import type { NeckLayout } from '../utils/orientation'
+import { formatCapo } from '../utils/tuning'
+
+interface Props {
+  capo: CapoSetting
+  x: number // Nut position
+  labelY: number
+  labelX?: number // Defaults to the nut; the label is right-aligned when moved
+  positionForString: (stringId: GuitarString) => number
+  layout: NeckLayout // Keeps the label upright in any orientation
+  showBar?: boolean // False when the diagram starts above the nut; only the label is drawn
+}
+
+export function CapoBar({ capo, x, labelY, labelX, positionForString, layout, showBar = true }: Props) {
+  if (capo.fret === 0) {
+    return null
+  }
+  const ys = capo.strings.map(positionForString)
+  const top = Math.min(...ys)
+  const bottom = Math.max(...ys)
+
+  return (
+    <g pointerEvents="none">
+      {showBar && (
+        <rect x={x - 5} width={10} y={top - 12} height={bottom - top + 24} rx={5} className="capo-bar" />
+      )}
+      <text {...layout.label(labelX ?? x, labelY, 0, labelX === undefined ? 'start' : 'end')} className="capo-label">
+        {formatCapo(capo)}
+      </text>
+    </g>
+  )
+}
@@ -1,23 +1,62 @@
 import { useMemo, useState } from 'react'
-import type { GuitarString, NoteId } from '../types/music'
-import type { StringState, TuningDefinition } from '../types/analyzer'
-import { TUNING_PRESETS, TUNING_LIST } from '../data/tunings'
-import { NOTE_TO_INDEX, INDEX_TO_NOTE } from '../data/notes'
+import type { CapoSetting, ChordQuality, GuitarString, KeyMode, NoteId } from '../types/music'
+import type { ChordInterpretation, StringState, TuningDefinition } from '../types/analyzer'
+import type { ParsedChordSymbol } from '../types/chordSymbol'
+import type { ChordProgression, ProgressionChord } from '../types/progression'
+import { INDEX_TO_NOTE, NOTE_OPTIONS } from '../data/notes'
+import { type ChordAudioEngine, orderNotesForStrum } from '../audio/engine'
 import { analyzeChord } from '../utils/chordAnalyzer'
+import { formatChordName } from '../utils/chordUtils'
+import { getChordFunction } from '../utils/chordFunction'
+import { solveFingering } from '../utils/fingeringSolver'
+import { getChordSymbolBass, getChordSymbolNotes, parseChordSymbol } from '../utils/chordSymbolParser'
+import { formatSpelledNote, spellKeyTonic } from '../utils/noteSpelling'
+import { detectKeyFromNotes } from '../utils/keyDetection'
+import { createCustomProgression } from '../utils/progressionLibrary'
+import { generateVoicings } from '../utils/voicingGenerator'
+import { getMidiNote, getStrings } from '../utils/tuning'
 import { InteractiveFretboard } from './InteractiveFretboard'
+import { ChordSymbolInput } from './ChordSymbolInput'
+import { TuningOptions } from './TuningOptions'
 
-const STRINGS: GuitarString[] = [6, 5, 4, 3, 2, 1]
+const createMutedStrings = (tuning: TuningDefinition) =>
+  Object.fromEntries(getStrings(tuning).map((stringNum) => [stringNum, 'muted'])) as Record<
+    GuitarString,
+    StringState
+  >
 
-export function ChordAnalyzer() {
-  const [tuning, setTuning] = useState<TuningDefinition>(TUNING_PRESETS.standard)
-  const [stringStates, setStringStates] = useState<Record<GuitarString, StringState>>({
-    6: 'muted',
-    5: 'muted',
-    4: 'muted',
-    3: 'muted',
-    2: 'muted',
-    1: 'muted'
-  })
+// Voicings played when listening to an interpretation
+const LISTEN_VOICINGS = 3
+
+interface FunctionKey {
+  tonic: NoteId
+  keyMode: KeyMode
+}
+
+// Until a key is picked or the notes suggest one
+const DEFAULT_KEY: FunctionKey = { tonic: 'C', keyMode: 'major' }
+
+// A chord added to the progression, with the name it was analyzed as
+interface ChainedChord {
+  chord: ProgressionChord
+  name: string
+}
+
+interface Props {
+  tuning: TuningDefinition
+  capo: CapoSetting // Clicked frets count from the capo
+  onTuningChange: (tuningId: string) => void // Changes the tuning for the whole app
+  audioEngine: ChordAudioEngine | null
+  // Shows the chord's shapes; a symbol keeps the extensions and bass of the name
+  onChordOpen: (root: NoteId, quality: ChordQuality, symbol?: ParsedChordSymbol) => void
+  onProgressionOpen: (progression: ChordProgression, root: NoteId) => void // Shows it in the progression viewer
+}
+
+export function ChordAnalyzer({ tuning, capo, onTuningChange, audioEngine, onChordOpen, onProgressionOpen }: Props) {
+  const [stringStates, setStringStates] = useState(() => createMutedStrings(tuning))
+  const [namedChord, setNamedChord] = useState<ParsedChordSymbol | null>(null)
+  const [chosenKey, setChosenKey] = useState<FunctionKey | null>(null)
+  const [chain, setChain] = useState<ChainedChord[]>([])
 
   const handleStringStateChange = (string: GuitarString, state: StringState) => {
     setStringStates((prev) => ({
@@ -26,47 +65,39 @@ export function ChordAnalyzer() {
     }))
   }
 
-  const handleTuningChange = (tuningId: string) => {
-    const newTuning = TUNING_LIST.find((t) => t.id === tuningId)
-    if (newTuning) {
-      setTuning(newTuning)
-    }
-  }
-
   const handleClear = () => {
-    setStringStates({
-      6: 'muted',
-      5: 'muted',
-      4: 'muted',
-      3: 'muted',
-      2: 'muted',
-      1: 'muted'
-    })
+    setStringStates(createMutedStrings(tuning))
   }
 
-  // Calculate notes from string states
+  // Calculate notes from string states, lowest pitch first so the analyzer hears the real
+  // bass even when a string is tuned above the one below it (ukulele, Nashville)
   const selectedNotes = useMemo(() => {
-    const notes: NoteId[] = []
+    const pitches: number[] = []
 
-    STRINGS.forEach((stringNum, index) => {
+    getStrings(tuning).forEach((stringNum) => {
       const state = stringStates[stringNum]
 
       if (state === 'muted') return
 
-      const openNote = tuning.notes[index]
-      const openSemitone = NOTE_TO_INDEX[openNote]
-
-      if (state === 'open') {
-        notes.push(openNote)
-      } else if (typeof state === 'number') {
-        const targetSemitone = (openSemitone + state) % 12
-        const note = INDEX_TO_NOTE[targetSemitone]
-        notes.push(note)
-      }
+      const fret = state === 'open' ? 0 : state
+      pitches.push(getMidiNote(stringNum, fret, tuning, capo))
     })
 
-    return notes
-  }, [stringStates, tuning])
+    return pitches.sort((a, b) => a - b).map((midi): NoteId => INDEX_TO_NOTE[midi % 12])
+  }, [stringStates, tuning, capo])
+
+  // Fingers for the selected grip
+  const fingering = useMemo(
+    () =>
+      solveFingering(
+        getStrings(tuning).flatMap((stringNum) => {
+          const state = stringStates[stringNum]
+          if (state === 'muted') return []
+          return [{ string: stringNum, fret: state === 'open' ? 0 : state }]
+        })
+      ),
+    [stringStates, tuning]
+  )
 
   // Analyze the chord
   const analysis = useMemo(() => {
@@ -75,6 +106,81 @@ export function ChordAnalyzer() {
 
   const hasNotes = analysis.noteCount > 0
 
+  // Keys the picked notes could belong to, once there are enough of them to tell
+  const keyCandidates = useMemo(
+    () => (new Set(selectedNotes).size >= 3 ? detectKeyFromNotes(selectedNotes, selectedNotes[0], 3) : []),
+    [selectedNotes]
+  )
+
+  // Functions are read in the key picked here, or else the likeliest key of the notes
+  const likeliestKey = keyCandidates[0]
+  const functionKey: FunctionKey =
+    chosenKey ?? (likeliestKey ? { tonic: likeliestKey.tonic, keyMode: likeliestKey.keyMode } : DEFAULT_KEY)
+  const functionKeyName = `${formatSpelledNote(spellKeyTonic(functionKey.tonic, functionKey.keyMode))} ${
+    functionKey.keyMode
+  }`
+
+  // A progression belongs to one key, so it starts over when the key changes
+  const handleKeyChange = (key: FunctionKey) => {
+    setChosenKey(key)
+    setChain([])
+  }
+
+  // Rootless readings are played with their root; other slash names keep their bass
+  const bassOf = (chord: ChordInterpretation) => (chord.omitted?.includes('R') ? undefined : chord.bassNote)
+
+  // Listening, function and the progression use the built-in quality, which may only approximate the notes
+  const approximationOf = (chord: ChordInterpretation) =>
+    chord.libraryQuality && !chord.libraryExact
+      ? formatChordName(chord.root, chord.libraryQuality, chord.rootName)
+      : null
+
+  const functionOf = (chord: ChordInterpretation) =>
+    chord.libraryQuality
+      ? getChordFunction(chord.root, chord.libraryQuality, functionKey.tonic, functionKey.keyMode, bassOf(chord))
+      : null
+
+  // The explorer takes the name itself when it reads as a chord symbol (not "D over C")
+  const handleOpen = (chord: ChordInterpretation) => {
+    if (!chord.libraryQuality) return
+    const parsed = parseChordSymbol(chord.fullName)
+    onChordOpen(chord.root, chord.libraryQuality, parsed.ok ? parsed.chord : undefined)
+  }
+
+  const handleListen = (chord: ChordInterpretation) => {
+    if (!audioEngine || !chord.libraryQuality) return
+    const voicings = generateVoicings(chord.root, chord.libraryQuality, {
+      tuning,
+      bass: bassOf(chord),
+      limit: LISTEN_VOICINGS
+    })
+    audioEngine.playChords(voicings.map((voicing) => orderNotesForStrum(voicing.notesForAudio)))
+  }
+
+  // The key is fixed by the first chord added, so later notes can't move it
+  const handleAdd = (chord: ChordInterpretation) => {
+    const chordFunction = functionOf(chord)
+    if (!chordFunction) return
+    setChosenKey(functionKey)
+    setChain((prev) => [...prev, { chord: chordFunction.chord, name: chord.fullName }])
+  }
+
+  const handleProgressionOpen = () => {
+    const name = chain.map((entry) => entry.name).join(' - ')
+    const source = chain.map((entry) => entry.chord.degree).join(' - ')
+    onProgressionOpen(
+      createCustomProgression(name, source, chain.map((entry) => entry.chord)),
+      functionKey.tonic
+    )
+  }
+
+  // Notes of a typed chord name, bass first so the analyzer sees any inversion
+  const namedChordNotes = useMemo(() => (namedChord ? getChordSymbolNotes(namedChord) : []), [namedChord])
+  const namedChordAnalysis = useMemo(() => {
+    if (!namedChord) return null
+    return analyzeChord([getChordSymbolBass(namedChord), ...namedChordNotes.map((note) => note.note)])
+  }, [namedChord, namedChordNotes])
+
   return (
     <section className="chord-analyzer-section">
       <h2 className="analyzer-title">Chord Analyzer</h2>
@@ -88,28 +194,69 @@ export function ChordAnalyzer() {
             <select
               className="analyzer-select"
               value={tuning.id}
-              onChange={(e) => handleTuningChange(e.target.value)}
+              onChange={(e) => onTuningChange(e.target.value)}
             >
-              {TUNING_LIST.map((t) => (
-                <option key={t.id} value={t.id}>
-                  {t.name}
-                </option>
-              ))}
+              <TuningOptions />
             </select>
           </div>
 
           <button className="btn btn-primary" onClick={handleClear}>
             Clear All
           </button>
+
+          <div className="analyzer-control-group">
+            <ChordSymbolInput
+              id="analyzer-chord-symbol"
+              label="What notes are in…"
+              placeholder="e.g. E7#9"
+              submitLabel="Show notes"
+              onSubmit={setNamedChord}
+            />
+          </div>
         </div>
 
+        {namedChord && namedChordAnalysis && (
+          <div className="analyzer-chord-results analyzer-named-chord">
+            <h3 className="analyzer-section-title">Notes in {namedChord.symbol}:</h3>
+            <div className="analyzer-note-badges">
+              {namedChordNotes.map((note) => (
+                <span key={note.interval} className="analyzer-note-badge">
+                  {note.name}
+                  <span className="analyzer-note-interval">{note.interval}</span>
+                </span>
+              ))}
+            </div>
+            {namedChord.bass && (
+              <p className="chord-card-bass">
+                Bass note: <strong>{formatSpelledNote(namedChord.bass)}</strong>
+              </p>
+            )}
+            {namedChordAnalysis.possibleChords[0] && (
+              <p className="chord-card-explanation">
+                The analyzer reads these notes as {namedChordAnalysis.possibleChords[0].fullName}
+              </p>
+            )}
+            <button className="btn btn-ghost" onClick={() => setNamedChord(null)}>
+              Hide
+            </button>
+          </div>
+        )}
+
         {/* Interactive Fretboard */}
         <InteractiveFretboard
           tuning={tuning}
           stringStates={stringStates}
           onStringStateChange={handleStringStateChange}
+          fingering={fingering}
+          capo={capo}
         />
 
+        {!fingering.playable && (
+          <p className="analyzer-fingering-warning">
+            This grip can't be fingered: {fingering.problem?.toLowerCase()}.
+          </p>
+        )}
+
         {/* Analysis Results */}
         <div className="analyzer-results">
           {!hasNotes && (
@@ -130,7 +277,7 @@ export function ChordAnalyzer() {
               <div className="analyzer-notes-display">
                 <h3 className="analyzer-section-title">Selected Notes:</h3>
                 <div className="analyzer-note-badges">
-                  {analysis.uniqueNotes.map((note, index) => (
+                  {analysis.uniqueNoteNames.map((note, index) => (
                     <span key={index} className="analyzer-note-badge">
                       {note}
                     </span>
@@ -146,6 +293,35 @@ export function ChordAnalyzer() {
                       : 'Possible Chords:'}
                   </h3>
 
+                  <div className="analyzer-key-controls">
+                    <label className="analyzer-label" htmlFor="analyzer-function-key">
+                      Function in:
+                    </label>
+                    <select
+                      id="analyzer-function-key"
+                      className="analyzer-select"
+                      value={functionKey.tonic}
+                      onChange={(e) => handleKeyChange({ ...functionKey, tonic: e.target.value as NoteId })}
+                    >
+                      {NOTE_OPTIONS.map((note) => (
+                        <option key={note.id} value={note.id}>
+                          {note.label}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="btn-group">
+                      {(['major', 'minor'] as KeyMode[]).map((keyMode) => (
+                        <button
+                          key={keyMode}
+                          className={`btn btn-sm ${functionKey.keyMode === keyMode ? 'btn-primary' : 'btn-secondary'}`}
+                          onClick={() => handleKeyChange({ ...functionKey, keyMode })}
+                        >
+                          {keyMode === 'major' ? 'Major' : 'Minor'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
                   <div className="analyzer-chord-list">
                     {analysis.possibleChords.slice(0, 5).map((chord, index) => (
                       <div
@@ -174,18 +350,107 @@ export function ChordAnalyzer() {
                           ))}
                         </div>
 
+                        {chord.unexplained && (
+                          <div className="chord-card-intervals">
+                            <span className="chord-card-label">Not explained:</span>
+                            {chord.unexplained.map((note) => (
+                              <span key={note} className="chord-interval-badge unexplained">
+                                {note}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+
                         {chord.bassNote && chord.bassNote !== chord.root && (
                           <p className="chord-card-bass">
-                            Bass note: <strong>{chord.bassNote}</strong>
+                            Bass note: <strong>{chord.bassName ?? chord.bassNote}</strong>
                           </p>
                         )}
+
+                        {chord.libraryQuality && (
+                          <>
+                            {approximationOf(chord) && (
+                              <p className="chord-card-approximate">
+                                No built-in chord has exactly these notes: listening, function and the progression
+                                use the nearest, <strong>{approximationOf(chord)}</strong>
+                              </p>
+                            )}
+                            <p className="chord-card-function">
+                              Function{approximationOf(chord) && ' (approx.)'}:{' '}
+                              <strong>{functionOf(chord)?.label}</strong>
+                            </p>
+                            <div className="btn-group chord-card-actions">
+                              <button className="btn btn-secondary btn-sm" onClick={() => handleOpen(chord)}>
+                                Show voicings
+                              </button>
+                              <button
+                                className="btn btn-secondary btn-sm"
+                                onClick={() => handleListen(chord)}
+                                disabled={!audioEngine}
+                              >
+                                {approximationOf(chord) ? `Listen to ${approximationOf(chord)}` : 'Listen'}
+                              </button>
+                              <button className="btn btn-secondary btn-sm" onClick={() => handleAdd(chord)}>
+                                {approximationOf(chord) ? `+ Add ${approximationOf(chord)}` : '+ Add to progression'}
+                              </button>
+                            </div>
+                          </>
+                        )}
                       </div>
                     ))}
                   </div>
                 </div>
               )}
+
+              {keyCandidates.length > 0 && (
+                <div className="analyzer-notes-display">
+                  <h3 className="analyzer-section-title">Likely Keys:</h3>
+                  <div className="analyzer-note-badges">
+                    {keyCandidates.map((key) => (
+                      <button
+                        key={`${key.tonic}-${key.mode}`}
+                        className="analyzer-note-badge analyzer-key-badge"
+                        onClick={() => handleKeyChange({ tonic: key.tonic, keyMode: key.keyMode })}
+                        title="Read chord functions in this key"
+                      >
+                        {key.name} · {Math.round(key.confidence * 100)}%
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </>
           )}
+
+          {chain.length > 0 && (
+            <div className="analyzer-chain">
+              <h3 className="analyzer-section-title">Progression in {functionKeyName}:</h3>
+              <ol className="harmonizer-chain-list">
+                {chain.map((entry, index) => (
+                  <li key={index} className="harmonizer-chain-item">
+                    <span className="harmonizer-degree">{entry.chord.degree}</span>
+                    <span>{entry.name}</span>
+                    <button
+                      type="button"
+                      className="btn btn-icon"
+                      onClick={() => setChain((prev) => prev.filter((_, i) => i !== index))}
+                      aria-label={`Remove ${entry.name}`}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ol>
+              <div className="btn-group">
+                <button className="btn btn-secondary" onClick={() => setChain([])}>
+                  Clear
+                </button>
+                <button className="btn btn-primary" onClick={handleProgressionOpen}>
+                  Open in Chord Progressions
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </section>
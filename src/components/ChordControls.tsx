@@ -1,4 +1,20 @@
-import type { ChordQuality, ChordQualityDefinition, NoteId, NoteOption } from '../types/music'
+import type {
+  CapoSetting,
+  ChordQuality,
+  ChordQualityDefinition,
+  FretboardOrientation,
+  FretboardView,
+  GuitarString,
+  NoteId,
+  NoteOption
+} from '../types/music'
+import type { ParsedChordSymbol } from '../types/chordSymbol'
+import { getChordSymbolNotes, getChordSymbolQuality } from '../utils/chordSymbolParser'
+import { QUALITY_MAP } from '../data/chordQualities'
+import { VOICING_WINDOWS } from '../data/voicings'
+import { getActiveTuning, getInstrument, getStrings, MAX_CAPO_FRET } from '../utils/tuning'
+import { ChordSymbolInput } from './ChordSymbolInput'
+import { TuningOptions } from './TuningOptions'
 
 interface Props {
   root: NoteId
@@ -7,19 +23,51 @@ interface Props {
   chordQualities: ChordQualityDefinition[]
   onRootChange: (note: NoteId) => void
   onQualityChange: (quality: ChordQuality) => void
+  typedChord: ParsedChordSymbol | null
+  onChordSymbolSubmit: (chord: ParsedChordSymbol) => void
+  voicingWindowId: string | null // null shows the classic CAGED shapes
+  onVoicingWindowChange: (windowId: string | null) => void
+  tuningId: string
+  onTuningChange: (tuningId: string) => void
+  onTuningEdit: () => void // Opens the tuning editor on the current tuning
+  capo: CapoSetting
+  onCapoChange: (capo: CapoSetting) => void
+  orientation: FretboardOrientation
+  onOrientationChange: (orientation: FretboardOrientation) => void
 }
 
+const CAPO_FRETS = Array.from({ length: MAX_CAPO_FRET }, (_, index) => index + 1)
+
+const VIEW_OPTIONS: Array<{ id: FretboardView; label: string }> = [
+  { id: 'player', label: "Player's view" },
+  { id: 'chordBox', label: 'Chord box' },
+  { id: 'audience', label: 'Audience view' }
+]
+
 export function ChordControls({
   root,
   quality,
   noteOptions,
   chordQualities,
   onRootChange,
-  onQualityChange
+  onQualityChange,
+  typedChord,
+  onChordSymbolSubmit,
+  voicingWindowId,
+  onVoicingWindowChange,
+  tuningId,
+  onTuningChange,
+  onTuningEdit,
+  capo,
+  onCapoChange,
+  orientation,
+  onOrientationChange
 }: Props) {
   const currentRootIndex = noteOptions.findIndex((n) => n.id === root)
   const currentQualityIndex = chordQualities.findIndex((q) => q.id === quality)
 
+  const typedMatch = typedChord ? getChordSymbolQuality(typedChord) : null
+
   const handleNextRoot = () => {
     const nextIndex = (currentRootIndex + 1) % noteOptions.length
     onRootChange(noteOptions[nextIndex].id)
@@ -40,6 +88,16 @@ export function ChordControls({
     onQualityChange(chordQualities[prevIndex].id)
   }
 
+  // A partial capo keeps at least one string under it
+  const handleCapoStringToggle = (stringId: GuitarString) => {
+    const covered = capo.strings.includes(stringId)
+    if (covered && capo.strings.length === 1) return
+    const strings = covered
+      ? capo.strings.filter((other) => other !== stringId)
+      : getStrings().filter((other) => other === stringId || capo.strings.includes(other))
+    onCapoChange({ ...capo, strings })
+  }
+
   return (
     <section className="control-panel">
       <div className="control">
@@ -106,6 +164,124 @@ export function ChordControls({
           </button>
         </div>
       </div>
+      <div className="control">
+        <label htmlFor="voicing-select">Shapes</label>
+        <select
+          id="voicing-select"
+          value={voicingWindowId ?? 'classic'}
+          onChange={(event) =>
+            onVoicingWindowChange(event.target.value === 'classic' ? null : event.target.value)
+          }
+        >
+          <option value="classic">
+            {getInstrument(getActiveTuning()).chordShapes ? 'Classic shapes' : 'Easiest voicings'}
+          </option>
+          <optgroup label="All voicings">
+            {VOICING_WINDOWS.map((range) => (
+              <option key={range.id} value={range.id}>
+                {range.label}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+      <div className="control">
+        <label htmlFor="tuning-select">Tuning</label>
+        <div className="control-row">
+          <select
+            id="tuning-select"
+            value={tuningId}
+            onChange={(event) => onTuningChange(event.target.value)}
+          >
+            <TuningOptions />
+          </select>
+          <button type="button" className="btn btn-secondary btn-sm" onClick={onTuningEdit}>
+            Edit…
+          </button>
+        </div>
+      </div>
+      <div className="control">
+        <label htmlFor="capo-select">Capo</label>
+        <select
+          id="capo-select"
+          value={capo.fret}
+          onChange={(event) => onCapoChange({ ...capo, fret: Number(event.target.value) })}
+        >
+          <option value={0}>No capo</option>
+          {CAPO_FRETS.map((fret) => (
+            <option key={fret} value={fret}>
+              Fret {fret}
+            </option>
+          ))}
+        </select>
+        {capo.fret > 0 && (
+          <div className="capo-strings" role="group" aria-label="Strings under the capo">
+            {getStrings().map((stringId) => (
+              <button
+                key={stringId}
+                type="button"
+                className={`btn btn-secondary btn-sm ${capo.strings.includes(stringId) ? 'active' : ''}`}
+                onClick={() => handleCapoStringToggle(stringId)}
+                aria-pressed={capo.strings.includes(stringId)}
+                title={`String ${stringId}`}
+              >
+                {stringId}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="control">
+        <label htmlFor="view-select">Diagrams</label>
+        <div className="control-row">
+          <select
+            id="view-select"
+            value={orientation.view}
+            onChange={(event) => onOrientationChange({ ...orientation, view: event.target.value as FretboardView })}
+          >
+            {VIEW_OPTIONS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className={`btn btn-secondary btn-sm ${orientation.handedness === 'left' ? 'active' : ''}`}
+            onClick={() =>
+              onOrientationChange({
+                ...orientation,
+                handedness: orientation.handedness === 'left' ? 'right' : 'left'
+              })
+            }
+            aria-pressed={orientation.handedness === 'left'}
+          >
+            Left-handed
+          </button>
+        </div>
+      </div>
+      <div className="control">
+        <ChordSymbolInput
+          id="chord-symbol-input"
+          label="Or type a chord"
+          onSubmit={onChordSymbolSubmit}
+        />
+      </div>
+      {typedChord && typedMatch && (
+        <p className="chord-symbol-summary">
+          <strong>{typedChord.symbol}</strong>
+          {' = '}
+          {getChordSymbolNotes(typedChord)
+            .map((note) => note.name)
+            .join(' ')}
+          {!typedMatch.exact && (
+            <span className="chord-symbol-approx">
+              {' '}
+              · showing the closest shapes ({QUALITY_MAP[typedMatch.quality].label})
+            </span>
+          )}
+        </p>
+      )}
     </section>
   )
 }
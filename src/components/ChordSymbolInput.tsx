@@ -0,0 +1,58 @@
+import { useState } from 'react'
+import type { ParsedChordSymbol } from '../types/chordSymbol'
+import { parseChordSymbol } from '../utils/chordSymbolParser'
+
+interface Props {
+  id: string
+  label: string
+  placeholder?: string
+  submitLabel?: string
+  onSubmit: (chord: ParsedChordSymbol) => void
+}
+
+export function ChordSymbolInput({
+  id,
+  label,
+  placeholder = 'e.g. F#m7b5/C',
+  submitLabel = 'Go',
+  onSubmit
+}: Props) {
+  const [text, setText] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const result = parseChordSymbol(text)
+    if (!result.ok) {
+      setError(result.error)
+      return
+    }
+    setError(null)
+    onSubmit(result.chord)
+  }
+
+  return (
+    <form className="chord-symbol-input" onSubmit={handleSubmit}>
+      <label htmlFor={id}>{label}</label>
+      <div className="chord-symbol-row">
+        <input
+          id={id}
+          type="text"
+          className={`chord-symbol-field ${error ? 'invalid' : ''}`}
+          value={text}
+          placeholder={placeholder}
+          autoComplete="off"
+          spellCheck={false}
+          onChange={(event) => {
+            setText(event.target.value)
+            setError(null)
+          }}
+        />
+        <button type="submit" className="btn btn-secondary">
+          {submitLabel}
+        </button>
+      </div>
+      {error && <p className="chord-symbol-error">{error}</p>}
+    </form>
+  )
+}
@@ -1,32 +1,55 @@
-import type { ChordQuality, NoteId } from '../types/music'
+import { useState } from 'react'
+import type { ChordQuality, KeyMode, NoteId } from '../types/music'
+import type { CircleKey, HarmonicFunction, TransposedChord } from '../types/progression'
+import { formatSpelledNote, getKeySignature, spellKeyTonic } from '../utils/noteSpelling'
+import {
+  findPivotChords,
+  formatKeyName,
+  getChordCircleSlot,
+  getCircleDistance,
+  getCircleIndex,
+  getDiatonicTriads,
+  getKeySignatureNotes,
+  getRelativeMinor
+} from '../utils/circleOfFifths'
+import { formatChordName } from '../utils/chordUtils'
+import { MAJOR_FAMILY_QUALITIES } from '../data/chordQualities'
+import { CIRCLE_OF_FIFTHS } from '../data/notes'
 
 interface Props {
   currentRoot: NoteId
   currentQuality: ChordQuality
   onRootChange: (note: NoteId) => void
   onQualityChange: (quality: ChordQuality) => void
+  progressionChords?: TransposedChord[] // Drawn as a path of arrows round the circle
+  progressionChordIndex?: number // The chord playing now, whose arrow is lit
 }
 
-// Circle of fifths order (clockwise)
-const CIRCLE_NOTES: NoteId[] = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'A#', 'F']
-
-// Relative minor for each major key
-const RELATIVE_MINORS: Record<NoteId, NoteId> = {
-  'C': 'A',
-  'G': 'E',
-  'D': 'B',
-  'A': 'F#',
-  'E': 'C#',
-  'B': 'G#',
-  'F#': 'D#',
-  'C#': 'A#',
-  'G#': 'F',
-  'D#': 'C',
-  'A#': 'G',
-  'F': 'D'
+// Every key the modulation picker offers, majors then minors round the circle
+const KEY_OPTIONS: CircleKey[] = (['major', 'minor'] as KeyMode[]).flatMap((mode) =>
+  CIRCLE_OF_FIFTHS.map((note) => ({ tonic: mode === 'minor' ? getRelativeMinor(note) : note, mode }))
+)
+
+const formatKeyId = (key: CircleKey) => `${key.tonic}:${key.mode}`
+
+const formatSignature = (count: number) => (count === 0 ? '0' : `${Math.abs(count)}${count > 0 ? '♯' : '♭'}`)
+
+const FUNCTION_LABELS: Record<HarmonicFunction, string> = {
+  tonic: 'a place to rest',
+  subdominant: 'sets up the dominant',
+  dominant: 'pulls home'
 }
 
-export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQualityChange }: Props) {
+export function CircleOfFifths({
+  currentRoot,
+  currentQuality,
+  onRootChange,
+  onQualityChange,
+  progressionChords = [],
+  progressionChordIndex
+}: Props) {
+  const [targetKeyId, setTargetKeyId] = useState('')
+
   const centerX = 250
   const centerY = 250
   const outerRadius = 180
@@ -34,7 +57,29 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
   const labelRadius = 155
   const innerLabelRadius = 95
 
-  const isMajorQuality = ['major', 'major7', 'dominant7', 'add9', 'augmented'].includes(currentQuality)
+  const isMajorQuality = MAJOR_FAMILY_QUALITIES.includes(currentQuality)
+  const currentKey: CircleKey = { tonic: currentRoot, mode: isMajorQuality ? 'major' : 'minor' }
+  const targetKey = KEY_OPTIONS.find((key) => formatKeyId(key) === targetKeyId) ?? null
+
+  const signatureNotes = getKeySignatureNotes(currentKey)
+  const diatonicChords = getDiatonicTriads(currentKey)
+  const pivotChords = targetKey ? findPivotChords(currentKey, targetKey) : []
+
+  // Numerals of the key's chords, keyed by ring and slot
+  const numerals = new Map<string, string>(
+    diatonicChords.flatMap((chord) => {
+      if (!chord.quality) {
+        return []
+      }
+      const slot = getChordCircleSlot(chord.root, chord.quality)
+      return [[`${slot.ring}-${slot.index}`, chord.degree] as const]
+    })
+  )
+  const targetSlot = targetKey
+    ? `${targetKey.mode === 'minor' ? 'inner' : 'outer'}-${getCircleIndex(targetKey.tonic, targetKey.mode)}`
+    : null
+  const segmentClasses = (slot: string) =>
+    `${numerals.has(slot) ? 'diatonic' : ''} ${slot === targetSlot ? 'target' : ''}`
 
   const angleStep = (2 * Math.PI) / 12
   const startAngle = -Math.PI / 2 // Start at top
@@ -47,6 +92,46 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
     }
   }
 
+  // Where a chord sits: on its ring, at the label
+  const getChordPoint = (chord: TransposedChord) => {
+    const slot = getChordCircleSlot(chord.note, chord.quality)
+    return getPosition(slot.index, slot.ring === 'outer' ? labelRadius : innerLabelRadius)
+  }
+
+  // One arrow per chord change, bowed towards the middle and stopped short of the labels
+  const progressionArrows = progressionChords.flatMap((chord, index) => {
+    if (index === 0) {
+      return []
+    }
+    const from = getChordPoint(progressionChords[index - 1])
+    const to = getChordPoint(chord)
+    const length = Math.hypot(to.x - from.x, to.y - from.y)
+    if (length === 0) {
+      return []
+    }
+    const trim = Math.min(16, length / 3)
+    const start = { x: from.x + ((to.x - from.x) * trim) / length, y: from.y + ((to.y - from.y) * trim) / length }
+    const end = { x: to.x - ((to.x - from.x) * trim) / length, y: to.y - ((to.y - from.y) * trim) / length }
+    const control = {
+      x: centerX + ((from.x + to.x) / 2 - centerX) * 0.5,
+      y: centerY + ((from.y + to.y) / 2 - centerY) * 0.5
+    }
+    return [
+      {
+        index,
+        path: `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`
+      }
+    ]
+  })
+
+  const describeDistance = (steps: number) => {
+    if (steps === 0) {
+      return 'shares its key signature'
+    }
+    const direction = steps > 0 ? 'clockwise, towards the sharps' : 'anticlockwise, towards the flats'
+    return `is ${Math.abs(steps)} ${Math.abs(steps) === 1 ? 'step' : 'steps'} ${direction}`
+  }
+
   const handleMajorClick = (note: NoteId) => {
     onRootChange(note)
     if (!isMajorQuality) {
@@ -107,7 +192,7 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
           <circle cx={centerX} cy={centerY} r={outerRadius + 20} className="circle-bg" />
 
           {/* Draw segments for major keys (outer ring) */}
-          {CIRCLE_NOTES.map((note, index) => {
+          {CIRCLE_OF_FIFTHS.map((note, index) => {
             const angle1 = startAngle + index * angleStep - angleStep / 2
             const angle2 = startAngle + index * angleStep + angleStep / 2
 
@@ -129,6 +214,7 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
             }
 
             const isActive = note === currentRoot && isMajorQuality
+            const slotClasses = segmentClasses(`outer-${index}`)
             const pathData = `
               M ${outer1.x} ${outer1.y}
               A ${outerRadius} ${outerRadius} 0 0 1 ${outer2.x} ${outer2.y}
@@ -141,7 +227,7 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
               <g key={`major-${note}`}>
                 <path
                   d={pathData}
-                  className={`circle-segment major-segment ${isActive ? 'active' : ''}`}
+                  className={`circle-segment major-segment ${isActive ? 'active' : ''} ${slotClasses}`}
                   onClick={() => handleMajorClick(note)}
                 />
               </g>
@@ -149,8 +235,8 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
           })}
 
           {/* Draw segments for minor keys (inner ring) */}
-          {CIRCLE_NOTES.map((majorNote, index) => {
-            const minorNote = RELATIVE_MINORS[majorNote]
+          {CIRCLE_OF_FIFTHS.map((majorNote, index) => {
+            const minorNote = getRelativeMinor(majorNote)
             const angle1 = startAngle + index * angleStep - angleStep / 2
             const angle2 = startAngle + index * angleStep + angleStep / 2
 
@@ -172,6 +258,7 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
             }
 
             const isActive = minorNote === currentRoot && !isMajorQuality
+            const slotClasses = segmentClasses(`inner-${index}`)
             const pathData = `
               M ${inner1.x} ${inner1.y}
               A ${innerRadius} ${innerRadius} 0 0 1 ${inner2.x} ${inner2.y}
@@ -184,7 +271,7 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
               <g key={`minor-${minorNote}`}>
                 <path
                   d={pathData}
-                  className={`circle-segment minor-segment ${isActive ? 'active' : ''}`}
+                  className={`circle-segment minor-segment ${isActive ? 'active' : ''} ${slotClasses}`}
                   onClick={() => handleMinorClick(minorNote)}
                 />
               </g>
@@ -192,7 +279,7 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
           })}
 
           {/* Labels for major keys */}
-          {CIRCLE_NOTES.map((note, index) => {
+          {CIRCLE_OF_FIFTHS.map((note, index) => {
             const pos = getPosition(index, labelRadius)
             const isActive = note === currentRoot && isMajorQuality
             return (
@@ -205,14 +292,14 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
                 dominantBaseline="middle"
                 onClick={() => handleMajorClick(note)}
               >
-                {note}
+                {formatSpelledNote(spellKeyTonic(note, 'major'))}
               </text>
             )
           })}
 
           {/* Labels for minor keys */}
-          {CIRCLE_NOTES.map((majorNote, index) => {
-            const minorNote = RELATIVE_MINORS[majorNote]
+          {CIRCLE_OF_FIFTHS.map((majorNote, index) => {
+            const minorNote = getRelativeMinor(majorNote)
             const pos = getPosition(index, innerLabelRadius)
             const isActive = minorNote === currentRoot && !isMajorQuality
             return (
@@ -225,11 +312,69 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
                 dominantBaseline="middle"
                 onClick={() => handleMinorClick(minorNote)}
               >
-                {minorNote}m
+                {formatSpelledNote(spellKeyTonic(minorNote, 'minor'))}m
+              </text>
+            )
+          })}
+
+          {/* Roman numerals of the selected key's chords, under their names */}
+          {[...numerals].map(([slot, degree]) => {
+            const [ring, index] = slot.split('-')
+            const pos = getPosition(Number(index), ring === 'outer' ? labelRadius : innerLabelRadius)
+            return (
+              <text
+                key={`numeral-${slot}`}
+                x={pos.x}
+                y={pos.y + 15}
+                className="circle-numeral"
+                textAnchor="middle"
+                dominantBaseline="middle"
+              >
+                {degree}
               </text>
             )
           })}
 
+          {/* Key signatures round the rim, shared by each major key and its relative minor */}
+          {CIRCLE_OF_FIFTHS.map((note, index) => {
+            const pos = getPosition(index, outerRadius + 11)
+            return (
+              <text
+                key={`signature-${note}`}
+                x={pos.x}
+                y={pos.y}
+                className="circle-signature"
+                textAnchor="middle"
+                dominantBaseline="middle"
+              >
+                {formatSignature(getKeySignature(spellKeyTonic(note, 'major'), 'major'))}
+              </text>
+            )
+          })}
+
+          {/* The progression's path, one arrow per chord change */}
+          <defs>
+            <marker
+              id="circle-arrowhead"
+              viewBox="0 0 10 10"
+              refX="8"
+              refY="5"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" className="circle-arrowhead" />
+            </marker>
+          </defs>
+          {progressionArrows.map((arrow) => (
+            <path
+              key={`arrow-${arrow.index}`}
+              d={arrow.path}
+              className={`circle-progression-arrow ${arrow.index === progressionChordIndex ? 'active' : ''}`}
+              markerEnd="url(#circle-arrowhead)"
+            />
+          ))}
+
           {/* Center circle with current key */}
           <circle cx={centerX} cy={centerY} r={35} className="circle-center" />
           <text
@@ -239,7 +384,7 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
             textAnchor="middle"
             dominantBaseline="middle"
           >
-            {currentRoot}
+            {formatSpelledNote(spellKeyTonic(currentRoot, isMajorQuality ? 'major' : 'minor'))}
           </text>
           <text
             x={centerX}
@@ -252,6 +397,64 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
           </text>
         </svg>
 
+        <div className="circle-key-info">
+          <p className="circle-key-signature">
+            <strong>{formatKeyName(currentKey)}</strong>:{' '}
+            {signatureNotes.length === 0
+              ? 'no sharps or flats'
+              : `${signatureNotes.length} ${signatureNotes[0].endsWith('#') ? 'sharp' : 'flat'}${
+                  signatureNotes.length === 1 ? '' : 's'
+                } (${signatureNotes.join(' ')})`}
+          </p>
+          <div className="circle-diatonic-chords">
+            {diatonicChords.map((chord) => (
+              <div key={chord.degree} className="circle-diatonic-chord">
+                <span className="circle-diatonic-degree">{chord.degree}</span>
+                <span>
+                  {chord.quality ? formatChordName(chord.root, chord.quality, chord.rootName) : chord.rootName}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="circle-modulation">
+            <label className="circle-modulation-label">
+              Modulate to
+              <select className="scale-select" value={targetKeyId} onChange={(e) => setTargetKeyId(e.target.value)}>
+                <option value="">Pick a key</option>
+                {KEY_OPTIONS.map((key) => (
+                  <option key={formatKeyId(key)} value={formatKeyId(key)}>
+                    {formatKeyName(key)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {targetKey && (
+              <>
+                <p className="circle-modulation-summary">
+                  {formatKeyName(targetKey)} {describeDistance(getCircleDistance(currentKey, targetKey))}.{' '}
+                  {pivotChords.length > 0
+                    ? 'Play a chord from both keys, then carry on as if it belonged to the new one:'
+                    : `No chord belongs to both keys, so lead straight in with its dominant, ${
+                        getDiatonicTriads(targetKey)[4].rootName
+                      }7.`}
+                </p>
+                {pivotChords.length > 0 && (
+                  <ul className="circle-pivot-list">
+                    {pivotChords.map((pivot) => (
+                      <li key={pivot.root}>
+                        <strong>{formatChordName(pivot.root, pivot.quality, pivot.rootName)}</strong>:{' '}
+                        {pivot.fromDegree} in {formatKeyName(currentKey)}, {pivot.toDegree} in{' '}
+                        {formatKeyName(targetKey)} ({FUNCTION_LABELS[pivot.toFunction]})
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
         {/* Legend */}
         <div className="circle-legend">
           <div className="legend-item">
@@ -262,6 +465,10 @@ export function CircleOfFifths({ currentRoot, currentQuality, onRootChange, onQu
             <div className="legend-color minor-color"></div>
             <span>Minor Keys (Inner Ring)</span>
           </div>
+          <div className="legend-item">
+            <div className="legend-color diatonic-color"></div>
+            <span>Chords in the Key</span>
+          </div>
         </div>
       </div>
     </section>
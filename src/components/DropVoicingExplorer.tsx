@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { CapoSetting, ChordQuality, NoteId } from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
+import type { AnimationSpeed, AnimationState, FourNotePosition, VoicingFamily } from '../types/triad'
+import { type ChordAudioEngine, orderNotesForStrum } from '../audio/engine'
+import { QUALITY_MAP } from '../data/chordQualities'
+import { VOICING_FAMILIES, VOICING_WINDOWS } from '../data/voicings'
+import { formatChordName } from '../utils/chordUtils'
+import { generateFourNotePositions, getFamilyStringSets, getFourNoteIntervals } from '../utils/dropVoicings'
+import { TriadNeck } from './TriadNeck'
+import { TriadControls } from './TriadControls'
+
+interface Props {
+  root: NoteId
+  quality: ChordQuality
+  tuning: TuningDefinition // Voicings are regenerated when the tuning or capo changes
+  capo: CapoSetting
+  audioEngine: ChordAudioEngine | null
+}
+
+const SPEED_INTERVALS: Record<AnimationSpeed, number> = {
+  slow: 2000,
+  medium: 1000,
+  fast: 500
+}
+
+const INVERSION_LABELS = ['Root position', '1st inversion', '2nd inversion', '3rd inversion']
+
+const formatStringSet = (strings: number[]) => strings.join('-')
+
+export function DropVoicingExplorer({ root, quality, tuning, capo, audioEngine }: Props) {
+  const [familyId, setFamilyId] = useState<VoicingFamily>('drop2')
+  const [inversion, setInversion] = useState<number | 'all'>('all')
+  const [stringSet, setStringSet] = useState('all')
+  const [windowId, setWindowId] = useState(VOICING_WINDOWS[0].id)
+  const [positions, setPositions] = useState<FourNotePosition[]>([])
+  const [currentIndex, setCurrentIndex] = useState(0)
+  const [animationState, setAnimationState] = useState<AnimationState>('paused')
+  const [speed, setSpeed] = useState<AnimationSpeed>('medium')
+  const [enableAudio, setEnableAudio] = useState(false)
+
+  const qualityDef = QUALITY_MAP[quality]
+  const family = VOICING_FAMILIES.find((option) => option.id === familyId) ?? VOICING_FAMILIES[0]
+  const voicingWindow = VOICING_WINDOWS.find((option) => option.id === windowId) ?? VOICING_WINDOWS[0]
+  const intervals = getFourNoteIntervals(quality)
+  const stringSets = getFamilyStringSets(family)
+
+  const filteredPositions = useMemo(
+    () =>
+      positions.filter(
+        (position) =>
+          (inversion === 'all' || position.inversion === inversion) &&
+          (stringSet === 'all' || formatStringSet(position.stringSet) === stringSet) &&
+          position.minFret >= voicingWindow.start &&
+          position.maxFret <= voicingWindow.end
+      ),
+    [positions, inversion, stringSet, voicingWindow]
+  )
+  const currentPosition = filteredPositions[currentIndex] || null
+
+  // Regenerate voicings when the chord, family, tuning or capo changes
+  useEffect(() => {
+    setPositions(generateFourNotePositions(root, quality, family))
+    setCurrentIndex(0)
+    setAnimationState('paused')
+  }, [root, quality, family, tuning, capo])
+
+  // Auto-advance timer
+  useEffect(() => {
+    if (animationState !== 'playing' || filteredPositions.length <= 1) {
+      return
+    }
+
+    const interval = setInterval(() => {
+      setCurrentIndex((prev) => (prev + 1 >= filteredPositions.length ? 0 : prev + 1))
+    }, SPEED_INTERVALS[speed])
+
+    return () => clearInterval(interval)
+  }, [animationState, speed, filteredPositions.length])
+
+  // Audio playback when the voicing changes (if enabled)
+  useEffect(() => {
+    if (!enableAudio || !audioEngine || !currentPosition) {
+      return
+    }
+
+    const notesToPlay = currentPosition.notes.map((note) => ({ string: note.string, fret: note.fret }))
+    audioEngine.play(orderNotesForStrum(notesToPlay))
+  }, [currentIndex, enableAudio, audioEngine, currentPosition])
+
+  // Filters narrow the list, so stepping starts over from its first voicing
+  const resetStepping = () => {
+    setCurrentIndex(0)
+    setAnimationState('paused')
+  }
+
+  const handleFamilyChange = (nextFamily: VoicingFamily) => {
+    setFamilyId(nextFamily)
+    // String sets differ between families
+    setStringSet('all')
+  }
+
+  const handleInversionChange = (value: string) => {
+    setInversion(value === 'all' ? 'all' : Number(value))
+    resetStepping()
+  }
+
+  const handleStringSetChange = (value: string) => {
+    setStringSet(value)
+    resetStepping()
+  }
+
+  const handleWindowChange = (value: string) => {
+    setWindowId(value)
+    resetStepping()
+  }
+
+  const describePosition = (position: FourNotePosition) =>
+    `${INVERSION_LABELS[position.inversion]} (${position.notes[0].interval} in the bass), ` +
+    `strings ${formatStringSet(position.stringSet)}: ${position.notes.map((note) => note.interval).join(' ')}`
+
+  if (intervals.length < 4) {
+    return (
+      <section className="triad-explorer drop-voicing-explorer">
+        <h2 className="triad-title">Drop Voicing Explorer</h2>
+        <p className="triad-empty-state">
+          Four-note voicings need a seventh or larger chord. Pick one to see its drop 2 and drop 3 shapes
+        </p>
+      </section>
+    )
+  }
+
+  return (
+    <section className="triad-explorer drop-voicing-explorer">
+      <h2 className="triad-title">Drop Voicing Explorer</h2>
+      <p className="triad-subtitle">
+        {formatChordName(root, quality)} voiced {intervals.join(' ')}. {family.description}
+      </p>
+
+      <div className="drop-voicing-controls">
+        <div className="btn-group btn-group-tight">
+          {VOICING_FAMILIES.map((option) => (
+            <button
+              key={option.id}
+              className={`btn btn-sm ${family.id === option.id ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => handleFamilyChange(option.id)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <select
+          className="scale-select"
+          value={inversion}
+          onChange={(e) => handleInversionChange(e.target.value)}
+          aria-label="Inversion"
+        >
+          <option value="all">All inversions</option>
+          {intervals.map((interval, index) => (
+            <option key={interval} value={index}>
+              {INVERSION_LABELS[index]} ({interval} in the bass)
+            </option>
+          ))}
+        </select>
+        <select
+          className="scale-select"
+          value={stringSet}
+          onChange={(e) => handleStringSetChange(e.target.value)}
+          aria-label="String set"
+        >
+          <option value="all">All string sets</option>
+          {stringSets.map((strings) => (
+            <option key={formatStringSet(strings)} value={formatStringSet(strings)}>
+              Strings {formatStringSet(strings)}
+            </option>
+          ))}
+        </select>
+        <select
+          className="scale-select"
+          value={voicingWindow.id}
+          onChange={(e) => handleWindowChange(e.target.value)}
+          aria-label="Fret range"
+        >
+          {VOICING_WINDOWS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {filteredPositions.length === 0 ? (
+        <p className="triad-empty-state">No playable {family.label.toLowerCase()} voicings match these filters</p>
+      ) : (
+        <>
+          <p className="drop-voicing-position">{currentPosition && describePosition(currentPosition)}</p>
+
+          <TriadNeck
+            position={currentPosition}
+            primaryColor={qualityDef.color}
+            accentColor={qualityDef.accent}
+          />
+
+          <TriadControls
+            currentIndex={currentIndex}
+            totalPositions={filteredPositions.length}
+            animationState={animationState}
+            speed={speed}
+            enableAudio={enableAudio && audioEngine !== null}
+            onPrevious={() => setCurrentIndex((prev) => Math.max(0, prev - 1))}
+            onNext={() => setCurrentIndex((prev) => Math.min(filteredPositions.length - 1, prev + 1))}
+            onPlayPause={() => setAnimationState((prev) => (prev === 'playing' ? 'paused' : 'playing'))}
+            onSpeedChange={setSpeed}
+            onAudioToggle={setEnableAudio}
+          />
+        </>
+      )}
+    </section>
+  )
+}
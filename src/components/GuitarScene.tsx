@@ -1,5 +1,6 @@
-import { GUITAR_STRINGS } from '../data/notes'
 import type { GuitarString, RuntimeChordShape } from '../types/music'
+import { getNeckLayout } from '../utils/orientation'
+import { getStringGauge, getStrings } from '../utils/tuning'
 
 interface Props {
   shapes: RuntimeChordShape[]
@@ -40,24 +41,34 @@ function HeroBoard({ shape, accentColor }: { shape: RuntimeChordShape; accentCol
   const availableWidth = width - marginX * 2
   const availableHeight = height - marginY * 2
   const fretSpacing = availableWidth / fretCount
-  const stringSpacing = availableHeight / (GUITAR_STRINGS.length - 1)
+  const strings = getStrings()
+  const stringSpacing = availableHeight / (strings.length - 1)
 
-  const stringY = (stringId: GuitarString) => marginY + GUITAR_STRINGS.indexOf(stringId) * stringSpacing
+  const layout = getNeckLayout(width, height)
+
+  // String 1 on top, as on every other neck before it is oriented
+  const stringY = (stringId: GuitarString) =>
+    marginY + (strings.length - 1 - strings.indexOf(stringId)) * stringSpacing
   const fretX = (fret: number) => marginX + (fret - rangeStart) * fretSpacing
   const fingerX = (fret: number) => fretX(fret) + fretSpacing / 2
   const rootFrets = collectRootFrets(shape)
   const highlightFret = Math.min(Math.max(rootFrets[0] ?? shape.fretWindow.start, rangeStart), rangeEnd)
 
-  const openIndicators = GUITAR_STRINGS.filter((stringId) => {
+  const openIndicators = strings.filter((stringId) => {
     const state = shape.stringStates[stringId]
     return state && !state.isMuted && state.fret === 0
   })
 
-  const mutedStrings = GUITAR_STRINGS.filter((stringId) => shape.stringStates[stringId]?.isMuted)
+  const mutedStrings = strings.filter((stringId) => shape.stringStates[stringId]?.isMuted)
 
   return (
     <div className="hero-board">
-      <svg viewBox={`0 0 ${width} ${height}`} role="img" aria-label={shape.displayName}>
+      <svg
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
+        className={layout.vertical ? 'neck-vertical' : undefined}
+        role="img"
+        aria-label={shape.displayName}
+      >
         <defs>
           <linearGradient id={`hero-neck-${shape.instanceId}`} x1="0%" y1="0%" x2="100%" y2="0%">
             <stop offset="0%" stopColor="#080313" />
@@ -68,113 +79,109 @@ function HeroBoard({ shape, accentColor }: { shape: RuntimeChordShape; accentCol
             <stop offset="100%" stopColor={accentColor} stopOpacity="0.08" />
           </linearGradient>
         </defs>
-        <rect
-          x={marginX - 20}
-          y={marginY - 24}
-          width={availableWidth + 40}
-          height={availableHeight + 48}
-          rx={24}
-          fill={`url(#hero-neck-${shape.instanceId})`}
-          stroke="rgba(255,255,255,0.08)"
-        />
-        <rect
-          x={fingerX(highlightFret) - fretSpacing * 0.6}
-          y={marginY - 10}
-          width={fretSpacing * 1.2}
-          height={availableHeight + 20}
-          rx={16}
-          fill={`url(#hero-highlight-${shape.instanceId})`}
-        />
-        {GUITAR_STRINGS.map((stringId, index) => (
-          <line
-            key={`string-${shape.instanceId}-${stringId}`}
-            x1={marginX - 4}
-            x2={marginX + availableWidth + 4}
-            y1={stringY(stringId)}
-            y2={stringY(stringId)}
-            stroke="rgba(255,255,255,0.35)"
-            strokeWidth={index * 0.35 + 1.2}
+        <g transform={layout.transform}>
+          <rect
+            x={marginX - 20}
+            y={marginY - 24}
+            width={availableWidth + 40}
+            height={availableHeight + 48}
+            rx={24}
+            fill={`url(#hero-neck-${shape.instanceId})`}
+            stroke="rgba(255,255,255,0.08)"
           />
-        ))}
-        {Array.from({ length: fretCount + 1 }).map((_, index) => (
-          <line
-            key={`fret-${shape.instanceId}-${index}`}
-            x1={fretX(rangeStart + index)}
-            x2={fretX(rangeStart + index)}
-            y1={marginY - 14}
-            y2={marginY + availableHeight + 14}
-            stroke={index === 0 && rangeStart === 0 ? '#fdf8ff' : 'rgba(255,255,255,0.25)'}
-            strokeWidth={index === 0 && rangeStart === 0 ? 5 : 2}
+          <rect
+            x={fingerX(highlightFret) - fretSpacing * 0.6}
+            y={marginY - 10}
+            width={fretSpacing * 1.2}
+            height={availableHeight + 20}
+            rx={16}
+            fill={`url(#hero-highlight-${shape.instanceId})`}
           />
-        ))}
-        {shape.barre && shape.barre.fret >= rangeStart && shape.barre.fret <= rangeEnd && (() => {
-          const fromIndex = GUITAR_STRINGS.indexOf(shape.barre.fromString)
-          const toIndex = GUITAR_STRINGS.indexOf(shape.barre.toString)
-          const topIndex = Math.min(fromIndex, toIndex)
-          const bottomIndex = Math.max(fromIndex, toIndex)
-          const topY = marginY + topIndex * stringSpacing - 10
-          const heightRect = (bottomIndex - topIndex) * stringSpacing + 20
-          return (
-            <rect
-              x={fingerX(shape.barre.fret) - fretSpacing * 0.35}
-              y={topY}
-              width={fretSpacing * 0.7}
-              height={heightRect}
-              rx={10}
-              fill={accentColor}
-              fillOpacity={0.45}
+          {strings.map((stringId) => (
+            <line
+              key={`string-${shape.instanceId}-${stringId}`}
+              x1={marginX - 4}
+              x2={marginX + availableWidth + 4}
+              y1={stringY(stringId)}
+              y2={stringY(stringId)}
+              stroke="rgba(255,255,255,0.35)"
+              strokeWidth={getStringGauge(stringId)}
             />
-          )
-        })()}
-        {shape.fingerPlacements.map((placement) => (
-          <g key={`${shape.instanceId}-finger-${placement.string}-${placement.fret}`}>
-            <circle
-              cx={fingerX(placement.fret)}
-              cy={stringY(placement.string)}
-              r={placement.isRoot ? 11 : 9}
-              fill={placement.isRoot ? accentColor : '#f7e6ff'}
-              fillOpacity={placement.isRoot ? 0.95 : 0.8}
-              stroke="rgba(255,255,255,0.4)"
-              strokeWidth={placement.isRoot ? 2 : 1}
+          ))}
+          {Array.from({ length: fretCount + 1 }).map((_, index) => (
+            <line
+              key={`fret-${shape.instanceId}-${index}`}
+              x1={fretX(rangeStart + index)}
+              x2={fretX(rangeStart + index)}
+              y1={marginY - 14}
+              y2={marginY + availableHeight + 14}
+              stroke={index === 0 && rangeStart === 0 ? '#fdf8ff' : 'rgba(255,255,255,0.25)'}
+              strokeWidth={index === 0 && rangeStart === 0 ? 5 : 2}
             />
-            {placement.interval && (
-              <text
-                x={fingerX(placement.fret)}
-                y={stringY(placement.string) + 4}
-                textAnchor="middle"
-                fontSize="10"
-                fill="#060210"
-                fontWeight="600"
-              >
-                {placement.interval}
-              </text>
-            )}
-          </g>
-        ))}
-        {openIndicators.map((stringId) => (
-          <text
-            key={`${shape.instanceId}-open-${stringId}`}
-            x={marginX - 18}
-            y={stringY(stringId) + 4}
-            fill="#fefefe"
-            fontSize="12"
-            fontWeight="600"
-          >
-            O
-          </text>
-        ))}
-        {mutedStrings.map((stringId) => (
-          <text
-            key={`${shape.instanceId}-mute-${stringId}`}
-            x={marginX - 18}
-            y={stringY(stringId) + 4}
-            fill="#f57e7e"
-            fontSize="12"
-            fontWeight="700"
-          >
-            ×
-          </text>
-        ))}
+          ))}
+          {shape.barre && shape.barre.fret >= rangeStart && shape.barre.fret <= rangeEnd && (() => {
+            const fromY = stringY(shape.barre.fromString)
+            const toY = stringY(shape.barre.toString)
+            const topY = Math.min(fromY, toY) - 10
+            const heightRect = Math.abs(fromY - toY) + 20
+            return (
+              <rect
+                x={fingerX(shape.barre.fret) - fretSpacing * 0.35}
+                y={topY}
+                width={fretSpacing * 0.7}
+                height={heightRect}
+                rx={10}
+                fill={accentColor}
+                fillOpacity={0.45}
+              />
+            )
+          })()}
+          {shape.fingerPlacements.map((placement) => (
+            <g key={`${shape.instanceId}-finger-${placement.string}-${placement.fret}`}>
+              <circle
+                cx={fingerX(placement.fret)}
+                cy={stringY(placement.string)}
+                r={placement.isRoot ? 11 : 9}
+                fill={placement.isRoot ? accentColor : '#f7e6ff'}
+                fillOpacity={placement.isRoot ? 0.95 : 0.8}
+                stroke="rgba(255,255,255,0.4)"
+                strokeWidth={placement.isRoot ? 2 : 1}
+              />
+              {placement.interval && (
+                <text
+                  {...layout.label(fingerX(placement.fret), stringY(placement.string), 4)}
+                  fontSize="10"
+                  fill="#060210"
+                  fontWeight="600"
+                >
+                  {placement.interval}
+                </text>
+              )}
+            </g>
+          ))}
+          {openIndicators.map((stringId) => (
+            <text
+              key={`${shape.instanceId}-open-${stringId}`}
+              {...layout.label(marginX - 18, stringY(stringId), 4, 'start')}
+              fill="#fefefe"
+              fontSize="12"
+              fontWeight="600"
+            >
+              O
+            </text>
+          ))}
+          {mutedStrings.map((stringId) => (
+            <text
+              key={`${shape.instanceId}-mute-${stringId}`}
+              {...layout.label(marginX - 18, stringY(stringId), 4, 'start')}
+              fill="#f57e7e"
+              fontSize="12"
+              fontWeight="700"
+            >
+              ×
+            </text>
+          ))}
+        </g>
       </svg>
       <div className="hero-board-footer">
         <span className="hero-board-title">{shape.displayName}</span>
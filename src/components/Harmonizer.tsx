@@ -0,0 +1,161 @@
+import { useMemo, useState } from 'react'
+import type { ChordQuality, NoteId } from '../types/music'
+import type { ChordProgression, HarmonizedChord, HarmonyStack } from '../types/progression'
+import { NOTE_OPTIONS } from '../data/notes'
+import { formatChordName } from '../utils/chordUtils'
+import { getScaleList } from '../utils/scaleLibrary'
+import { spellScale } from '../utils/scaleUtils'
+import { createProgressionFromHarmony, harmonizeScale } from '../utils/harmonizer'
+
+interface Props {
+  root: NoteId // Starting key, follows the main chord selector until changed here
+  onChordOpen: (root: NoteId, quality: ChordQuality) => void // Shows the chord's shapes
+  onSongBuilderOpen: (progression: ChordProgression, root: NoteId) => void
+}
+
+const STACK_LABELS: Record<HarmonyStack, string> = {
+  triad: 'Triads',
+  seventh: 'Sevenths'
+}
+
+const FUNCTION_LABELS: Record<HarmonizedChord['function'], string> = {
+  tonic: 'Tonic',
+  subdominant: 'Subdominant',
+  dominant: 'Dominant'
+}
+
+export function Harmonizer({ root: initialRoot, onChordOpen, onSongBuilderOpen }: Props) {
+  const [root, setRoot] = useState<NoteId>(initialRoot)
+  const [scaleId, setScaleId] = useState('majorScale')
+  const [stack, setStack] = useState<HarmonyStack>('triad')
+  const [chain, setChain] = useState<HarmonizedChord[]>([])
+
+  const scales = getScaleList()
+  const scale = scales.find((option) => option.id === scaleId) ?? scales[0]
+  const chords = useMemo(() => harmonizeScale(root, scale, stack), [root, scale, stack])
+  const tonicName = spellScale(root, scale)[0]
+
+  // A chain belongs to one key, so it starts over when the key changes
+  const handleRootChange = (note: NoteId) => {
+    setRoot(note)
+    setChain([])
+  }
+
+  const handleScaleChange = (nextScaleId: string) => {
+    setScaleId(nextScaleId)
+    setChain([])
+  }
+
+  const handleSend = () => {
+    onSongBuilderOpen(createProgressionFromHarmony(chain, root, scale), root)
+  }
+
+  const chordName = (chord: HarmonizedChord) =>
+    chord.quality ? formatChordName(chord.root, chord.quality, chord.rootName) : chord.notes.join(' ')
+
+  return (
+    <section className="harmonizer">
+      <h2 className="harmonizer-title">Harmonizer</h2>
+      <p className="harmonizer-subtitle">
+        The chords of {tonicName} {scale.displayName}. Click one to see its shapes, or add it to a progression
+      </p>
+
+      <div className="harmonizer-controls">
+        <select
+          className="scale-select"
+          value={root}
+          onChange={(e) => handleRootChange(e.target.value as NoteId)}
+          aria-label="Key"
+        >
+          {NOTE_OPTIONS.map((note) => (
+            <option key={note.id} value={note.id}>
+              {note.label}
+            </option>
+          ))}
+        </select>
+        <select
+          className="scale-select"
+          value={scale.id}
+          onChange={(e) => handleScaleChange(e.target.value)}
+          aria-label="Scale"
+        >
+          {scales.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.displayName}
+            </option>
+          ))}
+        </select>
+        <div className="btn-group">
+          {(Object.keys(STACK_LABELS) as HarmonyStack[]).map((option) => (
+            <button
+              key={option}
+              className={`btn ${stack === option ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => setStack(option)}
+            >
+              {STACK_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="harmonizer-chords">
+        {chords.map((chord) => (
+          <div key={chord.degree + chord.root} className={`harmonizer-chord harmonizer-${chord.function}`}>
+            <button
+              type="button"
+              className="harmonizer-chord-open"
+              onClick={() => chord.quality && onChordOpen(chord.root, chord.quality)}
+              disabled={!chord.quality}
+              title={chord.quality ? 'Show shapes' : 'Not a chord in the library'}
+            >
+              <span className="harmonizer-degree">{chord.degree}</span>
+              <span className="harmonizer-name">{chordName(chord)}</span>
+              <span className="harmonizer-notes">{chord.notes.join(' ')}</span>
+              <span className="harmonizer-function">{FUNCTION_LABELS[chord.function]}</span>
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary btn-sm"
+              onClick={() => setChain((prev) => [...prev, chord])}
+              disabled={!chord.quality}
+            >
+              + Add
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Chained chords */}
+      <div className="harmonizer-chain">
+        {chain.length === 0 ? (
+          <p className="harmonizer-chain-empty">Add chords to build a progression</p>
+        ) : (
+          <ol className="harmonizer-chain-list">
+            {chain.map((chord, index) => (
+              <li key={index} className="harmonizer-chain-item">
+                <span className="harmonizer-degree">{chord.degree}</span>
+                <span>{chordName(chord)}</span>
+                <button
+                  type="button"
+                  className="btn btn-icon"
+                  onClick={() => setChain((prev) => prev.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${chordName(chord)}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+        <div className="btn-group">
+          <button className="btn btn-secondary" onClick={() => setChain([])} disabled={chain.length === 0}>
+            Clear
+          </button>
+          <button className="btn btn-primary" onClick={handleSend} disabled={chain.length === 0}>
+            Send to Song Builder
+          </button>
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react'
+import type { ChordProgression } from '../types/progression'
+import { parseRomanProgression } from '../utils/romanNumeralParser'
+import { createCustomProgression } from '../utils/progressionLibrary'
+
+interface Props {
+  progression: ChordProgression | null // A saved progression to change, or null for a new one
+  onSave: (progression: ChordProgression) => void
+  onDelete: (progressionId: string) => void
+  onCancel: () => void
+}
+
+export function ProgressionEditor({ progression, onSave, onDelete, onCancel }: Props) {
+  const [name, setName] = useState(progression && progression.name !== progression.source ? progression.name : '')
+  const [source, setSource] = useState(progression?.source ?? '')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const result = parseRomanProgression(source)
+    if (!result.ok) {
+      setError(result.error)
+      return
+    }
+    setError(null)
+    const text = source.trim()
+    onSave(createCustomProgression(name.trim() || text, text, result.chords, progression?.id))
+  }
+
+  return (
+    <form className="chord-symbol-input progression-editor" onSubmit={handleSubmit}>
+      <label htmlFor="progression-numerals">{progression ? 'Edit progression' : 'New progression'}</label>
+      <div className="chord-symbol-row">
+        <input
+          type="text"
+          className="chord-symbol-field progression-editor-name"
+          value={name}
+          placeholder="Name"
+          aria-label="Progression name"
+          onChange={(event) => setName(event.target.value)}
+        />
+        <input
+          id="progression-numerals"
+          type="text"
+          className={`chord-symbol-field ${error ? 'invalid' : ''}`}
+          value={source}
+          placeholder="e.g. ii7 - V7/V - V7 - Imaj7"
+          autoComplete="off"
+          spellCheck={false}
+          onChange={(event) => {
+            setSource(event.target.value)
+            setError(null)
+          }}
+        />
+      </div>
+      {error && <p className="chord-symbol-error">{error}</p>}
+      <p className="progression-editor-help">
+        Lower case for minor (ii, vi), b or # for borrowed chords (bVII), /V for secondary chords, /3 for a bass
+        scale degree, | between bars, % to repeat a bar and |: … :| x3 for repeats
+      </p>
+      <div className="btn-group">
+        <button type="submit" className="btn btn-primary">
+          Save
+        </button>
+        {progression && (
+          <button type="button" className="btn btn-secondary" onClick={() => onDelete(progression.id)}>
+            Delete
+          </button>
+        )}
+        <button type="button" className="btn btn-ghost" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
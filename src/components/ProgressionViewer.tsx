@@ -1,16 +1,38 @@
-import { useEffect, useState, useRef } from 'react'
-import type { ChordQuality, NoteId } from '../types/music'
-import type { AnimationSpeed, AnimationState, ChordProgression } from '../types/progression'
-import { PROGRESSION_LIST, getProgressionsForQuality } from '../data/progressions'
-import { transposeProgression } from '../utils/scaleUtils'
+import { useEffect, useMemo, useState, useRef } from 'react'
+import type { CapoSetting, ChordQuality, NoteId } from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
+import type { AnimationSpeed, AnimationState, ChordProgression, TransposedChord } from '../types/progression'
+import type { VoiceLeadingOptions } from '../types/voicing'
+import { VOICING_WINDOWS } from '../data/voicings'
+import { getProgressionMode, transposeProgression } from '../utils/scaleUtils'
+import { formatSpelledNote, getQualityMode, spellKeyTonic } from '../utils/noteSpelling'
 import { ChordAudioEngine } from '../audio/engine'
-import { buildChordShapes } from '../utils/chordUtils'
+import { optimizeVoiceLeading } from '../utils/voiceLeading'
+import { formatChordName } from '../utils/chordUtils'
+import {
+  deleteCustomProgression,
+  getProgressionList,
+  getProgressionsForQuality,
+  saveCustomProgression
+} from '../utils/progressionLibrary'
+import { Fretboard } from './Fretboard'
+import { ProgressionEditor } from './ProgressionEditor'
+import { ReharmonizationPanel } from './ReharmonizationPanel'
+import { TransformationPanel } from './TransformationPanel'
 
 interface Props {
   root: NoteId
   quality: ChordQuality
-  onChordChange?: (chordIndex: number, chordRoot: NoteId, chordQuality: ChordQuality) => void
-  onSongBuilderOpen?: (progression: ChordProgression, speed: AnimationSpeed) => void
+  tuning: TuningDefinition // Voicings are chosen again when the tuning or capo changes
+  capo: CapoSetting
+  openedProgression?: ChordProgression | null // Shown as soon as it's handed over, e.g. from the analyzer
+  // The whole progression comes along so listeners can work out its key
+  onChordChange?: (chordIndex: number, chordRoot: NoteId, chordQuality: ChordQuality, chords: TransposedChord[]) => void
+  onSongBuilderOpen?: (
+    progression: ChordProgression,
+    speed: AnimationSpeed,
+    voiceLeading: VoiceLeadingOptions
+  ) => void
 }
 
 const SPEED_INTERVALS: Record<AnimationSpeed, number> = {
@@ -19,12 +41,28 @@ const SPEED_INTERVALS: Record<AnimationSpeed, number> = {
   fast: 1000
 }
 
-export function ProgressionViewer({ root, quality, onChordChange, onSongBuilderOpen }: Props) {
+export function ProgressionViewer({
+  root,
+  quality,
+  tuning,
+  capo,
+  openedProgression,
+  onChordChange,
+  onSongBuilderOpen
+}: Props) {
   const [selectedProgression, setSelectedProgression] = useState<ChordProgression | null>(null)
   const [currentChordIndex, setCurrentChordIndex] = useState(0)
   const [animationState, setAnimationState] = useState<AnimationState>('paused')
   const [speed, setSpeed] = useState<AnimationSpeed>('medium')
   const [audioEnabled, setAudioEnabled] = useState(false)
+  const [voicingWindowId, setVoicingWindowId] = useState('anywhere')
+  const [smoothTopNote, setSmoothTopNote] = useState(false)
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editingProgression, setEditingProgression] = useState<ChordProgression | null>(null)
+  const [savedNote, setSavedNote] = useState<string | null>(null)
+  const [reharmonizeOpen, setReharmonizeOpen] = useState(false)
+  const [transformOpen, setTransformOpen] = useState(false)
+  const [rewriteHistory, setRewriteHistory] = useState<ChordProgression[]>([])
 
   const audioEngineRef = useRef<ChordAudioEngine | null>(null)
 
@@ -57,10 +95,22 @@ export function ProgressionViewer({ root, quality, onChordChange, onSongBuilderO
       const isCompatible = compatibleProgressions.some((p) => p.id === selectedProgression.id)
       if (!isCompatible && compatibleProgressions.length > 0) {
         setSelectedProgression(compatibleProgressions[0])
+        setRewriteHistory([])
       }
     }
   }, [root, quality])
 
+  // Declared after the reset above so a progression handed over with a new root wins
+  useEffect(() => {
+    if (openedProgression) {
+      setSelectedProgression(openedProgression)
+      setCurrentChordIndex(0)
+      setAnimationState('paused')
+      setRewriteHistory([])
+      setEditorOpen(false)
+    }
+  }, [openedProgression])
+
   // Auto-advance timer
   useEffect(() => {
     if (animationState !== 'playing' || !selectedProgression) {
@@ -77,27 +127,46 @@ export function ProgressionViewer({ root, quality, onChordChange, onSongBuilderO
     return () => clearInterval(interval)
   }, [animationState, speed, selectedProgression])
 
+  const transposedChords = useMemo(
+    () => (selectedProgression ? transposeProgression(selectedProgression, root) : []),
+    [selectedProgression, root]
+  )
+
+  // One voice-led grip per chord, shared with the Song Builder
+  const voiceLeading = useMemo<VoiceLeadingOptions>(
+    () => ({
+      fretRange: VOICING_WINDOWS.find((range) => range.id === voicingWindowId),
+      smoothTopNote
+    }),
+    [voicingWindowId, smoothTopNote]
+  )
+  const voicings = useMemo(
+    () =>
+      optimizeVoiceLeading(
+        transposedChords.map((chord) => ({ root: chord.note, quality: chord.quality, bass: chord.bass })),
+        voiceLeading
+      ),
+    [transposedChords, voiceLeading, tuning, capo]
+  )
+
   // Notify parent of chord changes and play audio if enabled
   useEffect(() => {
-    if (!selectedProgression) return
-
-    const transposed = transposeProgression(selectedProgression, root)
-    const currentChord = transposed[currentChordIndex]
+    const currentChord = transposedChords[currentChordIndex]
     if (currentChord) {
       // Notify parent
       if (onChordChange) {
-        onChordChange(currentChordIndex, currentChord.note, currentChord.quality)
+        onChordChange(currentChordIndex, currentChord.note, currentChord.quality, transposedChords)
       }
 
       // Play audio if enabled
       if (audioEnabled && audioEngineRef.current) {
-        const shapes = buildChordShapes(currentChord.note, currentChord.quality)
-        if (shapes.length > 0 && shapes[0].notesForAudio) {
-          audioEngineRef.current.play(shapes[0].notesForAudio)
+        const voicing = voicings[currentChordIndex]
+        if (voicing) {
+          audioEngineRef.current.play(voicing.notesForAudio)
         }
       }
     }
-  }, [currentChordIndex, selectedProgression, root, onChordChange, audioEnabled])
+  }, [currentChordIndex, transposedChords, voicings, onChordChange, audioEnabled])
 
   if (compatibleProgressions.length === 0) {
     return (
@@ -108,16 +177,68 @@ export function ProgressionViewer({ root, quality, onChordChange, onSongBuilderO
     )
   }
 
-  const transposedChords = selectedProgression
-    ? transposeProgression(selectedProgression, root)
-    : []
+  // A progression opened from elsewhere stays listed even when it doesn't fit the chord
+  const progressionOptions =
+    selectedProgression && !compatibleProgressions.some((p) => p.id === selectedProgression.id)
+      ? [...compatibleProgressions, selectedProgression]
+      : compatibleProgressions
+
+  const keyMode = selectedProgression ? getProgressionMode(selectedProgression) : getQualityMode(quality)
+  const keyName = formatSpelledNote(spellKeyTonic(root, keyMode))
 
   const handleProgressionChange = (progressionId: string) => {
-    const progression = PROGRESSION_LIST.find((p) => p.id === progressionId)
+    const progression = getProgressionList().find((p) => p.id === progressionId)
     if (progression) {
       setSelectedProgression(progression)
       setCurrentChordIndex(0)
       setAnimationState('paused')
+      setRewriteHistory([])
+    }
+  }
+
+  // An accepted substitution or previewed transformation rewrites the progression, so the Song Builder gets it too
+  const handleRewrite = (progression: ChordProgression) => {
+    if (selectedProgression) {
+      setRewriteHistory((prev) => [...prev, selectedProgression])
+    }
+    setSelectedProgression(progression)
+  }
+
+  const handleRewriteUndo = () => {
+    const previous = rewriteHistory[rewriteHistory.length - 1]
+    if (previous) {
+      setSelectedProgression(previous)
+      setRewriteHistory((prev) => prev.slice(0, -1))
+      setCurrentChordIndex((index) => Math.min(index, previous.chords.length - 1))
+    }
+  }
+
+  const handleEditorOpen = (progression: ChordProgression | null) => {
+    setEditingProgression(progression)
+    setEditorOpen(true)
+    setSavedNote(null)
+  }
+
+  // A saved progression is shown straight away when it fits the chord; otherwise say where it's listed
+  const handleProgressionSave = (progression: ChordProgression) => {
+    saveCustomProgression(progression)
+    setEditorOpen(false)
+    setRewriteHistory([])
+    if (getProgressionsForQuality(quality).some((p) => p.id === progression.id)) {
+      setSelectedProgression(progression)
+      setCurrentChordIndex(0)
+      setAnimationState('paused')
+      return
+    }
+    const mode = getQualityMode(progression.chords[0].quality)
+    setSavedNote(`Saved ${progression.name}. It opens on a ${mode} chord, so pick a ${mode} chord to see it.`)
+  }
+
+  const handleProgressionDelete = (progressionId: string) => {
+    deleteCustomProgression(progressionId)
+    setEditorOpen(false)
+    if (selectedProgression?.id === progressionId) {
+      setSelectedProgression(null)
     }
   }
 
@@ -140,7 +261,7 @@ export function ProgressionViewer({ root, quality, onChordChange, onSongBuilderO
   return (
     <section className="progression-viewer">
       <h2 className="progression-title">Chord Progressions</h2>
-      <p className="progression-subtitle">Popular progressions in {root} {quality}</p>
+      <p className="progression-subtitle">Popular progressions in {keyName} {keyMode}</p>
 
       {/* Progression Selector */}
       <div className="progression-selector">
@@ -150,14 +271,35 @@ export function ProgressionViewer({ root, quality, onChordChange, onSongBuilderO
           value={selectedProgression?.id || ''}
           onChange={(e) => handleProgressionChange(e.target.value)}
         >
-          {compatibleProgressions.map((prog) => (
+          {progressionOptions.map((prog) => (
             <option key={prog.id} value={prog.id}>
               {prog.name} - {prog.description}
             </option>
           ))}
         </select>
+        <div className="btn-group progression-library-actions">
+          <button className="btn btn-secondary btn-sm" onClick={() => handleEditorOpen(null)}>
+            New from Roman numerals
+          </button>
+          {selectedProgression?.custom && (
+            <button className="btn btn-secondary btn-sm" onClick={() => handleEditorOpen(selectedProgression)}>
+              Edit
+            </button>
+          )}
+        </div>
+        {savedNote && <p className="progression-saved-note">{savedNote}</p>}
       </div>
 
+      {editorOpen && (
+        <ProgressionEditor
+          key={editingProgression?.id ?? 'new'}
+          progression={editingProgression}
+          onSave={handleProgressionSave}
+          onDelete={handleProgressionDelete}
+          onCancel={() => setEditorOpen(false)}
+        />
+      )}
+
       {selectedProgression && (
         <>
           {/* Chord Display */}
@@ -170,12 +312,97 @@ export function ProgressionViewer({ root, quality, onChordChange, onSongBuilderO
               >
                 <div className="chord-degree">{chord.degree}</div>
                 <div className="chord-name">
-                  {chord.note} {chord.quality}
+                  {chord.name} {chord.quality}
+                  {chord.bassName && ` / ${chord.bassName}`}
                 </div>
               </button>
             ))}
           </div>
 
+          {/* Voice-led voicings */}
+          <div className="progression-voicing-options">
+            <select
+              className="progression-select"
+              value={voicingWindowId}
+              onChange={(e) => setVoicingWindowId(e.target.value)}
+              aria-label="Voicing position"
+            >
+              {VOICING_WINDOWS.map((range) => (
+                <option key={range.id} value={range.id}>
+                  {range.label}
+                </option>
+              ))}
+            </select>
+            <label className="progression-checkbox">
+              <input
+                type="checkbox"
+                checked={smoothTopNote}
+                onChange={(e) => setSmoothTopNote(e.target.checked)}
+              />
+              Keep the top note smooth
+            </label>
+          </div>
+
+          <div className="progression-voicings">
+            {voicings.map((voicing, index) => (
+              <button
+                key={voicing.instanceId}
+                className={`progression-voicing ${index === currentChordIndex ? 'active' : ''}`}
+                onClick={() => setCurrentChordIndex(index)}
+              >
+                <span className="progression-voicing-name">
+                  {formatChordName(voicing.root, voicing.quality)}
+                  {transposedChords[index]?.bassName && `/${transposedChords[index].bassName}`}
+                </span>
+                <Fretboard shape={voicing} />
+              </button>
+            ))}
+          </div>
+
+          {/* Substitutions for the current chord */}
+          <div className="progression-voicing-options">
+            <button
+              className={`btn btn-ghost btn-sm ${reharmonizeOpen ? 'active' : ''}`}
+              onClick={() => setReharmonizeOpen(!reharmonizeOpen)}
+            >
+              Reharmonize
+            </button>
+            <button
+              className={`btn btn-ghost btn-sm ${transformOpen ? 'active' : ''}`}
+              onClick={() => setTransformOpen(!transformOpen)}
+            >
+              Transform
+            </button>
+            {rewriteHistory.length > 0 && (
+              <button className="btn btn-ghost btn-sm" onClick={handleRewriteUndo}>
+                Undo change
+              </button>
+            )}
+          </div>
+          {reharmonizeOpen && (
+            <ReharmonizationPanel
+              progression={selectedProgression}
+              rootNote={root}
+              chordIndex={currentChordIndex}
+              voiceLeading={voiceLeading}
+              audioEngine={audioEngineRef.current}
+              onAccept={handleRewrite}
+            />
+          )}
+          {transformOpen && (
+            <TransformationPanel
+              progression={selectedProgression}
+              rootNote={root}
+              chordIndex={currentChordIndex}
+              voiceLeading={voiceLeading}
+              audioEngine={audioEngineRef.current}
+              onPreview={handleRewrite}
+              onSongBuilderSend={
+                onSongBuilderOpen && ((progression) => onSongBuilderOpen(progression, speed, voiceLeading))
+              }
+            />
+          )}
+
           {/* Controls */}
           <div className="controls-panel">
             <div className="btn-group" style={{ justifyContent: 'center' }}>
@@ -216,7 +443,7 @@ export function ProgressionViewer({ root, quality, onChordChange, onSongBuilderO
             {onSongBuilderOpen && (
               <button
                 className="btn btn-accent btn-full"
-                onClick={() => onSongBuilderOpen(selectedProgression!, speed)}
+                onClick={() => onSongBuilderOpen(selectedProgression!, speed, voiceLeading)}
               >
                 Song Builder
               </button>
@@ -0,0 +1,97 @@
+import type { NoteId } from '../types/music'
+import type { ChordProgression, ChordSubstitution, ProgressionChord, SubstitutionKind } from '../types/progression'
+import type { VoiceLeadingOptions } from '../types/voicing'
+import type { ChordAudioEngine } from '../audio/engine'
+import { transposeProgression } from '../utils/scaleUtils'
+import { optimizeVoiceLeading } from '../utils/voiceLeading'
+import { applySubstitution, getSubstitutions } from '../utils/reharmonization'
+
+interface Props {
+  progression: ChordProgression
+  rootNote: NoteId
+  chordIndex: number // The chord to find substitutes for
+  voiceLeading: VoiceLeadingOptions // Auditions use the same grips as the viewer
+  audioEngine: ChordAudioEngine | null
+  onAccept: (progression: ChordProgression) => void
+}
+
+const KIND_LABELS: Record<SubstitutionKind, string> = {
+  tritone: 'Tritone sub',
+  relative: 'Relative swap',
+  secondaryDominant: 'Secondary dominant',
+  diminishedPassing: 'Diminished passing chord',
+  modalInterchange: 'Modal interchange',
+  backdoor: 'Backdoor ii-V'
+}
+
+export function ReharmonizationPanel({ progression, rootNote, chordIndex, voiceLeading, audioEngine, onAccept }: Props) {
+  const substitutions = getSubstitutions(progression, rootNote, chordIndex)
+  const chords = progression.chords
+  const previous = chordIndex > 0 ? chords[chordIndex - 1] : null
+  const next = chords.length > 1 ? chords[(chordIndex + 1) % chords.length] : null
+
+  // Heard in context: the chord before, the replacement, then the chord after
+  const handleAudition = (replacement: ProgressionChord[]) => {
+    if (!audioEngine) {
+      return
+    }
+    const passage = [...(previous ? [previous] : []), ...replacement, ...(next ? [next] : [])]
+    const transposed = transposeProgression({ ...progression, chords: passage }, rootNote)
+    const voicings = optimizeVoiceLeading(
+      transposed.map((chord) => ({ root: chord.note, quality: chord.quality, bass: chord.bass })),
+      voiceLeading
+    )
+    audioEngine.playChords(voicings.map((voicing) => voicing.notesForAudio))
+  }
+
+  const handleAccept = (substitution: ChordSubstitution) => {
+    onAccept(applySubstitution(progression, chordIndex, substitution))
+  }
+
+  return (
+    <div className="reharmonization">
+      <div className="reharmonization-header">
+        <h3 className="reharmonization-title">Substitutes for {chords[chordIndex]?.degree}</h3>
+        <button
+          className="btn btn-secondary btn-sm"
+          onClick={() => handleAudition([chords[chordIndex]])}
+          disabled={!audioEngine}
+        >
+          Play original
+        </button>
+      </div>
+      {substitutions.length === 0 ? (
+        <p className="reharmonization-empty">No substitutions for this chord</p>
+      ) : (
+        <ul className="reharmonization-list">
+          {substitutions.map((substitution) => (
+            <li key={`${substitution.kind}-${substitution.label}`} className="reharmonization-item">
+              <div className="reharmonization-text">
+                <span className="reharmonization-kind">{KIND_LABELS[substitution.kind]}</span>
+                <strong className="reharmonization-label">
+                  {substitution.label}
+                  <span className="reharmonization-degrees">
+                    {substitution.chords.map((chord) => chord.degree).join(' - ')}
+                  </span>
+                </strong>
+                <span className="reharmonization-explanation">{substitution.explanation}</span>
+              </div>
+              <div className="btn-group">
+                <button
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => handleAudition(substitution.chords)}
+                  disabled={!audioEngine}
+                >
+                  Listen
+                </button>
+                <button className="btn btn-primary btn-sm" onClick={() => handleAccept(substitution)}>
+                  Use
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
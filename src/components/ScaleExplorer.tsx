@@ -1,10 +1,17 @@
 import { useEffect, useState } from 'react'
 import type { ChordQuality, NoteId } from '../types/music'
-import type { ScaleDefinition } from '../types/progression'
+import type { KeyChord, ScaleDefinition, ScalePositionSystem } from '../types/progression'
+import type { ChordAudioEngine } from '../audio/engine'
 import { QUALITY_MAP } from '../data/chordQualities'
-import { getScalesForQuality } from '../data/scales'
-import { generateScaleNotes } from '../utils/scaleUtils'
+import { generateScaleNotes, spellScale } from '../utils/scaleUtils'
+import { getPositionSystems, getScalePositions } from '../utils/scalePositions'
+import { detectKeyFromChords, getKeyScaleForRoot } from '../utils/keyDetection'
+import { deleteCustomScale, getCustomScales, getScaleList, saveCustomScale } from '../utils/scaleLibrary'
+import { isScaleCompatible, rankChordScales } from '../utils/chordScales'
+import { formatChordName } from '../utils/chordUtils'
+import { formatSpelledNote, getQualityMode, spellKeyTonic } from '../utils/noteSpelling'
 import { ScaleNeck } from './ScaleNeck'
+import { ScaleFormulaInput } from './ScaleFormulaInput'
 
 interface Props {
   root: NoteId
@@ -12,44 +19,104 @@ interface Props {
   // For syncing with progression viewer
   syncedRoot?: NoteId
   syncedQuality?: ChordQuality
+  progressionChords?: KeyChord[] // Their detected key ranks the chord scales for the current chord
+  audioEngine: ChordAudioEngine | null // Plays a position up and back down
 }
 
-export function ScaleExplorer({ root, quality, syncedRoot, syncedQuality }: Props) {
+const SYSTEM_LABELS: Record<ScalePositionSystem | 'all', string> = {
+  all: 'Whole neck',
+  caged: 'CAGED boxes',
+  threeNotesPerString: '3 notes per string',
+  pentatonicBox: 'Pentatonic boxes'
+}
+
+export function ScaleExplorer({
+  root,
+  quality,
+  syncedRoot,
+  syncedQuality,
+  progressionChords = [],
+  audioEngine
+}: Props) {
   const [selectedScale, setSelectedScale] = useState<ScaleDefinition | null>(null)
+  const [positionSystem, setPositionSystem] = useState<ScalePositionSystem | 'all'>('all')
+  const [positionIndex, setPositionIndex] = useState(0)
+  const [customScales, setCustomScales] = useState(getCustomScales)
+  const [createdNote, setCreatedNote] = useState<string | null>(null)
 
   // Use synced values if provided, otherwise use the main root/quality
   const displayRoot = syncedRoot || root
   const displayQuality = syncedQuality || quality
 
   const qualityDef = QUALITY_MAP[displayQuality]
-  const compatibleScales = getScalesForQuality(displayQuality)
 
-  // Set default scale when quality changes
+  // Over a progression, chord scales that keep to its key rank first
+  const [progressionKey = null] = progressionChords.length ? detectKeyFromChords(progressionChords, 1) : []
+  const matches = rankChordScales(displayRoot, displayQuality, getScaleList(), progressionKey)
+  const bestScale = matches[0]?.scale ?? null
+  // The key's own mode on this root leads the ranking whenever it holds the chord
+  const stayInKey = progressionKey !== null && bestScale?.id === getKeyScaleForRoot(progressionKey, displayRoot)
+  const selectedMatch = matches.find((match) => match.scale.id === selectedScale?.id) ?? null
+
+  // Each chord starts on its best chord scale; one picked by hand lasts until the chord changes
   useEffect(() => {
-    if (compatibleScales.length > 0) {
-      // Try to keep the same scale if it's still compatible
-      if (selectedScale && compatibleScales.some((s) => s.id === selectedScale.id)) {
-        return
-      }
-      setSelectedScale(compatibleScales[0])
+    setSelectedScale(bestScale)
+  }, [displayRoot, displayQuality, bestScale])
+
+  const scaleNotes = selectedScale ? generateScaleNotes(displayRoot, selectedScale, 15) : []
+  // A system the scale doesn't have (pentatonic boxes on a seven-note scale) falls back to its first
+  const systems = selectedScale ? getPositionSystems(selectedScale) : []
+  const system = positionSystem === 'all' || systems.includes(positionSystem) ? positionSystem : systems[0]
+  const positions = selectedScale && system !== 'all' ? getScalePositions(displayRoot, selectedScale, system) : []
+  const position = positions[Math.min(positionIndex, positions.length - 1)] ?? null
+  const neckNotes = position ? position.notes : scaleNotes.filter((note) => note.fret <= 12)
+  const spelledScale = selectedScale ? spellScale(displayRoot, selectedScale) : []
+  const displayRootName = formatSpelledNote(spellKeyTonic(displayRoot, getQualityMode(displayQuality)))
+  const chordName = formatChordName(displayRoot, displayQuality)
+
+  // A new scale is shown straight away when it fits the chord; otherwise say where it fits
+  const handleScaleCreate = (scale: ScaleDefinition) => {
+    saveCustomScale(scale)
+    setCustomScales(getCustomScales())
+    if (isScaleCompatible(scale, displayQuality)) {
+      setSelectedScale(scale)
+      setCreatedNote(null)
+      return
     }
-  }, [displayQuality, compatibleScales, selectedScale])
-
-  if (compatibleScales.length === 0) {
-    return (
-      <section className="scale-explorer">
-        <h2 className="scale-title">Scale Explorer</h2>
-        <p className="scale-empty">No scales available for this chord quality</p>
-      </section>
+    const fits = scale.compatibleQualities.map((id) => QUALITY_MAP[id].label)
+    setCreatedNote(
+      fits.length
+        ? `${scale.displayName} doesn't hold every note of this chord. It fits: ${fits.join(', ')}.`
+        : `${scale.displayName} doesn't hold every note of any chord in the library.`
     )
   }
 
-  const scaleNotes = selectedScale ? generateScaleNotes(displayRoot, selectedScale, 15) : []
+  const handleScaleDelete = (scaleId: string) => {
+    deleteCustomScale(scaleId)
+    setCustomScales(getCustomScales())
+    if (selectedScale?.id === scaleId) {
+      setSelectedScale(matches.find((match) => match.scale.id !== scaleId)?.scale ?? null)
+    }
+  }
+
+  const handleSystemChange = (next: ScalePositionSystem | 'all') => {
+    setPositionSystem(next)
+    setPositionIndex(0)
+  }
+
+  // Up the position and back down without repeating the top note
+  const handlePositionPlay = () => {
+    if (!audioEngine || !position) {
+      return
+    }
+    const run = position.notes.map((note) => ({ string: note.string, fret: note.fret }))
+    audioEngine.playSequence([...run, ...run.slice(0, -1).reverse()])
+  }
 
   const handleScaleChange = (scaleId: string) => {
-    const scale = compatibleScales.find((s) => s.id === scaleId)
-    if (scale) {
-      setSelectedScale(scale)
+    const match = matches.find((other) => other.scale.id === scaleId)
+    if (match) {
+      setSelectedScale(match.scale)
     }
   }
 
@@ -58,36 +125,109 @@ export function ScaleExplorer({ root, quality, syncedRoot, syncedQuality }: Prop
       <h2 className="scale-title">Scale Explorer</h2>
       <p className="scale-subtitle">
         {syncedRoot && syncedQuality
-          ? `Scales for ${syncedRoot} ${syncedQuality} (from progression)`
-          : `Scales for ${displayRoot} ${displayQuality}`}
+          ? `Scales for ${displayRootName} ${syncedQuality} (from progression)`
+          : `Scales for ${displayRootName} ${displayQuality}`}
       </p>
+      {progressionKey && (
+        <p className="scale-key-suggestion">
+          Progression key: <strong>{progressionKey.name}</strong> ({Math.round(progressionKey.confidence * 100)}%)
+          {bestScale && bestScale.id !== selectedScale?.id && (
+            <>
+              {' · '}
+              <button type="button" className="btn btn-secondary btn-sm" onClick={() => setSelectedScale(bestScale)}>
+                Play {displayRootName} {bestScale.displayName}
+                {stayInKey ? ' to stay in key' : `, the best fit over ${chordName}`}
+              </button>
+            </>
+          )}
+          {bestScale &&
+            bestScale.id === selectedScale?.id &&
+            (stayInKey ? ' · this scale stays in key' : ` · the best fit over ${chordName} in this key`)}
+        </p>
+      )}
 
-      {/* Scale Selector */}
-      <div className="scale-selector">
-        <label className="scale-label">Select Scale:</label>
-        <select
-          className="scale-select"
-          value={selectedScale?.id || ''}
-          onChange={(e) => handleScaleChange(e.target.value)}
-        >
-          {compatibleScales.map((scale) => (
-            <option key={scale.id} value={scale.id}>
-              {scale.displayName} - {scale.description}
-            </option>
-          ))}
-        </select>
-      </div>
+      {matches.length === 0 && <p className="scale-empty">No scales available for this chord quality</p>}
+
+      {/* Scale Selector, best chord scale first */}
+      {matches.length > 0 && (
+        <div className="scale-selector">
+          <label className="scale-label">Select Scale:</label>
+          <select
+            className="scale-select"
+            value={selectedScale?.id || ''}
+            onChange={(e) => handleScaleChange(e.target.value)}
+          >
+            {matches.map((match, index) => (
+              <option key={match.scale.id} value={match.scale.id}>
+                {index + 1}. {match.scale.displayName} - {match.summary}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
 
       {/* Scale Visualization */}
       {selectedScale && (
         <ScaleNeck
-          scaleNotes={scaleNotes}
+          scaleNotes={neckNotes}
+          backgroundNotes={position ? scaleNotes : undefined}
           primaryColor={qualityDef.color}
           accentColor={qualityDef.accent}
-          scaleName={`${displayRoot} ${selectedScale.displayName}`}
+          scaleName={`${spelledScale[0]} ${selectedScale.displayName}${position ? ` · ${position.label}` : ''}`}
+          degrees={selectedMatch?.degrees}
         />
       )}
 
+      {/* Position stepping */}
+      {selectedScale && (
+        <div className="scale-positions">
+          <select
+            className="scale-select"
+            value={system}
+            onChange={(e) => handleSystemChange(e.target.value as ScalePositionSystem | 'all')}
+            aria-label="Position system"
+          >
+            {(['all', ...systems] as const).map((option) => (
+              <option key={option} value={option}>
+                {SYSTEM_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          {system !== 'all' && (
+            <div className="btn-group">
+              <button
+                className="btn btn-secondary"
+                onClick={() => setPositionIndex(Math.max(0, Math.min(positionIndex, positions.length - 1) - 1))}
+                disabled={!position || positionIndex === 0}
+                aria-label="Previous position"
+              >
+                Previous
+              </button>
+              <span className="scale-position-label">
+                {position
+                  ? `${position.label} · frets ${position.minFret}-${position.maxFret}`
+                  : 'No positions on this tuning'}
+              </span>
+              <button
+                className="btn btn-secondary"
+                onClick={() => setPositionIndex(Math.min(positionIndex + 1, positions.length - 1))}
+                disabled={!position || positionIndex >= positions.length - 1}
+                aria-label="Next position"
+              >
+                Next
+              </button>
+              <button
+                className="btn btn-primary"
+                onClick={handlePositionPlay}
+                disabled={!position || !audioEngine}
+              >
+                Play up &amp; down
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Scale Info */}
       {selectedScale && (
         <div className="scale-info">
@@ -101,8 +241,55 @@ export function ScaleExplorer({ root, quality, syncedRoot, syncedQuality }: Prop
               ))}
             </div>
           </div>
+          {selectedMatch && (
+            <div className="scale-info-section">
+              <h4 className="scale-info-title">Over {chordName}</h4>
+              <div className="scale-intervals">
+                {selectedMatch.degrees.map((degree, index) => (
+                  <span key={index} className={`scale-interval-badge scale-degree-${degree.role}`}>
+                    {degree.label}
+                  </span>
+                ))}
+              </div>
+              <p className="scale-degree-summary">{selectedMatch.summary}</p>
+            </div>
+          )}
+          <div className="scale-info-section">
+            <h4 className="scale-info-title">Notes</h4>
+            <div className="scale-intervals">
+              {spelledScale.map((name, index) => (
+                <span key={index} className="scale-interval-badge">
+                  {name}
+                </span>
+              ))}
+            </div>
+          </div>
         </div>
       )}
+
+      {/* User-defined scales */}
+      <div className="scale-custom">
+        <ScaleFormulaInput onCreate={handleScaleCreate} />
+        {createdNote && <p className="scale-custom-note">{createdNote}</p>}
+        {customScales.length > 0 && (
+          <ul className="scale-custom-list">
+            {customScales.map((scale) => (
+              <li key={scale.id} className="scale-custom-item">
+                <span className="scale-custom-name">{scale.displayName}</span>
+                <span className="scale-custom-formula">{scale.intervals.join(' ')}</span>
+                <button
+                  type="button"
+                  className="btn btn-icon"
+                  onClick={() => handleScaleDelete(scale.id)}
+                  aria-label={`Delete ${scale.displayName}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </section>
   )
 }
@@ -0,0 +1,60 @@
+import { useState } from 'react'
+import type { ScaleDefinition } from '../types/progression'
+import { parseScaleFormula } from '../utils/scaleUtils'
+import { createCustomScale } from '../utils/scaleLibrary'
+
+interface Props {
+  onCreate: (scale: ScaleDefinition) => void
+}
+
+export function ScaleFormulaInput({ onCreate }: Props) {
+  const [name, setName] = useState('')
+  const [formula, setFormula] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const result = parseScaleFormula(formula)
+    if (!result.ok) {
+      setError(result.error)
+      return
+    }
+    setError(null)
+    onCreate(createCustomScale(name.trim() || result.intervals.join(' '), result.intervals))
+    setName('')
+    setFormula('')
+  }
+
+  return (
+    <form className="chord-symbol-input scale-formula-input" onSubmit={handleSubmit}>
+      <label htmlFor="scale-formula">Create a scale</label>
+      <div className="chord-symbol-row">
+        <input
+          type="text"
+          className="chord-symbol-field scale-formula-name"
+          value={name}
+          placeholder="Name"
+          aria-label="Scale name"
+          onChange={(event) => setName(event.target.value)}
+        />
+        <input
+          id="scale-formula"
+          type="text"
+          className={`chord-symbol-field ${error ? 'invalid' : ''}`}
+          value={formula}
+          placeholder="e.g. 1 b2 3 4 5 b6 b7"
+          autoComplete="off"
+          spellCheck={false}
+          onChange={(event) => {
+            setFormula(event.target.value)
+            setError(null)
+          }}
+        />
+        <button type="submit" className="btn btn-secondary">
+          Add
+        </button>
+      </div>
+      {error && <p className="chord-symbol-error">{error}</p>}
+    </form>
+  )
+}
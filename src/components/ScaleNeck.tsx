@@ -1,147 +1,211 @@
-import { GUITAR_STRINGS, STRING_TUNINGS } from '../data/notes'
 import type { GuitarString } from '../types/music'
-import type { ScaleNote } from '../types/progression'
+import type { ChordScaleDegree, ChordScaleRole, ScaleNote } from '../types/progression'
+import { formatFinger } from '../utils/fingeringSolver'
+import { getNeckLayout } from '../utils/orientation'
+import { getActiveCapo, getStringGauge, getStrings, getStringTunings } from '../utils/tuning'
+import { CapoBar } from './CapoBar'
 
 interface Props {
   scaleNotes: ScaleNote[]
   primaryColor: string
   accentColor: string
   scaleName: string
+  backgroundNotes?: ScaleNote[] // The rest of the neck, drawn faintly behind a position
+  degrees?: ChordScaleDegree[] // Colours notes as chord tones, tensions or avoid notes over a chord
 }
 
 const fretGap = 44
 const stringGap = 32
 const margin = { left: 40, right: 32, top: 28, bottom: 32 }
-const fretCount = 13 // Show frets 0-12
-
-// String thickness based on actual guitar string gauges
-const STRING_THICKNESS: Record<GuitarString, number> = {
-  6: 3.0,
-  5: 2.6,
-  4: 2.2,
-  3: 1.8,
-  2: 1.5,
-  1: 1.2
-}
+const MIN_LAST_FRET = 12 // Show frets 0-12, more when a position climbs higher
 
 // Fret markers (standard guitar positions)
-const FRET_MARKERS = [3, 5, 7, 9, 12]
+const FRET_MARKERS = [3, 5, 7, 9, 12, 15]
+
+const ROLE_LABELS: Record<ChordScaleRole, string> = {
+  chordTone: 'Chord tone',
+  tension: 'Tension',
+  avoid: 'Avoid note'
+}
 
-export function ScaleNeck({ scaleNotes, primaryColor, accentColor, scaleName }: Props) {
+export function ScaleNeck({
+  scaleNotes,
+  primaryColor,
+  accentColor,
+  scaleName,
+  backgroundNotes = [],
+  degrees = []
+}: Props) {
+  const strings = getStrings()
+  const lastFret = Math.max(MIN_LAST_FRET, ...scaleNotes.map((note) => note.fret))
+  const fretCount = lastFret + 1
   const width = margin.left + margin.right + fretCount * fretGap
-  const height = margin.top + margin.bottom + (GUITAR_STRINGS.length - 1) * stringGap
+  const height = margin.top + margin.bottom + (strings.length - 1) * stringGap
+  const layout = getNeckLayout(width, height)
 
   const positionForFret = (fret: number) => margin.left + (fret - 0.5) * fretGap
 
   const positionForString = (stringId: GuitarString) => {
-    const index = GUITAR_STRINGS.indexOf(stringId)
-    const flippedIndex = GUITAR_STRINGS.length - 1 - index
+    const index = strings.indexOf(stringId)
+    const flippedIndex = strings.length - 1 - index
     return margin.top + flippedIndex * stringGap
   }
 
   // Group notes by position for rendering
-  const notesToRender = scaleNotes.filter((note) => note.fret <= 12)
+  const notesToRender = scaleNotes.filter((note) => note.fret <= lastFret)
+  const ghostNotes = backgroundNotes.filter(
+    (note) =>
+      note.fret <= lastFret &&
+      !scaleNotes.some((shown) => shown.string === note.string && shown.fret === note.fret)
+  )
 
   return (
     <div className="scale-neck-container">
       <div className="scale-neck-header">
         <h3 className="scale-neck-title">{scaleName}</h3>
+        {degrees.length > 0 && (
+          <div className="scale-role-legend">
+            {(Object.keys(ROLE_LABELS) as ChordScaleRole[]).map((role) => (
+              <span key={role} className="scale-role-legend-item">
+                <span
+                  className={`scale-role-swatch scale-role-swatch-${role}`}
+                  style={role === 'chordTone' ? { background: accentColor } : undefined}
+                />
+                {ROLE_LABELS[role]}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
       <div className="scale-neck-shell">
         <svg
-          viewBox={`0 0 ${width} ${height}`}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
           role="img"
+          className={layout.vertical ? 'neck-vertical' : undefined}
           aria-label={`${scaleName} scale visualization`}
         >
-          {/* Background */}
-          <rect x={0} y={0} width={width} height={height} rx={12} className="scale-neck-bg" />
-
-          {/* Frets */}
-          {Array.from({ length: fretCount + 1 }).map((_, index) => {
-            const x = margin.left + index * fretGap
-            const isNut = index === 0
-            return (
+          <g transform={layout.transform}>
+            {/* Background */}
+            <rect x={0} y={0} width={width} height={height} rx={12} className="scale-neck-bg" />
+
+            {/* Frets */}
+            {Array.from({ length: fretCount + 1 }).map((_, index) => {
+              const x = margin.left + index * fretGap
+              const isNut = index === 0
+              return (
+                <line
+                  key={`fret-${index}`}
+                  x1={x}
+                  x2={x}
+                  y1={margin.top - 10}
+                  y2={height - margin.bottom + 10}
+                  className={isNut ? 'scale-nut' : 'scale-fret'}
+                />
+              )
+            })}
+
+            {/* Strings with varying thickness */}
+            {strings.map((stringId) => (
               <line
-                key={`fret-${index}`}
-                x1={x}
-                x2={x}
-                y1={margin.top - 10}
-                y2={height - margin.bottom + 10}
-                className={isNut ? 'scale-nut' : 'scale-fret'}
+                key={`string-${stringId}`}
+                x1={margin.left}
+                x2={width - margin.right}
+                y1={positionForString(stringId)}
+                y2={positionForString(stringId)}
+                className="scale-string"
+                strokeWidth={getStringGauge(stringId)}
               />
-            )
-          })}
-
-          {/* Strings with varying thickness */}
-          {GUITAR_STRINGS.map((stringId) => (
-            <line
-              key={`string-${stringId}`}
-              x1={margin.left}
-              x2={width - margin.right}
-              y1={positionForString(stringId)}
-              y2={positionForString(stringId)}
-              className="scale-string"
-              strokeWidth={STRING_THICKNESS[stringId]}
+            ))}
+
+            {/* Capo across the nut */}
+            <CapoBar
+              capo={getActiveCapo()}
+              x={margin.left}
+              labelY={height - 8}
+              positionForString={positionForString}
+              layout={layout}
             />
-          ))}
 
-          {/* Fret markers */}
-          {FRET_MARKERS.map((fret) => {
-            const x = margin.left + fret * fretGap - fretGap / 2
-            const y = height / 2
+            {/* Fret markers */}
+            {FRET_MARKERS.filter((fret) => fret <= lastFret).map((fret) => {
+              const x = margin.left + fret * fretGap - fretGap / 2
+              const y = height / 2
+
+              if (fret === 12) {
+                // Double dots at 12th fret
+                return (
+                  <g key={`marker-${fret}`}>
+                    <circle cx={x} cy={y - 16} r={4} className="scale-fret-marker" />
+                    <circle cx={x} cy={y + 16} r={4} className="scale-fret-marker" />
+                  </g>
+                )
+              }
+
+              // Single dot for other positions
+              return <circle key={`marker-${fret}`} cx={x} cy={y} r={4} className="scale-fret-marker" />
+            })}
+
+            {/* Scale notes outside the current position */}
+            {ghostNotes.map((note) => (
+              <circle
+                key={`ghost-${note.string}-${note.fret}`}
+                cx={positionForFret(note.fret)}
+                cy={positionForString(note.string as GuitarString)}
+                r={6}
+                className="scale-note-ghost"
+              />
+            ))}
+
+            {/* Scale notes */}
+            {notesToRender.map((note, index) => {
+              const isRoot = note.interval === 'R'
+              const radius = isRoot ? 12 : 9
+              const color = isRoot ? primaryColor : accentColor
+              // Over a chord, tensions and avoid notes give up the chord's colours
+              const degree = degrees.find((other) => other.interval === note.interval)
+              const outsideChord = degree !== undefined && degree.role !== 'chordTone'
 
-            if (fret === 12) {
-              // Double dots at 12th fret
               return (
-                <g key={`marker-${fret}`}>
-                  <circle cx={x} cy={y - 16} r={4} className="scale-fret-marker" />
-                  <circle cx={x} cy={y + 16} r={4} className="scale-fret-marker" />
+                <g key={`${note.string}-${note.fret}-${index}`} className="scale-note-group">
+                  <circle
+                    cx={positionForFret(note.fret)}
+                    cy={positionForString(note.string as GuitarString)}
+                    r={radius}
+                    style={outsideChord ? undefined : { fill: color }}
+                    className={outsideChord ? `scale-note-dot scale-note-${degree.role}` : 'scale-note-dot'}
+                  />
+                  <text
+                    {...layout.label(positionForFret(note.fret), positionForString(note.string as GuitarString), 4)}
+                    className="scale-note-label"
+                  >
+                    {degree?.label ?? note.interval}
+                  </text>
+                  {note.finger !== undefined && note.finger > 0 && (
+                    <text
+                      {...layout.label(
+                        positionForFret(note.fret) + radius + 4,
+                        positionForString(note.string as GuitarString) - radius
+                      )}
+                      className="finger-number"
+                    >
+                      {formatFinger(note.finger)}
+                    </text>
+                  )}
                 </g>
               )
-            }
-
-            // Single dot for other positions
-            return <circle key={`marker-${fret}`} cx={x} cy={y} r={4} className="scale-fret-marker" />
-          })}
-
-          {/* Scale notes */}
-          {notesToRender.map((note, index) => {
-            const isRoot = note.interval === 'R'
-            const radius = isRoot ? 12 : 9
-            const color = isRoot ? primaryColor : accentColor
-
-            return (
-              <g key={`${note.string}-${note.fret}-${index}`} className="scale-note-group">
-                <circle
-                  cx={positionForFret(note.fret)}
-                  cy={positionForString(note.string as GuitarString)}
-                  r={radius}
-                  style={{ fill: color }}
-                  className="scale-note-dot"
-                />
-                <text
-                  x={positionForFret(note.fret)}
-                  y={positionForString(note.string as GuitarString) + 4}
-                  className="scale-note-label"
-                >
-                  {note.interval}
-                </text>
-              </g>
-            )
-          })}
-
-          {/* String tuning labels */}
-          {GUITAR_STRINGS.map((stringId) => (
-            <text
-              key={`tuning-${stringId}`}
-              x={width - 12}
-              y={positionForString(stringId) + 4}
-              className="scale-string-label"
-              textAnchor="end"
-            >
-              {STRING_TUNINGS[stringId].note}
-            </text>
-          ))}
+            })}
+
+            {/* String tuning labels */}
+            {strings.map((stringId) => (
+              <text
+                key={`tuning-${stringId}`}
+                {...layout.label(width - 12, positionForString(stringId), 4, 'end')}
+                className="scale-string-label"
+              >
+                {getStringTunings()[stringId].note}
+              </text>
+            ))}
+          </g>
         </svg>
       </div>
     </div>
@@ -1,4 +1,5 @@
 import type { ChordQualityDefinition, RuntimeChordShape } from '../types/music'
+import { formatCapo } from '../utils/tuning'
 import { Fretboard } from './Fretboard'
 
 interface Props {
@@ -23,6 +24,11 @@ export function ShapeCard({ shape, quality, onPlay }: Props) {
         <div className="shape-card-info">
           <span className="shape-tag">{quality.label}</span>
           <h3>{shape.displayName}</h3>
+          {shape.shapeName && (
+            <p className="shape-capo-name">
+              Played as {shape.shapeName} · {formatCapo()}
+            </p>
+          )}
           <p className="shape-description">{shape.description}</p>
         </div>
         <button
@@ -1,5 +1,8 @@
-import type { NoteId } from '../types/music'
+import type { CapoSetting, NoteId } from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
 import type { ChordProgression, AnimationSpeed } from '../types/progression'
+import type { VoiceLeadingOptions } from '../types/voicing'
+import type { TrackDraft } from '../types/songBuilder'
 import { SongBuilderPanel } from './SongBuilderPanel'
 
 interface Props {
@@ -8,9 +11,23 @@ interface Props {
   progression: ChordProgression | null
   rootNote: NoteId
   speed: AnimationSpeed
+  voiceLeading?: VoiceLeadingOptions
+  tuning: TuningDefinition
+  capo: CapoSetting
+  incomingTrack?: TrackDraft | null
 }
 
-export function SongBuilder({ isOpen, onClose, progression, rootNote, speed }: Props) {
+export function SongBuilder({
+  isOpen,
+  onClose,
+  progression,
+  rootNote,
+  speed,
+  voiceLeading,
+  tuning,
+  capo,
+  incomingTrack
+}: Props) {
   return (
     <SongBuilderPanel
       isOpen={isOpen}
@@ -18,6 +35,10 @@ export function SongBuilder({ isOpen, onClose, progression, rootNote, speed }: P
       progression={progression}
       rootNote={rootNote}
       speed={speed}
+      voiceLeading={voiceLeading}
+      tuning={tuning}
+      capo={capo}
+      incomingTrack={incomingTrack}
     />
   )
 }
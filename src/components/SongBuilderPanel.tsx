@@ -1,13 +1,19 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react'
-import type { GuitarString, NoteId } from '../types/music'
+import type { CapoSetting, GuitarString, NoteId } from '../types/music'
 import type { ChordProgression, AnimationSpeed } from '../types/progression'
-import type { ProgressionRiff, RiffStyle, TabSheet, Track, TrackType } from '../types/songBuilder'
+import type { ProgressionRiff, RiffStyle, TabSheet, Track, TrackDraft, TrackType } from '../types/songBuilder'
+import type { VoiceLeadingOptions } from '../types/voicing'
+import type { TuningDefinition } from '../types/analyzer'
 import { TabDisplay } from './TabDisplay'
 import { generateProgressionRiff, getAvailableNotesAtPosition, addRiffNote, removeRiffNote } from '../utils/riffGenerator'
 import { riffToTabSheet } from '../utils/tabFormatter'
 import { SongAudioEngine } from '../audio/songEngine'
 import { SPEED_TO_BPM, TRACK_COLORS } from '../types/songBuilder'
-import { QUALITY_MAP } from '../data/chordQualities'
+import { formatChordName } from '../utils/chordUtils'
+import { createProgressionFromChordSymbols, parseChordSymbolList } from '../utils/chordSymbolParser'
+import { isRomanProgression, parseRomanProgression } from '../utils/romanNumeralParser'
+import { getProgressionList } from '../utils/progressionLibrary'
+import { detectKeyFromRiff } from '../utils/keyDetection'
 import { exportRiffToMidi, exportChordsToMidi, downloadMidi, generateMidiFilename, exportTracksToMidi } from '../utils/midiExport'
 import { exportTrackToAscii, exportAllTracksToAscii, downloadTab, generateTabFilename } from '../utils/tabExport'
 
@@ -17,6 +23,10 @@ interface Props {
   progression: ChordProgression | null
   rootNote: NoteId
   speed: AnimationSpeed
+  voiceLeading?: VoiceLeadingOptions // Same options the progression viewer used
+  tuning: TuningDefinition // Riffs are regenerated for a new tuning or capo
+  capo: CapoSetting
+  incomingTrack?: TrackDraft | null // Added to the tracks as soon as it's handed over
 }
 
 const RIFF_STYLES: { id: RiffStyle; label: string; description: string }[] = [
@@ -26,7 +36,17 @@ const RIFF_STYLES: { id: RiffStyle; label: string; description: string }[] = [
   { id: 'complex', label: 'Complex', description: 'Advanced techniques: slides, bends, hammer-ons, harmonics' }
 ]
 
-export function SongBuilderPanel({ isOpen, onClose, progression, rootNote, speed }: Props) {
+export function SongBuilderPanel({
+  isOpen,
+  onClose,
+  progression: selectedProgression,
+  rootNote: selectedRoot,
+  speed,
+  voiceLeading,
+  tuning,
+  capo,
+  incomingTrack
+}: Props) {
   const [riffStyle, setRiffStyle] = useState<RiffStyle>('melodic')
   const [riff, setRiff] = useState<ProgressionRiff | null>(null)
   const [isPlaying, setIsPlaying] = useState(false)
@@ -45,6 +65,16 @@ export function SongBuilderPanel({ isOpen, onClose, progression, rootNote, speed
   const [playbackSource, setPlaybackSource] = useState<'preview' | 'tracks'>('preview')
   const playbackSourceRef = useRef<'preview' | 'tracks'>('preview')
 
+  // Chords typed into the panel replace the progression passed in
+  const [chordText, setChordText] = useState('')
+  const [chordTextErrors, setChordTextErrors] = useState<string[]>([])
+  const [typedProgression, setTypedProgression] = useState<{
+    progression: ChordProgression
+    root: NoteId
+  } | null>(null)
+  const progression = typedProgression?.progression ?? selectedProgression
+  const rootNote = typedProgression?.root ?? selectedRoot
+
   const audioEngineRef = useRef<SongAudioEngine | null>(null)
 
   // Initialize audio engine
@@ -64,6 +94,33 @@ export function SongBuilderPanel({ isOpen, onClose, progression, rootNote, speed
     }
   }, [])
 
+  // A track sent from elsewhere joins the mix and plays with the others
+  useEffect(() => {
+    if (!incomingTrack) {
+      return
+    }
+    const id = `track-${Date.now()}`
+    setTracks((prev) => [
+      ...prev,
+      {
+        ...incomingTrack,
+        id,
+        volume: 0.7,
+        isMuted: false,
+        isSoloed: false,
+        color: TRACK_COLORS[prev.length % TRACK_COLORS.length]
+      }
+    ])
+    audioEngineRef.current?.createTrackAudio(id, 0.7)
+    setPlaybackSource('tracks')
+    playbackSourceRef.current = 'tracks'
+  }, [incomingTrack])
+
+  // A progression picked elsewhere takes over from typed chords
+  useEffect(() => {
+    setTypedProgression(null)
+  }, [selectedProgression, selectedRoot])
+
   // Sync customBpm with speed when speed prop changes
   useEffect(() => {
     setCustomBpm(SPEED_TO_BPM[speed])
@@ -103,14 +160,14 @@ export function SongBuilderPanel({ isOpen, onClose, progression, rootNote, speed
   // Generate riff when progression, root, or style changes
   useEffect(() => {
     if (progression && isOpen) {
-      const newRiff = generateProgressionRiff(progression, rootNote, riffStyle, customBpm)
+      const newRiff = generateProgressionRiff(progression, rootNote, riffStyle, customBpm, voiceLeading)
       setRiff(newRiff)
       setCurrentMeasure(0)
       setCurrentSubdivision(0)
       setIsPlaying(false)
       audioEngineRef.current?.stop()
     }
-  }, [progression, rootNote, riffStyle, customBpm, isOpen])
+  }, [progression, rootNote, riffStyle, customBpm, voiceLeading, tuning, capo, isOpen])
 
   // Convert riff to tab sheet
   const tabSheet = useMemo<TabSheet | null>(() => {
@@ -118,10 +175,53 @@ export function SongBuilderPanel({ isOpen, onClose, progression, rootNote, speed
     return riffToTabSheet(riff)
   }, [riff])
 
+  // Build a progression from typed chord symbols ("Am F C G7"), or from Roman numerals
+  // ("ii7 V7 Imaj7") played in the key passed in
+  const handleChordTextSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (isRomanProgression(chordText)) {
+      const result = parseRomanProgression(chordText)
+      if (!result.ok) {
+        setChordTextErrors([result.error])
+        return
+      }
+      setChordTextErrors([])
+      setTypedProgression({
+        progression: {
+          id: 'typed',
+          name: chordText.trim(),
+          description: 'Typed Roman numerals',
+          chords: result.chords,
+          source: chordText.trim()
+        },
+        root: selectedRoot
+      })
+      return
+    }
+    const { chords, errors } = parseChordSymbolList(chordText)
+    if (chords.length === 0 && errors.length === 0) {
+      setChordTextErrors(['Type at least one chord, e.g. "Am F C G7"'])
+      return
+    }
+    setChordTextErrors(errors)
+    if (errors.length === 0) {
+      setTypedProgression(createProgressionFromChordSymbols(chords))
+    }
+  }
+
+  // Any built-in or saved progression, in the key passed in
+  const handleLibraryPick = (progressionId: string) => {
+    const picked = getProgressionList().find((option) => option.id === progressionId)
+    if (picked) {
+      setTypedProgression({ progression: picked, root: selectedRoot })
+      setChordTextErrors([])
+    }
+  }
+
   // Handle regenerate
   const handleRegenerate = () => {
     if (!progression) return
-    const newRiff = generateProgressionRiff(progression, rootNote, riffStyle, customBpm)
+    const newRiff = generateProgressionRiff(progression, rootNote, riffStyle, customBpm, voiceLeading)
     setRiff(newRiff)
     setCurrentMeasure(0)
     setCurrentSubdivision(0)
@@ -226,7 +326,12 @@ export function SongBuilderPanel({ isOpen, onClose, progression, rootNote, speed
     setEditingPosition(null)
 
     // Play the note for feedback
-    audioEngineRef.current?.playNote({ string: editingPosition.stringId, fret: note.fret })
+    audioEngineRef.current?.playNote({
+      string: editingPosition.stringId,
+      fret: note.fret,
+      tuning: riff.tuning,
+      capo: riff.capo
+    })
   }
 
   // Close panel and stop audio
@@ -330,13 +435,15 @@ export function SongBuilderPanel({ isOpen, onClose, progression, rootNote, speed
     audioEngineRef.current?.setTrackVolume(trackId, volume)
   }
 
+  // Key of what is actually playing, edits included; exports use the same detection
+  const keyCandidates = useMemo(() => (riff ? detectKeyFromRiff(riff, 3) : []), [riff])
+
   // Get current chord info
   const currentChordInfo = useMemo(() => {
     if (!riff || currentMeasure >= riff.chordRiffs.length) return null
     const chordRiff = riff.chordRiffs[currentMeasure]
-    const qualityDef = QUALITY_MAP[chordRiff.chordQuality]
     return {
-      name: `${chordRiff.chordRoot}${qualityDef?.shortLabel || ''}`,
+      name: formatChordName(chordRiff.chordRoot, chordRiff.chordQuality, chordRiff.chordRootName),
       degree: chordRiff.chordDegree
     }
   }, [riff, currentMeasure])
@@ -360,9 +467,51 @@ export function SongBuilderPanel({ isOpen, onClose, progression, rootNote, speed
 
         {/* Content */}
         <div className="song-builder-content">
+          <form className="song-builder-chord-entry" onSubmit={handleChordTextSubmit}>
+            <label className="style-label" htmlFor="song-builder-chords">
+              Type chords or Roman numerals:
+            </label>
+            <div className="chord-symbol-row">
+              <input
+                id="song-builder-chords"
+                type="text"
+                className={`chord-symbol-field ${chordTextErrors.length ? 'invalid' : ''}`}
+                value={chordText}
+                placeholder="e.g. Dm7 | G7 | Cmaj7 | A7b9 or ii7 | V7/V | V7 | Imaj7"
+                autoComplete="off"
+                spellCheck={false}
+                onChange={(e) => {
+                  setChordText(e.target.value)
+                  setChordTextErrors([])
+                }}
+              />
+              <button type="submit" className="btn btn-secondary">
+                Use chords
+              </button>
+            </div>
+            {chordTextErrors.map((error) => (
+              <p key={error} className="chord-symbol-error">
+                {error}
+              </p>
+            ))}
+            <select
+              className="progression-select"
+              value=""
+              onChange={(e) => handleLibraryPick(e.target.value)}
+              aria-label="Pick a progression"
+            >
+              <option value="">Or pick a progression…</option>
+              {getProgressionList().map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.name} - {option.description}
+                </option>
+              ))}
+            </select>
+          </form>
+
           {!progression ? (
             <div className="song-builder-empty">
-              <p>Select a chord progression to get started</p>
+              <p>Select a chord progression or type some chords to get started</p>
             </div>
           ) : (
             <>
@@ -371,10 +520,27 @@ export function SongBuilderPanel({ isOpen, onClose, progression, rootNote, speed
                 <div className="song-builder-current-chord">
                   <span className="current-chord-label">Now Playing:</span>
                   <span className="current-chord-name">{currentChordInfo.name}</span>
-                  <span className="current-chord-degree">({currentChordInfo.degree})</span>
+                  {currentChordInfo.degree !== currentChordInfo.name && (
+                    <span className="current-chord-degree">({currentChordInfo.degree})</span>
+                  )}
                 </div>
               )}
 
+              {keyCandidates.length > 0 && (
+                <p className="song-builder-key">
+                  Key: <strong>{keyCandidates[0].name}</strong> ({Math.round(keyCandidates[0].confidence * 100)}%)
+                  {keyCandidates.length > 1 && (
+                    <span className="song-builder-key-alternatives">
+                      {' '}or{' '}
+                      {keyCandidates
+                        .slice(1)
+                        .map((key) => `${key.name} (${Math.round(key.confidence * 100)}%)`)
+                        .join(', ')}
+                    </span>
+                  )}
+                </p>
+              )}
+
               {/* Style selector */}
               <div className="song-builder-controls">
                 <div className="style-selector">
@@ -424,7 +590,7 @@ export function SongBuilderPanel({ isOpen, onClose, progression, rootNote, speed
                           className={`btn btn-secondary note-picker-btn ${note.interval ? 'chord-tone' : ''}`}
                           onClick={() => handleNoteSelect(note)}
                         >
-                          <span className="note-picker-note">{note.note}</span>
+                          <span className="note-picker-note">{note.name}</span>
                           <span className="note-picker-fret">fret {note.fret}</span>
                           {note.interval && (
                             <span className="note-picker-interval">{note.interval}</span>
@@ -1,6 +1,9 @@
 import { useRef, useEffect } from 'react'
 import type { GuitarString } from '../types/music'
+import type { PickDirection } from '../types/arpeggio'
 import type { TabSheet, Technique, TabPosition } from '../types/songBuilder'
+import { isLowStringOnTop } from '../utils/orientation'
+import { getStrings, getTabLabels } from '../utils/tuning'
 
 interface Props {
   tabSheet: TabSheet
@@ -10,23 +13,18 @@ interface Props {
   highlightColor?: string
 }
 
-const STRING_LABELS: Record<GuitarString, string> = {
-  1: 'e',
-  2: 'B',
-  3: 'G',
-  4: 'D',
-  5: 'A',
-  6: 'E'
-}
-
-// Display order: high strings at top
-const DISPLAY_ORDER: GuitarString[] = [1, 2, 3, 4, 5, 6]
-
 // Layout constants
 const MARGIN = { left: 30, right: 20, top: 30, bottom: 20 }
 const STRING_GAP = 20
 const SUBDIVISION_WIDTH = 36 // Wider to fit technique suffixes
 const MEASURE_GAP = 20
+const PICK_ROW_HEIGHT = 16
+
+// Standard pick stroke signs: downstroke and upstroke
+const PICK_SYMBOLS: Record<PickDirection, string> = {
+  down: '⊓',
+  up: 'V'
+}
 
 // Technique symbols for display
 const TECHNIQUE_SYMBOLS: Record<Technique, string> = {
@@ -80,12 +78,17 @@ export function TabDisplay({
   highlightColor = '#fbbf24'
 }: Props) {
   const containerRef = useRef<HTMLDivElement>(null)
+  const tabLabels = getTabLabels(tabSheet.tuning)
+  // Display order: high strings at top, or the lowest on top to match the audience view
+  const displayOrder = isLowStringOnTop() ? getStrings(tabSheet.tuning) : [...getStrings(tabSheet.tuning)].reverse()
 
-  // Calculate dimensions
+  // Calculate dimensions; pick strokes get a row of their own under the degree
+  const hasPicks = tabSheet.measures.some((measure) => measure.pickDirections)
+  const marginTop = MARGIN.top + (hasPicks ? PICK_ROW_HEIGHT : 0)
   const subdivisions = tabSheet.measures[0]?.subdivisions || 8
   const measureWidth = subdivisions * SUBDIVISION_WIDTH + MEASURE_GAP
   const totalWidth = MARGIN.left + MARGIN.right + tabSheet.measures.length * measureWidth
-  const totalHeight = MARGIN.top + MARGIN.bottom + (DISPLAY_ORDER.length - 1) * STRING_GAP
+  const totalHeight = marginTop + MARGIN.bottom + (displayOrder.length - 1) * STRING_GAP
 
   // Auto-scroll to keep current measure visible
   useEffect(() => {
@@ -102,8 +105,8 @@ export function TabDisplay({
   }, [currentMeasure, measureWidth])
 
   const getStringY = (stringId: GuitarString) => {
-    const index = DISPLAY_ORDER.indexOf(stringId)
-    return MARGIN.top + index * STRING_GAP
+    const index = displayOrder.indexOf(stringId)
+    return marginTop + index * STRING_GAP
   }
 
   const getSubdivisionX = (measureIndex: number, subdivisionIndex: number) => {
@@ -133,14 +136,14 @@ export function TabDisplay({
         />
 
         {/* String labels on left */}
-        {DISPLAY_ORDER.map((stringId) => (
+        {displayOrder.map((stringId) => (
           <text
             key={`label-${stringId}`}
             x={12}
             y={getStringY(stringId) + 4}
             className="tab-string-label"
           >
-            {STRING_LABELS[stringId]}
+            {tabLabels[stringId]}
           </text>
         ))}
 
@@ -153,23 +156,23 @@ export function TabDisplay({
               {/* Measure start bar line */}
               <line
                 x1={measureStartX}
-                y1={MARGIN.top - 5}
+                y1={marginTop - 5}
                 x2={measureStartX}
-                y2={MARGIN.top + (DISPLAY_ORDER.length - 1) * STRING_GAP + 5}
+                y2={marginTop + (displayOrder.length - 1) * STRING_GAP + 5}
                 className="tab-bar-line"
               />
 
               {/* Measure end bar line */}
               <line
                 x1={measureStartX + subdivisions * SUBDIVISION_WIDTH}
-                y1={MARGIN.top - 5}
+                y1={marginTop - 5}
                 x2={measureStartX + subdivisions * SUBDIVISION_WIDTH}
-                y2={MARGIN.top + (DISPLAY_ORDER.length - 1) * STRING_GAP + 5}
+                y2={marginTop + (displayOrder.length - 1) * STRING_GAP + 5}
                 className="tab-bar-line"
               />
 
               {/* Horizontal lines for strings */}
-              {DISPLAY_ORDER.map((stringId) => (
+              {displayOrder.map((stringId) => (
                 <line
                   key={`string-line-${measureIndex}-${stringId}`}
                   x1={measureStartX}
@@ -184,9 +187,9 @@ export function TabDisplay({
               {measureIndex === currentMeasure && (
                 <rect
                   x={getSubdivisionX(measureIndex, currentSubdivision) - SUBDIVISION_WIDTH / 2}
-                  y={MARGIN.top - 8}
+                  y={marginTop - 8}
                   width={SUBDIVISION_WIDTH}
-                  height={(DISPLAY_ORDER.length - 1) * STRING_GAP + 16}
+                  height={(displayOrder.length - 1) * STRING_GAP + 16}
                   fill={highlightColor}
                   opacity={0.2}
                   rx={4}
@@ -194,7 +197,7 @@ export function TabDisplay({
               )}
 
               {/* Fret numbers / notes */}
-              {DISPLAY_ORDER.map((stringId) => (
+              {displayOrder.map((stringId) => (
                 <g key={`notes-${measureIndex}-${stringId}`}>
                   {measure.positions[stringId].map((fret, subdivisionIndex) => {
                     const x = getSubdivisionX(measureIndex, subdivisionIndex)
@@ -271,12 +274,27 @@ export function TabDisplay({
               {/* Chord name below measure */}
               <text
                 x={measureStartX + (subdivisions * SUBDIVISION_WIDTH) / 2}
-                y={MARGIN.top + (DISPLAY_ORDER.length - 1) * STRING_GAP + 18}
+                y={marginTop + (displayOrder.length - 1) * STRING_GAP + 18}
                 className="tab-chord-name"
               >
                 {measure.chordName}
               </text>
 
+              {/* Pick strokes above the notes */}
+              {measure.pickDirections?.map(
+                (pick, subdivisionIndex) =>
+                  pick && (
+                    <text
+                      key={`pick-${measureIndex}-${subdivisionIndex}`}
+                      x={getSubdivisionX(measureIndex, subdivisionIndex)}
+                      y={marginTop - 12}
+                      className="tab-pick"
+                    >
+                      {PICK_SYMBOLS[pick]}
+                    </text>
+                  )
+              )}
+
               {/* Degree above measure */}
               <text
                 x={measureStartX + (subdivisions * SUBDIVISION_WIDTH) / 2}
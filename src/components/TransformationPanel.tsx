@@ -0,0 +1,107 @@
+import type { NoteId } from '../types/music'
+import type { ChordProgression, TransformationKind } from '../types/progression'
+import type { VoiceLeadingOptions } from '../types/voicing'
+import type { ChordAudioEngine } from '../audio/engine'
+import { transposeProgression } from '../utils/scaleUtils'
+import { optimizeVoiceLeading } from '../utils/voiceLeading'
+import { getTransformations } from '../utils/progressionTransforms'
+
+interface Props {
+  progression: ChordProgression
+  rootNote: NoteId
+  chordIndex: number // Chromatic mediant moves start from this chord
+  voiceLeading: VoiceLeadingOptions // Auditions use the same grips as the viewer
+  audioEngine: ChordAudioEngine | null
+  onPreview: (progression: ChordProgression) => void
+  onSongBuilderSend?: (progression: ChordProgression) => void
+}
+
+const KIND_LABELS: Record<TransformationKind, string> = {
+  negative: 'Negative harmony',
+  parallelKey: 'Parallel key',
+  relativeKey: 'Relative key',
+  parallel: 'P (parallel)',
+  leadingTone: 'L (leading-tone exchange)',
+  relative: 'R (relative)',
+  chromaticMediant: 'Chromatic mediant'
+}
+
+export function TransformationPanel({
+  progression,
+  rootNote,
+  chordIndex,
+  voiceLeading,
+  audioEngine,
+  onPreview,
+  onSongBuilderSend
+}: Props) {
+  const transformations = getTransformations(progression, rootNote, chordIndex)
+
+  // The whole progression, once through
+  const handleAudition = (chords: ChordProgression) => {
+    if (!audioEngine) {
+      return
+    }
+    const transposed = transposeProgression(chords, rootNote)
+    const voicings = optimizeVoiceLeading(
+      transposed.map((chord) => ({ root: chord.note, quality: chord.quality, bass: chord.bass })),
+      voiceLeading
+    )
+    audioEngine.playChords(voicings.map((voicing) => voicing.notesForAudio))
+  }
+
+  return (
+    <div className="reharmonization">
+      <div className="reharmonization-header">
+        <h3 className="reharmonization-title">Transformations</h3>
+        <button
+          className="btn btn-secondary btn-sm"
+          onClick={() => handleAudition(progression)}
+          disabled={!audioEngine}
+        >
+          Play original
+        </button>
+      </div>
+      {transformations.length === 0 ? (
+        <p className="reharmonization-empty">No transformations change this progression</p>
+      ) : (
+        <ul className="reharmonization-list">
+          {transformations.map((transformation) => (
+            <li key={`${transformation.kind}-${transformation.label}`} className="reharmonization-item">
+              <div className="reharmonization-text">
+                <span className="reharmonization-kind">{KIND_LABELS[transformation.kind]}</span>
+                <strong className="reharmonization-label">
+                  {transformation.label}
+                  <span className="reharmonization-degrees">
+                    {transformation.progression.chords.map((chord) => chord.degree).join(' - ')}
+                  </span>
+                </strong>
+                <span className="reharmonization-explanation">{transformation.explanation}</span>
+              </div>
+              <div className="btn-group">
+                <button
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => handleAudition(transformation.progression)}
+                  disabled={!audioEngine}
+                >
+                  Listen
+                </button>
+                <button className="btn btn-primary btn-sm" onClick={() => onPreview(transformation.progression)}>
+                  Preview
+                </button>
+                {onSongBuilderSend && (
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => onSongBuilderSend(transformation.progression)}
+                  >
+                    Song Builder
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
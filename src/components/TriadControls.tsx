@@ -11,6 +11,7 @@ interface Props {
   onPlayPause: () => void
   onSpeedChange: (speed: AnimationSpeed) => void
   onAudioToggle: (enabled: boolean) => void
+  stepLabel?: string // What each step is, "Position" unless given
 }
 
 export function TriadControls({
@@ -23,7 +24,8 @@ export function TriadControls({
   onNext,
   onPlayPause,
   onSpeedChange,
-  onAudioToggle
+  onAudioToggle,
+  stepLabel = 'Position'
 }: Props) {
   const progress = totalPositions > 0 ? ((currentIndex + 1) / totalPositions) * 100 : 0
   const hasPositions = totalPositions > 0
@@ -34,7 +36,7 @@ export function TriadControls({
       {/* Position indicator and progress bar */}
       <div className="triad-progress-section">
         <div className="triad-position-indicator">
-          Position {currentIndex + 1} of {totalPositions}
+          {stepLabel} {currentIndex + 1} of {totalPositions}
         </div>
         <div className="triad-progress-bar">
           <div
@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react'
-import type { ChordQuality, NoteId } from '../types/music'
+import type { CapoSetting, ChordQuality, NoteId } from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
+import type { TransposedChord } from '../types/progression'
 import type { AnimationSpeed, AnimationState, TriadPosition } from '../types/triad'
 import type { ChordAudioEngine } from '../audio/engine'
 import { orderNotesForStrum } from '../audio/engine'
@@ -7,11 +9,25 @@ import { QUALITY_MAP } from '../data/chordQualities'
 import { generateTriadPositions } from '../utils/triadUtils'
 import { TriadNeck } from './TriadNeck'
 import { TriadControls } from './TriadControls'
+import { TriadVoiceLeading } from './TriadVoiceLeading'
 
 interface Props {
   root: NoteId
   quality: ChordQuality
+  tuning: TuningDefinition // Positions are regenerated when the tuning or capo changes
+  capo: CapoSetting
   audioEngine: ChordAudioEngine | null
+  progressionChords?: TransposedChord[] // The Chord Progressions stream, comped in progression mode
+  progressionChordIndex?: number
+}
+
+type ExplorerMode = 'chord' | 'progression'
+
+const NO_CHORDS: TransposedChord[] = []
+
+const MODE_LABELS: Record<ExplorerMode, string> = {
+  chord: 'One chord',
+  progression: 'Through a progression'
 }
 
 const SPEED_INTERVALS: Record<AnimationSpeed, number> = {
@@ -20,7 +36,16 @@ const SPEED_INTERVALS: Record<AnimationSpeed, number> = {
   fast: 500
 }
 
-export function TriadExplorer({ root, quality, audioEngine }: Props) {
+export function TriadExplorer({
+  root,
+  quality,
+  tuning,
+  capo,
+  audioEngine,
+  progressionChords = NO_CHORDS,
+  progressionChordIndex
+}: Props) {
+  const [mode, setMode] = useState<ExplorerMode>('chord')
   const [positions, setPositions] = useState<TriadPosition[]>([])
   const [currentIndex, setCurrentIndex] = useState(0)
   const [animationState, setAnimationState] = useState<AnimationState>('paused')
@@ -30,13 +55,13 @@ export function TriadExplorer({ root, quality, audioEngine }: Props) {
   const qualityDef = QUALITY_MAP[quality]
   const currentPosition = positions[currentIndex] || null
 
-  // Regenerate positions when root or quality changes
+  // Regenerate positions when root, quality, tuning or capo changes
   useEffect(() => {
     const newPositions = generateTriadPositions(root, quality)
     setPositions(newPositions)
     setCurrentIndex(0)
     setAnimationState('paused')
-  }, [root, quality])
+  }, [root, quality, tuning, capo])
 
   // Auto-advance timer
   useEffect(() => {
@@ -97,11 +122,51 @@ export function TriadExplorer({ root, quality, audioEngine }: Props) {
     setEnableAudio(enabled)
   }
 
+  // Only one mode steps at a time
+  const handleModeChange = (nextMode: ExplorerMode) => {
+    setMode(nextMode)
+    setAnimationState('paused')
+  }
+
+  const modeSelector = (
+    <div className="btn-group btn-group-tight" style={{ justifyContent: 'center' }}>
+      {(Object.keys(MODE_LABELS) as ExplorerMode[]).map((option) => (
+        <button
+          key={option}
+          className={`btn btn-sm ${mode === option ? 'btn-primary' : 'btn-secondary'}`}
+          onClick={() => handleModeChange(option)}
+        >
+          {MODE_LABELS[option]}
+        </button>
+      ))}
+    </div>
+  )
+
+  if (mode === 'progression') {
+    return (
+      <section className="triad-explorer">
+        <h2 className="triad-title">Triad Explorer</h2>
+        <p className="triad-subtitle">
+          The nearest inversion for every chord change, on one string set
+        </p>
+        {modeSelector}
+        <TriadVoiceLeading
+          chords={progressionChords}
+          chordIndex={progressionChordIndex}
+          tuning={tuning}
+          capo={capo}
+          audioEngine={audioEngine}
+        />
+      </section>
+    )
+  }
+
   // Show empty state if no positions
   if (positions.length === 0) {
     return (
       <section className="triad-explorer">
         <h2 className="triad-title">Triad Explorer</h2>
+        {modeSelector}
         <p className="triad-empty-state">No triads found for this chord</p>
       </section>
     )
@@ -113,6 +178,7 @@ export function TriadExplorer({ root, quality, audioEngine }: Props) {
       <p className="triad-subtitle">
         All {positions.length} playable 3-note voicings across the neck
       </p>
+      {modeSelector}
 
       <TriadNeck
         position={currentPosition}
@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { CapoSetting } from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
+import type { TransposedChord } from '../types/progression'
+import type { AnimationSpeed, AnimationState, TriadPosition } from '../types/triad'
+import { type ChordAudioEngine, orderNotesForStrum } from '../audio/engine'
+import { QUALITY_MAP } from '../data/chordQualities'
+import { formatChordName } from '../utils/chordUtils'
+import { findTriadPath, getAdjacentStringSets, getTriadsOnStringSet } from '../utils/triadUtils'
+import { getMidiNote, getStringTunings } from '../utils/tuning'
+import { TriadNeck } from './TriadNeck'
+import { TriadControls } from './TriadControls'
+
+interface Props {
+  chords: TransposedChord[] // The progression playing in Chord Progressions
+  chordIndex?: number // Its current chord, followed as it moves
+  tuning: TuningDefinition // The path is worked out again when the tuning or capo changes
+  capo: CapoSetting
+  audioEngine: ChordAudioEngine | null
+}
+
+const SPEED_INTERVALS: Record<AnimationSpeed, number> = {
+  slow: 2000,
+  medium: 1000,
+  fast: 500
+}
+
+/**
+ * "E string: 3 → R, up 1" for each voice that moves between two shapes
+ */
+function describeMotion(from: TriadPosition, to: TriadPosition): string[] {
+  return to.notes.map((note, index) => {
+    const previous = from.notes[index]
+    const steps = getMidiNote(note.string, note.fret) - getMidiNote(previous.string, previous.fret)
+    const label = `${getStringTunings()[note.string].label} string: ${previous.interval} → ${note.interval}`
+    if (steps === 0) {
+      return `${label}, held`
+    }
+    return `${label}, ${steps > 0 ? 'up' : 'down'} ${Math.abs(steps)}`
+  })
+}
+
+export function TriadVoiceLeading({ chords, chordIndex, tuning, capo, audioEngine }: Props) {
+  const stringSets = getAdjacentStringSets()
+  // Comping usually starts on the middle strings: 4-3-2 on a guitar
+  const [stringSetId, setStringSetId] = useState(() => (stringSets[stringSets.length - 2] ?? stringSets[0]).join('-'))
+  const [startIndex, setStartIndex] = useState(0)
+  const [currentIndex, setCurrentIndex] = useState(0)
+  const [animationState, setAnimationState] = useState<AnimationState>('paused')
+  const [speed, setSpeed] = useState<AnimationSpeed>('medium')
+  const [enableAudio, setEnableAudio] = useState(false)
+
+  // A tuning with fewer strings may not have the chosen set
+  const stringSet = stringSets.find((strings) => strings.join('-') === stringSetId) ?? stringSets[0]
+  const stringSetKey = stringSet.join('-')
+
+  const starts = useMemo(
+    () => (chords.length > 0 ? getTriadsOnStringSet(chords[0].note, chords[0].quality, stringSet) : []),
+    [chords, stringSetKey, tuning, capo]
+  )
+  const path = useMemo(
+    () => findTriadPath(chords.map((chord) => ({ root: chord.note, quality: chord.quality })), stringSet, startIndex),
+    [chords, stringSetKey, startIndex, tuning, capo]
+  )
+
+  const currentStep = path[currentIndex] ?? null
+  // The shape the voices move from: the last chord before this one that had a triad
+  const previousPosition =
+    path
+      .slice(0, currentIndex)
+      .reverse()
+      .find((step) => step.position)?.position ?? null
+  const currentChord = chords[currentIndex]
+  const qualityDef = currentChord ? QUALITY_MAP[currentChord.quality] : null
+
+  // A new progression starts from its first chord and shape
+  useEffect(() => {
+    setCurrentIndex(0)
+    setStartIndex(0)
+    setAnimationState('paused')
+  }, [chords])
+
+  // Follow the chord Chord Progressions is on
+  useEffect(() => {
+    if (chordIndex !== undefined) {
+      setCurrentIndex(chordIndex)
+    }
+  }, [chordIndex])
+
+  // Auto-advance timer, looping round the progression
+  useEffect(() => {
+    if (animationState !== 'playing' || path.length <= 1) {
+      return
+    }
+
+    const interval = setInterval(() => {
+      setCurrentIndex((prev) => (prev + 1) % path.length)
+    }, SPEED_INTERVALS[speed])
+
+    return () => clearInterval(interval)
+  }, [animationState, speed, path.length])
+
+  // Audio playback when the chord changes (if enabled)
+  useEffect(() => {
+    const position = currentStep?.position
+    if (!enableAudio || !audioEngine || !position) {
+      return
+    }
+
+    const notesToPlay = position.notes.map((note) => ({ string: note.string, fret: note.fret }))
+    audioEngine.play(orderNotesForStrum(notesToPlay))
+  }, [currentIndex, enableAudio, audioEngine, currentStep])
+
+  const handleStringSetChange = (value: string) => {
+    setStringSetId(value)
+    setStartIndex(0)
+    setCurrentIndex(0)
+  }
+
+  const handleStartChange = (step: number) => {
+    if (starts.length > 0) {
+      setStartIndex((prev) => (prev + step + starts.length) % starts.length)
+      setCurrentIndex(0)
+    }
+  }
+
+  if (chords.length === 0) {
+    return <p className="triad-empty-state">Pick a progression in Chord Progressions to comp through it with triads</p>
+  }
+
+  return (
+    <>
+      <div className="drop-voicing-controls">
+        <select
+          className="scale-select"
+          value={stringSetKey}
+          onChange={(e) => handleStringSetChange(e.target.value)}
+          aria-label="String set"
+        >
+          {stringSets.map((strings) => (
+            <option key={strings.join('-')} value={strings.join('-')}>
+              Strings {strings.join('-')}
+            </option>
+          ))}
+        </select>
+        <div className="btn-group btn-group-tight">
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={() => handleStartChange(-1)}
+            disabled={starts.length < 2}
+          >
+            Lower start
+          </button>
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={() => handleStartChange(1)}
+            disabled={starts.length < 2}
+          >
+            Higher start
+          </button>
+        </div>
+      </div>
+
+      <div className="progression-chords">
+        {chords.map((chord, index) => (
+          <button
+            key={index}
+            className={`progression-chord-card ${index === currentIndex ? 'active' : ''}`}
+            onClick={() => setCurrentIndex(index)}
+          >
+            <div className="chord-degree">{chord.degree}</div>
+            <div className="chord-name">{formatChordName(chord.note, chord.quality, chord.name)}</div>
+            <div className="triad-path-motion">
+              {!path[index]?.position
+                ? 'No triad on these strings'
+                : index === 0
+                  ? 'Start'
+                  : `Moves ${path[index].motion} ${path[index].motion === 1 ? 'semitone' : 'semitones'}`}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {currentStep?.position && previousPosition && (
+        <ul className="triad-path-voices">
+          {describeMotion(previousPosition, currentStep.position).map((line) => (
+            <li key={line}>{line}</li>
+          ))}
+        </ul>
+      )}
+
+      <TriadNeck
+        position={currentStep?.position ?? null}
+        previousPosition={previousPosition}
+        primaryColor={qualityDef?.color ?? ''}
+        accentColor={qualityDef?.accent ?? ''}
+      />
+
+      <TriadControls
+        currentIndex={currentIndex}
+        totalPositions={path.length}
+        animationState={animationState}
+        speed={speed}
+        enableAudio={enableAudio && audioEngine !== null}
+        onPrevious={() => setCurrentIndex((prev) => Math.max(0, prev - 1))}
+        onNext={() => setCurrentIndex((prev) => Math.min(path.length - 1, prev + 1))}
+        onPlayPause={() => setAnimationState((prev) => (prev === 'playing' ? 'paused' : 'playing'))}
+        onSpeedChange={setSpeed}
+        onAudioToggle={setEnableAudio}
+        stepLabel="Chord"
+      />
+    </>
+  )
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react'
+import type { InstrumentId } from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
+import { INSTRUMENTS, INSTRUMENT_LIST } from '../data/instruments'
+import {
+  createTuning,
+  decodeTuning,
+  encodeTuning,
+  formatPitch,
+  getPitchChoices,
+  getStrings,
+  getStringTunings
+} from '../utils/tuning'
+
+interface Props {
+  tuning: TuningDefinition // Starting point; a saved custom tuning is edited in place
+  onSave: (tuning: TuningDefinition) => void
+  onDelete: (tuningId: string) => void
+  onClose: () => void
+}
+
+const newTuningId = () => `custom-${Date.now().toString(36)}`
+
+const getPitches = (tuning: TuningDefinition) => {
+  const strings = getStringTunings(tuning)
+  return getStrings(tuning).map((stringId) => strings[stringId].midi)
+}
+
+export function TuningEditor({ tuning, onSave, onDelete, onClose }: Props) {
+  const [name, setName] = useState(tuning.custom ? tuning.name : '')
+  const [instrumentId, setInstrumentId] = useState<InstrumentId>(tuning.instrument)
+  const [pitches, setPitches] = useState(() => getPitches(tuning))
+  const [shareCode, setShareCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const instrument = INSTRUMENTS[instrumentId]
+  const draft = createTuning(tuning.custom ? tuning.id : newTuningId(), name.trim(), instrument, pitches)
+
+  const handleInstrumentChange = (nextId: InstrumentId) => {
+    setInstrumentId(nextId)
+    setPitches([...INSTRUMENTS[nextId].openMidi])
+  }
+
+  const handlePitchChange = (index: number, midi: number) => {
+    setPitches((prev) => prev.map((pitch, i) => (i === index ? midi : pitch)))
+  }
+
+  const handleSave = (asNew: boolean) => {
+    if (!draft.name) {
+      setError('Give the tuning a name first.')
+      return
+    }
+    setError(null)
+    onSave(asNew ? { ...draft, id: newTuningId() } : draft)
+  }
+
+  const handleShare = () => {
+    const code = encodeTuning({ ...draft, name: draft.name || 'Shared tuning' })
+    setShareCode(code)
+    navigator.clipboard?.writeText(code).catch(() => undefined)
+  }
+
+  const handleImport = () => {
+    const shared = decodeTuning(shareCode, draft.id)
+    if (!shared) {
+      setError('Couldn\'t read that tuning. It should look like "Nashville (guitar): E3 A3 D4 G4 B3 E4".')
+      return
+    }
+    setError(null)
+    setName(shared.name)
+    setInstrumentId(shared.instrument)
+    setPitches(getPitches(shared))
+  }
+
+  return (
+    <section className="tuning-editor" aria-label="Tuning editor">
+      <div className="tuning-editor-header">
+        <h3>{tuning.custom ? `Edit ${tuning.name}` : 'New tuning'}</h3>
+        <button type="button" className="btn btn-icon" onClick={onClose} aria-label="Close tuning editor">
+          ×
+        </button>
+      </div>
+
+      <div className="tuning-editor-fields">
+        <div className="control">
+          <label htmlFor="tuning-name">Name</label>
+          <input
+            id="tuning-name"
+            type="text"
+            className="chord-symbol-field"
+            value={name}
+            placeholder="e.g. Open C6"
+            onChange={(event) => setName(event.target.value)}
+          />
+        </div>
+        <div className="control">
+          <label htmlFor="tuning-instrument">Instrument</label>
+          <select
+            id="tuning-instrument"
+            value={instrumentId}
+            onChange={(event) => handleInstrumentChange(event.target.value as InstrumentId)}
+          >
+            {INSTRUMENT_LIST.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Lowest string first, as tunings are written */}
+      <div className="tuning-editor-strings">
+        {pitches.map((midi, index) => (
+          <div key={`${instrumentId}-${index}`} className="control">
+            <label htmlFor={`tuning-string-${index}`}>String {instrument.stringCount - index}</label>
+            <select
+              id={`tuning-string-${index}`}
+              value={midi}
+              onChange={(event) => handlePitchChange(index, Number(event.target.value))}
+            >
+              {getPitchChoices(instrument, index).map((choice) => (
+                <option key={choice} value={choice}>
+                  {formatPitch(choice)}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="tuning-editor-actions">
+        <button type="button" className="btn btn-primary" onClick={() => handleSave(false)}>
+          {tuning.custom ? 'Save changes' : 'Save tuning'}
+        </button>
+        {tuning.custom && (
+          <>
+            <button type="button" className="btn btn-secondary" onClick={() => handleSave(true)}>
+              Save as new
+            </button>
+            <button type="button" className="btn btn-secondary" onClick={() => onDelete(tuning.id)}>
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="control tuning-editor-share">
+        <label htmlFor="tuning-share">Share</label>
+        <div className="chord-symbol-row">
+          <input
+            id="tuning-share"
+            type="text"
+            className={`chord-symbol-field ${error ? 'invalid' : ''}`}
+            value={shareCode}
+            placeholder="Paste a shared tuning, or copy this one"
+            spellCheck={false}
+            onChange={(event) => {
+              setShareCode(event.target.value)
+              setError(null)
+            }}
+          />
+          <button type="button" className="btn btn-secondary" onClick={handleShare}>
+            Copy
+          </button>
+          <button type="button" className="btn btn-secondary" onClick={handleImport}>
+            Load
+          </button>
+        </div>
+      </div>
+      {error && <p className="chord-symbol-error">{error}</p>}
+    </section>
+  )
+}
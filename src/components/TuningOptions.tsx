@@ -0,0 +1,31 @@
+import { INSTRUMENT_LIST } from '../data/instruments'
+import { TUNING_LIST } from '../data/tunings'
+import { getInstrument, getTuningList } from '../utils/tuning'
+
+// Tuning <option>s grouped by instrument, then the saved custom tunings, for any tuning <select>
+export function TuningOptions() {
+  const customTunings = getTuningList().filter((option) => option.custom)
+
+  return (
+    <>
+      {INSTRUMENT_LIST.map((instrument) => (
+        <optgroup key={instrument.id} label={instrument.name}>
+          {TUNING_LIST.filter((option) => option.instrument === instrument.id).map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+      {customTunings.length > 0 && (
+        <optgroup label="My tunings">
+          {customTunings.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name} ({getInstrument(option).name})
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </>
+  )
+}
@@ -100,6 +100,114 @@ export const CHORD_QUALITIES: ChordQualityDefinition[] = [
     intervals: ['R', '3', '#5'],
     color: '#ff94ff',
     accent: '#ffc3ff'
+  },
+  {
+    id: 'sixNine',
+    label: '6/9',
+    shortLabel: '6/9',
+    description: 'Major triad with the sixth and ninth, no seventh to pull it anywhere.',
+    intervals: ['R', '3', '5', '6', '9'],
+    color: '#36d6c3',
+    accent: '#6fe8da'
+  },
+  {
+    id: 'dominant9',
+    label: 'Dominant 9',
+    shortLabel: '9',
+    description: 'Dominant 7 with a natural ninth on top for a funky, full sound.',
+    intervals: ['R', '3', '5', 'b7', '9'],
+    color: '#ffb84f',
+    accent: '#ffd08a'
+  },
+  {
+    id: 'dominant11',
+    label: 'Dominant 11',
+    shortLabel: '11',
+    description: 'Stacks the ninth and eleventh over a dominant 7; often played without the third.',
+    intervals: ['R', '3', '5', 'b7', '9', '11'],
+    color: '#e6c229',
+    accent: '#f2d864'
+  },
+  {
+    id: 'dominant13',
+    label: 'Dominant 13',
+    shortLabel: '13',
+    description: 'Dominant 7 with the thirteenth, the go-to sound for jazz and soul turnarounds.',
+    intervals: ['R', '3', '5', 'b7', '9', '13'],
+    color: '#ff9a3c',
+    accent: '#ffbb78'
+  },
+  {
+    id: 'dominant7b9',
+    label: '7b9',
+    shortLabel: '7b9',
+    description: 'Dominant 7 with a flattened ninth that pulls hard toward a minor target.',
+    intervals: ['R', '3', '5', 'b7', 'b9'],
+    color: '#ff6f3c',
+    accent: '#ff9a73'
+  },
+  {
+    id: 'dominant7sharp9',
+    label: '7#9',
+    shortLabel: '7#9',
+    description: 'The "Hendrix chord": major third and sharp ninth clash over a dominant 7.',
+    intervals: ['R', '3', '5', 'b7', '#9'],
+    color: '#ff4f7b',
+    accent: '#ff87a4'
+  },
+  {
+    id: 'dominant7sharp11',
+    label: '7#11',
+    shortLabel: '7#11',
+    description: 'Lydian dominant color: a raised eleventh floating over the dominant 7.',
+    intervals: ['R', '3', '5', 'b7', '#11'],
+    color: '#c86bff',
+    accent: '#dc9bff'
+  },
+  {
+    id: 'altered',
+    label: 'Altered 7',
+    shortLabel: '7alt',
+    description: 'Dominant 7 with altered tensions: sharp fifth, flat and sharp ninth.',
+    intervals: ['R', '3', '#5', 'b7', 'b9', '#9'],
+    color: '#ff3f9f',
+    accent: '#ff7dbd'
+  },
+  {
+    id: 'diminished7',
+    label: 'Diminished 7',
+    shortLabel: 'dim7',
+    description: 'Symmetrical stack of minor thirds that repeats every three frets.',
+    intervals: ['R', 'b3', 'b5', 'bb7'],
+    color: '#e04848',
+    accent: '#ee8080'
+  },
+  {
+    id: 'halfDiminished',
+    label: 'Half-diminished',
+    shortLabel: 'm7b5',
+    description: 'Diminished triad with a flat seventh, the ii chord of a minor ii-V.',
+    intervals: ['R', 'b3', 'b5', 'b7'],
+    color: '#d65f8f',
+    accent: '#e891b4'
+  },
+  {
+    id: 'minorMajor7',
+    label: 'Minor-major 7',
+    shortLabel: 'm(maj7)',
+    description: 'Minor triad with a natural seventh for a dark, cinematic tension.',
+    intervals: ['R', 'b3', '5', '7'],
+    color: '#8f6bff',
+    accent: '#b39cff'
+  },
+  {
+    id: 'augmented7',
+    label: 'Augmented 7',
+    shortLabel: 'aug7',
+    description: 'Augmented triad with a flat seventh, a restless dominant.',
+    intervals: ['R', '3', '#5', 'b7'],
+    color: '#f06bd8',
+    accent: '#f59ce6'
   }
 ]
 
@@ -110,3 +218,21 @@ export const QUALITY_MAP = CHORD_QUALITIES.reduce(
   },
   {} as Record<ChordQuality, ChordQualityDefinition>
 )
+
+// Qualities that read as major for key-oriented views (progressions, circle of fifths)
+export const MAJOR_FAMILY_QUALITIES: ChordQuality[] = [
+  'major',
+  'major7',
+  'dominant7',
+  'add9',
+  'augmented',
+  'sixNine',
+  'dominant9',
+  'dominant11',
+  'dominant13',
+  'dominant7b9',
+  'dominant7sharp9',
+  'dominant7sharp11',
+  'altered',
+  'augmented7'
+]
@@ -595,5 +595,561 @@ export const CHORD_SHAPES: ChordShapeTemplate[] = [
       engagesFromFret: 1,
       showInOpen: false
     }
+  },
+  {
+    id: 'e-six-nine',
+    label: 'G 6/9 shape',
+    description: 'Sixth-string 6/9 grip with the sixth and ninth stacked under one finger.',
+    shapeFamily: 'E-family',
+    qualities: ['sixNine'],
+    rootString: 6,
+    rootFret: 3,
+    baseRoot: 'G',
+    isMovable: true,
+    positions: [
+      { string: 6, fret: 3, finger: 2, interval: 'R' },
+      { string: 5, fret: 2, finger: 1, interval: '3' },
+      { string: 4, fret: 2, finger: 1, interval: '6' },
+      { string: 3, fret: 2, finger: 1, interval: '9' },
+      { string: 2, fret: 3, finger: 3, interval: '5' }
+    ],
+    mutedStrings: [1],
+    barre: {
+      fromString: 5,
+      toString: 3,
+      fret: 2,
+      finger: 1,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'a-six-nine',
+    label: 'C 6/9 shape',
+    description: 'Fifth-string 6/9 with the ninth and fifth ringing on top.',
+    shapeFamily: 'A-family',
+    qualities: ['sixNine'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 2, interval: 'R' },
+      { string: 4, fret: 2, finger: 1, interval: '3' },
+      { string: 3, fret: 2, finger: 1, interval: '6' },
+      { string: 2, fret: 3, finger: 3, interval: '9' },
+      { string: 1, fret: 3, finger: 4, interval: '5' }
+    ],
+    mutedStrings: [6],
+    barre: {
+      fromString: 4,
+      toString: 3,
+      fret: 2,
+      finger: 1,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'e-dom9',
+    label: 'E9 shape',
+    description: 'E7 frame with the ninth added on the high E string.',
+    shapeFamily: 'E-family',
+    qualities: ['dominant9'],
+    rootString: 6,
+    rootFret: 0,
+    baseRoot: 'E',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 2, finger: 2, interval: '5' },
+      { string: 3, fret: 1, finger: 1, interval: '3' },
+      { string: 1, fret: 2, finger: 3, interval: '9' }
+    ],
+    openStrings: [
+      { string: 6, interval: 'R' },
+      { string: 4, interval: 'b7' },
+      { string: 2, interval: '5' }
+    ],
+    barre: {
+      fromString: 6,
+      toString: 1,
+      fret: 0,
+      finger: 1,
+      engagesFromFret: 1,
+      showInOpen: false
+    }
+  },
+  {
+    id: 'a-dom9',
+    label: 'C9 shape',
+    description: 'Classic funk 9th: third on the D string, ring-finger barre on top.',
+    shapeFamily: 'A-family',
+    qualities: ['dominant9'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 2, interval: 'R' },
+      { string: 4, fret: 2, finger: 1, interval: '3' },
+      { string: 3, fret: 3, finger: 3, interval: 'b7' },
+      { string: 2, fret: 3, finger: 3, interval: '9' },
+      { string: 1, fret: 3, finger: 3, interval: '5' }
+    ],
+    mutedStrings: [6],
+    barre: {
+      fromString: 3,
+      toString: 1,
+      fret: 3,
+      finger: 3,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'e-dom11',
+    label: 'E11 shape',
+    description: 'Full barre with the fourth string carrying the seventh and the fifth string the eleventh.',
+    shapeFamily: 'E-family',
+    qualities: ['dominant11'],
+    rootString: 6,
+    rootFret: 0,
+    baseRoot: 'E',
+    isMovable: true,
+    positions: [
+      { string: 3, fret: 1, finger: 2, interval: '3' }
+    ],
+    openStrings: [
+      { string: 6, interval: 'R' },
+      { string: 5, interval: '11' },
+      { string: 4, interval: 'b7' },
+      { string: 2, interval: '5' },
+      { string: 1, interval: 'R' }
+    ],
+    barre: {
+      fromString: 6,
+      toString: 1,
+      fret: 0,
+      finger: 1,
+      engagesFromFret: 1,
+      showInOpen: false
+    }
+  },
+  {
+    id: 'a-dom11',
+    label: 'C11 shape',
+    description: 'One-finger barre: seventh, ninth and eleventh stacked over the root, third left out.',
+    shapeFamily: 'A-family',
+    qualities: ['dominant11'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 1, interval: 'R' },
+      { string: 4, fret: 3, finger: 1, interval: '11' },
+      { string: 3, fret: 3, finger: 1, interval: 'b7' },
+      { string: 2, fret: 3, finger: 1, interval: '9' }
+    ],
+    mutedStrings: [6, 1],
+    barre: {
+      fromString: 5,
+      toString: 2,
+      fret: 3,
+      finger: 1,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'e-dom13',
+    label: 'G13 shape',
+    description: 'Sixth-string 13th with the thirteenth on the B string.',
+    shapeFamily: 'E-family',
+    qualities: ['dominant13'],
+    rootString: 6,
+    rootFret: 3,
+    baseRoot: 'G',
+    isMovable: true,
+    positions: [
+      { string: 6, fret: 3, finger: 1, interval: 'R' },
+      { string: 4, fret: 3, finger: 2, interval: 'b7' },
+      { string: 3, fret: 4, finger: 3, interval: '3' },
+      { string: 2, fret: 5, finger: 4, interval: '13' }
+    ],
+    mutedStrings: [5, 1]
+  },
+  {
+    id: 'a-dom13',
+    label: 'C13 shape',
+    description: 'Fifth-string 13th with a pinky barre adding the thirteenth on top.',
+    shapeFamily: 'A-family',
+    qualities: ['dominant13'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 2, interval: 'R' },
+      { string: 4, fret: 2, finger: 1, interval: '3' },
+      { string: 3, fret: 3, finger: 3, interval: 'b7' },
+      { string: 2, fret: 5, finger: 4, interval: '3' },
+      { string: 1, fret: 5, finger: 4, interval: '13' }
+    ],
+    mutedStrings: [6],
+    barre: {
+      fromString: 2,
+      toString: 1,
+      fret: 5,
+      finger: 4,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'e-dom7b9',
+    label: 'E7b9 shape',
+    description: 'E7 frame with the flat ninth on the high E string.',
+    shapeFamily: 'E-family',
+    qualities: ['dominant7b9'],
+    rootString: 6,
+    rootFret: 0,
+    baseRoot: 'E',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 2, finger: 3, interval: '5' },
+      { string: 3, fret: 1, finger: 1, interval: '3' },
+      { string: 1, fret: 1, finger: 2, interval: 'b9' }
+    ],
+    openStrings: [
+      { string: 6, interval: 'R' },
+      { string: 4, interval: 'b7' },
+      { string: 2, interval: '5' }
+    ],
+    barre: {
+      fromString: 6,
+      toString: 1,
+      fret: 0,
+      finger: 1,
+      engagesFromFret: 1,
+      showInOpen: false
+    }
+  },
+  {
+    id: 'a-dom7b9',
+    label: 'C7b9 shape',
+    description: 'Fifth-string 7b9 with the flat ninth on the B string.',
+    shapeFamily: 'A-family',
+    qualities: ['dominant7b9'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 2, interval: 'R' },
+      { string: 4, fret: 2, finger: 1, interval: '3' },
+      { string: 3, fret: 3, finger: 3, interval: 'b7' },
+      { string: 2, fret: 2, finger: 1, interval: 'b9' }
+    ],
+    mutedStrings: [6, 1],
+    barre: {
+      fromString: 4,
+      toString: 2,
+      fret: 2,
+      finger: 1,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'e-dom7sharp9',
+    label: 'G7#9 shape',
+    description: 'Sixth-string 7#9 with the sharp ninth on the high E string.',
+    shapeFamily: 'E-family',
+    qualities: ['dominant7sharp9'],
+    rootString: 6,
+    rootFret: 3,
+    baseRoot: 'G',
+    isMovable: true,
+    positions: [
+      { string: 6, fret: 3, finger: 1, interval: 'R' },
+      { string: 4, fret: 3, finger: 2, interval: 'b7' },
+      { string: 3, fret: 4, finger: 3, interval: '3' },
+      { string: 1, fret: 6, finger: 4, interval: '#9' }
+    ],
+    mutedStrings: [5, 2]
+  },
+  {
+    id: 'a-dom7sharp9',
+    label: 'C7#9 shape',
+    description: 'The "Hendrix chord": third on the D string, sharp ninth on the B string.',
+    shapeFamily: 'A-family',
+    qualities: ['dominant7sharp9'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 2, interval: 'R' },
+      { string: 4, fret: 2, finger: 1, interval: '3' },
+      { string: 3, fret: 3, finger: 3, interval: 'b7' },
+      { string: 2, fret: 4, finger: 4, interval: '#9' }
+    ],
+    mutedStrings: [6, 1]
+  },
+  {
+    id: 'e-dom7sharp11',
+    label: 'G7#11 shape',
+    description: 'Sixth-string lydian dominant with the sharp eleventh on the B string.',
+    shapeFamily: 'E-family',
+    qualities: ['dominant7sharp11'],
+    rootString: 6,
+    rootFret: 3,
+    baseRoot: 'G',
+    isMovable: true,
+    positions: [
+      { string: 6, fret: 3, finger: 2, interval: 'R' },
+      { string: 4, fret: 3, finger: 3, interval: 'b7' },
+      { string: 3, fret: 4, finger: 4, interval: '3' },
+      { string: 2, fret: 2, finger: 1, interval: '#11' }
+    ],
+    mutedStrings: [5, 1]
+  },
+  {
+    id: 'a-dom7sharp11',
+    label: 'C7#11 shape',
+    description: 'Fifth-string 7#11 with the sharp eleventh next to the root.',
+    shapeFamily: 'A-family',
+    qualities: ['dominant7sharp11'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 1, interval: 'R' },
+      { string: 4, fret: 4, finger: 2, interval: '#11' },
+      { string: 3, fret: 3, finger: 1, interval: 'b7' },
+      { string: 2, fret: 5, finger: 4, interval: '3' }
+    ],
+    mutedStrings: [6, 1],
+    barre: {
+      fromString: 5,
+      toString: 3,
+      fret: 3,
+      finger: 1,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'e-altered',
+    label: 'G7alt shape',
+    description: 'Sixth-string altered dominant: sharp fifth and flat ninth on top.',
+    shapeFamily: 'E-family',
+    qualities: ['altered'],
+    rootString: 6,
+    rootFret: 3,
+    baseRoot: 'G',
+    isMovable: true,
+    positions: [
+      { string: 6, fret: 3, finger: 1, interval: 'R' },
+      { string: 4, fret: 3, finger: 2, interval: 'b7' },
+      { string: 3, fret: 4, finger: 3, interval: '3' },
+      { string: 2, fret: 4, finger: 4, interval: '#5' },
+      { string: 1, fret: 4, finger: 4, interval: 'b9' }
+    ],
+    mutedStrings: [5],
+    barre: {
+      fromString: 2,
+      toString: 1,
+      fret: 4,
+      finger: 4,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'a-altered',
+    label: 'C7alt shape',
+    description: 'Fifth-string altered dominant with the sharp ninth and sharp fifth on top.',
+    shapeFamily: 'A-family',
+    qualities: ['altered'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 2, interval: 'R' },
+      { string: 4, fret: 2, finger: 1, interval: '3' },
+      { string: 3, fret: 3, finger: 3, interval: 'b7' },
+      { string: 2, fret: 4, finger: 4, interval: '#9' },
+      { string: 1, fret: 4, finger: 4, interval: '#5' }
+    ],
+    mutedStrings: [6],
+    barre: {
+      fromString: 2,
+      toString: 1,
+      fret: 4,
+      finger: 4,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'e-dim7',
+    label: 'G Dim7 shape',
+    description: 'Sixth-string diminished 7; slide it three frets for the same chord.',
+    shapeFamily: 'E-family',
+    qualities: ['diminished7'],
+    rootString: 6,
+    rootFret: 3,
+    baseRoot: 'G',
+    isMovable: true,
+    positions: [
+      { string: 6, fret: 3, finger: 2, interval: 'R' },
+      { string: 4, fret: 2, finger: 1, interval: 'bb7' },
+      { string: 3, fret: 3, finger: 3, interval: 'b3' },
+      { string: 2, fret: 2, finger: 1, interval: 'b5' }
+    ],
+    mutedStrings: [5, 1],
+    barre: {
+      fromString: 4,
+      toString: 2,
+      fret: 2,
+      finger: 1,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'a-dim7',
+    label: 'C Dim7 shape',
+    description: 'Fifth-string diminished 7 with the flat third on top.',
+    shapeFamily: 'A-family',
+    qualities: ['diminished7'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 2, interval: 'R' },
+      { string: 4, fret: 4, finger: 3, interval: 'b5' },
+      { string: 3, fret: 2, finger: 1, interval: 'bb7' },
+      { string: 2, fret: 4, finger: 4, interval: 'b3' }
+    ],
+    mutedStrings: [6, 1]
+  },
+  {
+    id: 'e-half-diminished',
+    label: 'G m7b5 shape',
+    description: 'Sixth-string half-diminished with the flat fifth on the B string.',
+    shapeFamily: 'E-family',
+    qualities: ['halfDiminished'],
+    rootString: 6,
+    rootFret: 3,
+    baseRoot: 'G',
+    isMovable: true,
+    positions: [
+      { string: 6, fret: 3, finger: 2, interval: 'R' },
+      { string: 4, fret: 3, finger: 3, interval: 'b7' },
+      { string: 3, fret: 3, finger: 4, interval: 'b3' },
+      { string: 2, fret: 2, finger: 1, interval: 'b5' }
+    ],
+    mutedStrings: [5, 1]
+  },
+  {
+    id: 'a-half-diminished',
+    label: 'C m7b5 shape',
+    description: 'Fifth-string half-diminished, the ii chord of a minor ii-V.',
+    shapeFamily: 'A-family',
+    qualities: ['halfDiminished'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 1, interval: 'R' },
+      { string: 4, fret: 4, finger: 3, interval: 'b5' },
+      { string: 3, fret: 3, finger: 2, interval: 'b7' },
+      { string: 2, fret: 4, finger: 4, interval: 'b3' }
+    ],
+    mutedStrings: [6, 1]
+  },
+  {
+    id: 'e-minor-major7',
+    label: 'G m(maj7) shape',
+    description: 'Sixth-string minor-major 7 with the major seventh on the D string.',
+    shapeFamily: 'E-family',
+    qualities: ['minorMajor7'],
+    rootString: 6,
+    rootFret: 3,
+    baseRoot: 'G',
+    isMovable: true,
+    positions: [
+      { string: 6, fret: 3, finger: 2, interval: 'R' },
+      { string: 4, fret: 4, finger: 4, interval: '7' },
+      { string: 3, fret: 3, finger: 1, interval: 'b3' },
+      { string: 2, fret: 3, finger: 1, interval: '5' }
+    ],
+    mutedStrings: [5, 1],
+    barre: {
+      fromString: 3,
+      toString: 2,
+      fret: 3,
+      finger: 1,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'a-minor-major7',
+    label: 'C m(maj7) shape',
+    description: 'A minor barre with the major seventh on the G string.',
+    shapeFamily: 'A-family',
+    qualities: ['minorMajor7'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 1, interval: 'R' },
+      { string: 4, fret: 5, finger: 4, interval: '5' },
+      { string: 3, fret: 4, finger: 2, interval: '7' },
+      { string: 2, fret: 4, finger: 3, interval: 'b3' },
+      { string: 1, fret: 3, finger: 1, interval: '5' }
+    ],
+    mutedStrings: [6],
+    barre: {
+      fromString: 5,
+      toString: 1,
+      fret: 3,
+      finger: 1,
+      showInOpen: true
+    }
+  },
+  {
+    id: 'e-augmented7',
+    label: 'G Aug7 shape',
+    description: 'Sixth-string 7#5 with the sharp fifth on the B string.',
+    shapeFamily: 'E-family',
+    qualities: ['augmented7'],
+    rootString: 6,
+    rootFret: 3,
+    baseRoot: 'G',
+    isMovable: true,
+    positions: [
+      { string: 6, fret: 3, finger: 1, interval: 'R' },
+      { string: 4, fret: 3, finger: 2, interval: 'b7' },
+      { string: 3, fret: 4, finger: 3, interval: '3' },
+      { string: 2, fret: 4, finger: 4, interval: '#5' }
+    ],
+    mutedStrings: [5, 1]
+  },
+  {
+    id: 'a-augmented7',
+    label: 'C Aug7 shape',
+    description: 'Fifth-string 7#5 with the third and sharp fifth on top.',
+    shapeFamily: 'A-family',
+    qualities: ['augmented7'],
+    rootString: 5,
+    rootFret: 3,
+    baseRoot: 'C',
+    isMovable: true,
+    positions: [
+      { string: 5, fret: 3, finger: 1, interval: 'R' },
+      { string: 3, fret: 3, finger: 2, interval: 'b7' },
+      { string: 2, fret: 5, finger: 4, interval: '3' },
+      { string: 1, fret: 4, finger: 3, interval: '#5' }
+    ],
+    mutedStrings: [6, 4]
   }
 ]
@@ -0,0 +1,77 @@
+import type { InstrumentDefinition, InstrumentId } from '../types/music'
+
+export const INSTRUMENTS: Record<InstrumentId, InstrumentDefinition> = {
+  guitar: {
+    id: 'guitar',
+    name: 'Guitar',
+    stringCount: 6,
+    fretCount: 22,
+    scaleLength: 25.5,
+    openMidi: [40, 45, 50, 55, 59, 64],
+    chordShapes: true,
+    midiProgram: 25
+  },
+  guitar7: {
+    id: 'guitar7',
+    name: '7-string guitar',
+    stringCount: 7,
+    fretCount: 24,
+    scaleLength: 26.5,
+    openMidi: [35, 40, 45, 50, 55, 59, 64],
+    chordShapes: true,
+    midiProgram: 25
+  },
+  guitar8: {
+    id: 'guitar8',
+    name: '8-string guitar',
+    stringCount: 8,
+    fretCount: 24,
+    scaleLength: 27,
+    openMidi: [30, 35, 40, 45, 50, 55, 59, 64],
+    chordShapes: true,
+    midiProgram: 25
+  },
+  bass4: {
+    id: 'bass4',
+    name: 'Bass',
+    stringCount: 4,
+    fretCount: 21,
+    scaleLength: 34,
+    openMidi: [28, 33, 38, 43],
+    chordShapes: false,
+    midiProgram: 33
+  },
+  bass5: {
+    id: 'bass5',
+    name: '5-string bass',
+    stringCount: 5,
+    fretCount: 24,
+    scaleLength: 35,
+    openMidi: [23, 28, 33, 38, 43],
+    chordShapes: false,
+    midiProgram: 33
+  },
+  ukulele: {
+    id: 'ukulele',
+    name: 'Ukulele',
+    stringCount: 4,
+    fretCount: 15,
+    scaleLength: 15,
+    // Re-entrant: the G string sits above the C string
+    openMidi: [67, 60, 64, 69],
+    chordShapes: false,
+    midiProgram: 24
+  },
+  mandolin: {
+    id: 'mandolin',
+    name: 'Mandolin',
+    stringCount: 4,
+    fretCount: 20,
+    scaleLength: 13.875,
+    openMidi: [55, 62, 69, 76],
+    chordShapes: false,
+    midiProgram: 25
+  }
+}
+
+export const INSTRUMENT_LIST = Object.values(INSTRUMENTS)
@@ -1,4 +1,12 @@
-import type { GuitarString, NoteId, NoteOption } from '../types/music'
+import type {
+  Accidental,
+  GuitarString,
+  NoteId,
+  NoteLetter,
+  NoteOption,
+  SpelledNote,
+  StringTuning
+} from '../types/music'
 
 export const NOTE_OPTIONS: NoteOption[] = [
   { id: 'C', label: 'C', index: 0 },
@@ -25,12 +33,66 @@ export const NOTE_TO_INDEX: Record<NoteId, number> = NOTE_OPTIONS.reduce(
 
 export const INDEX_TO_NOTE: NoteId[] = NOTE_OPTIONS.map((note) => note.id)
 
+export const NOTE_LETTERS: NoteLetter[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B']
+
+export const LETTER_TO_INDEX: Record<NoteLetter, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11
+}
+
+export const ACCIDENTAL_OFFSETS: Record<Accidental, number> = {
+  bb: -2,
+  b: -1,
+  '': 0,
+  '#': 1,
+  '##': 2
+}
+
+// Major keys clockwise round the circle of fifths, starting from C at the top
+export const CIRCLE_OF_FIFTHS: NoteId[] = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'A#', 'F']
+
+// Conventional tonic spelling for each major key (flat keys use flats)
+export const MAJOR_KEY_TONICS: Record<NoteId, SpelledNote> = {
+  C: { letter: 'C', accidental: '' },
+  'C#': { letter: 'D', accidental: 'b' },
+  D: { letter: 'D', accidental: '' },
+  'D#': { letter: 'E', accidental: 'b' },
+  E: { letter: 'E', accidental: '' },
+  F: { letter: 'F', accidental: '' },
+  'F#': { letter: 'F', accidental: '#' },
+  G: { letter: 'G', accidental: '' },
+  'G#': { letter: 'A', accidental: 'b' },
+  A: { letter: 'A', accidental: '' },
+  'A#': { letter: 'B', accidental: 'b' },
+  B: { letter: 'B', accidental: '' }
+}
+
+// Conventional tonic spelling for each minor key (relative to the major table)
+export const MINOR_KEY_TONICS: Record<NoteId, SpelledNote> = {
+  C: { letter: 'C', accidental: '' },
+  'C#': { letter: 'C', accidental: '#' },
+  D: { letter: 'D', accidental: '' },
+  'D#': { letter: 'D', accidental: '#' },
+  E: { letter: 'E', accidental: '' },
+  F: { letter: 'F', accidental: '' },
+  'F#': { letter: 'F', accidental: '#' },
+  G: { letter: 'G', accidental: '' },
+  'G#': { letter: 'G', accidental: '#' },
+  A: { letter: 'A', accidental: '' },
+  'A#': { letter: 'B', accidental: 'b' },
+  B: { letter: 'B', accidental: '' }
+}
+
+// The six strings of a standard guitar, which the CAGED templates are written for
 export const GUITAR_STRINGS: GuitarString[] = [6, 5, 4, 3, 2, 1]
 
-export const STRING_TUNINGS: Record<
-  GuitarString,
-  { note: NoteId; index: number; midi: number; label: string }
-> = {
+// Standard tuning; the tuning in use comes from utils/tuning
+export const STRING_TUNINGS: Record<GuitarString, StringTuning> = {
   6: { note: 'E', index: NOTE_TO_INDEX.E, midi: 40, label: 'Low E' },
   5: { note: 'A', index: NOTE_TO_INDEX.A, midi: 45, label: 'A' },
   4: { note: 'D', index: NOTE_TO_INDEX.D, midi: 50, label: 'D' },
@@ -124,18 +124,3 @@ export const PROGRESSIONS: Record<string, ChordProgression> = {
 }
 
 export const PROGRESSION_LIST = Object.values(PROGRESSIONS)
-
-/**
- * Get progressions that work well with a given quality
- */
-export function getProgressionsForQuality(quality: string): ChordProgression[] {
-  const isMajorFamily = ['major', 'major7', 'dominant7', 'add9', 'augmented'].includes(quality)
-
-  return PROGRESSION_LIST.filter((prog) => {
-    const firstChord = prog.chords[0]
-    const isProgressionMajor = ['major', 'major7', 'dominant7'].includes(firstChord.quality)
-
-    // Match major progressions with major qualities and minor with minor
-    return isMajorFamily ? isProgressionMajor : !isProgressionMajor
-  })
-}
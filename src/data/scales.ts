@@ -17,7 +17,7 @@ export const SCALES: Record<string, ScaleDefinition> = {
     displayName: 'Major Pentatonic',
     intervals: ['R', '2', '3', '5', '6'] as IntervalSymbol[],
     description: 'Bright, uplifting pentatonic scale',
-    compatibleQualities: ['major', 'major7']
+    compatibleQualities: ['major', 'major7', 'sixNine']
   },
 
   // Natural scales
@@ -35,7 +35,7 @@ export const SCALES: Record<string, ScaleDefinition> = {
     displayName: 'Major Scale (Ionian)',
     intervals: ['R', '2', '3', '4', '5', '6', '7'] as IntervalSymbol[],
     description: 'The major scale',
-    compatibleQualities: ['major', 'major7']
+    compatibleQualities: ['major', 'major7', 'sixNine']
   },
 
   // Harmonic scales
@@ -45,7 +45,7 @@ export const SCALES: Record<string, ScaleDefinition> = {
     displayName: 'Harmonic Minor',
     intervals: ['R', '2', 'b3', '4', '5', 'b6', '7'] as IntervalSymbol[],
     description: 'Minor scale with raised 7th',
-    compatibleQualities: ['minor', 'minor7']
+    compatibleQualities: ['minor', 'minor7', 'minorMajor7']
   },
 
   // Melodic scales
@@ -55,7 +55,7 @@ export const SCALES: Record<string, ScaleDefinition> = {
     displayName: 'Melodic Minor',
     intervals: ['R', '2', 'b3', '4', '5', '6', '7'] as IntervalSymbol[],
     description: 'Minor scale with raised 6th and 7th',
-    compatibleQualities: ['minor', 'minor7']
+    compatibleQualities: ['minor', 'minor7', 'minorMajor7']
   },
 
   // Modes
@@ -81,7 +81,7 @@ export const SCALES: Record<string, ScaleDefinition> = {
     displayName: 'Lydian Mode',
     intervals: ['R', '2', '3', '#4', '5', '6', '7'] as IntervalSymbol[],
     description: 'Bright major mode with #4',
-    compatibleQualities: ['major', 'major7']
+    compatibleQualities: ['major', 'major7', 'sixNine']
   },
   mixolydian: {
     id: 'mixolydian',
@@ -89,7 +89,7 @@ export const SCALES: Record<string, ScaleDefinition> = {
     displayName: 'Mixolydian Mode',
     intervals: ['R', '2', '3', '4', '5', '6', 'b7'] as IntervalSymbol[],
     description: 'Major mode with b7',
-    compatibleQualities: ['major', 'dominant7']
+    compatibleQualities: ['major', 'dominant7', 'dominant9', 'dominant11', 'dominant13']
   },
   locrian: {
     id: 'locrian',
@@ -97,7 +97,7 @@ export const SCALES: Record<string, ScaleDefinition> = {
     displayName: 'Locrian Mode',
     intervals: ['R', 'b2', 'b3', '4', 'b5', 'b6', 'b7'] as IntervalSymbol[],
     description: 'Diminished mode',
-    compatibleQualities: ['diminished']
+    compatibleQualities: ['diminished', 'halfDiminished']
   },
 
   // Blues
@@ -107,15 +107,210 @@ export const SCALES: Record<string, ScaleDefinition> = {
     displayName: 'Blues Scale',
     intervals: ['R', 'b3', '4', 'b5', '5', 'b7'] as IntervalSymbol[],
     description: 'Minor pentatonic with added b5',
-    compatibleQualities: ['minor', 'minor7', 'dominant7']
+    compatibleQualities: ['minor', 'minor7', 'dominant7', 'dominant9', 'dominant7sharp9']
+  },
+
+  // Modes of melodic minor
+  dorianFlat2: {
+    id: 'dorianFlat2',
+    name: 'Dorian b2',
+    displayName: 'Dorian b2 (Phrygian #6)',
+    intervals: ['R', 'b2', 'b3', '4', '5', '6', 'b7'] as IntervalSymbol[],
+    description: 'Second mode of melodic minor',
+    compatibleQualities: ['minor', 'minor7']
+  },
+  lydianAugmented: {
+    id: 'lydianAugmented',
+    name: 'Lydian Augmented',
+    displayName: 'Lydian Augmented',
+    intervals: ['R', '2', '3', '#4', '#5', '6', '7'] as IntervalSymbol[],
+    description: 'Lydian with a raised 5th, for maj7#5',
+    compatibleQualities: ['augmented']
+  },
+  lydianDominant: {
+    id: 'lydianDominant',
+    name: 'Lydian Dominant',
+    displayName: 'Lydian Dominant',
+    intervals: ['R', '2', '3', '#4', '5', '6', 'b7'] as IntervalSymbol[],
+    description: 'Mixolydian with #11, for 7#11 chords',
+    compatibleQualities: ['dominant7', 'dominant9', 'dominant13', 'dominant7sharp11']
+  },
+  mixolydianFlat6: {
+    id: 'mixolydianFlat6',
+    name: 'Mixolydian b6',
+    displayName: 'Mixolydian b6',
+    intervals: ['R', '2', '3', '4', '5', 'b6', 'b7'] as IntervalSymbol[],
+    description: 'Dominant mode with a minor-key b6',
+    compatibleQualities: ['dominant7', 'dominant9', 'augmented7']
+  },
+  locrianSharp2: {
+    id: 'locrianSharp2',
+    name: 'Locrian #2',
+    displayName: 'Locrian #2',
+    intervals: ['R', '2', 'b3', '4', 'b5', 'b6', 'b7'] as IntervalSymbol[],
+    description: 'Half-diminished with a natural 9',
+    compatibleQualities: ['halfDiminished']
+  },
+  alteredScale: {
+    id: 'alteredScale',
+    name: 'Altered',
+    displayName: 'Altered (Super Locrian)',
+    intervals: ['R', 'b9', '#9', '3', '#11', 'b13', 'b7'] as IntervalSymbol[],
+    description: 'Every altered tension over a dominant',
+    compatibleQualities: ['altered', 'augmented7']
+  },
+
+  // Modes of harmonic minor
+  locrianSharp6: {
+    id: 'locrianSharp6',
+    name: 'Locrian #6',
+    displayName: 'Locrian #6',
+    intervals: ['R', 'b2', 'b3', '4', 'b5', '6', 'b7'] as IntervalSymbol[],
+    description: 'Second mode of harmonic minor',
+    compatibleQualities: ['halfDiminished']
+  },
+  ionianSharp5: {
+    id: 'ionianSharp5',
+    name: 'Ionian #5',
+    displayName: 'Ionian #5',
+    intervals: ['R', '2', '3', '4', '#5', '6', '7'] as IntervalSymbol[],
+    description: 'Major scale with a raised 5th',
+    compatibleQualities: ['augmented']
+  },
+  dorianSharp4: {
+    id: 'dorianSharp4',
+    name: 'Dorian #4',
+    displayName: 'Dorian #4',
+    intervals: ['R', '2', 'b3', '#4', '5', '6', 'b7'] as IntervalSymbol[],
+    description: 'Dorian with a raised 4th',
+    compatibleQualities: ['minor', 'minor7']
+  },
+  phrygianDominant: {
+    id: 'phrygianDominant',
+    name: 'Phrygian Dominant',
+    displayName: 'Phrygian Dominant',
+    intervals: ['R', 'b2', '3', '4', '5', 'b6', 'b7'] as IntervalSymbol[],
+    description: 'Spanish and klezmer sound, for V7b9 in minor',
+    compatibleQualities: ['dominant7', 'dominant7b9']
+  },
+  lydianSharp2: {
+    id: 'lydianSharp2',
+    name: 'Lydian #2',
+    displayName: 'Lydian #2',
+    intervals: ['R', '#9', '3', '#4', '5', '6', '7'] as IntervalSymbol[],
+    description: 'Sixth mode of harmonic minor',
+    compatibleQualities: ['major', 'major7']
+  },
+  ultralocrian: {
+    id: 'ultralocrian',
+    name: 'Ultralocrian',
+    displayName: 'Ultralocrian',
+    intervals: ['R', 'b2', 'b3', '3', 'b5', 'b6', 'bb7'] as IntervalSymbol[],
+    description: 'Seventh mode of harmonic minor, for dim7',
+    compatibleQualities: ['diminished7']
+  },
+
+  // Symmetric scales
+  wholeTone: {
+    id: 'wholeTone',
+    name: 'Whole Tone',
+    displayName: 'Whole Tone',
+    intervals: ['R', '2', '3', '#4', '#5', 'b7'] as IntervalSymbol[],
+    description: 'Six whole steps, for augmented dominants',
+    compatibleQualities: ['augmented', 'augmented7']
+  },
+  halfWholeDiminished: {
+    id: 'halfWholeDiminished',
+    name: 'Half-Whole Diminished',
+    displayName: 'Half-Whole Diminished',
+    intervals: ['R', 'b9', '#9', '3', '#11', '5', '13', 'b7'] as IntervalSymbol[],
+    description: 'Dominant diminished scale, for 7b9',
+    compatibleQualities: ['dominant7', 'dominant7b9', 'dominant7sharp9', 'dominant7sharp11']
+  },
+  wholeHalfDiminished: {
+    id: 'wholeHalfDiminished',
+    name: 'Whole-Half Diminished',
+    displayName: 'Whole-Half Diminished',
+    intervals: ['R', '2', 'b3', '4', 'b5', 'b6', '6', '7'] as IntervalSymbol[],
+    description: 'Diminished scale for dim7 chords',
+    compatibleQualities: ['diminished', 'diminished7']
+  },
+
+  // Bebop scales
+  bebopDominant: {
+    id: 'bebopDominant',
+    name: 'Bebop Dominant',
+    displayName: 'Bebop Dominant',
+    intervals: ['R', '2', '3', '4', '5', '6', 'b7', '7'] as IntervalSymbol[],
+    description: 'Mixolydian with a passing major 7th',
+    compatibleQualities: ['dominant7', 'dominant9', 'dominant11', 'dominant13']
+  },
+  bebopMajor: {
+    id: 'bebopMajor',
+    name: 'Bebop Major',
+    displayName: 'Bebop Major',
+    intervals: ['R', '2', '3', '4', '5', '#5', '6', '7'] as IntervalSymbol[],
+    description: 'Major scale with a passing #5',
+    compatibleQualities: ['major', 'major7', 'sixNine']
+  },
+  bebopDorian: {
+    id: 'bebopDorian',
+    name: 'Bebop Dorian',
+    displayName: 'Bebop Dorian',
+    intervals: ['R', '2', 'b3', '3', '4', '5', '6', 'b7'] as IntervalSymbol[],
+    description: 'Dorian with a passing major 3rd',
+    compatibleQualities: ['minor', 'minor7']
+  },
+
+  // Exotic and world scales
+  hungarianMinor: {
+    id: 'hungarianMinor',
+    name: 'Hungarian Minor',
+    displayName: 'Hungarian Minor',
+    intervals: ['R', '2', 'b3', '#4', '5', 'b6', '7'] as IntervalSymbol[],
+    description: 'Harmonic minor with a raised 4th',
+    compatibleQualities: ['minor', 'minorMajor7']
+  },
+  doubleHarmonic: {
+    id: 'doubleHarmonic',
+    name: 'Double Harmonic',
+    displayName: 'Double Harmonic (Byzantine)',
+    intervals: ['R', 'b2', '3', '4', '5', 'b6', '7'] as IntervalSymbol[],
+    description: 'Two augmented seconds, Middle Eastern colour',
+    compatibleQualities: ['major', 'major7']
+  },
+  hirajoshi: {
+    id: 'hirajoshi',
+    name: 'Hirajoshi',
+    displayName: 'Hirajoshi',
+    intervals: ['R', '2', 'b3', '5', 'b6'] as IntervalSymbol[],
+    description: 'Japanese pentatonic with a minor sound',
+    compatibleQualities: ['minor']
+  },
+  inSen: {
+    id: 'inSen',
+    name: 'In-Sen',
+    displayName: 'In-Sen',
+    intervals: ['R', 'b2', '4', '5', 'b7'] as IntervalSymbol[],
+    description: 'Japanese pentatonic used on koto and shakuhachi',
+    compatibleQualities: ['sus4']
+  },
+  egyptian: {
+    id: 'egyptian',
+    name: 'Egyptian',
+    displayName: 'Egyptian (Suspended Pentatonic)',
+    intervals: ['R', '2', '4', '5', 'b7'] as IntervalSymbol[],
+    description: 'Pentatonic without a 3rd, for sus chords',
+    compatibleQualities: ['sus2', 'sus4']
+  },
+  majorBlues: {
+    id: 'majorBlues',
+    name: 'Major Blues',
+    displayName: 'Major Blues',
+    intervals: ['R', '2', 'b3', '3', '5', '6'] as IntervalSymbol[],
+    description: 'Major pentatonic with a bluesy b3',
+    compatibleQualities: ['major', 'sixNine']
   }
 }
 
 export const SCALE_LIST = Object.values(SCALES)
-
-/**
- * Get recommended scales for a given chord quality
- */
-export function getScalesForQuality(quality: string): ScaleDefinition[] {
-  return SCALE_LIST.filter((scale) => scale.compatibleQualities.includes(quality as any))
-}
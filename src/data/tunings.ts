@@ -4,77 +4,179 @@ export const TUNING_PRESETS: Record<string, TuningDefinition> = {
   standard: {
     id: 'standard',
     name: 'Standard (E A D G B E)',
+    instrument: 'guitar',
     notes: ['E', 'A', 'D', 'G', 'B', 'E']
   },
   dropD: {
     id: 'dropD',
     name: 'Drop D (D A D G B E)',
+    instrument: 'guitar',
     notes: ['D', 'A', 'D', 'G', 'B', 'E']
   },
   dropC: {
     id: 'dropC',
     name: 'Drop C (C G C F A D)',
+    instrument: 'guitar',
     notes: ['C', 'G', 'C', 'F', 'A', 'D']
   },
   halfStepDown: {
     id: 'halfStepDown',
     name: 'Half Step Down (D# G# C# F# A# D#)',
+    instrument: 'guitar',
     notes: ['D#', 'G#', 'C#', 'F#', 'A#', 'D#']
   },
   wholeStepDown: {
     id: 'wholeStepDown',
     name: 'Whole Step Down (D G C F A D)',
+    instrument: 'guitar',
     notes: ['D', 'G', 'C', 'F', 'A', 'D']
   },
   dadgad: {
     id: 'dadgad',
     name: 'DADGAD (D A D G A D)',
+    instrument: 'guitar',
     notes: ['D', 'A', 'D', 'G', 'A', 'D']
   },
   openG: {
     id: 'openG',
     name: 'Open G (D G D G B D)',
+    instrument: 'guitar',
     notes: ['D', 'G', 'D', 'G', 'B', 'D']
   },
   openD: {
     id: 'openD',
     name: 'Open D (D A D F# A D)',
+    instrument: 'guitar',
     notes: ['D', 'A', 'D', 'F#', 'A', 'D']
   },
   openC: {
     id: 'openC',
     name: 'Open C (C G C G C E)',
+    instrument: 'guitar',
     notes: ['C', 'G', 'C', 'G', 'C', 'E']
   },
   dropCSharp: {
     id: 'dropCSharp',
     name: 'Drop C# (C# G# C# F# A# D#)',
+    instrument: 'guitar',
     notes: ['C#', 'G#', 'C#', 'F#', 'A#', 'D#']
   },
   cSharpStandardLowB: {
     id: 'cSharpStandardLowB',
     name: 'C# Standard Low B (C# F# B E G# B)',
+    instrument: 'guitar',
     notes: ['C#', 'F#', 'B', 'E', 'G#', 'B']
   },
   dropB: {
     id: 'dropB',
     name: 'Drop B (B F# B E G# C#)',
+    instrument: 'guitar',
     notes: ['B', 'F#', 'B', 'E', 'G#', 'C#']
   },
   dropA: {
     id: 'dropA',
     name: 'Drop A (A E A D F# B)',
+    instrument: 'guitar',
     notes: ['A', 'E', 'A', 'D', 'F#', 'B']
   },
   openE: {
     id: 'openE',
     name: 'Open E (E B E G# B E)',
+    instrument: 'guitar',
     notes: ['E', 'B', 'E', 'G#', 'B', 'E']
   },
   openA: {
     id: 'openA',
     name: 'Open A (E A E A C# E)',
+    instrument: 'guitar',
     notes: ['E', 'A', 'E', 'A', 'C#', 'E']
+  },
+  openC6: {
+    id: 'openC6',
+    name: 'Open C6 (C A C G C E)',
+    instrument: 'guitar',
+    notes: ['C', 'A', 'C', 'G', 'C', 'E'],
+    octaves: [2, 2, 3, 3, 4, 4]
+  },
+  nashville: {
+    id: 'nashville',
+    name: 'Nashville high-strung',
+    instrument: 'guitar',
+    // The four lowest strings are octave strings from a 12-string set
+    notes: ['E', 'A', 'D', 'G', 'B', 'E'],
+    octaves: [3, 3, 4, 4, 3, 4]
+  },
+  sevenString: {
+    id: 'sevenString',
+    name: 'Standard (B E A D G B E)',
+    instrument: 'guitar7',
+    notes: ['B', 'E', 'A', 'D', 'G', 'B', 'E']
+  },
+  sevenStringDropA: {
+    id: 'sevenStringDropA',
+    name: 'Drop A (A E A D G B E)',
+    instrument: 'guitar7',
+    notes: ['A', 'E', 'A', 'D', 'G', 'B', 'E']
+  },
+  sevenStringAStandard: {
+    id: 'sevenStringAStandard',
+    name: 'A Standard (A D G C F A D)',
+    instrument: 'guitar7',
+    notes: ['A', 'D', 'G', 'C', 'F', 'A', 'D']
+  },
+  eightString: {
+    id: 'eightString',
+    name: 'Standard (F# B E A D G B E)',
+    instrument: 'guitar8',
+    notes: ['F#', 'B', 'E', 'A', 'D', 'G', 'B', 'E']
+  },
+  eightStringDropE: {
+    id: 'eightStringDropE',
+    name: 'Drop E (E B E A D G B E)',
+    instrument: 'guitar8',
+    notes: ['E', 'B', 'E', 'A', 'D', 'G', 'B', 'E']
+  },
+  bass: {
+    id: 'bass',
+    name: 'Standard (E A D G)',
+    instrument: 'bass4',
+    notes: ['E', 'A', 'D', 'G']
+  },
+  bassDropD: {
+    id: 'bassDropD',
+    name: 'Drop D (D A D G)',
+    instrument: 'bass4',
+    notes: ['D', 'A', 'D', 'G']
+  },
+  bassDStandard: {
+    id: 'bassDStandard',
+    name: 'D Standard (D G C F)',
+    instrument: 'bass4',
+    notes: ['D', 'G', 'C', 'F']
+  },
+  fiveStringBass: {
+    id: 'fiveStringBass',
+    name: 'Standard (B E A D G)',
+    instrument: 'bass5',
+    notes: ['B', 'E', 'A', 'D', 'G']
+  },
+  ukulele: {
+    id: 'ukulele',
+    name: 'Standard (G C E A)',
+    instrument: 'ukulele',
+    notes: ['G', 'C', 'E', 'A']
+  },
+  ukuleleD: {
+    id: 'ukuleleD',
+    name: 'D Tuning (A D F# B)',
+    instrument: 'ukulele',
+    notes: ['A', 'D', 'F#', 'B']
+  },
+  mandolin: {
+    id: 'mandolin',
+    name: 'Standard (G D A E)',
+    instrument: 'mandolin',
+    notes: ['G', 'D', 'A', 'E']
   }
 }
 
@@ -0,0 +1,42 @@
+import type { VoicingFamilyDefinition } from '../types/triad'
+import type { VoicingWindow } from '../types/voicing'
+
+export const VOICING_WINDOWS: VoicingWindow[] = [
+  { id: 'anywhere', label: 'Anywhere (frets 0-12)', start: 0, end: 12 },
+  { id: 'open', label: 'Open position (frets 0-4)', start: 0, end: 4 },
+  { id: 'position3', label: 'Frets 3-7', start: 3, end: 7 },
+  { id: 'position5', label: 'Frets 5-9', start: 5, end: 9 },
+  { id: 'position7', label: 'Frets 7-11', start: 7, end: 11 },
+  { id: 'position9', label: 'Frets 9-13', start: 9, end: 13 }
+]
+
+export const VOICING_FAMILIES: VoicingFamilyDefinition[] = [
+  {
+    id: 'drop2',
+    label: 'Drop 2',
+    description: 'Second-highest voice of a close chord dropped an octave. Four adjacent strings.',
+    dropped: [2],
+    stringOffsets: [0, 1, 2, 3]
+  },
+  {
+    id: 'drop3',
+    label: 'Drop 3',
+    description: 'Third-highest voice dropped an octave, leaving a string out above the bass.',
+    dropped: [3],
+    stringOffsets: [0, 2, 3, 4]
+  },
+  {
+    id: 'drop24',
+    label: 'Drop 2-4',
+    description: 'Second and fourth voices dropped an octave, with a string skipped in the middle.',
+    dropped: [2, 4],
+    stringOffsets: [0, 1, 3, 4]
+  },
+  {
+    id: 'close',
+    label: 'Close',
+    description: 'All four voices inside an octave. Compact on paper, a stretch on guitar.',
+    dropped: [],
+    stringOffsets: [0, 1, 2, 3]
+  }
+]
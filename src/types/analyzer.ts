@@ -1,9 +1,12 @@
-import type { GuitarString, NoteId } from './music'
+import type { ChordQuality, GuitarString, InstrumentId, NoteId } from './music'
 
 export interface TuningDefinition {
   id: string
   name: string
-  notes: [NoteId, NoteId, NoteId, NoteId, NoteId, NoteId] // [6, 5, 4, 3, 2, 1]
+  instrument: InstrumentId
+  notes: NoteId[] // One per string, lowest string first
+  octaves?: number[] // Octave of each note (a guitar's low E is E2); without it strings stay near standard pitch
+  custom?: boolean // Made in the tuning editor and saved in the browser
 }
 
 export interface SelectedNote {
@@ -18,16 +21,25 @@ export interface ChordAnalysisResult {
   possibleChords: ChordInterpretation[]
   selectedNotes: NoteId[]
   uniqueNotes: NoteId[]
+  uniqueNoteNames: string[] // Spelled against the best interpretation's root
   noteCount: number
 }
 
 export interface ChordInterpretation {
   root: NoteId
+  rootName: string
   quality: string
   fullName: string
+  libraryQuality?: ChordQuality // Closest built-in quality, for looking up shapes
+  libraryExact?: boolean // False when the built-in quality only approximates the reading's notes
   intervals: string[]
   confidence: number // 0-100
   inversion?: string
   bassNote?: NoteId
+  bassName?: string
   explanation?: string
+  tensions?: string[] // 9ths, 11ths, 13ths and altered tones, e.g. ['#9', 'b13']
+  omitted?: string[] // Chord tones the voicing leaves out: 'R' for a rootless voicing, '5' for no fifth
+  unexplained?: string[] // Spelled notes the name doesn't account for
+  upperStructure?: string // A triad over a dominant shell, e.g. "D/C7"
 }
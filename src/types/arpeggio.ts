@@ -0,0 +1,13 @@
+import type { ScalePosition } from './progression'
+
+// Ways of laying a chord's tones out as an arpeggio
+export type ArpeggioShapeKind = 'oneOctave' | 'twoOctave' | 'sweep' | 'caged'
+
+// How the pick moves through the notes
+export type PickingStyle = 'alternate' | 'economy' | 'sweep'
+
+export type PickDirection = 'down' | 'up'
+
+export interface ArpeggioShape extends ScalePosition {
+  kind: ArpeggioShapeKind
+}
@@ -0,0 +1,44 @@
+import type { ChordQuality, NoteId, SpelledNote } from './music'
+
+export type ChordSymbolTriad =
+  | 'major'
+  | 'minor'
+  | 'diminished'
+  | 'augmented'
+  | 'sus2'
+  | 'sus4'
+  | 'power'
+
+export type ChordSymbolSeventh = 'b7' | '7' | 'bb7'
+
+export interface ParsedChordSymbol {
+  symbol: string // The input, trimmed
+  root: SpelledNote
+  triad: ChordSymbolTriad
+  seventh: ChordSymbolSeventh | null
+  extensions: string[] // Stacked tones implied by 6, 9, 11, 13
+  added: string[] // Tones from "add" (add9, add11 ...)
+  alterations: string[] // b5, #5, b9, #9, #11, b13
+  omissions: string[] // no3, no5
+  bass: SpelledNote | null
+}
+
+export interface ChordSymbolTone {
+  interval: string // e.g. "b3", "#9", "13"
+  semitones: number // Above the root, may exceed 12
+  steps: number // Letter steps above the root (2 = third)
+}
+
+export interface ChordSymbolNote extends ChordSymbolTone {
+  note: NoteId
+  name: string // Spelled from the root, e.g. "Gb" in Ebm
+}
+
+export type ChordSymbolParseResult =
+  | { ok: true; chord: ParsedChordSymbol }
+  | { ok: false; error: string; position: number }
+
+export interface ChordSymbolQualityMatch {
+  quality: ChordQuality
+  exact: boolean // False when tones had to be dropped or approximated
+}
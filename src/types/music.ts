@@ -12,13 +12,61 @@ export type NoteId =
   | 'A#'
   | 'B'
 
+export type NoteLetter = 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B'
+
+export type Accidental = 'bb' | 'b' | '' | '#' | '##'
+
+// A note name as it is written: letter plus accidental (Bb, F#, Cbb ...)
+export interface SpelledNote {
+  letter: NoteLetter
+  accidental: Accidental
+}
+
+export type KeyMode = 'major' | 'minor'
+
 export interface NoteOption {
   id: NoteId
   label: string
   index: number
 }
 
-export type GuitarString = 6 | 5 | 4 | 3 | 2 | 1
+// String number: 1 is the highest-pitched string, counting up towards the bass
+export type GuitarString = number
+
+export interface StringTuning {
+  note: NoteId // Open-string pitch class
+  index: number // Semitone index of the open string
+  midi: number // Open-string MIDI note
+  label: string // "Low E", "A" ... "High E"
+}
+
+export interface CapoSetting {
+  fret: number // 0 = no capo
+  strings: GuitarString[] // Strings under the capo; fewer than all of them for a partial capo
+}
+
+export type Handedness = 'right' | 'left'
+
+// player: looking down at the neck as on tab; chordBox: upright chord chart; audience: facing the player
+export type FretboardView = 'player' | 'chordBox' | 'audience'
+
+export interface FretboardOrientation {
+  handedness: Handedness
+  view: FretboardView
+}
+
+export type InstrumentId = 'guitar' | 'guitar7' | 'guitar8' | 'bass4' | 'bass5' | 'ukulele' | 'mandolin'
+
+export interface InstrumentDefinition {
+  id: InstrumentId
+  name: string
+  stringCount: number
+  fretCount: number
+  scaleLength: number // Inches from nut to saddle
+  openMidi: number[] // Standard tuning, lowest string first; other tunings are measured from it
+  chordShapes: boolean // The CAGED templates fit its six highest strings
+  midiProgram: number // General MIDI program for exports (0-based)
+}
 
 export type IntervalSymbol =
   | 'R'
@@ -34,8 +82,15 @@ export type IntervalSymbol =
   | 'b6'
   | '6'
   | 'b7'
+  | 'bb7'
   | '7'
+  | 'b9'
   | '9'
+  | '#9'
+  | '11'
+  | '#11'
+  | 'b13'
+  | '13'
 
 export type ChordQuality =
   | 'major'
@@ -49,6 +104,18 @@ export type ChordQuality =
   | 'add9'
   | 'diminished'
   | 'augmented'
+  | 'sixNine'
+  | 'dominant9'
+  | 'dominant11'
+  | 'dominant13'
+  | 'dominant7b9'
+  | 'dominant7sharp9'
+  | 'dominant7sharp11'
+  | 'altered'
+  | 'diminished7'
+  | 'halfDiminished'
+  | 'minorMajor7'
+  | 'augmented7'
 
 export interface ChordQualityDefinition {
   id: ChordQuality
@@ -123,6 +190,13 @@ export interface CalculatedBarre {
   finger: number
 }
 
+export interface FingeringResult {
+  fingers: Partial<Record<GuitarString, number>> // 1-4 = index to pinky, 0 = thumb
+  barre: CalculatedBarre | null
+  playable: boolean
+  problem?: string // Why the shape can't be fingered
+}
+
 export interface RuntimeChordShape {
   instanceId: string
   templateId: string
@@ -139,4 +213,9 @@ export interface RuntimeChordShape {
   fretWindow: { start: number; end: number }
   instructions: string[]
   notesForAudio: Array<{ string: GuitarString; fret: number }>
+  shapeName?: string // Chord the grip looks like under the capo, e.g. "G" for an A chord with capo 2
+}
+
+export interface ChordShapeOptions {
+  bass?: NoteId // Slash-chord bass: shapes that already sound it are listed first
 }
@@ -1,4 +1,4 @@
-import type { ChordQuality, IntervalSymbol, NoteId } from './music'
+import type { ChordQuality, IntervalSymbol, KeyMode, NoteId } from './music'
 
 export type ScaleDegree = 'I' | 'II' | 'III' | 'IV' | 'V' | 'VI' | 'VII'
 export type ScaleDegreeFlat = 'bII' | 'bIII' | 'bV' | 'bVI' | 'bVII'
@@ -8,6 +8,7 @@ export interface ProgressionChord {
   degree: string // Roman numeral notation (e.g., "I", "ii", "V7")
   quality: ChordQuality
   scaleDegreeOffset: number // Semitones from root (0-11)
+  bassOffset?: number // Semitones from root to a slash bass, e.g. 4 for "I/3"
 }
 
 export interface ChordProgression {
@@ -16,6 +17,8 @@ export interface ChordProgression {
   description: string
   chords: ProgressionChord[]
   genre?: string
+  source?: string // Roman numerals as typed, kept so a saved progression can be edited
+  custom?: boolean // Saved by the user rather than built in
 }
 
 export interface ScaleDefinition {
@@ -25,13 +28,163 @@ export interface ScaleDefinition {
   intervals: IntervalSymbol[]
   description: string
   compatibleQualities: ChordQuality[]
+  custom?: boolean // Typed in as a formula and saved in the browser
 }
 
+export type SubstitutionKind =
+  | 'tritone'
+  | 'relative'
+  | 'secondaryDominant'
+  | 'diminishedPassing'
+  | 'modalInterchange'
+  | 'backdoor'
+
+// Chords that can take the place of one chord in a progression
+export interface ChordSubstitution {
+  kind: SubstitutionKind
+  chords: ProgressionChord[] // Replace the chord, e.g. [iv7, bVII7] for a backdoor approach
+  label: string // The new chords by name: "Db7", "Fm7 - Bb7"
+  explanation: string
+}
+
+export type TransformationKind =
+  | 'negative'
+  | 'parallelKey'
+  | 'relativeKey'
+  | 'parallel'
+  | 'leadingTone'
+  | 'relative'
+  | 'chromaticMediant'
+
+// A whole progression rewritten by one transformation, ready to preview or play
+export interface ProgressionTransformation {
+  kind: TransformationKind
+  progression: ChordProgression
+  label: string // The new chords by name: "Fm - Ab - Db - Cm"
+  explanation: string
+}
+
+export type ChordFunctionKind =
+  | 'diatonic'
+  | 'secondaryDominant'
+  | 'secondaryLeadingTone'
+  | 'tritoneSub'
+  | 'borrowed'
+  | 'chromatic'
+
+// What a chord does in a key
+export interface ChordFunction {
+  kind: ChordFunctionKind
+  numeral: string // Read in the key, e.g. "V7/V"
+  label: string // "V7 of G", "bVI, borrowed from C minor"
+  chord: ProgressionChord // The chord as a step of a progression in the key
+}
+
+export type RomanProgressionParseResult =
+  | { ok: true; chords: ProgressionChord[] }
+  | { ok: false; error: string }
+
+export type ScaleFormulaParseResult =
+  | { ok: true; intervals: IntervalSymbol[] }
+  | { ok: false; error: string }
+
 export interface ScaleNote {
   note: NoteId
+  name: string // Spelled for the scale, e.g. "Bb" rather than "A#"
   interval: IntervalSymbol
   string: number
   fret: number
+  finger?: number // Suggested fretting finger within a position, 0 for an open string
+}
+
+// What a scale note does over the chord it's played on
+export type ChordScaleRole = 'chordTone' | 'tension' | 'avoid'
+
+// A scale degree read against a chord: Dorian's 2 is the 9 of a minor seventh, an available tension
+export interface ChordScaleDegree {
+  interval: IntervalSymbol // As written in the scale formula
+  label: IntervalSymbol // As heard over the chord: "b3", "9", "#11", "b13"
+  role: ChordScaleRole
+}
+
+// A scale ranked as a chord scale for one chord, best fit first
+export interface ChordScaleMatch {
+  scale: ScaleDefinition
+  degrees: ChordScaleDegree[]
+  outsideKey: string[] // Spelled scale notes foreign to the surrounding key, chord tones aside
+  summary: string // "In key · tensions 9 11 13 · no avoid notes"
+}
+
+// Ways of splitting the neck into practice positions
+export type ScalePositionSystem = 'caged' | 'threeNotesPerString' | 'pentatonicBox'
+
+export interface ScalePosition {
+  id: string
+  label: string // "E shape", "Pattern 3 (from b3)", "Box 2"
+  notes: ScaleNote[] // Lowest pitch first, so playing them in order runs up the scale
+  minFret: number
+  maxFret: number
+}
+
+// A progression chord resolved against a concrete tonic
+export interface TransposedChord {
+  note: NoteId
+  name: string // Root spelled for the key, e.g. "Ab" for bVI in C
+  quality: ChordQuality
+  degree: string
+  bass?: NoteId // Slash bass, when it isn't the root
+  bassName?: string
+}
+
+// The seven modes of the major scale, the keys the detector can name
+export type ModeId = 'ionian' | 'dorian' | 'phrygian' | 'lydian' | 'mixolydian' | 'aeolian' | 'locrian'
+
+// A chord as evidence for a key: any chord with a root and quality, e.g. a TransposedChord
+export interface KeyChord {
+  note: NoteId
+  quality: ChordQuality
+}
+
+export interface KeyCandidate {
+  tonic: NoteId
+  tonicName: string // Spelled for the key, e.g. "Eb" rather than "D#"
+  mode: ModeId
+  keyMode: KeyMode // Major or minor flavour, for spelling and export key signatures
+  name: string // "G major", "A minor", "D Dorian"
+  signature: number // Sharps (positive) or flats (negative), shared with the parent major key
+  scaleId: string // The matching scale in the scale library
+  confidence: number // 0-1 share of the evidence; the candidates of one detection sum to at most 1
+}
+
+// Role of a degree's chord: at rest, moving away, or pulling home
+export type HarmonicFunction = 'tonic' | 'subdominant' | 'dominant'
+
+export type HarmonyStack = 'triad' | 'seventh'
+
+export interface HarmonizedChord {
+  degree: string // Roman numeral with quality mark, e.g. "bVII", "ii7", "viø7"
+  root: NoteId
+  rootName: string // Spelled from the scale, e.g. "Eb" rather than "D#" in C Dorian
+  quality: ChordQuality | null // Null when the stacked notes aren't a chord the app knows
+  notes: string[] // Spelled chord tones, root first
+  scaleDegreeOffset: number // Semitones above the scale's root
+  function: HarmonicFunction
+}
+
+// A major or minor key, as the circle of fifths lays them out
+export interface CircleKey {
+  tonic: NoteId
+  mode: KeyMode
+}
+
+// A chord two keys share, the hinge for modulating from one to the other
+export interface PivotChord {
+  root: NoteId
+  rootName: string // Spelled as the key being left spells it
+  quality: ChordQuality
+  fromDegree: string // Numeral in the key being left, e.g. "vi"
+  toDegree: string // Numeral in the key being entered, e.g. "ii"
+  toFunction: HarmonicFunction // What it does in the new key
 }
 
 export interface ScaleVisualization {
@@ -1,5 +1,7 @@
-import type { ChordQuality, GuitarString, IntervalSymbol, NoteId } from './music'
+import type { CapoSetting, ChordQuality, GuitarString, IntervalSymbol, NoteId } from './music'
 import type { AnimationSpeed, ChordProgression } from './progression'
+import type { TuningDefinition } from './analyzer'
+import type { PickDirection } from './arpeggio'
 
 // Riff style options
 export type RiffStyle = 'melodic' | 'arpeggiated' | 'bass-driven' | 'complex'
@@ -26,15 +28,19 @@ export interface RiffNote {
   interval?: IntervalSymbol
   technique?: Technique // Advanced technique for this note
   targetFret?: number // For slides/bends - the fret we're going to
+  pick?: PickDirection // Pick stroke written over the tab, for arpeggio studies
 }
 
 // A riff pattern for one chord/measure
 export interface ChordRiff {
   chordRoot: NoteId
+  chordRootName: string // Root spelled for the progression's key
   chordQuality: ChordQuality
   chordDegree: string
+  chordBass?: NoteId // Slash bass, when it isn't the root
   notes: RiffNote[]
   totalBeats: number // typically 4 for one measure
+  voicing?: Array<{ string: GuitarString; fret: number }> // Voice-led grip for chord tracks
 }
 
 // Full riff for entire progression
@@ -43,6 +49,10 @@ export interface ProgressionRiff {
   chordRiffs: ChordRiff[]
   bpm: number
   style: RiffStyle
+  // Frets are written for this instrument, tuning and capo, so tracks for a bass and
+  // a 7-string can share one song
+  tuning: TuningDefinition
+  capo: CapoSetting
 }
 
 // Tab position with technique info
@@ -61,6 +71,7 @@ export interface TabMeasure {
   positions: Record<GuitarString, (number | null)[]>
   // Enhanced positions with technique information
   positionsWithTechnique?: Record<GuitarString, TabPosition[]>
+  pickDirections?: (PickDirection | null)[] // Pick strokes by subdivision, when the riff marks them
   subdivisions: number // how many slots per measure (8 = eighth notes)
 }
 
@@ -69,6 +80,9 @@ export interface TabSheet {
   measures: TabMeasure[]
   bpm: number
   beatsPerMeasure: number
+  tuning: TuningDefinition // One tab line per string of its instrument
+  capo: CapoSetting
+  key?: string // Detected key, e.g. "A minor", written into exports
 }
 
 // Playback state
@@ -85,7 +99,7 @@ export interface NotePickerState {
   measureIndex: number
   subdivisionIndex: number
   string: GuitarString
-  availableNotes: Array<{ note: NoteId; fret: number; interval?: IntervalSymbol }>
+  availableNotes: Array<{ note: NoteId; name: string; fret: number; interval?: IntervalSymbol }>
 }
 
 // Song builder panel state
@@ -121,6 +135,9 @@ export interface Track {
   color: string         // Visual identifier
 }
 
+// A track made outside the Song Builder, e.g. an arpeggio study; the mixer settings are added on arrival
+export type TrackDraft = Pick<Track, 'name' | 'type' | 'riff'>
+
 export const TRACK_COLORS = [
   '#6366f1', // Indigo
   '#8b5cf6', // Violet
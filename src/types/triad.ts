@@ -1,10 +1,11 @@
-import type { GuitarString, IntervalSymbol, NoteId } from './music'
+import type { CalculatedBarre, GuitarString, IntervalSymbol, NoteId } from './music'
 
 export interface TriadNote {
   string: GuitarString
   fret: number
   interval: IntervalSymbol
   note: NoteId
+  finger?: number
 }
 
 export interface TriadPosition {
@@ -14,7 +15,37 @@ export interface TriadPosition {
   maxFret: number
   span: number
   stringSet: [GuitarString, GuitarString, GuitarString]
+  barre: CalculatedBarre | null
+}
+
+// One chord of a progression comped with triads on a single string set
+export interface TriadPathStep {
+  position: TriadPosition | null // Null when the chord has no playable triad on the set
+  motion: number // Semitones the voices move, added up, from the last shape played
 }
 
 export type AnimationSpeed = 'slow' | 'medium' | 'fast'
 export type AnimationState = 'playing' | 'paused'
+
+// Four-note voicing families: close position, and close position with voices dropped an octave
+export type VoicingFamily = 'close' | 'drop2' | 'drop3' | 'drop24'
+
+export interface VoicingFamilyDefinition {
+  id: VoicingFamily
+  label: string
+  description: string
+  dropped: number[] // Voices of the close stack moved down an octave, counted from the top (2 = second highest)
+  stringOffsets: [number, number, number, number] // Strings used, counted up from the lowest string of the set
+}
+
+export interface FourNotePosition {
+  id: string
+  family: VoicingFamily
+  notes: [TriadNote, TriadNote, TriadNote, TriadNote] // Lowest voice first
+  inversion: number // 0 = root position, 1-3 = which of the four chord tones is in the bass
+  minFret: number
+  maxFret: number
+  span: number
+  stringSet: [GuitarString, GuitarString, GuitarString, GuitarString]
+  barre: CalculatedBarre | null
+}
@@ -0,0 +1,36 @@
+import type { ChordQuality, NoteId } from './music'
+import type { TuningDefinition } from './analyzer'
+
+export interface FretRange {
+  start: number // Lowest fret a finger may press (0 allows open strings), counted from any capo
+  end: number
+}
+
+export interface VoicingWindow extends FretRange {
+  id: string
+  label: string
+}
+
+export interface VoicingSearchOptions {
+  tuning?: TuningDefinition // Defaults to the active tuning
+  fretRange?: FretRange // Defaults to frets 0-12
+  maxStretch?: number // Frets covered by the hand, e.g. 4 = frets 5 to 8
+  minStrings?: number // Fewest sounding strings
+  allowOpenStrings?: boolean // Defaults to true when the range starts at the nut
+  allowOmittedFifth?: boolean
+  bass?: NoteId // Lowest note for slash chords; defaults to the root
+  limit?: number // Keep only the most playable voicings
+}
+
+export interface VoiceLeadingOptions {
+  tuning?: TuningDefinition
+  fretRange?: FretRange // Stay in position, e.g. frets 5-9
+  smoothTopNote?: boolean // Weigh the melody (highest) voice's motion extra
+  candidatesPerChord?: number // Voicings considered for each chord
+}
+
+export interface VoiceLeadingChord {
+  root: NoteId
+  quality: ChordQuality
+  bass?: NoteId // Slash bass kept as the lowest note
+}
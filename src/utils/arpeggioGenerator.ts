@@ -0,0 +1,292 @@
+import type { ChordQuality, NoteId } from '../types/music'
+import type { ChordProgression, ScaleDefinition } from '../types/progression'
+import type { ArpeggioShape, ArpeggioShapeKind, PickDirection, PickingStyle } from '../types/arpeggio'
+import type { ProgressionRiff, RiffNote, Technique } from '../types/songBuilder'
+import { QUALITY_MAP } from '../data/chordQualities'
+import { formatChordName } from './chordUtils'
+import { formatRomanNumeral } from './keyDetection'
+import { formatSpelledNote, spellChordRoot } from './noteSpelling'
+import { generateScaleNotes } from './scaleUtils'
+import { type PitchedNote, getScalePositions, toPosition } from './scalePositions'
+import { getActiveCapo, getActiveTuning, getHandStretch, getMidiNote, getStrings, getStringTunings } from './tuning'
+
+const NOTES_PER_MEASURE = 8 // Eighth notes in 4/4, the tab's subdivisions
+const NOTE_BEATS = 0.5
+
+// Position shifts a climb may make: a two-octave run may slide up once
+const OCTAVE_SHIFTS: Record<'oneOctave' | 'twoOctave', { octaves: number; shifts: number }> = {
+  oneOctave: { octaves: 1, shifts: 0 },
+  twoOctave: { octaves: 2, shifts: 1 }
+}
+
+// More notes than this on one string is a scale run, not an arpeggio
+const MAX_NOTES_PER_STRING = 3
+
+// A sweep rakes at least this many strings
+const MIN_SWEEP_STRINGS = 3
+
+export const ARPEGGIO_SHAPE_LABELS: Record<ArpeggioShapeKind, string> = {
+  oneOctave: 'One octave',
+  twoOctave: 'Two octaves',
+  sweep: 'Sweep',
+  caged: 'CAGED'
+}
+
+export const PICKING_STYLE_LABELS: Record<PickingStyle, string> = {
+  alternate: 'Alternate',
+  economy: 'Economy',
+  sweep: 'Sweep'
+}
+
+/**
+ * A chord's tones as a scale, so the scale position tools can lay them out
+ */
+function getChordScale(quality: ChordQuality): ScaleDefinition {
+  const qualityDef = QUALITY_MAP[quality]
+  return {
+    id: `arpeggio-${quality}`,
+    name: `${qualityDef.label} arpeggio`,
+    displayName: `${qualityDef.label} arpeggio`,
+    intervals: qualityDef.intervals,
+    description: qualityDef.description,
+    compatibleQualities: [quality]
+  }
+}
+
+/**
+ * Every chord tone on the neck, with its sounding pitch
+ */
+export function getArpeggioNeck(root: NoteId, quality: ChordQuality): PitchedNote[] {
+  return generateScaleNotes(root, getChordScale(quality)).map((note) => ({
+    ...note,
+    midi: getMidiNote(note.string, note.fret)
+  }))
+}
+
+/**
+ * Climb the chord tones from a root for one or two octaves. The hand stays in a box of
+ * frets around the root and moves to the next string when the note is out of reach; a
+ * two-octave run may slide up the neck once.
+ */
+function climbFromRoot(start: PitchedNote, neck: PitchedNote[], octaves: number, shifts: number): PitchedNote[] | null {
+  const strings = getStrings()
+  const stretch = getHandStretch()
+  const pitches = [...new Set(neck.map((note) => note.midi))]
+    .filter((midi) => midi > start.midi && midi <= start.midi + 12 * octaves)
+    .sort((a, b) => a - b)
+  // The top root has to be on the neck too
+  if (pitches[pitches.length - 1] !== start.midi + 12 * octaves) {
+    return null
+  }
+
+  let low = Math.max(0, start.fret - 1)
+  let shiftsLeft = shifts
+  const notes = [start]
+  for (const midi of pitches) {
+    const previous = notes[notes.length - 1]
+    const candidates = neck
+      .filter((note) => note.midi === midi && strings.indexOf(note.string) >= strings.indexOf(previous.string))
+      .filter((note) => notes.filter((played) => played.string === note.string).length < MAX_NOTES_PER_STRING)
+      .sort((a, b) => strings.indexOf(a.string) - strings.indexOf(b.string))
+    const inBox = candidates.find((note) => note.fret >= low && note.fret <= low + stretch)
+    if (inBox) {
+      notes.push(inBox)
+      continue
+    }
+
+    const shifted = shiftsLeft > 0 && candidates.find((note) => Math.abs(note.fret - previous.fret) <= stretch)
+    if (!shifted) {
+      return null
+    }
+    shiftsLeft--
+    low = Math.max(0, shifted.fret - 1)
+    notes.push(shifted)
+  }
+  return notes
+}
+
+/**
+ * One chord tone per string from a root to the top string, each the lowest tone above the
+ * last that the hand still reaches, plus one more on the top string to turn around on
+ */
+function sweepFromRoot(start: PitchedNote, neck: PitchedNote[]): PitchedNote[] | null {
+  const strings = getStrings()
+  const stretch = getHandStretch()
+  const fromIndex = strings.indexOf(start.string)
+  if (strings.length - fromIndex < MIN_SWEEP_STRINGS) {
+    return null
+  }
+
+  // One finger per fret: a rolled sweep has no time for a stretch
+  const reachable = (note: PitchedNote, notes: PitchedNote[]) => {
+    const frets = [...notes, note].map((n) => n.fret)
+    return Math.max(...frets) - Math.min(...frets) < stretch
+  }
+  const nextUp = (stringId: number, notes: PitchedNote[]) => {
+    const previous = notes[notes.length - 1]
+    return neck
+      .filter((note) => note.string === stringId && note.midi > previous.midi && reachable(note, notes))
+      .sort((a, b) => a.midi - b.midi)[0]
+  }
+
+  const notes = [start]
+  for (const stringId of strings.slice(fromIndex + 1)) {
+    const note = nextUp(stringId, notes)
+    if (!note) {
+      return null
+    }
+    notes.push(note)
+  }
+  const turn = nextUp(strings[strings.length - 1], notes)
+  return turn ? [...notes, turn] : notes
+}
+
+/**
+ * Playable arpeggio shapes of a chord, up the neck. One- and two-octave runs and sweeps start
+ * from every root low enough to fit; CAGED forms are the five boxes of the chord's tones.
+ */
+export function generateArpeggioShapes(root: NoteId, quality: ChordQuality, kind: ArpeggioShapeKind): ArpeggioShape[] {
+  if (kind === 'caged') {
+    return getScalePositions(root, getChordScale(quality), 'caged').map((position) => ({ ...position, kind }))
+  }
+
+  const neck = getArpeggioNeck(root, quality)
+  const roots = neck.filter((note) => note.interval === 'R').sort((a, b) => a.fret - b.fret || b.string - a.string)
+  const labels = getStringTunings()
+  const seen = new Set<string>()
+
+  return roots.flatMap((start) => {
+    const notes =
+      kind === 'sweep'
+        ? sweepFromRoot(start, neck)
+        : climbFromRoot(start, neck, OCTAVE_SHIFTS[kind].octaves, OCTAVE_SHIFTS[kind].shifts)
+    const key = notes?.map((note) => `${note.string}:${note.fret}`).join(' ')
+    if (!notes || !key || seen.has(key)) {
+      return []
+    }
+    seen.add(key)
+
+    const stringCount = new Set(notes.map((note) => note.string)).size
+    const from = `root on the ${labels[start.string].label} string, fret ${start.fret}`
+    const label = kind === 'sweep' ? `${stringCount}-string sweep, ${from}` : `${ARPEGGIO_SHAPE_LABELS[kind]}, ${from}`
+    // The hand stays at the lowest fret until a string needs it higher, as after a slide
+    const handStart = Math.min(...notes.map((note) => note.fret || Infinity))
+    const position = toPosition(`${kind}-${start.string}-${start.fret}`, label, notes, (stringNotes) =>
+      Math.max(handStart, ...stringNotes.map((note) => note.fret - 3))
+    )
+    return [{ ...position, kind }]
+  })
+}
+
+/**
+ * A shape played up and back down to where it started
+ */
+export function getArpeggioSequence(shape: ArpeggioShape): ArpeggioShape['notes'] {
+  return [...shape.notes, ...shape.notes.slice(0, -1).reverse()]
+}
+
+/**
+ * Pick strokes for a run of notes. Alternate picking swaps every note. Economy picking swaps
+ * on a string but crosses to the next string with the stroke already heading that way.
+ * Sweep picking rakes each string change in the direction of travel and slurs notes that
+ * share a string (hammer-on going up, pull-off coming down), so those notes get no stroke.
+ */
+export function getPicking(
+  notes: ArpeggioShape['notes'],
+  style: PickingStyle
+): { pick: PickDirection | null; technique?: Technique }[] {
+  const strings = getStrings()
+  // Towards the higher strings is a downstroke
+  const travel = (from: number, to: number): PickDirection =>
+    strings.indexOf(to) > strings.indexOf(from) ? 'down' : 'up'
+  const flip = (pick: PickDirection): PickDirection => (pick === 'down' ? 'up' : 'down')
+
+  let last: PickDirection = 'up'
+  return notes.map((note, index) => {
+    const previous = notes[index - 1]
+    const crossing = previous && previous.string !== note.string
+    if (style === 'alternate' || !previous) {
+      last = index === 0 ? 'down' : flip(last)
+      return { pick: last }
+    }
+    if (style === 'economy') {
+      last = crossing ? travel(previous.string, note.string) : flip(last)
+      return { pick: last }
+    }
+    if (!crossing) {
+      const rising = getMidiNote(note.string, note.fret) > getMidiNote(previous.string, previous.fret)
+      return { pick: null, technique: rising ? 'hammer-on' : 'pull-off' }
+    }
+    last = travel(previous.string, note.string)
+    return { pick: last }
+  })
+}
+
+/**
+ * One chord of the arpeggio as a progression, a measure per bar of the riff, for the Song Builder
+ */
+export function createArpeggioProgression(quality: ChordQuality, measures: number): ChordProgression {
+  const chord = { degree: formatRomanNumeral('I', quality), quality, scaleDegreeOffset: 0 }
+  return {
+    id: `arpeggio-${quality}`,
+    name: `${QUALITY_MAP[quality].label} arpeggio`,
+    description: 'One chord held under an arpeggio study',
+    chords: Array.from({ length: measures }, () => chord)
+  }
+}
+
+/**
+ * Tab-ready riff of a shape played up and down in eighth notes, with pick strokes. The
+ * last note rings to the end of its bar.
+ */
+export function createArpeggioRiff(
+  root: NoteId,
+  quality: ChordQuality,
+  shape: ArpeggioShape,
+  style: PickingStyle,
+  bpm: number
+): ProgressionRiff {
+  const sequence = getArpeggioSequence(shape)
+  const picking = getPicking(sequence, style)
+  const measures = Math.ceil(sequence.length / NOTES_PER_MEASURE)
+  const rootName = formatSpelledNote(spellChordRoot(root, quality))
+
+  const notes: RiffNote[] = sequence.map((note, index) => {
+    const slot = index % NOTES_PER_MEASURE
+    const isLast = index === sequence.length - 1
+    return {
+      id: `arpeggio-${index}`,
+      string: note.string,
+      fret: note.fret,
+      duration: isLast ? (NOTES_PER_MEASURE - slot) * NOTE_BEATS : NOTE_BEATS,
+      startBeat: slot * NOTE_BEATS,
+      note: note.note,
+      interval: note.interval,
+      ...(picking[index].technique !== undefined && { technique: picking[index].technique }),
+      ...(picking[index].pick !== null && { pick: picking[index].pick })
+    }
+  })
+
+  return {
+    id: `arpeggio-${shape.id}-${style}`,
+    chordRiffs: Array.from({ length: measures }, (_, measure) => ({
+      chordRoot: root,
+      chordRootName: rootName,
+      chordQuality: quality,
+      chordDegree: formatRomanNumeral('I', quality),
+      notes: notes.slice(measure * NOTES_PER_MEASURE, (measure + 1) * NOTES_PER_MEASURE),
+      totalBeats: 4
+    })),
+    bpm,
+    style: 'arpeggiated',
+    tuning: getActiveTuning(),
+    capo: getActiveCapo()
+  }
+}
+
+/**
+ * Name for an arpeggio track, e.g. "Cmaj7 sweep"
+ */
+export function formatArpeggioName(root: NoteId, quality: ChordQuality, shape: ArpeggioShape): string {
+  return `${formatChordName(root, quality)} ${ARPEGGIO_SHAPE_LABELS[shape.kind].toLowerCase()}`
+}
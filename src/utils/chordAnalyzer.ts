@@ -1,45 +1,87 @@
-import type { NoteId } from '../types/music'
+import type { KeyMode, NoteId, SpelledNote } from '../types/music'
 import type { ChordAnalysisResult, ChordInterpretation } from '../types/analyzer'
-import { NOTE_TO_INDEX } from '../data/notes'
-
-// Chord formulas as semitone intervals from root
-const CHORD_FORMULAS: Record<string, { intervals: number[]; quality: string; fullName: string }> = {
-  // Triads
-  major: { intervals: [0, 4, 7], quality: 'major', fullName: 'Major' },
-  minor: { intervals: [0, 3, 7], quality: 'minor', fullName: 'minor' },
-  diminished: { intervals: [0, 3, 6], quality: 'dim', fullName: 'Diminished' },
-  augmented: { intervals: [0, 4, 8], quality: 'aug', fullName: 'Augmented' },
-  sus2: { intervals: [0, 2, 7], quality: 'sus2', fullName: 'Suspended 2nd' },
-  sus4: { intervals: [0, 5, 7], quality: 'sus4', fullName: 'Suspended 4th' },
-
-  // Seventh chords
-  major7: { intervals: [0, 4, 7, 11], quality: 'maj7', fullName: 'Major 7th' },
-  minor7: { intervals: [0, 3, 7, 10], quality: 'm7', fullName: 'Minor 7th' },
-  dominant7: { intervals: [0, 4, 7, 10], quality: '7', fullName: 'Dominant 7th' },
-  diminished7: { intervals: [0, 3, 6, 9], quality: 'dim7', fullName: 'Diminished 7th' },
-  halfDiminished7: { intervals: [0, 3, 6, 10], quality: 'm7b5', fullName: 'Half-Diminished 7th' },
-  minorMajor7: { intervals: [0, 3, 7, 11], quality: 'mMaj7', fullName: 'Minor Major 7th' },
-  augmented7: { intervals: [0, 4, 8, 10], quality: 'aug7', fullName: 'Augmented 7th' },
-
-  // Extended chords
-  major6: { intervals: [0, 4, 7, 9], quality: '6', fullName: 'Major 6th' },
-  minor6: { intervals: [0, 3, 7, 9], quality: 'm6', fullName: 'Minor 6th' },
-  add9: { intervals: [0, 4, 7, 14], quality: 'add9', fullName: 'Add 9' },
-  major9: { intervals: [0, 4, 7, 11, 14], quality: 'maj9', fullName: 'Major 9th' },
-  minor9: { intervals: [0, 3, 7, 10, 14], quality: 'm9', fullName: 'Minor 9th' },
-  dominant9: { intervals: [0, 4, 7, 10, 14], quality: '9', fullName: 'Dominant 9th' },
-
-  // Power chord
-  power: { intervals: [0, 7], quality: '5', fullName: 'Power Chord' }
+import { INDEX_TO_NOTE, NOTE_TO_INDEX } from '../data/notes'
+import { formatSpelledNote, spellKeyTonic, spellNote, spellNoteInKey, spellPitch } from './noteSpelling'
+import { getClosestQuality, getIntervalTones } from './chordSymbolParser'
+
+type ThirdTone = '3' | 'b3' | '4' | '2' // A suspended 4th or 2nd stands in for a missing third
+type FifthTone = '5' | 'b5' | '#5'
+type SeventhTone = '7' | 'b7' | 'bb7' | '6' // A sixth takes the seventh's place in 6 and 6/9 chords
+
+// How a set of notes reads above one root
+interface ToneReading {
+  third: ThirdTone | null
+  fifth: FifthTone | null
+  seventh: SeventhTone | null
+  tensions: string[] // In TONE_ORDER
+  tones: Map<number, string> // Semitones above the root to the tone's name
+  extra: number[] // Semitones above the root that no tone name accounts for
 }
 
-/**
- * Convert note names to semitone indices (normalized to 0-11)
- */
-function noteToSemitone(note: NoteId): number {
-  return NOTE_TO_INDEX[note]
+// An interpretation with the score it was ranked by and its notes spelled from its root
+interface Candidate {
+  interpretation: ChordInterpretation
+  score: number
+  noteNames: string[]
 }
 
+// Letter steps and semitones above the root, for spelling each tone
+const TONE_SPELLING: Record<string, [steps: number, semitones: number]> = {
+  R: [0, 0],
+  '2': [1, 2],
+  b3: [2, 3],
+  '3': [2, 4],
+  '4': [3, 5],
+  b5: [4, 6],
+  '5': [4, 7],
+  '#5': [4, 8],
+  b6: [5, 8],
+  '6': [5, 9],
+  bb7: [6, 9],
+  b7: [6, 10],
+  '7': [6, 11],
+  b9: [1, 1],
+  '9': [1, 2],
+  '#9': [1, 3],
+  '11': [3, 5],
+  '#11': [3, 6],
+  b13: [5, 8],
+  '13': [5, 9]
+}
+
+// Written out because integer-like keys would put '2' to '13' first in Object.keys
+const TONE_ORDER = ['R', '2', 'b3', '3', '4', 'b5', '5', '#5', 'b6', '6', 'bb7', 'b7', '7']
+  .concat(['b9', '9', '#9', '11', '#11', 'b13', '13'])
+
+// Tones above the seventh, by the semitones they sit above the root once folded into one octave
+const TENSION_NAMES: Record<number, string> = { 1: 'b9', 2: '9', 3: '#9', 5: '11', 6: '#11', 8: 'b13', 9: '13' }
+
+const NATURAL_TENSIONS = ['9', '11', '13']
+
+// Upper-structure triads sit this many semitones above the root of a dominant chord
+const UPPER_STRUCTURE_ROOTS = [1, 2, 3, 6, 8, 9]
+
+const TRIAD_SHAPES: Array<{ thirds: [number, number]; suffix: string; name: string }> = [
+  { thirds: [4, 7], suffix: '', name: 'major' },
+  { thirds: [3, 7], suffix: 'm', name: 'minor' },
+  { thirds: [3, 6], suffix: 'dim', name: 'diminished' },
+  { thirds: [4, 8], suffix: '+', name: 'augmented' }
+]
+
+const MIN_SCORE = 40
+
+const semitonesAbove = (root: number, note: NoteId) => (NOTE_TO_INDEX[note] - root + 12) % 12
+
+// Closest built-in quality for looking up shapes, played with the root and fifth a voicing may leave out
+function getLibraryQuality(intervals: string[]): Pick<ChordInterpretation, 'libraryQuality' | 'libraryExact'> {
+  const hasFifth = intervals.some((tone) => tone === '5' || tone === 'b5' || tone === '#5')
+  const tones = ['R', ...(hasFifth ? [] : ['5']), ...intervals.filter((tone) => tone !== 'R')]
+  const match = getClosestQuality(getIntervalTones(tones))
+  return { libraryQuality: match.quality, libraryExact: match.exact }
+}
+
+const sortTones = (tones: string[]) => [...tones].sort((a, b) => TONE_ORDER.indexOf(a) - TONE_ORDER.indexOf(b))
+
 /**
  * Get unique notes from an array, preserving order
  */
@@ -53,90 +95,384 @@ function getUniqueNotes(notes: NoteId[]): NoteId[] {
 }
 
 /**
- * Calculate intervals from a root note to all other notes in the set
+ * Name every interval above a root: the third (or suspension), fifth and seventh first,
+ * then whatever is left as a tension. b9, #9 and b13 only colour dominant chords
+ * (b13 also minor ones); anywhere else they, like a major 7th beside a b7, stay unexplained.
+ * Next to other tensions or a major 7th, a missing fifth's neighbours read as #11 and b13, not b5 and #5.
  */
-function calculateIntervals(rootNote: NoteId, notes: NoteId[]): number[] {
-  const rootSemitone = noteToSemitone(rootNote)
-  return notes.map((note) => {
-    const noteSemitone = noteToSemitone(note)
-    let interval = noteSemitone - rootSemitone
-    if (interval < 0) interval += 12
-    return interval
-  }).sort((a, b) => a - b)
+function readTones(intervals: Set<number>): ToneReading {
+  const has = (semitones: number) => intervals.has(semitones)
+  const third: ThirdTone | null = has(4) ? '3' : has(3) ? 'b3' : has(5) ? '4' : has(2) ? '2' : null
+  const anySeventh = has(10) || has(11)
+  const coloured =
+    has(1) || (has(2) && third !== '2') || (has(3) && third === '3') || (has(9) && anySeventh) || (has(11) && !has(10))
+  const fifth: FifthTone | null = has(7)
+    ? '5'
+    : has(6) && (third === 'b3' || !coloured)
+      ? 'b5'
+      : has(8) && third !== 'b3' && !(has(10) && coloured)
+        ? '#5'
+        : null
+  const diminished = third === 'b3' && fifth === 'b5'
+  const seventh: SeventhTone | null = has(10) ? 'b7' : has(11) ? '7' : has(9) ? (diminished ? 'bb7' : '6') : null
+
+  const tones = new Map<number, string>()
+  if (has(0)) tones.set(0, 'R')
+  for (const tone of [third, fifth, seventh]) {
+    if (tone) tones.set(TONE_SPELLING[tone][1], tone)
+  }
+
+  const tensions: string[] = []
+  const extra: number[] = []
+  for (const semitones of [...intervals].sort((a, b) => a - b)) {
+    if (tones.has(semitones)) continue
+    const tension = TENSION_NAMES[semitones]
+    const fits =
+      tension === 'b9' || tension === '#9'
+        ? seventh === 'b7'
+        : tension === 'b13'
+          ? seventh === 'b7' || third === 'b3'
+          : tension !== undefined
+    if (!fits) {
+      extra.push(semitones)
+      continue
+    }
+    // Without a seventh a b13 is just a b6
+    const name = tension === 'b13' && seventh !== 'b7' && seventh !== '7' ? 'b6' : tension
+    tones.set(semitones, name)
+    tensions.push(name)
+  }
+
+  return { third, fifth, seventh, tensions: sortTones(tensions), tones, extra }
 }
 
 /**
- * Check if an interval set matches a chord formula
+ * The symbol after the root, built from the reading: the seventh and highest natural
+ * extension give the number ("m11", "maj13"), altered tones go in brackets ("7(#9,b13)")
  */
-function matchesFormula(intervals: number[], formula: number[]): boolean {
-  if (intervals.length < formula.length) return false
+function formatSuffix({ third, fifth, seventh, tensions }: ToneReading): string {
+  if (!third && fifth === '5' && !seventh && !tensions.length) {
+    return '5'
+  }
+  const naturals = tensions.filter((tone) => NATURAL_TENSIONS.includes(tone))
+  const altered = tensions.filter((tone) => !NATURAL_TENSIONS.includes(tone))
+  const highest = naturals[naturals.length - 1]
+  const sus = third === '4' ? 'sus4' : third === '2' ? 'sus2' : ''
+  const quality = third === 'b3' ? 'm' : ''
+  // "+" only marks a plain augmented triad; with a seventh the #5 is written out, as in "C7(#5)"
+  const augmented = third === '3' && fifth === '#5' && !seventh
+  const brackets: string[] = []
+  let body: string
+
+  if (third === 'b3' && fifth === 'b5') {
+    body = seventh === 'bb7' ? 'dim7' : seventh === 'b7' ? 'm7b5' : seventh === '7' ? 'dim(maj7)' : 'dim'
+    brackets.push(...tensions)
+  } else if (seventh === 'b7') {
+    body = `${quality}${highest ?? '7'}${sus}`
+    brackets.push(...altered)
+  } else if (seventh === '7') {
+    const major = `maj${highest ?? '7'}`
+    body = `${quality === 'm' ? `m(${major})` : quality + major}${sus}`
+    brackets.push(...altered)
+  } else if (seventh === '6') {
+    body = `${quality}${naturals.includes('9') ? '6/9' : '6'}${sus}`
+    brackets.push(...tensions.filter((tone) => tone !== '9'))
+  } else {
+    const [added, ...rest] = naturals
+    body = `${augmented ? '+' : quality}${sus}${added ? `add${added}` : ''}`
+    brackets.push(...sortTones([...rest, ...altered]))
+  }
 
-  // Normalize intervals to within one octave
-  const normalizedIntervals = intervals.map(i => i % 12).sort((a, b) => a - b)
-  const uniqueIntervals = Array.from(new Set(normalizedIntervals))
+  // Altered fifths the quality doesn't already say (m7b5 and dim say their b5, "+" its #5)
+  if ((fifth === 'b5' && third !== 'b3') || (fifth === '#5' && !augmented)) {
+    brackets.unshift(fifth)
+  }
+  if (!third) {
+    brackets.push('no3')
+  } else if (!fifth && !seventh && !tensions.length) {
+    brackets.push('no5')
+  }
 
-  // Check if all formula intervals are present
-  return formula.every(f => uniqueIntervals.includes(f))
+  if (!brackets.length) {
+    return body
+  }
+  // One group of brackets: "dim(maj7,11)" rather than "dim(maj7)(11)"
+  return body.endsWith(')') ? `${body.slice(0, -1)},${brackets.join(',')})` : `${body}(${brackets.join(',')})`
+}
+
+/**
+ * Whether a reading names one degree twice, as a 6 beside a b6 (or a 13 beside a b13) or a 5 beside a #5
+ */
+function isContradictory({ tones }: ToneReading): boolean {
+  const names = new Set(tones.values())
+  const has = (...tones: string[]) => tones.some((tone) => names.has(tone))
+  return (has('6', '13') && has('b6', 'b13')) || (has('5') && has('#5'))
 }
 
 /**
- * Calculate confidence score based on how well the notes match
+ * A plain description of the chord family, e.g. "Half-diminished 7th"
  */
-function calculateConfidence(intervals: number[], formula: number[]): number {
-  const normalizedIntervals = Array.from(new Set(intervals.map(i => i % 12)))
+function describeChord({ third, fifth, seventh }: ToneReading): string {
+  const triad =
+    third === 'b3'
+      ? fifth === 'b5'
+        ? 'Diminished'
+        : 'Minor'
+      : third === '3'
+        ? fifth === '#5'
+          ? 'Augmented'
+          : 'Major'
+        : third === '4'
+          ? 'Suspended 4th'
+          : third === '2'
+            ? 'Suspended 2nd'
+            : fifth === '5'
+              ? 'Power chord'
+              : 'Open'
+  switch (seventh) {
+    case 'bb7':
+      return 'Diminished 7th'
+    case 'b7':
+      if (triad === 'Diminished') return 'Half-diminished 7th'
+      if (triad === 'Minor' || triad === 'Augmented') return `${triad} 7th`
+      return third === '4' || third === '2' ? `Dominant 7th ${third === '4' ? 'sus4' : 'sus2'}` : 'Dominant 7th'
+    case '7':
+      return triad === 'Major' ? 'Major 7th' : triad === 'Minor' ? 'Minor-major 7th' : `${triad} major 7th`
+    case '6':
+      return `${triad} 6th`
+    default:
+      return triad === 'Open' ? 'Interval' : triad
+  }
+}
 
-  // Perfect match
-  if (normalizedIntervals.length === formula.length && matchesFormula(intervals, formula)) {
-    return 100
+/**
+ * How far an interval reading is from a plain, root-position chord. Missing roots and thirds,
+ * altered tones, notes nothing explains and a bass away from the chord tones all cost points,
+ * as do tensions voiced below the third.
+ */
+function scoreReading(reading: ToneReading, bassTone: string | undefined, rootless: boolean, voicedOrder: number[]) {
+  const { third, fifth, seventh, tensions, extra } = reading
+  let score = 100
+  // A rootless voicing usually puts its third and seventh at the bottom
+  if (rootless) {
+    const guideTones = [third, seventh].map((tone) => (tone ? TONE_SPELLING[tone][1] : -1))
+    score -= voicedOrder.slice(0, 2).every((semitones) => guideTones.includes(semitones)) ? 10 : 20
+    // ...and a tension, usually the 9th, in place of the root
+    if (!tensions.length) score -= 10
+  }
+  if (!third) score -= fifth === '5' && !seventh && !tensions.length ? 0 : 18
+  if (third === '4' || third === '2') score -= 6
+  if (!fifth) score -= 2
+  if (fifth === 'b5' && third !== 'b3') score -= 6
+  if (fifth === '#5' && third !== '3') score -= 6
+  // Altered tones are at home on a dominant chord; augmented and diminished major 7ths are rare
+  tensions.forEach((tone) => (score -= NATURAL_TENSIONS.includes(tone) || seventh === 'b7' ? 3 : 6))
+  if (seventh === '7' && ((third === '3' && fifth === '#5') || (third === 'b3' && fifth === 'b5'))) score -= 10
+  score -= extra.length * 22
+
+  if (!bassTone) {
+    score -= 24
+  } else if (bassTone === third) {
+    score -= rootless ? 0 : 6
+  } else if (bassTone === fifth) {
+    score -= 8
+  } else if (bassTone === seventh) {
+    score -= rootless ? 0 : 10
+  } else if (bassTone !== 'R') {
+    score -= 16
   }
 
-  // Has extra notes
-  if (normalizedIntervals.length > formula.length && matchesFormula(intervals, formula)) {
-    return 80
+  // Tensions usually sit above the guide tones; one voiced under the third reads as a different chord
+  const thirdIndex = third ? voicedOrder.indexOf(TONE_SPELLING[third][1]) : -1
+  if (thirdIndex > 0) {
+    const tensionSemitones = tensions.map((tone) => TONE_SPELLING[tone][1])
+    score -= voicedOrder.slice(0, thirdIndex).filter((semitones) => tensionSemitones.includes(semitones)).length * 3
   }
 
-  // Partial match
-  const matchCount = formula.filter(f => normalizedIntervals.includes(f)).length
-  return Math.round((matchCount / formula.length) * 70)
+  return Math.max(0, Math.min(100, score))
+}
+
+function describeInversion(reading: ToneReading, bassTone: string | undefined): string | undefined {
+  if (bassTone === 'R') return undefined
+  if (bassTone && bassTone === reading.third) return '1st inversion'
+  if (bassTone && bassTone === reading.fifth) return '2nd inversion'
+  if (bassTone && bassTone === reading.seventh) return '3rd inversion'
+  return 'slash chord'
 }
 
 /**
- * Determine if the chord is in an inversion
+ * A major or minor triad built from the tensions of a dominant chord, named over the
+ * chord's shell, e.g. "D/C7" for the 9, #11 and 13 of C7
  */
-function detectInversion(intervals: number[], formula: number[], bassNote: NoteId, root: NoteId): string | undefined {
-  if (bassNote === root) return undefined
+function findUpperStructure(reading: ToneReading, root: SpelledNote, rootName: string): string | undefined {
+  if (reading.third !== '3' || reading.seventh !== 'b7' || reading.tensions.length < 2) {
+    return undefined
+  }
+  for (const offset of UPPER_STRUCTURE_ROOTS) {
+    const triadRoot = reading.tones.get(offset)
+    if (!triadRoot) continue
+    for (const shape of TRIAD_SHAPES.slice(0, 2)) {
+      const triad = [offset, ...shape.thirds.map((third) => (offset + third) % 12)]
+      const tones = triad.map((semitones) => reading.tones.get(semitones))
+      const tensionCount = tones.filter((tone) => tone && reading.tensions.includes(tone)).length
+      if (tones.every(Boolean) && tensionCount >= 2) {
+        const [steps, semitones] = TONE_SPELLING[triadRoot]
+        return `${formatSpelledNote(spellPitch(root, steps, semitones))}${shape.suffix}/${rootName}7`
+      }
+    }
+  }
+  return undefined
+}
 
-  const normalizedIntervals = intervals.map(i => i % 12)
-  const bassInterval = normalizedIntervals[0]
+// Chord families played rootless: the third and seventh of dominant, major 7th and minor 7th chords
+const ROOTLESS_SHELLS = ['3 b7', '3 7', 'b3 b7']
 
-  // First inversion - third in bass
-  if (formula.includes(3) && bassInterval === 3) return '1st inversion'
-  if (formula.includes(4) && bassInterval === 4) return '1st inversion'
+/**
+ * Read the notes above one root, or return null when the reading makes no sense: a root that
+ * isn't played needs the third and seventh of a chord played rootless, as in a jazz voicing
+ */
+function interpretFromRoot(rootIndex: number, notes: NoteId[], uniqueNotes: NoteId[]): Candidate | null {
+  const voicedOrder = uniqueNotes.map((note) => semitonesAbove(rootIndex, note))
+  const reading = readTones(new Set(voicedOrder))
+  const rootless = !reading.tones.has(0)
+  if (
+    rootless &&
+    (uniqueNotes.length < 3 ||
+      !ROOTLESS_SHELLS.includes(`${reading.third} ${reading.seventh}`) ||
+      (reading.fifth && reading.fifth !== '5' && reading.seventh !== 'b7') ||
+      reading.extra.length)
+  ) {
+    return null
+  }
+  if (isContradictory(reading)) {
+    return null
+  }
 
-  // Second inversion - fifth in bass
-  if (formula.includes(7) && bassInterval === 7) return '2nd inversion'
+  const mode: KeyMode = reading.third === 'b3' ? 'minor' : 'major'
+  const root = spellKeyTonic(INDEX_TO_NOTE[rootIndex], mode)
+  const rootName = formatSpelledNote(root)
+  const spellTone = (note: NoteId): SpelledNote => {
+    const tone = reading.tones.get(semitonesAbove(rootIndex, note))
+    if (!tone) return spellNoteInKey(note, root, mode)
+    const [steps, semitones] = TONE_SPELLING[tone]
+    return spellPitch(root, steps, semitones)
+  }
+  const spell = (note: NoteId) => formatSpelledNote(spellTone(note))
+
+  // The bass is named as the note picked: B rather than Cb, G rather than F## under a #5
+  const bassNote = notes[0]
+  const spelledBass = spellTone(bassNote)
+  const plainBass = spellNote(bassNote, root.accidental === 'b')
+  const bassName = formatSpelledNote(
+    plainBass.accidental === '' || spelledBass.accidental.length > 1 ? plainBass : spelledBass
+  )
+  const bassTone = reading.tones.get(semitonesAbove(rootIndex, bassNote))
+  const score = scoreReading(reading, bassTone, rootless, voicedOrder)
+  if (score < MIN_SCORE) {
+    return null
+  }
 
-  // Third inversion - seventh in bass (for 7th chords)
-  if (formula.includes(10) && bassInterval === 10) return '3rd inversion'
-  if (formula.includes(11) && bassInterval === 11) return '3rd inversion'
+  const omitted = [...(rootless ? ['R'] : []), ...(reading.third && !reading.fifth ? ['5'] : [])]
+  const unexplained = uniqueNotes.filter((note) => reading.extra.includes(semitonesAbove(rootIndex, note))).map(spell)
+  const upperStructure = findUpperStructure(reading, root, rootName)
+  const slash = !rootless && bassTone !== 'R' ? `/${bassName}` : ''
+  const quality = formatSuffix(reading)
+  const intervals = sortTones(voicedOrder.flatMap((semitones) => reading.tones.get(semitones) ?? []))
+
+  const explanation = [
+    reading.tensions.length ? `${describeChord(reading)} with ${reading.tensions.join(', ')}` : describeChord(reading),
+    ...(rootless ? [`rootless voicing, ${rootName} implied`] : []),
+    ...(bassTone && bassTone !== 'R' && !rootless ? [`${bassName} (the ${bassTone}) in the bass`] : []),
+    ...(omitted.includes('5') && (reading.seventh || reading.tensions.length) ? ['no 5th'] : []),
+    ...(upperStructure ? [`${upperStructure} upper structure`] : []),
+    ...(unexplained.length ? [`${unexplained.join(', ')} not explained`] : [])
+  ].join(', ')
 
-  return 'slash chord'
+  return {
+    score,
+    noteNames: uniqueNotes.map(spell),
+    interpretation: {
+      root: INDEX_TO_NOTE[rootIndex],
+      rootName,
+      quality,
+      fullName: `${rootName}${quality}${slash}`,
+      ...getLibraryQuality(intervals),
+      intervals,
+      confidence: score,
+      inversion: rootless ? undefined : describeInversion(reading, bassTone),
+      bassNote: bassNote !== INDEX_TO_NOTE[rootIndex] ? bassNote : undefined,
+      bassName: bassNote !== INDEX_TO_NOTE[rootIndex] ? bassName : undefined,
+      explanation,
+      ...(reading.tensions.length > 0 && { tensions: reading.tensions }),
+      ...(omitted.length > 0 && { omitted }),
+      ...(unexplained.length > 0 && { unexplained }),
+      ...(upperStructure && { upperStructure })
+    }
+  }
 }
 
 /**
- * Get interval names for display
+ * Name a set of exactly three notes as a triad, e.g. "F#m"
  */
-function getIntervalNames(intervals: number[]): string[] {
-  const intervalMap: Record<number, string> = {
-    0: 'R', 1: 'b2', 2: '2', 3: 'b3', 4: '3', 5: '4', 6: 'b5/#4',
-    7: '5', 8: '#5/b6', 9: '6', 10: 'b7', 11: '7', 14: '9'
+function nameTriad(notes: NoteId[]): { name: string; root: NoteId; description: string } | null {
+  if (notes.length !== 3) return null
+  for (const root of notes) {
+    const rootIndex = NOTE_TO_INDEX[root]
+    const intervals = notes.map((note) => semitonesAbove(rootIndex, note)).filter((semitones) => semitones !== 0)
+    const shape = TRIAD_SHAPES.find(({ thirds }) => thirds.every((third) => intervals.includes(third)))
+    if (shape) {
+      const rootName = formatSpelledNote(spellKeyTonic(root, shape.suffix === 'm' ? 'minor' : 'major'))
+      return { name: `${rootName}${shape.suffix}`, root, description: `${rootName} ${shape.name}` }
+    }
   }
+  return null
+}
 
-  return intervals.map(i => intervalMap[i % 12] || `+${i}`)
+/**
+ * Two complete triads stacked one above the other, with no notes in common,
+ * e.g. D major over C major as "D over C"
+ */
+function findPolychord(notes: NoteId[], uniqueNotes: NoteId[]): Candidate | null {
+  if (uniqueNotes.length !== 6) return null
+  for (let split = 3; split < notes.length - 2; split++) {
+    const lower = nameTriad(getUniqueNotes(notes.slice(0, split)))
+    const upperNotes = getUniqueNotes(notes.slice(split))
+    const upper = nameTriad(upperNotes)
+    if (!lower || !upper || upperNotes.some((note) => notes.slice(0, split).includes(note))) continue
+
+    const rootIndex = NOTE_TO_INDEX[lower.root]
+    const reading = readTones(new Set(uniqueNotes.map((note) => semitonesAbove(rootIndex, note))))
+    const root = spellKeyTonic(lower.root, reading.third === 'b3' ? 'minor' : 'major')
+    const noteNames = uniqueNotes.map((note) => {
+      const tone = reading.tones.get(semitonesAbove(rootIndex, note))
+      if (!tone) return formatSpelledNote(spellNoteInKey(note, root, 'major'))
+      const [steps, semitones] = TONE_SPELLING[tone]
+      return formatSpelledNote(spellPitch(root, steps, semitones))
+    })
+    const intervals = sortTones(uniqueNotes.flatMap((note) => reading.tones.get(semitonesAbove(rootIndex, note)) ?? []))
+    const score = 90
+    return {
+      score,
+      noteNames,
+      interpretation: {
+        root: lower.root,
+        rootName: formatSpelledNote(root),
+        quality: 'polychord',
+        fullName: `${upper.name} over ${lower.name}`,
+        ...getLibraryQuality(intervals),
+        intervals,
+        confidence: score,
+        explanation: `Polychord: ${upper.description} stacked over ${lower.description}`
+      }
+    }
+  }
+  return null
 }
 
 /**
- * Main chord analysis function
+ * Name the chord a set of notes makes, lowest note first. Every pitch class is tried as the
+ * root, including ones that aren't played, and each reading is scored by how plainly it
+ * explains the notes, the bass and the voicing; the best readings come first.
  */
 export function analyzeChord(notes: NoteId[]): ChordAnalysisResult {
   const uniqueNotes = getUniqueNotes(notes)
@@ -147,90 +483,69 @@ export function analyzeChord(notes: NoteId[]): ChordAnalysisResult {
       possibleChords: [],
       selectedNotes: notes,
       uniqueNotes: [],
+      uniqueNoteNames: [],
       noteCount: 0
     }
   }
 
   if (noteCount === 1) {
+    const noteName = formatSpelledNote(spellKeyTonic(uniqueNotes[0], 'major'))
     return {
       possibleChords: [{
         root: uniqueNotes[0],
+        rootName: noteName,
         quality: '',
-        fullName: `${uniqueNotes[0]} (single note)`,
+        fullName: `${noteName} (single note)`,
         intervals: ['R'],
         confidence: 100
       }],
       selectedNotes: notes,
       uniqueNotes,
+      uniqueNoteNames: [noteName],
       noteCount
     }
   }
 
-  const interpretations: ChordInterpretation[] = []
-
-  // Try each unique note as a potential root
-  for (const potentialRoot of uniqueNotes) {
-    const intervals = calculateIntervals(potentialRoot, uniqueNotes)
-
-    // Try to match against each chord formula
-    for (const [, formulaData] of Object.entries(CHORD_FORMULAS)) {
-      if (matchesFormula(intervals, formulaData.intervals)) {
-        const confidence = calculateConfidence(intervals, formulaData.intervals)
-
-        if (confidence >= 60) {
-          const bassNote = notes[0] // First note in the voicing
-          const inversion = detectInversion(intervals, formulaData.intervals, bassNote, potentialRoot)
-          const intervalNames = getIntervalNames(intervals)
-
-          let fullName = `${potentialRoot}${formulaData.quality}`
-          let explanation = formulaData.fullName
-
-          if (inversion) {
-            fullName += ` (${inversion})`
-            if (inversion === 'slash chord') {
-              fullName = `${potentialRoot}${formulaData.quality}/${bassNote}`
-              explanation += ` with ${bassNote} in bass`
-            } else {
-              explanation += ` - ${inversion}`
-            }
-          }
-
-          interpretations.push({
-            root: potentialRoot,
-            quality: formulaData.quality,
-            fullName,
-            intervals: intervalNames,
-            confidence,
-            inversion,
-            bassNote: bassNote !== potentialRoot ? bassNote : undefined,
-            explanation
-          })
-        }
-      }
-    }
+  const candidates = INDEX_TO_NOTE.flatMap((_, rootIndex) => interpretFromRoot(rootIndex, notes, uniqueNotes) ?? [])
+  const polychord = findPolychord(notes, uniqueNotes)
+  if (polychord) {
+    candidates.push(polychord)
   }
-
-  // Sort by confidence (highest first)
-  interpretations.sort((a, b) => b.confidence - a.confidence)
-
-  // If no matches found, return a generic description
-  if (interpretations.length === 0) {
-    const firstNote = uniqueNotes[0]
-    const intervals = calculateIntervals(firstNote, uniqueNotes)
-    interpretations.push({
-      root: firstNote,
-      quality: '',
-      fullName: `${uniqueNotes.join('-')} (unidentified)`,
-      intervals: getIntervalNames(intervals),
-      confidence: 0,
-      explanation: 'No standard chord pattern detected'
-    })
+  // Ties go to readings with the root played, then to the shorter name
+  candidates.sort(
+    (a, b) =>
+      b.score - a.score ||
+      Number(Boolean(a.interpretation.omitted?.includes('R'))) -
+        Number(Boolean(b.interpretation.omitted?.includes('R'))) ||
+      a.interpretation.fullName.length - b.interpretation.fullName.length
+  )
+
+  if (candidates.length === 0) {
+    const firstSpelled = spellKeyTonic(uniqueNotes[0], 'major')
+    const noteNames = uniqueNotes.map((note) => formatSpelledNote(spellNoteInKey(note, firstSpelled, 'major')))
+    return {
+      possibleChords: [{
+        root: uniqueNotes[0],
+        rootName: formatSpelledNote(firstSpelled),
+        quality: '',
+        fullName: `${noteNames.join('-')} (unidentified)`,
+        intervals: [],
+        confidence: 0,
+        explanation: 'No chord explains these notes',
+        unexplained: noteNames.slice(1)
+      }],
+      selectedNotes: notes,
+      uniqueNotes,
+      uniqueNoteNames: noteNames,
+      noteCount
+    }
   }
 
   return {
-    possibleChords: interpretations,
+    possibleChords: candidates.map((candidate) => candidate.interpretation),
     selectedNotes: notes,
     uniqueNotes,
+    uniqueNoteNames: candidates[0].noteNames,
     noteCount
   }
 }
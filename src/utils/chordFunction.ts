@@ -0,0 +1,122 @@
+import type { ChordQuality, IntervalSymbol, KeyMode, NoteId } from '../types/music'
+import type { ChordFunction, ChordFunctionKind } from '../types/progression'
+import { QUALITY_MAP } from '../data/chordQualities'
+import { INDEX_TO_NOTE, NOTE_TO_INDEX } from '../data/notes'
+import { formatChordName } from './chordUtils'
+import { formatBassDegree, formatOffsetNumeral, formatRomanNumeral } from './keyDetection'
+import { formatSpelledNote, getIntervalSemitones, spellKeyTonic, spellNoteInKey } from './noteSpelling'
+
+// Semitones above the tonic; minor keys use the natural minor scale
+const KEY_SCALES: Record<KeyMode, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10]
+}
+
+
+const TRIAD_QUALITIES: Record<string, ChordQuality> = {
+  '4 7': 'major',
+  '3 7': 'minor',
+  '3 6': 'diminished',
+  '4 8': 'augmented'
+}
+
+// A chord of the key that another chord can lean on
+interface TargetChord {
+  offset: number
+  quality: ChordQuality
+  name: string
+}
+
+const hasIntervals = (quality: ChordQuality, ...intervals: IntervalSymbol[]) =>
+  intervals.every((interval) => QUALITY_MAP[quality].intervals.includes(interval))
+
+/**
+ * The key's triad on a root some semitones above the tonic, or null off the scale
+ */
+function getKeyTriad(offset: number, tonic: NoteId, keyMode: KeyMode): TargetChord | null {
+  const scale = KEY_SCALES[keyMode]
+  const root = ((offset % 12) + 12) % 12
+  const step = scale.indexOf(root)
+  if (step < 0) {
+    return null
+  }
+  const above = (steps: number) => (scale[(step + steps) % 7] - root + 12) % 12
+  const quality = TRIAD_QUALITIES[`${above(2)} ${above(4)}`]
+  const note = INDEX_TO_NOTE[(NOTE_TO_INDEX[tonic] + root) % 12]
+  const rootName = formatSpelledNote(spellNoteInKey(note, spellKeyTonic(tonic, keyMode), keyMode))
+  return { offset: root, quality, name: formatChordName(note, quality, rootName) }
+}
+
+/**
+ * What a chord does in a key: its numeral, and for a chord from outside the key the chord
+ * it leans on or the key it is borrowed from. Numerals in the label are read in the key
+ * (III in minor); the progression step reads them against the major scale like every
+ * other progression (bIII). A bass other than the root is written as a scale degree ("I/3").
+ */
+export function getChordFunction(
+  root: NoteId,
+  quality: ChordQuality,
+  tonic: NoteId,
+  keyMode: KeyMode,
+  bass?: NoteId
+): ChordFunction {
+  const offset = (NOTE_TO_INDEX[root] - NOTE_TO_INDEX[tonic] + 12) % 12
+  const bassOffset = bass && bass !== root ? (NOTE_TO_INDEX[bass] - NOTE_TO_INDEX[tonic] + 12) % 12 : undefined
+  const slash = bassOffset === undefined ? '' : `/${formatBassDegree(bassOffset)}`
+  const tones = QUALITY_MAP[quality].intervals.map((interval) => (offset + getIntervalSemitones(interval)) % 12)
+  const fitsScale = (mode: KeyMode) => tones.every((tone) => KEY_SCALES[mode].includes(tone))
+  const keyName = `${formatSpelledNote(spellKeyTonic(tonic, keyMode))} ${keyMode}`
+  const numeral = formatOffsetNumeral(offset, quality, keyMode)
+  const result = (kind: ChordFunctionKind, label: string, degree: string, ownNumeral = numeral): ChordFunction => ({
+    kind,
+    numeral: ownNumeral,
+    label,
+    chord: {
+      degree: `${degree}${slash}`,
+      quality,
+      scaleDegreeOffset: offset,
+      ...(bassOffset !== undefined && { bassOffset })
+    }
+  })
+
+  if (fitsScale(keyMode)) {
+    return result('diatonic', `${numeral} in ${keyName}`, formatOffsetNumeral(offset, quality))
+  }
+
+  // Leaning on a chord of the key: "V7/ii" in the numeral, "V7 of Dm" in words
+  const leaning = (kind: ChordFunctionKind, ownNumeral: string, target: TargetChord, label: string) =>
+    target.offset === 0
+      ? result(kind, label, ownNumeral, ownNumeral)
+      : result(
+          kind,
+          label,
+          `${ownNumeral}/${formatOffsetNumeral(target.offset, target.quality)}`,
+          `${ownNumeral}/${formatOffsetNumeral(target.offset, target.quality, keyMode)}`
+        )
+
+  const fifthBelow = getKeyTriad(offset + 5, tonic, keyMode)
+  if (hasIntervals(quality, '3') && !hasIntervals(quality, '7') && fifthBelow && fifthBelow.quality !== 'diminished') {
+    const own = formatRomanNumeral('V', quality)
+    return leaning('secondaryDominant', own, fifthBelow, `${own} of ${fifthBelow.name}`)
+  }
+
+  const halfStepAbove = getKeyTriad(offset + 1, tonic, keyMode)
+  if (hasIntervals(quality, 'b3', 'b5') && halfStepAbove && halfStepAbove.quality !== 'diminished') {
+    const own = formatRomanNumeral('VII', quality)
+    return leaning('secondaryLeadingTone', own, halfStepAbove, `${own} of ${halfStepAbove.name}`)
+  }
+
+  const parallelMode: KeyMode = keyMode === 'major' ? 'minor' : 'major'
+  if (fitsScale(parallelMode)) {
+    const parallelKey = `${formatSpelledNote(spellKeyTonic(tonic, parallelMode))} ${parallelMode}`
+    return result('borrowed', `${numeral}, borrowed from ${parallelKey}`, formatOffsetNumeral(offset, quality))
+  }
+
+  const halfStepBelow = getKeyTriad(offset - 1, tonic, keyMode)
+  if (hasIntervals(quality, '3', 'b7') && halfStepBelow && halfStepBelow.quality !== 'diminished') {
+    const own = formatRomanNumeral('bII', quality)
+    return leaning('tritoneSub', own, halfStepBelow, `${own}, the tritone sub for V7 of ${halfStepBelow.name}`)
+  }
+
+  return result('chromatic', `${numeral}, outside ${keyName}`, formatOffsetNumeral(offset, quality))
+}
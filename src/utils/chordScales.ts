@@ -0,0 +1,117 @@
+import type { ChordQuality, IntervalSymbol, NoteId } from '../types/music'
+import type { ChordScaleDegree, ChordScaleMatch, KeyCandidate, ScaleDefinition } from '../types/progression'
+import { QUALITY_MAP } from '../data/chordQualities'
+import { NOTE_TO_INDEX } from '../data/notes'
+import { SCALES } from '../data/scales'
+import { getKeyScaleForRoot } from './keyDetection'
+import { getIntervalSemitones } from './noteSpelling'
+import { spellScale } from './scaleUtils'
+
+// Notes outside the chord, named as upper extensions by semitones above its root
+const TENSION_LABELS: Record<number, IntervalSymbol> = {
+  1: 'b9',
+  2: '9',
+  3: '#9',
+  4: '3',
+  5: '11',
+  6: '#11',
+  7: '5',
+  8: 'b13',
+  9: '13',
+  10: 'b7',
+  11: '7'
+}
+
+const getChordSemitones = (quality: ChordQuality) => QUALITY_MAP[quality].intervals.map(getIntervalSemitones)
+
+/**
+ * Whether every note of a chord lies in a scale, e.g. Dorian holds a minor seventh
+ */
+export function isScaleCompatible(scale: ScaleDefinition, quality: ChordQuality): boolean {
+  const pitches = new Set(scale.intervals.map(getIntervalSemitones))
+  return getChordSemitones(quality).every((semitones) => pitches.has(semitones))
+}
+
+/**
+ * Read each degree of a scale built on a chord's root against that chord. Notes a half step
+ * above a chord tone are avoid notes (the 11 over a major chord rubs against its third);
+ * the rest are available tensions. Dominant chords take their b9 and b13 as altered tensions.
+ */
+export function getChordScaleDegrees(quality: ChordQuality, scale: ScaleDefinition): ChordScaleDegree[] {
+  const chord = QUALITY_MAP[quality].intervals
+  const chordSemitones = getChordSemitones(quality)
+  const dominant = chordSemitones.includes(4) && chordSemitones.includes(10)
+
+  return scale.intervals.map((interval) => {
+    const semitones = getIntervalSemitones(interval)
+    const chordTone = chord.find((tone) => getIntervalSemitones(tone) === semitones)
+    if (chordTone) {
+      return { interval, label: chordTone, role: 'chordTone' }
+    }
+    const label = semitones === 3 && !chordSemitones.includes(4) ? 'b3' : TENSION_LABELS[semitones]
+    const altered = dominant && (semitones === 1 || semitones === 8)
+    const avoid = !altered && chordSemitones.includes((semitones + 11) % 12)
+    return { interval, label, role: avoid ? 'avoid' : 'tension' }
+  })
+}
+
+function describeMatch(degrees: ChordScaleDegree[], outsideKey: string[], key: KeyCandidate | null): string {
+  const labelsFor = (role: ChordScaleDegree['role']) =>
+    degrees.filter((degree) => degree.role === role).map((degree) => degree.label)
+  const tensions = labelsFor('tension')
+  const avoid = labelsFor('avoid')
+  const parts = [
+    tensions.length ? `tensions ${tensions.join(' ')}` : 'no tensions',
+    avoid.length ? `avoid ${avoid.join(' ')}` : 'no avoid notes'
+  ]
+  if (key) {
+    parts.unshift(outsideKey.length ? `outside ${key.name}: ${outsideKey.join(' ')}` : `in ${key.name}`)
+  }
+  const summary = parts.join(' · ')
+  return summary.charAt(0).toUpperCase() + summary.slice(1)
+}
+
+/**
+ * Scales that hold a chord, ranked as chord scales. With a key, the key's own mode on the
+ * chord's root comes first (D Dorian over Dm7 in C major, E Phrygian over Em), then the rest
+ * by how well they keep to the key. After that, fewest avoid notes, seven-note scales ahead
+ * of pentatonic and symmetric ones, and most tensions; with no key the most open sounding
+ * mode leads (Lydian over a major seventh).
+ */
+export function rankChordScales(
+  root: NoteId,
+  quality: ChordQuality,
+  scales: ScaleDefinition[],
+  key: KeyCandidate | null = null
+): ChordScaleMatch[] {
+  const keyScale = key ? SCALES[key.scaleId] : undefined
+  const keyPitches = key && keyScale
+    ? new Set(keyScale.intervals.map((interval) => (NOTE_TO_INDEX[key.tonic] + getIntervalSemitones(interval)) % 12))
+    : null
+  const keyScaleId = key ? getKeyScaleForRoot(key, root) : null
+  const count = (match: ChordScaleMatch, role: ChordScaleDegree['role']) =>
+    match.degrees.filter((degree) => degree.role === role).length
+
+  return scales
+    .filter((scale) => isScaleCompatible(scale, quality))
+    .map((scale) => {
+      const degrees = getChordScaleDegrees(quality, scale)
+      const names = spellScale(root, scale)
+      const outsideKey = keyPitches
+        ? names.filter(
+            (_, index) =>
+              degrees[index].role !== 'chordTone' &&
+              !keyPitches.has((NOTE_TO_INDEX[root] + getIntervalSemitones(degrees[index].interval)) % 12)
+          )
+        : []
+      return { scale, degrees, outsideKey, summary: describeMatch(degrees, outsideKey, keyPitches && key) }
+    })
+    .sort(
+      (a, b) =>
+        Number(b.scale.id === keyScaleId) - Number(a.scale.id === keyScaleId) ||
+        a.outsideKey.length - b.outsideKey.length ||
+        count(a, 'avoid') - count(b, 'avoid') ||
+        Number(b.scale.intervals.length === 7) - Number(a.scale.intervals.length === 7) ||
+        count(b, 'tension') - count(a, 'tension')
+    )
+}
@@ -0,0 +1,514 @@
+import type { Accidental, ChordQuality, NoteId, NoteLetter, SpelledNote } from '../types/music'
+import type {
+  ChordSymbolNote,
+  ChordSymbolParseResult,
+  ChordSymbolQualityMatch,
+  ChordSymbolSeventh,
+  ChordSymbolTone,
+  ChordSymbolTriad,
+  ParsedChordSymbol
+} from '../types/chordSymbol'
+import type { ChordProgression, KeyCandidate } from '../types/progression'
+import { CHORD_QUALITIES } from '../data/chordQualities'
+import { NOTE_TO_INDEX } from '../data/notes'
+import {
+  formatSpelledNote,
+  getIntervalSemitones,
+  spelledNoteToId,
+  spellPitch
+} from './noteSpelling'
+import { detectKeyFromChords, formatBassDegree, formatOffsetNumeral } from './keyDetection'
+
+// Letter steps and semitones above the root for every tone a symbol can name
+const TONE_STEPS: Record<string, { steps: number; semitones: number }> = {
+  R: { steps: 0, semitones: 0 },
+  '2': { steps: 1, semitones: 2 },
+  'b3': { steps: 2, semitones: 3 },
+  '3': { steps: 2, semitones: 4 },
+  '4': { steps: 3, semitones: 5 },
+  'b5': { steps: 4, semitones: 6 },
+  '5': { steps: 4, semitones: 7 },
+  '#5': { steps: 4, semitones: 8 },
+  'b6': { steps: 5, semitones: 8 },
+  '6': { steps: 5, semitones: 9 },
+  'bb7': { steps: 6, semitones: 9 },
+  'b7': { steps: 6, semitones: 10 },
+  '7': { steps: 6, semitones: 11 },
+  'b9': { steps: 8, semitones: 13 },
+  '9': { steps: 8, semitones: 14 },
+  '#9': { steps: 8, semitones: 15 },
+  '11': { steps: 10, semitones: 17 },
+  '#11': { steps: 10, semitones: 18 },
+  'b13': { steps: 12, semitones: 20 },
+  '13': { steps: 12, semitones: 21 }
+}
+
+const TRIAD_TONES: Record<ChordSymbolTriad, string[]> = {
+  major: ['R', '3', '5'],
+  minor: ['R', 'b3', '5'],
+  diminished: ['R', 'b3', 'b5'],
+  augmented: ['R', '3', '#5'],
+  sus2: ['R', '2', '5'],
+  sus4: ['R', '4', '5'],
+  power: ['R', '5']
+}
+
+// Tones each alteration replaces
+const ALTERED_TONES: Record<string, string> = {
+  'b5': '5',
+  '#5': '5',
+  'b9': '9',
+  '#9': '9',
+  '#11': '11',
+  'b13': '13'
+}
+
+const ACCIDENTAL_ALIASES: Record<string, Accidental> = {
+  '#': '#',
+  '♯': '#',
+  '##': '##',
+  '♯♯': '##',
+  b: 'b',
+  '♭': 'b',
+  bb: 'bb',
+  '♭♭': 'bb'
+}
+
+// "7alt": sharp fifth, flat and sharp ninth (matches the altered quality)
+const ALT_TONES = ['#5', 'b9', '#9']
+
+const NOTE_PATTERN = /([A-Ga-g])(##|bb|♯♯|♭♭|#|b|♯|♭)?/
+
+interface ChordSymbolReader {
+  input: string
+  position: number
+}
+
+// Thrown inside the parser and turned into a failed result at the top level
+interface ChordSymbolError {
+  message: string
+  position: number
+}
+
+/**
+ * Consume the pattern at the reader's position, if it matches there
+ */
+function match(reader: ChordSymbolReader, pattern: RegExp): RegExpExecArray | null {
+  const sticky = new RegExp(pattern.source, 'y')
+  sticky.lastIndex = reader.position
+  const result = sticky.exec(reader.input)
+  if (result) {
+    reader.position += result[0].length
+  }
+  return result
+}
+
+function isDone(reader: ChordSymbolReader) {
+  return reader.position >= reader.input.length
+}
+
+function fail(message: string, position: number): never {
+  throw { message, position } satisfies ChordSymbolError
+}
+
+function isChordSymbolError(error: unknown): error is ChordSymbolError {
+  return typeof error === 'object' && error !== null && 'message' in error && 'position' in error
+}
+
+function readNote(reader: ChordSymbolReader): SpelledNote | null {
+  const result = match(reader, NOTE_PATTERN)
+  if (!result) {
+    return null
+  }
+  return {
+    letter: result[1].toUpperCase() as NoteLetter,
+    accidental: result[2] ? ACCIDENTAL_ALIASES[result[2]] : ''
+  }
+}
+
+/**
+ * Numbers such as 9, 11 and 13 imply every stacked tone below them
+ */
+function stackExtensions(extension: number): string[] {
+  return ['9', '11', '13'].filter((tone) => Number(tone) <= extension)
+}
+
+function parseBody(reader: ChordSymbolReader, chord: ParsedChordSymbol) {
+  let triad: ChordSymbolTriad | null = null
+  let seventh: ChordSymbolSeventh | null = null
+  let depth = 0
+  let highest = 0
+
+  const setTriad = (next: ChordSymbolTriad, start: number) => {
+    if (triad && triad !== next) {
+      fail(
+        `"${reader.input.slice(start, reader.position)}" clashes with the ${triad} quality already given`,
+        start
+      )
+    }
+    triad = next
+  }
+
+  const addExtension = (value: number) => {
+    highest = Math.max(highest, value)
+    if (value === 6) {
+      chord.extensions.push('6')
+      return
+    }
+    seventh = seventh ?? 'b7'
+    stackExtensions(value).forEach((tone) => {
+      if (!chord.extensions.includes(tone)) {
+        chord.extensions.push(tone)
+      }
+    })
+  }
+
+  const hasNumber = () => seventh !== null || chord.extensions.length > 0
+
+  while (!isDone(reader)) {
+    const start = reader.position
+
+    if (match(reader, /\s+|,/)) {
+      continue
+    }
+    if (match(reader, /\(/)) {
+      depth += 1
+      continue
+    }
+    if (match(reader, /\)/)) {
+      if (depth === 0) {
+        fail('Closing bracket without an opening one', start)
+      }
+      depth -= 1
+      continue
+    }
+
+    // 6/9 before the slash is treated as a bass note
+    if (match(reader, /6\/9|69/)) {
+      addExtension(6)
+      chord.added.push('9')
+      continue
+    }
+
+    if (match(reader, /\//)) {
+      const bassStart = reader.position
+      const bass = readNote(reader)
+      if (!bass) {
+        fail(
+          isDone(reader) ? 'Missing bass note after "/"' : `"${reader.input.slice(bassStart)}" is not a bass note`,
+          bassStart
+        )
+      }
+      match(reader, /\s*\)?\s*/)
+      if (!isDone(reader)) {
+        fail('The bass note must come last', reader.position)
+      }
+      chord.bass = bass
+      break
+    }
+
+    const majorSeventh = match(reader, /(maj|Maj|MAJ|[mM]a(?=\d)|M|Δ|△|\^)(7|9|11|13)?/)
+    if (majorSeventh) {
+      if (majorSeventh[2]) {
+        addExtension(Number(majorSeventh[2]))
+        seventh = '7'
+      } else if (/[Δ△^]/.test(majorSeventh[1])) {
+        seventh = '7'
+      }
+      continue
+    }
+
+    const omission = match(reader, /(no|omit)(3|5)/)
+    if (omission) {
+      chord.omissions.push(omission[2])
+      continue
+    }
+
+    if (match(reader, /dim|°|o/)) {
+      setTriad('diminished', start)
+      if (match(reader, /7/)) {
+        seventh = 'bb7'
+      }
+      continue
+    }
+
+    if (match(reader, /ø7?|Ø7?/)) {
+      setTriad('diminished', start)
+      seventh = 'b7'
+      continue
+    }
+
+    // "+7" is an augmented seventh chord, while "+5" and "+9" are alterations
+    if (match(reader, /aug|\+(?![0-9])|\+(?=7)/)) {
+      setTriad('augmented', start)
+      continue
+    }
+
+    const sus = match(reader, /sus(2|4)?/)
+    if (sus) {
+      setTriad(sus[1] === '2' ? 'sus2' : 'sus4', start)
+      continue
+    }
+
+    const added = match(reader, /add(b|#|♭|♯)?(2|4|6|9|11|13)/)
+    if (added) {
+      const accidental = added[1] ? ACCIDENTAL_ALIASES[added[1]] : ''
+      if (accidental) {
+        chord.alterations.push(`${accidental}${added[2]}`)
+      } else {
+        chord.added.push(added[2])
+      }
+      continue
+    }
+
+    if (match(reader, /alt/)) {
+      seventh = seventh ?? 'b7'
+      ALT_TONES.forEach((tone) => {
+        if (!chord.alterations.includes(tone)) {
+          chord.alterations.push(tone)
+        }
+      })
+      continue
+    }
+
+    // After a number, "-9" and "+5" are alterations rather than minor/augmented
+    const alteration = match(reader, hasNumber() ? /(b|#|♭|♯|-|\+)(5|9|11|13)/ : /(b|#|♭|♯|\+)(5|9|11|13)/)
+    if (alteration) {
+      const accidental = alteration[1] === '-' ? 'b' : alteration[1] === '+' ? '#' : ACCIDENTAL_ALIASES[alteration[1]]
+      const tone = `${accidental}${alteration[2]}`
+      if (!(tone in ALTERED_TONES)) {
+        fail(`"${tone}" is not a chord alteration`, start)
+      }
+      chord.alterations.push(tone)
+      continue
+    }
+
+    if (match(reader, /min|mi|m|-/)) {
+      setTriad('minor', start)
+      continue
+    }
+
+    const number = match(reader, /13|11|9|7|6|5|2/)
+    if (number) {
+      const value = Number(number[0])
+      if (value === 2) {
+        // "C2" as charts write it: the second in place of the third
+        setTriad('sus2', start)
+      } else if (value === 5) {
+        if (triad || hasNumber()) {
+          fail('"5" only follows the root, as in a power chord like "E5"', start)
+        }
+        setTriad('power', start)
+      } else if (value === 7) {
+        seventh = seventh ?? 'b7'
+      } else {
+        addExtension(value)
+      }
+      continue
+    }
+
+    fail(`Unexpected "${reader.input.slice(start)}" in "${reader.input}"`, start)
+  }
+
+  if (depth > 0) {
+    fail('Missing closing bracket', reader.input.length)
+  }
+
+  chord.triad = triad ?? 'major'
+  chord.seventh = seventh
+
+  // A natural 11 clashes with a major third, so 13th chords leave it out
+  const hasMajorThird = chord.triad === 'major' || chord.triad === 'augmented'
+  if (highest === 13 && hasMajorThird) {
+    chord.extensions = chord.extensions.filter((tone) => tone !== '11')
+  }
+}
+
+/**
+ * Parse a chord symbol such as "F#m7b5/C", "Bbmaj9", "Gsus4add9" or "E7#9"
+ * into its root, quality, extensions, alterations and bass note.
+ */
+export function parseChordSymbol(input: string): ChordSymbolParseResult {
+  const symbol = input.trim()
+  if (!symbol) {
+    return { ok: false, error: 'Enter a chord symbol such as "Am7" or "F#m7b5/C"', position: 0 }
+  }
+
+  const reader: ChordSymbolReader = { input: symbol, position: 0 }
+  const root = readNote(reader)
+  if (!root) {
+    return { ok: false, error: 'A chord symbol starts with a root note from A to G', position: 0 }
+  }
+
+  const chord: ParsedChordSymbol = {
+    symbol,
+    root,
+    triad: 'major',
+    seventh: null,
+    extensions: [],
+    added: [],
+    alterations: [],
+    omissions: [],
+    bass: null
+  }
+
+  try {
+    parseBody(reader, chord)
+  } catch (error) {
+    if (isChordSymbolError(error)) {
+      return { ok: false, error: error.message, position: error.position }
+    }
+    throw error
+  }
+
+  return { ok: true, chord }
+}
+
+/**
+ * Split a typed progression ("Am F C G", "Dm7 | G7 | Cmaj7") into chord symbols
+ */
+export function parseChordSymbolList(
+  input: string
+): { chords: ParsedChordSymbol[]; errors: string[] } {
+  const tokens = input.split(/[\s|,]+/).filter(Boolean)
+  const chords: ParsedChordSymbol[] = []
+  const errors: string[] = []
+
+  tokens.forEach((token) => {
+    const result = parseChordSymbol(token)
+    if (result.ok) {
+      chords.push(result.chord)
+    } else {
+      errors.push(`${token}: ${result.error}`)
+    }
+  })
+
+  return { chords, errors }
+}
+
+/**
+ * Interval labels of a parsed chord, ordered from the root upwards
+ */
+export function getChordSymbolTones(chord: ParsedChordSymbol): ChordSymbolTone[] {
+  const tones = [...TRIAD_TONES[chord.triad]]
+  if (chord.seventh) {
+    tones.push(chord.seventh)
+  }
+  tones.push(...chord.extensions, ...chord.added.map((tone) => (tone === '4' ? '11' : tone === '2' ? '9' : tone)))
+
+  chord.alterations.forEach((alteration) => {
+    const replaced = ALTERED_TONES[alteration]
+    const index = tones.indexOf(replaced)
+    if (index >= 0) {
+      tones.splice(index, 1)
+    }
+    tones.push(alteration)
+  })
+
+  const omitted = chord.omissions.flatMap((tone) => (tone === '3' ? ['b3', '3'] : ['b5', '5', '#5']))
+
+  return [...new Set(tones)]
+    .filter((tone) => !omitted.includes(tone))
+    .map((tone) => ({ interval: tone, ...TONE_STEPS[tone] }))
+    .sort((a, b) => a.semitones - b.semitones)
+}
+
+/**
+ * Spelled notes of a parsed chord ("what notes are in this?")
+ */
+export function getChordSymbolNotes(chord: ParsedChordSymbol): ChordSymbolNote[] {
+  return getChordSymbolTones(chord).map((tone) => {
+    const spelled = spellPitch(chord.root, tone.steps, tone.semitones)
+    return {
+      ...tone,
+      note: spelledNoteToId(spelled),
+      name: formatSpelledNote(spelled)
+    }
+  })
+}
+
+/**
+ * Closest built-in chord quality for a parsed symbol, used to look up shapes
+ */
+export function getChordSymbolQuality(chord: ParsedChordSymbol): ChordSymbolQualityMatch {
+  return getClosestQuality(getChordSymbolTones(chord))
+}
+
+/**
+ * Tones named by their intervals ("b3", "#9"), with the letter steps and semitones above the root
+ */
+export function getIntervalTones(intervals: string[]): ChordSymbolTone[] {
+  return intervals.flatMap((interval) => (TONE_STEPS[interval] ? [{ interval, ...TONE_STEPS[interval] }] : []))
+}
+
+/**
+ * Closest built-in chord quality for a set of tones.
+ * Triad tones count most, then sevenths and sixths, then the upper extensions.
+ */
+export function getClosestQuality(tones: ChordSymbolTone[]): ChordSymbolQualityMatch {
+  const weightOf = (tone: ChordSymbolTone) => (tone.steps < 5 ? 3 : tone.steps < 7 ? 2 : 1)
+  const pitchClasses = new Set(tones.map((tone) => tone.semitones % 12))
+
+  const ranked = CHORD_QUALITIES.filter((quality) => !quality.aliasOf)
+    .map((quality) => {
+      const qualityClasses = new Set(quality.intervals.map((interval) => getIntervalSemitones(interval) % 12))
+      const matched = tones
+        .filter((tone) => qualityClasses.has(tone.semitones % 12))
+        .reduce((sum, tone) => sum + weightOf(tone), 0)
+      const missing = [...qualityClasses].filter((semitone) => !pitchClasses.has(semitone)).length
+      const exact = missing === 0 && qualityClasses.size === pitchClasses.size
+      return { quality: quality.id, exact, score: matched - missing * 2 }
+    })
+    .sort((a, b) => b.score - a.score)
+
+  const best = ranked.find((match) => match.exact) ?? ranked[0]
+  return { quality: best.quality as ChordQuality, exact: best.exact }
+}
+
+/**
+ * Pitch class of the sounding bass: the slash note, or the root
+ */
+export function getChordSymbolBass(chord: ParsedChordSymbol): NoteId {
+  return spelledNoteToId(chord.bass ?? chord.root)
+}
+
+/**
+ * Turn typed chord symbols into a progression rooted on its detected key, so the
+ * Song Builder can play it like any preset with Roman numeral degrees. Without a key
+ * it is rooted on the first chord and the degrees keep the typed symbols.
+ */
+export function createProgressionFromChordSymbols(
+  chords: ParsedChordSymbol[]
+): { progression: ChordProgression; root: NoteId; key: KeyCandidate | null } {
+  const resolved = chords.map((chord) => ({
+    symbol: chord.symbol,
+    note: spelledNoteToId(chord.root),
+    quality: getChordSymbolQuality(chord).quality,
+    bass: getChordSymbolBass(chord)
+  }))
+  const [key = null] = detectKeyFromChords(resolved, 1)
+  const root = key?.tonic ?? resolved[0].note
+
+  return {
+    root,
+    key,
+    progression: {
+      id: 'custom',
+      name: chords.map((chord) => chord.symbol).join(' - '),
+      description: key ? `Typed chord progression in ${key.name}` : 'Typed chord progression',
+      chords: resolved.map((chord) => {
+        const offset = (NOTE_TO_INDEX[chord.note] - NOTE_TO_INDEX[root] + 12) % 12
+        const bassOffset =
+          chord.bass !== chord.note ? (NOTE_TO_INDEX[chord.bass] - NOTE_TO_INDEX[root] + 12) % 12 : undefined
+        const slash = bassOffset === undefined ? '' : `/${formatBassDegree(bassOffset)}`
+        return {
+          // Counted from the major scale in every key, as the Roman numeral editor reads them
+          degree: key ? `${formatOffsetNumeral(offset, chord.quality)}${slash}` : chord.symbol,
+          quality: chord.quality,
+          scaleDegreeOffset: offset,
+          ...(bassOffset !== undefined && { bassOffset })
+        }
+      })
+    }
+  }
+}
@@ -1,14 +1,30 @@
 import type {
+  CalculatedBarre,
   CalculatedFingerPlacement,
   ChordQuality,
+  ChordShapeOptions,
   ChordShapeTemplate,
   GuitarString,
   NoteId,
   RuntimeChordShape
 } from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
 import { CHORD_SHAPES } from '../data/chordShapes'
-import { GUITAR_STRINGS, NOTE_TO_INDEX, STRING_TUNINGS } from '../data/notes'
+import { GUITAR_STRINGS, INDEX_TO_NOTE, NOTE_TO_INDEX, STRING_TUNINGS } from '../data/notes'
 import { QUALITY_MAP } from '../data/chordQualities'
+import { formatSpelledNote, getIntervalSemitones, spellChordRoot } from './noteSpelling'
+import { solveFingering } from './fingeringSolver'
+import {
+  getActiveCapo,
+  getActiveTuning,
+  getInstrument,
+  getPitchClass,
+  getShapeRoot,
+  getStrings,
+  getStringTunings,
+  isPartialCapo,
+  isStandardTuning
+} from './tuning'
 
 const QUALITY_SUFFIX: Record<ChordQuality, string> = {
   major: '',
@@ -21,9 +37,22 @@ const QUALITY_SUFFIX: Record<ChordQuality, string> = {
   minor7: 'm7',
   add9: 'add9',
   diminished: 'dim',
-  augmented: 'aug'
+  augmented: 'aug',
+  sixNine: '6/9',
+  dominant9: '9',
+  dominant11: '11',
+  dominant13: '13',
+  dominant7b9: '7b9',
+  dominant7sharp9: '7#9',
+  dominant7sharp11: '7#11',
+  altered: '7alt',
+  diminished7: 'dim7',
+  halfDiminished: 'm7b5',
+  minorMajor7: 'm(maj7)',
+  augmented7: 'aug7'
 }
 
+// Templates are written for standard tuning and refitted afterwards
 function findFretForNoteOnString(stringId: GuitarString, target: NoteId): number {
   const tuning = STRING_TUNINGS[stringId]
   const targetIndex = NOTE_TO_INDEX[target]
@@ -44,8 +73,8 @@ function buildFingerPlacements(template: ChordShapeTemplate, offset: number): Ca
   }))
 }
 
-function createEmptyStringStates() {
-  return GUITAR_STRINGS.reduce(
+export function createEmptyStringStates(tuning: TuningDefinition = getActiveTuning()) {
+  return getStrings(tuning).reduce(
     (acc, stringId) => {
       acc[stringId] = {
         string: stringId,
@@ -110,13 +139,13 @@ function applyMutedStrings(template: ChordShapeTemplate, states: RuntimeChordSha
   })
 }
 
-function buildBarre(template: ChordShapeTemplate, offset: number) {
+function buildBarre(template: ChordShapeTemplate, offset: number): CalculatedBarre | null {
   if (!template.barre) {
     return null
   }
-  const engagesFrom = template.barre.engagesFromFret ?? 0
+  const engagesFrom = template.barre.engagesFromFret
   const shouldShow = offset > 0 || template.barre.showInOpen
-  if (!shouldShow || offset < engagesFrom) {
+  if (!shouldShow || (engagesFrom !== undefined && offset < engagesFrom)) {
     return null
   }
   return {
@@ -127,9 +156,9 @@ function buildBarre(template: ChordShapeTemplate, offset: number) {
   }
 }
 
-function determineFretWindow(
+export function determineFretWindow(
   states: RuntimeChordShape['stringStates'],
-  barre: ReturnType<typeof buildBarre>
+  barre: CalculatedBarre | null
 ) {
   const usedFrets: number[] = []
   Object.values(states).forEach((state) => {
@@ -152,28 +181,59 @@ function determineFretWindow(
   return { start, end }
 }
 
-function buildInstructions(states: RuntimeChordShape['stringStates']): string[] {
-  return GUITAR_STRINGS.map((stringId) => {
-    const tuning = STRING_TUNINGS[stringId]
+/**
+ * One line per string, e.g. "A: fret 3 (R)"
+ */
+export function buildInstructions(
+  states: RuntimeChordShape['stringStates'],
+  tuning: TuningDefinition = getActiveTuning()
+): string[] {
+  const strings = getStringTunings(tuning)
+  return getStrings(tuning).map((stringId) => {
+    const label = strings[stringId].label
     const state = states[stringId]
     if (!state || state.isMuted || state.fret === null) {
-      return `${tuning.label}: mute`
+      return `${label}: mute`
     }
     if (state.fret === 0) {
-      return `${tuning.label}: open${state.interval ? ` (${state.interval})` : ''}`
+      return `${label}: open${state.interval ? ` (${state.interval})` : ''}`
     }
-    return `${tuning.label}: fret ${state.fret}${state.interval ? ` (${state.interval})` : ''}`
+    return `${label}: fret ${state.fret}${state.interval ? ` (${state.interval})` : ''}`
   })
 }
 
-function buildNoteList(states: RuntimeChordShape['stringStates']) {
-  return GUITAR_STRINGS.map((stringId) => {
-    const state = states[stringId]
-    if (!state || state.isMuted || state.fret === null) {
-      return null
+/**
+ * Sounding strings of a shape, lowest string first
+ */
+export function buildNoteList(states: RuntimeChordShape['stringStates']) {
+  return Object.values(states)
+    .sort((a, b) => b.string - a.string)
+    .filter((state) => !state.isMuted && state.fret !== null)
+    .map((state) => ({ string: state.string, fret: state.fret as number }))
+}
+
+/**
+ * Fill in fingers a template leaves out, keeping its own barre when it has one
+ */
+function applySolvedFingering(
+  states: RuntimeChordShape['stringStates'],
+  fingerPlacements: CalculatedFingerPlacement[],
+  barre: CalculatedBarre | null
+): CalculatedBarre | null {
+  const fingering = solveFingering(buildNoteList(states))
+  if (!fingering.playable) {
+    return barre
+  }
+  getStrings().forEach((stringId) => {
+    const finger = fingering.fingers[stringId]
+    if (finger !== undefined) {
+      states[stringId] = { ...states[stringId], finger }
     }
-    return { string: stringId, fret: state.fret }
-  }).filter(Boolean) as Array<{ string: GuitarString; fret: number }>
+  })
+  fingerPlacements.forEach((placement) => {
+    placement.finger = fingering.fingers[placement.string] ?? placement.finger
+  })
+  return barre ?? fingering.barre
 }
 
 function instantiateTemplate(
@@ -182,19 +242,30 @@ function instantiateTemplate(
   quality: ChordQuality
 ): RuntimeChordShape | null {
   const targetFret = findFretForNoteOnString(template.rootString, root)
-  const offset = template.isMovable ? targetFret - template.rootFret : 0
+  let offset = template.isMovable ? targetFret - template.rootFret : 0
   if (!template.isMovable && template.baseRoot !== root) {
     return null
   }
-  if (template.isMovable && offset < 0) {
-    return null
+  // Grips built on a fretted root can slide down a little; below that, move up an octave
+  const lowestFret = Math.min(...template.positions.map((pos) => pos.fret))
+  if (template.isMovable && offset < 0 && lowestFret + offset < 1) {
+    offset += 12
   }
   const fingerPlacements = buildFingerPlacements(template, offset)
   const states = createEmptyStringStates()
   applyOpenStrings(template, offset, states)
   applyFingerPositions(template, offset, states)
   applyMutedStrings(template, states)
-  const barre = buildBarre(template, offset)
+  // Extended-range guitars leave the strings below the template's six unplayed
+  getStrings()
+    .filter((stringId) => !GUITAR_STRINGS.includes(stringId))
+    .forEach((stringId) => {
+      states[stringId] = { ...states[stringId], isMuted: true }
+    })
+  let barre = buildBarre(template, offset)
+  if (fingerPlacements.some((placement) => placement.finger === undefined)) {
+    barre = applySolvedFingering(states, fingerPlacements, barre)
+  }
   const fretWindow = determineFretWindow(states, barre)
   const openIndicators = offset === 0 && template.openStrings ? template.openStrings : []
   const instructions = buildInstructions(states)
@@ -206,7 +277,7 @@ function instantiateTemplate(
     description: template.description,
     quality,
     root,
-    displayName: `${root}${QUALITY_SUFFIX[quality]} (${template.label})`,
+    displayName: `${formatChordName(root, quality)} (${template.label})`,
     accentColor: QUALITY_MAP[quality].color,
     fingerPlacements,
     openIndicators,
@@ -218,17 +289,143 @@ function instantiateTemplate(
   }
 }
 
-export function buildChordShapes(root: NoteId, quality: ChordQuality): RuntimeChordShape[] {
+/**
+ * Pitch class of the lowest sounding string in a shape
+ */
+function getLowestNote(shape: RuntimeChordShape): NoteId | null {
+  const lowest = shape.notesForAudio[0]
+  if (!lowest) {
+    return null
+  }
+  return INDEX_TO_NOTE[getPitchClass(lowest.string, lowest.fret)]
+}
+
+// Highest fret a shape may reach after moving to a lower tuning, on necks long enough
+const MAX_FITTED_FRET = 15
+
+/**
+ * Move a standard-tuning shape onto the strings of the active tuning so it sounds the
+ * same pitches, then re-finger it. Open strings left out of a partial capo keep ringing
+ * at their own pitch and are relabelled, or rule the shape out when they clash.
+ * Null when a retuned string can't reach a note or the moved grip can't be fingered.
+ */
+function fitToNeck(shape: RuntimeChordShape): RuntimeChordShape | null {
+  const strings = getStringTunings()
+  const maxFret = Math.min(MAX_FITTED_FRET, getInstrument().fretCount)
+  const rootIndex = NOTE_TO_INDEX[shape.root]
+  const chordIntervals = QUALITY_MAP[shape.quality].intervals
+  const states = { ...shape.stringStates }
+  for (const stringId of GUITAR_STRINGS) {
+    const state = states[stringId]
+    if (state.isMuted || state.fret === null) continue
+    // A string tuned a whole octave away (Nashville) keeps its fret and just sounds higher
+    const fret = state.fret + ((STRING_TUNINGS[stringId].midi - strings[stringId].midi) % 12)
+    if (fret < 0 || fret > maxFret) {
+      return null
+    }
+    const semitones = (getPitchClass(stringId, fret) - rootIndex + 12) % 12
+    const interval = chordIntervals.find((candidate) => getIntervalSemitones(candidate) % 12 === semitones)
+    if (!interval) {
+      return null
+    }
+    states[stringId] = { ...state, fret, interval, isOpen: fret === 0, finger: undefined }
+  }
+
+  const notesForAudio = buildNoteList(states)
+  const fingering = solveFingering(notesForAudio)
+  if (!fingering.playable) {
+    return null
+  }
+  const { barre } = fingering
+  notesForAudio.forEach((note) => {
+    states[note.string] = { ...states[note.string], finger: fingering.fingers[note.string] }
+  })
+  // Notes held down by the barre are drawn by the barre itself
+  const isUnderBarre = (note: { string: GuitarString; fret: number }) =>
+    barre !== null && note.fret === barre.fret && fingering.fingers[note.string] === barre.finger
+  const fingerPlacements: CalculatedFingerPlacement[] = notesForAudio
+    .filter((note) => note.fret > 0 && !isUnderBarre(note))
+    .map((note) => ({
+      string: note.string,
+      fret: note.fret,
+      finger: fingering.fingers[note.string],
+      interval: states[note.string].interval,
+      isRoot: states[note.string].interval === 'R'
+    }))
+
+  return {
+    ...shape,
+    fingerPlacements,
+    openIndicators: shape.openIndicators
+      .filter((open) => states[open.string].fret === 0)
+      .map((open) => ({ ...open, interval: states[open.string].interval ?? open.interval })),
+    stringStates: states,
+    barre,
+    fretWindow: determineFretWindow(states, barre),
+    instructions: buildInstructions(states),
+    notesForAudio
+  }
+}
+
+/**
+ * Shapes with ringing open strings first, then the ones closest to the capo
+ */
+function compareOpenPosition(a: RuntimeChordShape, b: RuntimeChordShape): number {
+  const isOpen = (shape: RuntimeChordShape) => (shape.notesForAudio.some((note) => note.fret === 0) ? 0 : 1)
+  return isOpen(a) - isOpen(b) || a.fretWindow.start - b.fretWindow.start
+}
+
+export function buildChordShapes(
+  root: NoteId,
+  quality: ChordQuality,
+  options: ChordShapeOptions = {}
+): RuntimeChordShape[] {
+  // Bass, ukulele and mandolin chords come from the voicing search instead
+  if (!getInstrument().chordShapes) {
+    return []
+  }
+  // Under a capo the grips are the ones for the chord a capo's width lower
+  const capo = getActiveCapo()
+  const shapeRoot = getShapeRoot(root, capo)
+  const shapeName = capo.fret > 0 ? formatChordName(shapeRoot, quality) : undefined
+  const needsFitting = !isStandardTuning() || isPartialCapo(capo)
   const shapes = CHORD_SHAPES.filter((shape) => shape.qualities.includes(quality))
-    .map((shape) => instantiateTemplate(shape, root, quality))
+    .map((shape) => instantiateTemplate(shape, shapeRoot, quality))
+    .map((shape): RuntimeChordShape | null =>
+      shape && {
+        ...shape,
+        root,
+        displayName: `${formatChordName(root, quality)} (${shape.templateLabel})`,
+        shapeName
+      }
+    )
+    .map((shape) => (shape && needsFitting ? fitToNeck(shape) : shape))
     .filter(Boolean) as RuntimeChordShape[]
 
+  if (capo.fret > 0) {
+    shapes.sort(compareOpenPosition)
+  }
+
+  const { bass } = options
+  if (bass && bass !== root) {
+    const hasBass = (shape: RuntimeChordShape) => (getLowestNote(shape) === bass ? 0 : 1)
+    shapes.sort((a, b) => hasBass(a) - hasBass(b))
+  }
+
   return shapes.map((shape, index) => ({
     ...shape,
     instanceId: `${shape.templateId}-${root}-${quality}-${index}`
   }))
 }
 
-export function formatChordName(root: NoteId, quality: ChordQuality) {
-  return `${root}${QUALITY_SUFFIX[quality]}`
+/**
+ * Chord symbol such as "Bbmaj7". Pass rootName when the key dictates the spelling
+ * (e.g. from a transposed progression); otherwise the root is spelled on its own.
+ */
+export function formatChordName(
+  root: NoteId,
+  quality: ChordQuality,
+  rootName: string = formatSpelledNote(spellChordRoot(root, quality))
+) {
+  return `${rootName}${QUALITY_SUFFIX[quality]}`
 }
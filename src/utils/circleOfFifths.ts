@@ -0,0 +1,95 @@
+import type { ChordQuality, KeyMode, NoteId } from '../types/music'
+import type { CircleKey, HarmonicFunction, HarmonizedChord, PivotChord } from '../types/progression'
+import { CIRCLE_OF_FIFTHS, INDEX_TO_NOTE, NOTE_TO_INDEX } from '../data/notes'
+import { SCALES } from '../data/scales'
+import { harmonizeScale } from './harmonizer'
+import { formatSpelledNote, getQualityMode, spellKeySignature, spellKeyTonic } from './noteSpelling'
+
+// Pivots that set up the new key's dominant read best, so they come first
+const PIVOT_FUNCTION_ORDER: HarmonicFunction[] = ['subdominant', 'tonic', 'dominant']
+
+/**
+ * Minor key sharing a major key's notes, a minor third below it (C -> A)
+ */
+export function getRelativeMinor(tonic: NoteId): NoteId {
+  return INDEX_TO_NOTE[(NOTE_TO_INDEX[tonic] + 9) % 12]
+}
+
+/**
+ * Major key sharing a minor key's notes, a minor third above it (A -> C)
+ */
+export function getRelativeMajor(tonic: NoteId): NoteId {
+  return INDEX_TO_NOTE[(NOTE_TO_INDEX[tonic] + 3) % 12]
+}
+
+/**
+ * Slot of a key on the circle, 0 for C major and A minor, counting clockwise
+ */
+export function getCircleIndex(tonic: NoteId, mode: KeyMode): number {
+  return CIRCLE_OF_FIFTHS.indexOf(mode === 'minor' ? getRelativeMajor(tonic) : tonic)
+}
+
+/**
+ * Steps round the circle from one key to another, the shorter way: positive is clockwise
+ * (towards the sharps), so C major to D major is 2 and C major to F major is -1
+ */
+export function getCircleDistance(from: CircleKey, to: CircleKey): number {
+  const steps = (getCircleIndex(to.tonic, to.mode) - getCircleIndex(from.tonic, from.mode) + 12) % 12
+  return steps > 6 ? steps - 12 : steps
+}
+
+/**
+ * Key name as it is written, e.g. "Eb major" or "C# minor"
+ */
+export function formatKeyName(key: CircleKey): string {
+  return `${formatSpelledNote(spellKeyTonic(key.tonic, key.mode))} ${key.mode}`
+}
+
+/**
+ * The sharps or flats of a key, written in signature order ("F# C#")
+ */
+export function getKeySignatureNotes(key: CircleKey): string[] {
+  return spellKeySignature(spellKeyTonic(key.tonic, key.mode), key.mode).map(formatSpelledNote)
+}
+
+/**
+ * Triads on the seven degrees of a major or natural minor key
+ */
+export function getDiatonicTriads(key: CircleKey): HarmonizedChord[] {
+  return harmonizeScale(key.tonic, key.mode === 'minor' ? SCALES.naturalMinor : SCALES.majorScale, 'triad')
+}
+
+/**
+ * Which ring a chord sits on: major chords on the outer ring at their root, minor and
+ * diminished chords on the inner ring beside their relative major
+ */
+export function getChordCircleSlot(root: NoteId, quality: ChordQuality): { ring: 'outer' | 'inner'; index: number } {
+  const mode = getQualityMode(quality)
+  return { ring: mode === 'minor' ? 'inner' : 'outer', index: getCircleIndex(root, mode) }
+}
+
+/**
+ * Chords that belong to both keys, with their numeral in each. Playing one of them and
+ * then treating it as a chord of the new key is the smoothest way across.
+ */
+export function findPivotChords(from: CircleKey, to: CircleKey): PivotChord[] {
+  const target = getDiatonicTriads(to)
+  return getDiatonicTriads(from)
+    .flatMap((chord) => {
+      const shared = target.find((other) => other.root === chord.root && other.quality === chord.quality)
+      if (!chord.quality || !shared) {
+        return []
+      }
+      return [
+        {
+          root: chord.root,
+          rootName: chord.rootName,
+          quality: chord.quality,
+          fromDegree: chord.degree,
+          toDegree: shared.degree,
+          toFunction: shared.function
+        }
+      ]
+    })
+    .sort((a, b) => PIVOT_FUNCTION_ORDER.indexOf(a.toFunction) - PIVOT_FUNCTION_ORDER.indexOf(b.toFunction))
+}
@@ -0,0 +1,147 @@
+import type { ChordQuality, GuitarString, IntervalSymbol, NoteId } from '../types/music'
+import type { FourNotePosition, VoicingFamilyDefinition } from '../types/triad'
+import { QUALITY_MAP } from '../data/chordQualities'
+import { solveFingering } from './fingeringSolver'
+import { getIntervalSemitones } from './noteSpelling'
+import { calculateNoteFromInterval, findAllFretsForNote, getTriadFretLimit } from './triadUtils'
+import { getMidiNote, getStrings } from './tuning'
+
+// Fifths make way first when a chord has more than four tones
+const FIFTHS: IntervalSymbol[] = ['5', 'b5', '#5']
+
+// One voice of a voicing, in semitones above the bass
+interface Voice {
+  interval: IntervalSymbol
+  offset: number
+}
+
+/**
+ * The four tones a chord is voiced with. Larger chords keep the root, third, seventh and
+ * top tension (C13 is played R 3 b7 13); triads have no four-note voicings.
+ */
+export function getFourNoteIntervals(quality: ChordQuality): IntervalSymbol[] {
+  const intervals = QUALITY_MAP[quality].intervals
+  if (intervals.length < 4) {
+    return []
+  }
+  const tones = intervals.length > 4 ? intervals.filter((interval) => !FIFTHS.includes(interval)) : [...intervals]
+  while (tones.length > 4) {
+    tones.splice(tones.length - 2, 1)
+  }
+  return tones
+}
+
+/**
+ * Strings a family uses, lowest string of each set first: every set the pattern fits on
+ */
+export function getFamilyStringSets(family: VoicingFamilyDefinition): GuitarString[][] {
+  const strings = getStrings()
+  const reach = family.stringOffsets[family.stringOffsets.length - 1]
+  return strings
+    .slice(0, Math.max(0, strings.length - reach))
+    .map((_, index) => family.stringOffsets.map((offset) => strings[index + offset]))
+}
+
+/**
+ * Voices of a family's voicing, lowest first, for the close stack starting on one of the tones
+ */
+function dropVoices(tones: Voice[], start: number, family: VoicingFamilyDefinition): Voice[] {
+  const bass = tones[start].offset
+  const close = tones.map((_, index) => {
+    const tone = tones[(start + index) % tones.length]
+    return { interval: tone.interval, offset: (tone.offset - bass + 12) % 12 }
+  })
+  const voices = close.map((voice, index) =>
+    family.dropped.includes(close.length - index) ? { ...voice, offset: voice.offset - 12 } : voice
+  )
+  voices.sort((a, b) => a.offset - b.offset)
+  const lowest = voices[0].offset
+  return voices.map((voice) => ({ ...voice, offset: voice.offset - lowest }))
+}
+
+/**
+ * The fret that sounds a MIDI note on a string, or null when it is off the neck
+ */
+function findFretForPitch(stringId: GuitarString, midi: number, fretLimit: number): number | null {
+  for (let fret = 0; fret <= fretLimit; fret++) {
+    if (getMidiNote(stringId, fret) === midi) {
+      return fret
+    }
+  }
+  return null
+}
+
+/**
+ * All playable four-note voicings of one family for a chord: every inversion on every string
+ * set, fingered and sorted up the neck. Voices are placed by pitch, so re-entrant tunings only
+ * get the voicings that really sound in the family's order.
+ */
+export function generateFourNotePositions(
+  root: NoteId,
+  quality: ChordQuality,
+  family: VoicingFamilyDefinition
+): FourNotePosition[] {
+  const intervals = getFourNoteIntervals(quality)
+  if (intervals.length < 4) {
+    return []
+  }
+
+  const fretLimit = getTriadFretLimit()
+  const tones = intervals
+    .map((interval) => ({ interval, offset: getIntervalSemitones(interval) % 12 }))
+    .sort((a, b) => a.offset - b.offset)
+  const positions: FourNotePosition[] = []
+
+  tones.forEach((_, start) => {
+    const voices = dropVoices(tones, start, family)
+    const inversion = intervals.indexOf(voices[0].interval)
+
+    getFamilyStringSets(family).forEach((stringSet) => {
+      const bassNote = calculateNoteFromInterval(root, voices[0].interval)
+      findAllFretsForNote(stringSet[0], bassNote, fretLimit).forEach((bassFret) => {
+        const bassMidi = getMidiNote(stringSet[0], bassFret)
+        const frets = voices.map((voice, index) =>
+          findFretForPitch(stringSet[index], bassMidi + voice.offset, fretLimit)
+        )
+        if (frets.some((fret) => fret === null)) {
+          return
+        }
+
+        const notes = voices.map((voice, index) => ({
+          string: stringSet[index],
+          fret: frets[index] as number,
+          interval: voice.interval,
+          note: calculateNoteFromInterval(root, voice.interval)
+        })) as FourNotePosition['notes']
+        const minFret = Math.min(...notes.map((note) => note.fret))
+        const maxFret = Math.max(...notes.map((note) => note.fret))
+        if (maxFret - minFret > 5) {
+          return
+        }
+
+        const fingering = solveFingering(notes)
+        if (!fingering.playable) {
+          return
+        }
+
+        const fingered = notes.map((note) => ({ ...note, finger: fingering.fingers[note.string] }))
+        positions.push({
+          id: `${family.id}-${stringSet.join('-')}-${notes.map((note) => note.fret).join('-')}`,
+          family: family.id,
+          notes: fingered as FourNotePosition['notes'],
+          inversion,
+          minFret,
+          maxFret,
+          span: maxFret - minFret,
+          stringSet: stringSet as FourNotePosition['stringSet'],
+          barre: fingering.barre
+        })
+      })
+    })
+  })
+
+  // Up the neck, higher string sets first at the same fret, like the triads
+  positions.sort((a, b) => a.minFret - b.minFret || b.stringSet[0] - a.stringSet[0] || a.inversion - b.inversion)
+
+  return positions
+}
@@ -0,0 +1,218 @@
+import type { CalculatedBarre, FingeringResult, GuitarString } from '../types/music'
+import { getStrings } from './tuning'
+
+export const THUMB = 0
+
+// Frets a finger may reach beyond one-finger-per-fret (index on 5, pinky on 9)
+const STRETCH_ALLOWANCE = 1
+
+const BARRE_COST = 2
+const UPPER_BARRE_COST = 2.5
+const THUMB_COST = 2
+const PINKY_COST = 0.5
+const CROSSING_COST = 1
+
+interface FretNote {
+  string: GuitarString
+  fret: number
+}
+
+// One finger's job: a single note, or every note under a barre
+interface FingerUnit {
+  fret: number
+  strings: GuitarString[] // Low to high; more than one means a barre
+  barre: boolean
+}
+
+interface FingerChoice {
+  fingers: number[] // Parallel to the units
+  cost: number
+}
+
+/**
+ * "T" for the thumb, otherwise the finger number
+ */
+export function formatFinger(finger: number): string {
+  return finger === THUMB ? 'T' : String(finger)
+}
+
+/**
+ * Barres across the notes on one fret: each run of adjacent strings that all sound at
+ * or above the fret and holds at least two of its notes
+ */
+function findBarres(notes: FretNote[], fret: number): FingerUnit[] {
+  const barres: FingerUnit[] = []
+  let run: GuitarString[] = []
+  const closeRun = () => {
+    const onFret = run.filter((stringId) => notes.some((note) => note.string === stringId && note.fret === fret))
+    if (onFret.length > 1) {
+      barres.push({ fret, strings: onFret, barre: true })
+    }
+    run = []
+  }
+  getStrings().forEach((stringId) => {
+    const note = notes.find((candidate) => candidate.string === stringId)
+    if (note && note.fret >= fret) {
+      run.push(stringId)
+    } else {
+      closeRun()
+    }
+  })
+  closeRun()
+  return barres
+}
+
+/**
+ * Whether two fingered units can be held together: higher fingers sit on the same or
+ * higher frets within reach, and on one fret the lower finger takes the thicker string
+ */
+function canHold(low: FingerUnit, lowFinger: number, high: FingerUnit, highFinger: number): boolean {
+  const distance = high.fret - low.fret
+  if (distance < 0 || distance > highFinger - lowFinger + STRETCH_ALLOWANCE) {
+    return false
+  }
+  if (distance === 0) {
+    return Math.min(...low.strings) > Math.max(...high.strings)
+  }
+  return true
+}
+
+/**
+ * Thumb over the neck on the lowest string, level with or just behind the index finger
+ */
+function canUseThumb(unit: FingerUnit, units: FingerUnit[], fingers: number[]): boolean {
+  if (unit.barre || unit.strings[0] !== getStrings()[0]) {
+    return false
+  }
+  const indexUnit = units.find((_, i) => fingers[i] === 1)
+  const lowestFret = Math.min(...units.filter((other) => other !== unit).map((other) => other.fret))
+  const reference = indexUnit ? indexUnit.fret : lowestFret
+  return Math.abs(unit.fret - reference) <= 1
+}
+
+function scoreChoice(units: FingerUnit[], fingers: number[]): number {
+  // Spread of hand positions: one finger per fret keeps fret - finger constant
+  const positions = units
+    .map((unit, i) => (fingers[i] === THUMB ? null : unit.fret - fingers[i]))
+    .filter((position): position is number => position !== null)
+  const spread = positions.length ? Math.max(...positions) - Math.min(...positions) : 0
+  return units.reduce((cost, unit, i) => {
+    const finger = fingers[i]
+    if (finger === THUMB) return cost + THUMB_COST
+    if (unit.barre) cost += finger === 1 ? BARRE_COST : UPPER_BARRE_COST
+    if (finger === 4) cost += PINKY_COST
+    // A higher finger reaching over to a thicker string
+    const crossings = units.filter(
+      (other, j) =>
+        fingers[j] !== THUMB && fingers[j] < finger && Math.max(...unit.strings) > Math.max(...other.strings)
+    )
+    return cost + crossings.length * CROSSING_COST
+  }, spread)
+}
+
+/**
+ * Cheapest way to give every unit its own finger, or null when no assignment works
+ */
+function chooseFingers(units: FingerUnit[]): FingerChoice | null {
+  let best: FingerChoice | null = null
+  const fingers: number[] = []
+  const used = new Set<number>()
+  const lowestFret = Math.min(...units.map((unit) => unit.fret))
+
+  const assign = (index: number) => {
+    if (index === units.length) {
+      const thumbIndex = fingers.indexOf(THUMB)
+      if (thumbIndex >= 0 && !canUseThumb(units[thumbIndex], units, fingers)) return
+      const cost = scoreChoice(units, fingers)
+      if (!best || cost < best.cost) {
+        best = { fingers: [...fingers], cost }
+      }
+      return
+    }
+    for (const finger of [1, 2, 3, 4, THUMB]) {
+      if (used.has(finger)) continue
+      if (finger === THUMB && (units[index].barre || units[index].strings[0] !== getStrings()[0])) continue
+      // Barres are laid by the index finger or, higher up the shape, the ring finger or pinky
+      if (units[index].barre && (units[index].fret === lowestFret ? finger !== 1 : finger < 3)) continue
+      const fits = units.slice(0, index).every((other, i) => {
+        if (fingers[i] === THUMB || finger === THUMB) return true
+        return fingers[i] < finger
+          ? canHold(other, fingers[i], units[index], finger)
+          : canHold(units[index], finger, other, fingers[i])
+      })
+      if (!fits) continue
+      fingers.push(finger)
+      used.add(finger)
+      assign(index + 1)
+      fingers.pop()
+      used.delete(finger)
+    }
+  }
+
+  assign(0)
+  return best
+}
+
+/**
+ * Assign fingers 1-4 (and the thumb on the lowest string) to a voicing, detecting barres.
+ * Notes are the sounding strings with fret 0 for open strings; muted strings are left out.
+ */
+export function solveFingering(notes: FretNote[]): FingeringResult {
+  const fretted = notes.filter((note) => note.fret > 0)
+  if (fretted.length === 0) {
+    return { fingers: {}, barre: null, playable: true }
+  }
+
+  const frets = fretted.map((note) => note.fret)
+  const lowestFret = Math.min(...frets)
+  const highestFret = Math.max(...frets)
+  const singles = (exclude: FingerUnit | null): FingerUnit[] =>
+    fretted
+      .filter((note) => !(exclude && note.fret === exclude.fret && exclude.strings.includes(note.string)))
+      .map((note) => ({ fret: note.fret, strings: [note.string], barre: false }))
+
+  // Try without a barre, with the index across the lowest fret, then a barre on the top fret
+  const barreOptions: Array<FingerUnit | null> = [null, ...findBarres(notes, lowestFret)]
+  if (highestFret > lowestFret) {
+    barreOptions.push(...findBarres(notes, highestFret))
+  }
+
+  let best: { units: FingerUnit[]; choice: FingerChoice } | null = null
+  barreOptions.forEach((barre) => {
+    const units = barre ? [barre, ...singles(barre)] : singles(null)
+    if (units.length > 5) return
+    const choice = chooseFingers(units)
+    if (choice && (!best || choice.cost < best.choice.cost)) {
+      best = { units, choice }
+    }
+  })
+
+  if (!best) {
+    const span = highestFret - lowestFret + 1
+    return {
+      fingers: {},
+      barre: null,
+      playable: false,
+      problem: span > 4 + STRETCH_ALLOWANCE ? `Spans ${span} frets` : 'Needs more than four fingers'
+    }
+  }
+
+  const { units, choice } = best as { units: FingerUnit[]; choice: FingerChoice }
+  const fingers: Partial<Record<GuitarString, number>> = {}
+  let barre: CalculatedBarre | null = null
+  units.forEach((unit, i) => {
+    unit.strings.forEach((stringId) => {
+      fingers[stringId] = choice.fingers[i]
+    })
+    if (unit.barre) {
+      barre = {
+        fromString: unit.strings[0],
+        toString: unit.strings[unit.strings.length - 1],
+        fret: unit.fret,
+        finger: choice.fingers[i]
+      }
+    }
+  })
+
+  return { fingers, barre, playable: true }
+}
@@ -0,0 +1,108 @@
+import type { ChordQuality, NoteId } from '../types/music'
+import type {
+  ChordProgression,
+  HarmonicFunction,
+  HarmonizedChord,
+  HarmonyStack,
+  ScaleDefinition
+} from '../types/progression'
+import { CHORD_QUALITIES } from '../data/chordQualities'
+import { INDEX_TO_NOTE, NOTE_TO_INDEX } from '../data/notes'
+import {
+  formatDegreeNumeral,
+  formatSpelledNote,
+  getIntervalSemitones,
+  getIntervalSteps,
+  spellIntervals
+} from './noteSpelling'
+import { formatRomanNumeral } from './keyDetection'
+
+// Degrees 1, 3 and 6 are at rest, 2 and 4 move away, 5 and 7 pull home
+const FUNCTION_BY_STEP: HarmonicFunction[] = [
+  'tonic',
+  'subdominant',
+  'tonic',
+  'subdominant',
+  'dominant',
+  'tonic',
+  'dominant'
+]
+
+const STACK_SIZE: Record<HarmonyStack, number> = {
+  triad: 3,
+  seventh: 4
+}
+
+const toPitchSet = (semitones: number[]) => [...new Set(semitones.map((value) => value % 12))].sort((a, b) => a - b).join()
+
+// Library chords keyed by their pitch set above the root, e.g. "0,4,7,10" -> dominant7
+const QUALITY_BY_PITCH_SET = new Map(
+  CHORD_QUALITIES.filter((quality) => !quality.aliasOf).map((quality) => [
+    toPitchSet(quality.intervals.map(getIntervalSemitones)),
+    quality.id
+  ])
+)
+
+/**
+ * The library chord made of these semitones above its root, if the app knows one
+ */
+export function getQualityForSemitones(semitones: number[]): ChordQuality | null {
+  return QUALITY_BY_PITCH_SET.get(toPitchSet(semitones.map((value) => ((value % 12) + 12) % 12))) ?? null
+}
+
+/**
+ * The chord on every degree of a scale, stacking every other scale note from each one.
+ * On a seven-note scale that is stacking thirds; on other scales the stacks are named
+ * only when they happen to form a chord the app knows. Stacking stops before a note comes
+ * round again, so a seventh stack on whole tone is three notes and left unnamed.
+ */
+export function harmonizeScale(root: NoteId, scale: ScaleDefinition, stack: HarmonyStack): HarmonizedChord[] {
+  const spelled = spellIntervals(root, scale.intervals)
+  const semitones = scale.intervals.map((interval) => getIntervalSemitones(interval) % 12)
+  const count = scale.intervals.length
+
+  return scale.intervals.map((interval, index) => {
+    const stacked = Array.from({ length: STACK_SIZE[stack] }, (_, n) => (index + n * 2) % count)
+    const repeat = stacked.indexOf(index, 1)
+    const members = repeat < 0 ? stacked : stacked.slice(0, repeat)
+    const quality =
+      members.length === STACK_SIZE[stack]
+        ? getQualityForSemitones(members.map((member) => semitones[member] - semitones[index]))
+        : null
+    const steps = getIntervalSteps(interval) % 7
+    const numeral = formatDegreeNumeral(steps, semitones[index])
+    return {
+      degree: quality ? formatRomanNumeral(numeral, quality) : numeral,
+      root: INDEX_TO_NOTE[(NOTE_TO_INDEX[root] + semitones[index]) % 12],
+      rootName: formatSpelledNote(spelled[index]),
+      quality,
+      notes: members.map((member) => formatSpelledNote(spelled[member])),
+      scaleDegreeOffset: semitones[index],
+      function: FUNCTION_BY_STEP[steps]
+    }
+  })
+}
+
+/**
+ * A progression of harmonized chords, ready for the Song Builder like any preset
+ */
+export function createProgressionFromHarmony(
+  chords: HarmonizedChord[],
+  root: NoteId,
+  scale: ScaleDefinition
+): ChordProgression {
+  const named = chords.filter(
+    (chord): chord is HarmonizedChord & { quality: ChordQuality } => chord.quality !== null
+  )
+  const tonicName = formatSpelledNote(spellIntervals(root, scale.intervals)[0])
+  return {
+    id: 'harmonized',
+    name: named.map((chord) => chord.degree).join(' - '),
+    description: `Chords from ${tonicName} ${scale.displayName}`,
+    chords: named.map((chord) => ({
+      degree: chord.degree,
+      quality: chord.quality,
+      scaleDegreeOffset: chord.scaleDegreeOffset
+    }))
+  }
+}
@@ -0,0 +1,284 @@
+import type { ChordQuality, KeyMode, NoteId } from '../types/music'
+import type { KeyCandidate, KeyChord, ModeId } from '../types/progression'
+import type { ProgressionRiff } from '../types/songBuilder'
+import { CHORD_QUALITIES, QUALITY_MAP } from '../data/chordQualities'
+import { INDEX_TO_NOTE, NOTE_TO_INDEX } from '../data/notes'
+import {
+  formatSpelledNote,
+  getIntervalSemitones,
+  getKeySignature,
+  getQualityMode,
+  spellKeyTonic,
+  spellPitch
+} from './noteSpelling'
+
+type TriadFlavour = 'major' | 'minor' | 'diminished'
+
+interface ModeDefinition {
+  id: ModeId
+  label: string // Written after the tonic: "G major", "D Dorian"
+  step: number // Degree of the parent major scale the mode starts on
+  keyMode: KeyMode
+  tonicTriad: TriadFlavour
+  scaleId: string
+  prior: number // Everyday keys win ties against rarer modes with the same notes
+}
+
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11]
+
+const MODES: ModeDefinition[] = [
+  { id: 'ionian', label: 'major', step: 0, keyMode: 'major', tonicTriad: 'major', scaleId: 'majorScale', prior: 1 },
+  { id: 'dorian', label: 'Dorian', step: 1, keyMode: 'minor', tonicTriad: 'minor', scaleId: 'dorian', prior: 0.85 },
+  { id: 'phrygian', label: 'Phrygian', step: 2, keyMode: 'minor', tonicTriad: 'minor', scaleId: 'phrygian', prior: 0.75 },
+  { id: 'lydian', label: 'Lydian', step: 3, keyMode: 'major', tonicTriad: 'major', scaleId: 'lydian', prior: 0.75 },
+  { id: 'mixolydian', label: 'Mixolydian', step: 4, keyMode: 'major', tonicTriad: 'major', scaleId: 'mixolydian', prior: 0.85 },
+  { id: 'aeolian', label: 'minor', step: 5, keyMode: 'minor', tonicTriad: 'minor', scaleId: 'naturalMinor', prior: 0.95 },
+  { id: 'locrian', label: 'Locrian', step: 6, keyMode: 'minor', tonicTriad: 'diminished', scaleId: 'locrian', prior: 0.5 }
+]
+
+// Slash basses as scale degrees of the major scale, by semitones above the tonic
+const BASS_DEGREES = ['1', 'b2', '2', 'b3', '3', '4', '#4', '5', 'b6', '6', 'b7', '7']
+
+// Roman numerals for each semitone above the tonic, read against the major or natural minor scale
+const ROMAN_BY_SEMITONE: Record<KeyMode, string[]> = {
+  major: ['I', 'bII', 'II', 'bIII', 'III', 'IV', '#IV', 'V', 'bVI', 'VI', 'bVII', 'VII'],
+  minor: ['I', 'bII', 'II', 'III', '#III', 'IV', '#IV', 'V', 'VI', '#VI', 'VII', '#VII']
+}
+
+// What follows the numeral; minor chords already show their third in the lower case
+const ROMAN_SUFFIX: Partial<Record<ChordQuality, string>> = {
+  minor: '',
+  flatThird: '',
+  minor7: '7',
+  diminished: '°',
+  diminished7: '°7',
+  halfDiminished: 'ø7',
+  augmented: '+',
+  augmented7: '+7',
+  minorMajor7: '(maj7)',
+  dominant7: '7',
+  major7: 'maj7',
+  sus2: 'sus2',
+  sus4: 'sus4',
+  add9: 'add9',
+  sixNine: '6/9',
+  dominant9: '9',
+  dominant11: '11',
+  dominant13: '13',
+  dominant7b9: '7b9',
+  dominant7sharp9: '7#9',
+  dominant7sharp11: '7#11',
+  altered: '7alt'
+}
+
+// Sharpens the confidence split so a clear winner reads as one
+const CONFIDENCE_SHARPNESS = 12
+
+interface KeyEvidence {
+  weights: number[] // How much each pitch class sounds
+  roots: number[] // How strongly each pitch class acts as home: roots, first and last chords, cadences, bass
+  triads: Array<Set<TriadFlavour>> // Triads built on each pitch class
+}
+
+const pitchClass = (note: NoteId) => NOTE_TO_INDEX[note]
+
+const createEvidence = (): KeyEvidence => ({
+  weights: Array(12).fill(0),
+  roots: Array(12).fill(0),
+  triads: Array.from({ length: 12 }, () => new Set<TriadFlavour>())
+})
+
+function getTriadFlavour(quality: ChordQuality): TriadFlavour | null {
+  const intervals = QUALITY_MAP[quality].intervals
+  if (intervals.includes('3')) return 'major'
+  if (!intervals.includes('b3')) return null
+  return intervals.includes('b5') ? 'diminished' : 'minor'
+}
+
+/**
+ * Chord tones count towards the key's notes. Roots, the opening and closing chords and
+ * arrivals a fifth down from a major-third chord (V-I) count towards its tonic.
+ */
+function addChordEvidence(evidence: KeyEvidence, chords: KeyChord[]) {
+  chords.forEach((chord, index) => {
+    const root = pitchClass(chord.note)
+    QUALITY_MAP[chord.quality].intervals.forEach((interval) => {
+      evidence.weights[(root + getIntervalSemitones(interval)) % 12] += interval === 'R' ? 1.5 : 1
+    })
+    evidence.roots[root] += 1
+    const flavour = getTriadFlavour(chord.quality)
+    if (flavour) {
+      evidence.triads[root].add(flavour)
+    }
+    const previous = chords[index - 1]
+    const fallsByFifth = previous && (pitchClass(previous.note) - root + 12) % 12 === 7
+    if (fallsByFifth && getTriadFlavour(previous.quality) === 'major') {
+      evidence.roots[root] += 1
+    }
+  })
+  if (chords.length) {
+    evidence.roots[pitchClass(chords[0].note)] += 1.5
+    evidence.roots[pitchClass(chords[chords.length - 1].note)] += 1
+  }
+}
+
+/**
+ * Rank every key and mode against the evidence
+ */
+function rankKeys(evidence: KeyEvidence, limit: number): KeyCandidate[] {
+  const total = evidence.weights.reduce((sum, weight) => sum + weight, 0)
+  if (total === 0) {
+    return []
+  }
+  const maxRoot = Math.max(...evidence.roots)
+  const maxWeight = Math.max(...evidence.weights)
+  const hasTriads = evidence.triads.some((triads) => triads.size > 0)
+
+  const scored = INDEX_TO_NOTE.flatMap((tonic) =>
+    MODES.map((mode) => {
+      const t = pitchClass(tonic)
+      const parent = (t - MAJOR_SCALE[mode.step] + 12) % 12
+      const inKey = evidence.weights.reduce(
+        (sum, weight, pc) => (MAJOR_SCALE.includes((pc - parent + 12) % 12) ? sum + weight : sum),
+        0
+      )
+      const fit = inKey / total
+      const home = maxRoot > 0 ? evidence.roots[t] / maxRoot : evidence.weights[t] / maxWeight
+      // A chord on the tonic should have the mode's own triad: Am points to A minor, not A Dorian's D
+      const tonicTriads = evidence.triads[t]
+      const triadMatch = !hasTriads ? 1 : tonicTriads.has(mode.tonicTriad) ? 1 : tonicTriads.size ? 0.3 : 0.6
+      return { tonic, mode, score: fit ** 3 * (0.4 + 0.6 * home) * triadMatch * mode.prior }
+    })
+  )
+
+  const spread = scored.map((candidate) => Math.exp(CONFIDENCE_SHARPNESS * candidate.score))
+  const spreadTotal = spread.reduce((sum, value) => sum + value, 0)
+  return scored
+    .map((candidate, index) => ({ ...candidate, confidence: spread[index] / spreadTotal }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit)
+    .map(({ tonic, mode, confidence }) => createKeyCandidate(tonic, mode.id, confidence))
+}
+
+/**
+ * A key with its spelling and signature; modes borrow both from their parent major key,
+ * so D Dorian is written with no sharps or flats
+ */
+export function createKeyCandidate(tonic: NoteId, modeId: ModeId, confidence: number = 1): KeyCandidate {
+  const mode = MODES.find((other) => other.id === modeId) ?? MODES[0]
+  const parentNote = INDEX_TO_NOTE[(pitchClass(tonic) - MAJOR_SCALE[mode.step] + 12) % 12]
+  const parent = spellKeyTonic(parentNote, 'major')
+  const tonicName = formatSpelledNote(spellPitch(parent, mode.step, MAJOR_SCALE[mode.step]))
+  return {
+    tonic,
+    tonicName,
+    mode: mode.id,
+    keyMode: mode.keyMode,
+    name: `${tonicName} ${mode.label}`,
+    signature: getKeySignature(parent, 'major'),
+    scaleId: mode.scaleId,
+    confidence
+  }
+}
+
+/**
+ * Likely keys for a list of chords, best first
+ */
+export function detectKeyFromChords(chords: KeyChord[], limit: number = 5): KeyCandidate[] {
+  const evidence = createEvidence()
+  addChordEvidence(evidence, chords)
+  return rankKeys(evidence, limit)
+}
+
+/**
+ * Likely keys for a generated or edited riff: its chords plus every note it plays,
+ * weighted by length
+ */
+export function detectKeyFromRiff(riff: ProgressionRiff, limit: number = 5): KeyCandidate[] {
+  const evidence = createEvidence()
+  addChordEvidence(
+    evidence,
+    riff.chordRiffs.map((chordRiff) => ({ note: chordRiff.chordRoot, quality: chordRiff.chordQuality }))
+  )
+  riff.chordRiffs.forEach((chordRiff) =>
+    chordRiff.notes.forEach((note) => {
+      evidence.weights[pitchClass(note.note)] += note.duration
+    })
+  )
+  return rankKeys(evidence, limit)
+}
+
+/**
+ * Likely keys for loose notes, such as the ones picked on the interactive fretboard.
+ * The lowest note leans the result towards itself as the tonic.
+ */
+export function detectKeyFromNotes(notes: NoteId[], bass?: NoteId, limit: number = 5): KeyCandidate[] {
+  const evidence = createEvidence()
+  notes.forEach((note) => {
+    evidence.weights[pitchClass(note)] += 1
+    evidence.roots[pitchClass(note)] += 0.25
+  })
+  if (bass) {
+    evidence.roots[pitchClass(bass)] += 1
+  }
+  return rankKeys(evidence, limit)
+}
+
+/**
+ * Roman numeral of a chord in a key, e.g. "V7", "bVII", "ii°" or "#iv°"
+ */
+export function getRomanNumeral(root: NoteId, quality: ChordQuality, key: KeyCandidate): string {
+  const semitones = (pitchClass(root) - pitchClass(key.tonic) + 12) % 12
+  return formatOffsetNumeral(semitones, quality, key.keyMode)
+}
+
+/**
+ * Roman numeral of a chord some semitones above the tonic, read against the major scale
+ * unless told otherwise (8 + major -> "bVI")
+ */
+export function formatOffsetNumeral(semitones: number, quality: ChordQuality, keyMode: KeyMode = 'major'): string {
+  return formatRomanNumeral(ROMAN_BY_SEMITONE[keyMode][((semitones % 12) + 12) % 12], quality)
+}
+
+/**
+ * A slash bass some semitones above the tonic as a degree of the major scale, as the
+ * Roman numeral parser reads it (10 -> "b7", for "I/b7")
+ */
+export function formatBassDegree(semitones: number): string {
+  return BASS_DEGREES[((semitones % 12) + 12) % 12]
+}
+
+/**
+ * Dress a bare numeral for a chord quality: lower case for minor thirds, then the
+ * quality's mark ("vii" + halfDiminished -> "viiø7")
+ */
+export function formatRomanNumeral(numeral: string, quality: ChordQuality): string {
+  const isMinor = getQualityMode(quality) === 'minor'
+  return `${isMinor ? numeral.toLowerCase() : numeral}${ROMAN_SUFFIX[quality] ?? ''}`
+}
+
+/**
+ * The quality a numeral's suffix was written for by formatRomanNumeral, so the app's own
+ * numerals read back exactly ("+7" -> augmented7). Lower case numerals pick the qualities
+ * with a minor third. Null for suffixes the app never writes.
+ */
+export function getRomanSuffixQuality(suffix: string, lowerCase: boolean): ChordQuality | null {
+  const quality = CHORD_QUALITIES.find(
+    (other) =>
+      !other.aliasOf &&
+      (ROMAN_SUFFIX[other.id] ?? '') === suffix &&
+      (getQualityMode(other.id) === 'minor') === lowerCase
+  )
+  return quality?.id ?? null
+}
+
+/**
+ * The key's own notes read from a chord root, as a scale id: Dm in C major gives D Dorian.
+ * Null when the root lies outside the key.
+ */
+export function getKeyScaleForRoot(key: KeyCandidate, root: NoteId): string | null {
+  const mode = MODES.find((other) => other.id === key.mode) ?? MODES[0]
+  const parent = pitchClass(key.tonic) - MAJOR_SCALE[mode.step]
+  const step = MAJOR_SCALE.indexOf((pitchClass(root) - parent + 24) % 12)
+  return step >= 0 ? MODES[step].scaleId : null
+}
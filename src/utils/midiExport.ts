@@ -1,7 +1,9 @@
-import { STRING_TUNINGS } from '../data/notes'
+import type { GuitarString } from '../types/music'
 import type { ProgressionRiff, Track } from '../types/songBuilder'
-import type { RuntimeChordShape } from '../types/music'
-import { buildChordShapes } from './chordUtils'
+import { formatChordName } from './chordUtils'
+import { detectKeyFromRiff } from './keyDetection'
+import { getChordRiffVoicing } from './voiceLeading'
+import { getInstrument, getMidiNote } from './tuning'
 
 /**
  * MIDI file export utilities
@@ -46,11 +48,10 @@ function writeInt32(value: number): number[] {
 }
 
 /**
- * Convert string/fret position to MIDI note number
+ * Convert string/fret position to MIDI note number on the instrument the riff was written for
  */
-function fretToMidi(stringId: number, fret: number): number {
-  const tuning = STRING_TUNINGS[stringId as keyof typeof STRING_TUNINGS]
-  return tuning.midi + fret
+function fretToMidi(riff: ProgressionRiff, stringId: GuitarString, fret: number): number {
+  return getMidiNote(stringId, fret, riff.tuning, riff.capo)
 }
 
 /**
@@ -86,6 +87,25 @@ function createTempoEvent(bpm: number): number[] {
   ]
 }
 
+/**
+ * Create a key signature meta event from the riff's detected key. Modes carry their
+ * parent major key's signature; only natural minor is flagged as minor, since a MIDI
+ * minor flag would otherwise rename D Dorian as A minor.
+ */
+function createKeySignatureEvent(riff: ProgressionRiff): number[] {
+  const [key] = detectKeyFromRiff(riff, 1)
+  if (!key) {
+    return []
+  }
+  const sharpsOrFlats = Math.max(-7, Math.min(7, key.signature))
+  return [
+    ...writeVarLen(0), // Delta time
+    0xff, 0x59, 0x02, // Key signature meta event
+    sharpsOrFlats & 0xff,
+    key.mode === 'aeolian' ? 1 : 0
+  ]
+}
+
 /**
  * Create a track name meta event
  */
@@ -94,11 +114,31 @@ function createTrackNameEvent(name: string): number[] {
   return [
     ...writeVarLen(0), // Delta time
     0xff, 0x03, // Track name meta event
-    nameBytes.length,
+    ...writeVarLen(nameBytes.length),
     ...nameBytes
   ]
 }
 
+/**
+ * Create a program change event so players load the riff's instrument (guitar, bass ...)
+ */
+function createProgramChangeEvent(channel: number, riff: ProgressionRiff): number[] {
+  return [
+    ...writeVarLen(0), // Delta time
+    0xc0 | (channel & 0x0f),
+    getInstrument(riff.tuning).midiProgram & 0x7f
+  ]
+}
+
+/**
+ * Spelled chord symbols of a riff, e.g. "Gm Eb Bb F"
+ */
+function describeRiffChords(riff: ProgressionRiff): string {
+  return riff.chordRiffs
+    .map((chordRiff) => formatChordName(chordRiff.chordRoot, chordRiff.chordQuality, chordRiff.chordRootName))
+    .join(' ')
+}
+
 /**
  * Create note on event
  */
@@ -130,10 +170,12 @@ export function exportRiffToMidi(riff: ProgressionRiff): Uint8Array {
   const events: number[][] = []
 
   // Add track name
-  events.push(createTrackNameEvent('Guitar Riff'))
+  events.push(createTrackNameEvent(`${getInstrument(riff.tuning).name} Riff (${describeRiffChords(riff)})`))
 
-  // Add tempo
+  // Add tempo, key and instrument
   events.push(createTempoEvent(riff.bpm))
+  events.push(createKeySignatureEvent(riff))
+  events.push(createProgramChangeEvent(0, riff))
 
   // Collect all note events with absolute times
   const noteEvents: Array<{
@@ -148,7 +190,7 @@ export function exportRiffToMidi(riff: ProgressionRiff): Uint8Array {
 
   riff.chordRiffs.forEach((chordRiff) => {
     chordRiff.notes.forEach((note) => {
-      const midiNote = fretToMidi(note.string, note.fret)
+      const midiNote = fretToMidi(riff, note.string, note.fret)
       const startTick = measureStartTick + Math.round(note.startBeat * TICKS_PER_BEAT)
       const endTick = startTick + Math.round(note.duration * TICKS_PER_BEAT)
 
@@ -211,10 +253,12 @@ export function exportChordsToMidi(riff: ProgressionRiff): Uint8Array {
   const events: number[][] = []
 
   // Add track name
-  events.push(createTrackNameEvent('Chord Progression'))
+  events.push(createTrackNameEvent(`Chord Progression (${describeRiffChords(riff)})`))
 
-  // Add tempo
+  // Add tempo, key and instrument
   events.push(createTempoEvent(riff.bpm))
+  events.push(createKeySignatureEvent(riff))
+  events.push(createProgramChangeEvent(0, riff))
 
   // Collect all note events
   const noteEvents: Array<{
@@ -229,15 +273,14 @@ export function exportChordsToMidi(riff: ProgressionRiff): Uint8Array {
 
   riff.chordRiffs.forEach((chordRiff) => {
     // Get chord shape for this chord
-    const shapes = buildChordShapes(chordRiff.chordRoot, chordRiff.chordQuality)
-    const shape = shapes[0] as RuntimeChordShape | undefined
+    const chordNotes = getChordRiffVoicing(chordRiff)
 
-    if (shape && shape.notesForAudio) {
+    if (chordNotes) {
       // Add chord notes at the start of each measure
       const chordDuration = ticksPerMeasure // Whole note duration
 
-      shape.notesForAudio.forEach((noteInfo, index) => {
-        const midiNote = fretToMidi(noteInfo.string, noteInfo.fret)
+      chordNotes.forEach((noteInfo, index) => {
+        const midiNote = fretToMidi(riff, noteInfo.string, noteInfo.fret)
         // Stagger start times slightly for strum effect
         const startTick = measureStartTick + index * 10
         const endTick = measureStartTick + chordDuration - 10
@@ -296,6 +339,10 @@ export function exportTracksToMidi(tracks: Track[], bpm: number): Uint8Array {
   const tempoTrackEvents: number[][] = []
   tempoTrackEvents.push(createTrackNameEvent('Tempo Track'))
   tempoTrackEvents.push(createTempoEvent(bpm))
+  // Tracks share one progression, so the first one's key stands for the song
+  if (tracks.length) {
+    tempoTrackEvents.push(createKeySignatureEvent(tracks[0].riff))
+  }
   allTrackChunks.push(createTrackChunk(tempoTrackEvents))
 
   // Create a MIDI track for each Track
@@ -304,7 +351,8 @@ export function exportTracksToMidi(tracks: Track[], bpm: number): Uint8Array {
     const channel = trackIndex % 16 // MIDI has 16 channels
 
     // Add track name
-    events.push(createTrackNameEvent(track.name))
+    events.push(createTrackNameEvent(`${track.name} (${describeRiffChords(track.riff)})`))
+    events.push(createProgramChangeEvent(channel, track.riff))
 
     // Collect note events
     const noteEvents: Array<{
@@ -319,14 +367,13 @@ export function exportTracksToMidi(tracks: Track[], bpm: number): Uint8Array {
     track.riff.chordRiffs.forEach((chordRiff) => {
       if (track.type === 'chord') {
         // Export as chord strums
-        const shapes = buildChordShapes(chordRiff.chordRoot, chordRiff.chordQuality)
-        const shape = shapes[0] as RuntimeChordShape | undefined
+        const chordNotes = getChordRiffVoicing(chordRiff)
 
-        if (shape && shape.notesForAudio) {
+        if (chordNotes) {
           const chordDuration = ticksPerMeasure
 
-          shape.notesForAudio.forEach((noteInfo, index) => {
-            const midiNote = fretToMidi(noteInfo.string, noteInfo.fret)
+          chordNotes.forEach((noteInfo, index) => {
+            const midiNote = fretToMidi(track.riff, noteInfo.string, noteInfo.fret)
             const startTick = measureStartTick + index * 10
             const endTick = measureStartTick + chordDuration - 10
             const velocity = Math.round(track.volume * 90)
@@ -338,7 +385,7 @@ export function exportTracksToMidi(tracks: Track[], bpm: number): Uint8Array {
       } else {
         // Export as individual riff notes
         chordRiff.notes.forEach((note) => {
-          const midiNote = fretToMidi(note.string, note.fret)
+          const midiNote = fretToMidi(track.riff, note.string, note.fret)
           const startTick = measureStartTick + Math.round(note.startBeat * TICKS_PER_BEAT)
           const endTick = startTick + Math.round(note.duration * TICKS_PER_BEAT)
 
@@ -420,7 +467,7 @@ export function downloadMidi(data: Uint8Array, filename: string): void {
  * Generate filename based on progression info
  */
 export function generateMidiFilename(riff: ProgressionRiff, type: 'riff' | 'chords'): string {
-  const chordNames = riff.chordRiffs.map(c => c.chordRoot).join('-')
+  const chordNames = riff.chordRiffs.map(c => c.chordRootName).join('-')
   const style = riff.style
   const bpm = riff.bpm
 
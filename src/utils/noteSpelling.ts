@@ -0,0 +1,301 @@
+import type {
+  Accidental,
+  ChordQuality,
+  IntervalSymbol,
+  KeyMode,
+  NoteId,
+  NoteLetter,
+  SpelledNote
+} from '../types/music'
+import { QUALITY_MAP } from '../data/chordQualities'
+import {
+  ACCIDENTAL_OFFSETS,
+  INDEX_TO_NOTE,
+  LETTER_TO_INDEX,
+  MAJOR_KEY_TONICS,
+  MINOR_KEY_TONICS,
+  NOTE_LETTERS,
+  NOTE_TO_INDEX
+} from '../data/notes'
+
+// Letter steps (0 = unison, 2 = third ...) and semitones for each interval symbol
+const INTERVAL_STEPS: Record<IntervalSymbol, { steps: number; semitones: number }> = {
+  R: { steps: 0, semitones: 0 },
+  'b2': { steps: 1, semitones: 1 },
+  '2': { steps: 1, semitones: 2 },
+  'b3': { steps: 2, semitones: 3 },
+  '3': { steps: 2, semitones: 4 },
+  '4': { steps: 3, semitones: 5 },
+  '#4': { steps: 3, semitones: 6 },
+  'b5': { steps: 4, semitones: 6 },
+  '5': { steps: 4, semitones: 7 },
+  '#5': { steps: 4, semitones: 8 },
+  'b6': { steps: 5, semitones: 8 },
+  '6': { steps: 5, semitones: 9 },
+  'bb7': { steps: 6, semitones: 9 },
+  'b7': { steps: 6, semitones: 10 },
+  '7': { steps: 6, semitones: 11 },
+  'b9': { steps: 1, semitones: 1 },
+  '9': { steps: 1, semitones: 2 },
+  '#9': { steps: 1, semitones: 3 },
+  '11': { steps: 3, semitones: 5 },
+  '#11': { steps: 3, semitones: 6 },
+  'b13': { steps: 5, semitones: 8 },
+  '13': { steps: 5, semitones: 9 }
+}
+
+const OFFSET_TO_ACCIDENTAL: Record<number, Accidental> = {
+  [-2]: 'bb',
+  [-1]: 'b',
+  0: '',
+  1: '#',
+  2: '##'
+}
+
+const MAJOR_SCALE_SEMITONES = [0, 2, 4, 5, 7, 9, 11]
+const MINOR_SCALE_SEMITONES = [0, 2, 3, 5, 7, 8, 10]
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII']
+
+// Order sharps and flats are written in a key signature
+const SHARP_ORDER: NoteLetter[] = ['F', 'C', 'G', 'D', 'A', 'E', 'B']
+const FLAT_ORDER: NoteLetter[] = ['B', 'E', 'A', 'D', 'G', 'C', 'F']
+
+/**
+ * Render a spelled note as text, e.g. "Bb" or "F##"
+ */
+export function formatSpelledNote(note: SpelledNote): string {
+  return `${note.letter}${note.accidental}`
+}
+
+/**
+ * Pitch class (0-11) of a spelled note
+ */
+export function spelledNoteToIndex(note: SpelledNote): number {
+  return (LETTER_TO_INDEX[note.letter] + ACCIDENTAL_OFFSETS[note.accidental] + 12) % 12
+}
+
+/**
+ * Collapse a spelled note to the sharp-based NoteId used for fretboard math
+ */
+export function spelledNoteToId(note: SpelledNote): NoteId {
+  return INDEX_TO_NOTE[spelledNoteToIndex(note)]
+}
+
+/**
+ * Spell a note without any key context, using sharps or flats
+ */
+export function spellNote(note: NoteId, preferFlats: boolean = false): SpelledNote {
+  const index = NOTE_TO_INDEX[note]
+  const natural = NOTE_LETTERS.find((letter) => LETTER_TO_INDEX[letter] === index)
+  if (natural) {
+    return { letter: natural, accidental: '' }
+  }
+  if (preferFlats) {
+    const upper = NOTE_LETTERS.find((letter) => LETTER_TO_INDEX[letter] === (index + 1) % 12)!
+    return { letter: upper, accidental: 'b' }
+  }
+  const lower = NOTE_LETTERS.find((letter) => LETTER_TO_INDEX[letter] === (index + 11) % 12)!
+  return { letter: lower, accidental: '#' }
+}
+
+/**
+ * Spell the pitch that lies a given number of letter steps and semitones above a tonic.
+ * This is what makes the third of Bb a D and the third of D# an F##.
+ */
+export function spellPitch(tonic: SpelledNote, steps: number, semitones: number): SpelledNote {
+  const letterIndex = (NOTE_LETTERS.indexOf(tonic.letter) + steps) % 7
+  const letter = NOTE_LETTERS[(letterIndex + 7) % 7]
+  const targetIndex = (spelledNoteToIndex(tonic) + semitones + 120) % 12
+  // Signed distance from the natural letter, folded into -6..5
+  const offset = ((targetIndex - LETTER_TO_INDEX[letter] + 18) % 12) - 6
+  const accidental = OFFSET_TO_ACCIDENTAL[offset]
+
+  if (accidental === undefined) {
+    // Beyond a double accidental - fall back to the plain enharmonic name
+    return spellNote(INDEX_TO_NOTE[targetIndex], tonic.accidental === 'b')
+  }
+
+  return { letter, accidental }
+}
+
+/**
+ * Spell the note an interval above a spelled root
+ */
+export function spellInterval(root: SpelledNote, interval: IntervalSymbol): SpelledNote {
+  const { steps, semitones } = INTERVAL_STEPS[interval]
+  return spellPitch(root, steps, semitones)
+}
+
+/**
+ * Whether a value is an interval symbol the app can spell, e.g. one read back from storage
+ */
+export function isIntervalSymbol(value: unknown): value is IntervalSymbol {
+  return typeof value === 'string' && Object.hasOwn(INTERVAL_STEPS, value)
+}
+
+/**
+ * Semitones above the root for an interval symbol
+ */
+export function getIntervalSemitones(interval: IntervalSymbol): number {
+  return INTERVAL_STEPS[interval].semitones
+}
+
+/**
+ * Letter steps above the root for an interval symbol (b3 -> 2)
+ */
+export function getIntervalSteps(interval: IntervalSymbol): number {
+  return INTERVAL_STEPS[interval].steps
+}
+
+/**
+ * Conventional spelling of a key's tonic (A# major is written Bb major)
+ */
+export function spellKeyTonic(note: NoteId, mode: KeyMode): SpelledNote {
+  return mode === 'minor' ? MINOR_KEY_TONICS[note] : MAJOR_KEY_TONICS[note]
+}
+
+/**
+ * Chords with a minor third (and no major third) read like minor keys
+ */
+export function getIntervalsMode(intervals: IntervalSymbol[]): KeyMode {
+  return intervals.includes('b3') && !intervals.includes('3') ? 'minor' : 'major'
+}
+
+/**
+ * Major or minor flavour of a chord quality, used to choose root spellings
+ */
+export function getQualityMode(quality: ChordQuality): KeyMode {
+  return getIntervalsMode(QUALITY_MAP[quality].intervals)
+}
+
+/**
+ * Spell a chord root on its own, e.g. A# major becomes Bb and G# minor stays G#m
+ */
+export function spellChordRoot(root: NoteId, quality: ChordQuality): SpelledNote {
+  return spellKeyTonic(root, getQualityMode(quality))
+}
+
+/**
+ * Number of sharps (positive) or flats (negative) in a key signature
+ */
+export function getKeySignature(tonic: SpelledNote, mode: KeyMode): number {
+  const semitones = mode === 'minor' ? MINOR_SCALE_SEMITONES : MAJOR_SCALE_SEMITONES
+  return semitones.reduce(
+    (sum, semitone, step) => sum + ACCIDENTAL_OFFSETS[spellPitch(tonic, step, semitone).accidental],
+    0
+  )
+}
+
+/**
+ * The accidentals of a key signature in the order they are written, e.g. F# C# for D major
+ */
+export function spellKeySignature(tonic: SpelledNote, mode: KeyMode): SpelledNote[] {
+  const count = getKeySignature(tonic, mode)
+  const order = count < 0 ? FLAT_ORDER : SHARP_ORDER
+  return order.slice(0, Math.abs(count)).map((letter) => ({ letter, accidental: count < 0 ? 'b' : '#' }))
+}
+
+/**
+ * Spell a pitch class inside a key: diatonic notes take the key's letters,
+ * chromatic notes take the simplest name, leaning to the key's sharp or flat side.
+ */
+export function spellNoteInKey(note: NoteId, tonic: SpelledNote, mode: KeyMode): SpelledNote {
+  const semitonesFromTonic = (NOTE_TO_INDEX[note] - spelledNoteToIndex(tonic) + 12) % 12
+  const scale = mode === 'minor' ? MINOR_SCALE_SEMITONES : MAJOR_SCALE_SEMITONES
+  const step = scale.indexOf(semitonesFromTonic)
+
+  if (step >= 0) {
+    return spellPitch(tonic, step, semitonesFromTonic)
+  }
+
+  // Raised sixth and seventh of melodic/harmonic minor
+  if (mode === 'minor' && (semitonesFromTonic === 9 || semitonesFromTonic === 11)) {
+    return spellPitch(tonic, semitonesFromTonic === 9 ? 5 : 6, semitonesFromTonic)
+  }
+
+  const upperStep = scale.findIndex((semitone) => semitone > semitonesFromTonic)
+  const lowerStep = scale.length - 1 - [...scale].reverse().findIndex((s) => s < semitonesFromTonic)
+  const flattened = spellPitch(tonic, upperStep === -1 ? 7 : upperStep, semitonesFromTonic)
+  const sharpened = spellPitch(tonic, lowerStep, semitonesFromTonic)
+  const flatWeight = Math.abs(ACCIDENTAL_OFFSETS[flattened.accidental])
+  const sharpWeight = Math.abs(ACCIDENTAL_OFFSETS[sharpened.accidental])
+
+  if (flatWeight !== sharpWeight) {
+    return flatWeight < sharpWeight ? flattened : sharpened
+  }
+  return getKeySignature(tonic, mode) < 0 ? flattened : sharpened
+}
+
+/**
+ * Letter steps above the tonic named by a Roman numeral ("bVII7" -> 6). A secondary
+ * chord counts from the degree it leans on: "V7/V" -> 1, the second degree.
+ */
+export function parseRomanDegree(degree: string): number | null {
+  const match = degree.match(/^[b#♭♯]*(VII|VI|IV|V|III|II|I)[^/]*(?:\/[b#♭♯]*(VII|VI|IV|V|III|II|I))?/i)
+  if (!match) {
+    return null
+  }
+  const target = match[2] ? ROMAN_NUMERALS.indexOf(match[2].toUpperCase()) : 0
+  return (ROMAN_NUMERALS.indexOf(match[1].toUpperCase()) + target) % 7
+}
+
+/**
+ * Letter steps above the tonic of a slash bass written as a scale degree ("I/3" -> 2)
+ */
+export function parseSlashBassDegree(degree: string): number | null {
+  const match = degree.match(/\/[b#♭♯]*([1-7])$/)
+  return match ? Number(match[1]) - 1 : null
+}
+
+/**
+ * Roman numeral for a degree, flattened or sharpened against the major scale as modes
+ * are usually numbered: Dorian's third is bIII, Lydian's fourth #IV
+ */
+export function formatDegreeNumeral(steps: number, semitones: number): string {
+  const offset = semitones - MAJOR_SCALE_SEMITONES[steps % 7]
+  const accidental = offset < 0 ? 'b'.repeat(-offset) : '#'.repeat(offset)
+  return `${accidental}${ROMAN_NUMERALS[steps % 7]}`
+}
+
+/**
+ * Spell the root of a progression chord from its Roman numeral and semitone offset,
+ * so bVI in C is Ab rather than G#.
+ */
+export function spellDegreeRoot(
+  tonic: SpelledNote,
+  degree: string,
+  semitones: number,
+  mode: KeyMode
+): SpelledNote {
+  const steps = parseRomanDegree(degree)
+  if (steps === null) {
+    return spellNoteInKey(INDEX_TO_NOTE[(spelledNoteToIndex(tonic) + semitones) % 12], tonic, mode)
+  }
+  return spellPitch(tonic, steps, semitones)
+}
+
+/**
+ * Spell the slash bass of a progression chord from its scale degree, so "I/b7" in C
+ * has Bb rather than A# in the bass
+ */
+export function spellDegreeBass(
+  tonic: SpelledNote,
+  degree: string,
+  semitones: number,
+  mode: KeyMode
+): SpelledNote {
+  const steps = parseSlashBassDegree(degree)
+  if (steps === null) {
+    return spellNoteInKey(INDEX_TO_NOTE[(spelledNoteToIndex(tonic) + semitones) % 12], tonic, mode)
+  }
+  return spellPitch(tonic, steps, semitones)
+}
+
+/**
+ * Spell every interval of a scale or chord from a root
+ */
+export function spellIntervals(root: NoteId, intervals: IntervalSymbol[]): SpelledNote[] {
+  const tonic = spellKeyTonic(root, getIntervalsMode(intervals))
+  return intervals.map((interval) => spellInterval(tonic, interval))
+}
@@ -0,0 +1,121 @@
+import type { FretboardOrientation } from '../types/music'
+import { loadStoredJson } from './storage'
+
+const STORAGE_KEY = 'orientation'
+
+export const DEFAULT_ORIENTATION: FretboardOrientation = { handedness: 'right', view: 'player' }
+
+type TextAnchor = 'start' | 'middle' | 'end'
+
+// Linear part of an SVG matrix(a b c d e f)
+interface Linear {
+  a: number
+  b: number
+  c: number
+  d: number
+}
+
+export interface NeckLayout {
+  width: number // Size of the oriented drawing, for the viewBox
+  height: number
+  vertical: boolean // Chord box: the neck runs down the page
+  transform: string // For a group drawn in the right-handed player's layout
+  // Props for an upright <text> at a point of that layout, nudged by dy on screen
+  label: (
+    x: number,
+    y: number,
+    dy?: number,
+    anchor?: TextAnchor
+  ) => { x: number; y: number; transform?: string; style: { textAnchor: TextAnchor } }
+}
+
+function loadOrientation(): FretboardOrientation {
+  return loadStoredJson<FretboardOrientation>(STORAGE_KEY, DEFAULT_ORIENTATION, (value) => {
+    const orientation = value as Partial<FretboardOrientation> | null
+    return (
+      (orientation?.handedness === 'right' || orientation?.handedness === 'left') &&
+      (orientation.view === 'player' || orientation.view === 'chordBox' || orientation.view === 'audience')
+    )
+  })
+}
+
+let activeOrientation = loadOrientation()
+
+/**
+ * How every fretboard and tab in the app is drawn
+ */
+export function getActiveOrientation(): FretboardOrientation {
+  return activeOrientation
+}
+
+export function setActiveOrientation(orientation: FretboardOrientation) {
+  activeOrientation = orientation
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(orientation))
+  }
+}
+
+/**
+ * Whether the lowest string is drawn on top, as the audience sees it
+ */
+export function isLowStringOnTop(orientation: FretboardOrientation = activeOrientation): boolean {
+  return orientation.view === 'audience'
+}
+
+function getLinear({ handedness, view }: FretboardOrientation): Linear {
+  const left = handedness === 'left'
+  if (view === 'chordBox') {
+    // Nut on top; a right-handed chart has the lowest string on the left
+    return left ? { a: 0, b: 1, c: 1, d: 0 } : { a: 0, b: 1, c: -1, d: 0 }
+  }
+  // From the audience the neck points the other way and the lowest string is on top
+  const mirrored = left !== (view === 'audience')
+  return { a: mirrored ? -1 : 1, b: 0, c: 0, d: view === 'audience' ? -1 : 1 }
+}
+
+/**
+ * Place a neck drawn in the right-handed player's layout (nut on the left, string 1 on
+ * top, width by height) in the given orientation. Shapes are transformed as a group so
+ * every click target moves with its string and fret; labels are turned back upright.
+ */
+export function getNeckLayout(
+  width: number,
+  height: number,
+  orientation: FretboardOrientation = activeOrientation
+): NeckLayout {
+  const { a, b, c, d } = getLinear(orientation)
+  const swapped = orientation.view === 'chordBox'
+  // Shift the transformed drawing back into the positive quadrant
+  const e = Math.max(0, -a * width) + Math.max(0, -c * height)
+  const f = Math.max(0, -b * width) + Math.max(0, -d * height)
+  const isIdentity = a === 1 && d === 1
+  // Every mapping is a rotation or reflection, so the inverse is the transpose
+  const inverse: Linear = { a, b: c, c: b, d }
+
+  const label: NeckLayout['label'] = (x, y, dy = 0, anchor = 'middle') => {
+    if (isIdentity) {
+      return { x, y: y + dy, style: { textAnchor: anchor } }
+    }
+    // Labels run along the screen, so they keep their anchor only on a horizontal neck
+    const flipsAnchor = !swapped && a === -1 && anchor !== 'middle'
+    const textAnchor = swapped ? 'middle' : flipsAnchor ? (anchor === 'start' ? 'end' : 'start') : anchor
+    const offsetX = x + inverse.c * dy
+    const offsetY = y + inverse.d * dy
+    const tx = offsetX - (inverse.a * x + inverse.c * y)
+    const ty = offsetY - (inverse.b * x + inverse.d * y)
+    return {
+      x,
+      y,
+      transform: `matrix(${inverse.a} ${inverse.b} ${inverse.c} ${inverse.d} ${tx} ${ty})`,
+      style: { textAnchor }
+    }
+  }
+
+  return {
+    width: swapped ? height : width,
+    height: swapped ? width : height,
+    vertical: swapped,
+    transform: `matrix(${a} ${b} ${c} ${d} ${e} ${f})`,
+    label
+  }
+}
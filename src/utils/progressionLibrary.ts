@@ -0,0 +1,100 @@
+import type { ChordQuality } from '../types/music'
+import type { ChordProgression, ProgressionChord } from '../types/progression'
+import { MAJOR_FAMILY_QUALITIES, QUALITY_MAP } from '../data/chordQualities'
+import { PROGRESSION_LIST } from '../data/progressions'
+import { loadStoredJson } from './storage'
+
+const STORAGE_KEY = 'customProgressions'
+
+// A saved chord must name a known quality at a whole number of semitones above the key
+function isStoredChord(chord: ProgressionChord | null): boolean {
+  return (
+    typeof chord?.degree === 'string' &&
+    Number.isInteger(chord.scaleDegreeOffset) &&
+    typeof chord.quality === 'string' &&
+    Object.hasOwn(QUALITY_MAP, chord.quality) &&
+    (chord.bassOffset === undefined || Number.isInteger(chord.bassOffset))
+  )
+}
+
+// Saved progressions without a name or a full set of usable chords are dropped
+function loadCustomProgressions(): ChordProgression[] {
+  return loadStoredJson<ChordProgression[]>(STORAGE_KEY, [], Array.isArray).filter(
+    (progression) =>
+      typeof progression?.id === 'string' &&
+      typeof progression.name === 'string' &&
+      Array.isArray(progression.chords) &&
+      progression.chords.length > 0 &&
+      progression.chords.every(isStoredChord)
+  )
+}
+
+let customProgressions = loadCustomProgressions()
+
+function storeCustomProgressions() {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(customProgressions))
+  }
+}
+
+/**
+ * Every progression on offer: the built-in ones, then the ones typed in as Roman numerals
+ */
+export function getProgressionList(): ChordProgression[] {
+  return [...PROGRESSION_LIST, ...customProgressions]
+}
+
+export function getCustomProgressions(): ChordProgression[] {
+  return customProgressions
+}
+
+/**
+ * Get progressions that work well with a given quality
+ */
+export function getProgressionsForQuality(quality: string): ChordProgression[] {
+  const isMajorFamily = MAJOR_FAMILY_QUALITIES.includes(quality as ChordQuality)
+
+  return getProgressionList().filter((prog) => {
+    const firstChord = prog.chords[0]
+    const isProgressionMajor = ['major', 'major7', 'dominant7'].includes(firstChord.quality)
+
+    // Match major progressions with major qualities and minor with minor
+    return isMajorFamily ? isProgressionMajor : !isProgressionMajor
+  })
+}
+
+/**
+ * A progression from parsed Roman numerals. Pass the id of a saved one to replace it.
+ */
+export function createCustomProgression(
+  name: string,
+  source: string,
+  chords: ProgressionChord[],
+  id: string = `custom-${Date.now().toString(36)}`
+): ChordProgression {
+  return {
+    id,
+    name,
+    description: name === source ? 'Your progression' : source,
+    chords,
+    source,
+    custom: true
+  }
+}
+
+/**
+ * Keep a custom progression for later visits, replacing any saved with the same id
+ */
+export function saveCustomProgression(progression: ChordProgression) {
+  const index = customProgressions.findIndex((other) => other.id === progression.id)
+  customProgressions =
+    index >= 0
+      ? customProgressions.map((other) => (other.id === progression.id ? progression : other))
+      : [...customProgressions, progression]
+  storeCustomProgressions()
+}
+
+export function deleteCustomProgression(progressionId: string) {
+  customProgressions = customProgressions.filter((progression) => progression.id !== progressionId)
+  storeCustomProgressions()
+}
@@ -0,0 +1,251 @@
+import type { ChordQuality, KeyMode, NoteId } from '../types/music'
+import type {
+  ChordProgression,
+  HarmonyStack,
+  ProgressionChord,
+  ProgressionTransformation,
+  ScaleDefinition,
+  TransformationKind
+} from '../types/progression'
+import { QUALITY_MAP } from '../data/chordQualities'
+import { SCALES } from '../data/scales'
+import { formatChordName } from './chordUtils'
+import { getQualityForSemitones, harmonizeScale } from './harmonizer'
+import { formatBassDegree, formatOffsetNumeral } from './keyDetection'
+import { formatSpelledNote, getIntervalSemitones, spellInterval, spellKeyTonic } from './noteSpelling'
+import { getProgressionChord, getProgressionMode, transposeNote, transposeProgression } from './scaleUtils'
+
+type TriadFlavour = 'major' | 'minor'
+
+type NeoRiemannianMove = 'parallel' | 'leadingTone' | 'relative'
+
+// The scale whose degrees the parallel and relative key swaps line up
+const KEY_SCALES: Record<KeyMode, ScaleDefinition> = {
+  major: SCALES.majorScale,
+  minor: SCALES.naturalMinor
+}
+
+// Semitones the root moves under each neo-Riemannian operation, from a major and from a minor triad
+const NEO_RIEMANNIAN_MOVES: Record<NeoRiemannianMove, Record<TriadFlavour, number>> = {
+  parallel: { major: 0, minor: 0 }, // C <-> Cm: the third moves a half step
+  leadingTone: { major: 4, minor: 8 }, // C <-> Em: the root of C drops to B
+  relative: { major: 9, minor: 3 } // C <-> Am: the fifth of C rises to A
+}
+
+const NEO_RIEMANNIAN_EXPLANATIONS: Record<NeoRiemannianMove, string> = {
+  parallel: 'P flips every major or minor chord to the other on the same root; only the third moves, by a half step',
+  leadingTone:
+    'L swaps each chord for the one a major third away that keeps two notes: the root of a major chord drops a ' +
+    'half step (C to Em) and the fifth of a minor chord rises one (Em to C)',
+  relative:
+    'R swaps each chord for its relative, keeping two notes: the fifth of a major chord rises a whole step ' +
+    '(C to Am) and the root of a minor chord drops one (Am to C)'
+}
+
+// Roots a third away with the chord's own quality: a triad keeps one note, the rest move chromatically
+const MEDIANT_MOVES = [
+  { semitones: 4, label: 'a major third up' },
+  { semitones: 8, label: 'a major third down' },
+  { semitones: 3, label: 'a minor third up' },
+  { semitones: 9, label: 'a minor third down' }
+]
+
+const getSemitones = (quality: ChordQuality) => QUALITY_MAP[quality].intervals.map(getIntervalSemitones)
+
+const hasSeventh = (quality: ChordQuality) =>
+  QUALITY_MAP[quality].intervals.some((interval) => interval === '7' || interval === 'b7' || interval === 'bb7')
+
+// Major or minor triad at the chord's core, if it has one
+function getTriadFlavour(quality: ChordQuality): TriadFlavour | null {
+  const intervals = QUALITY_MAP[quality].intervals
+  if (!intervals.includes('5')) {
+    return null
+  }
+  if (intervals.includes('3')) {
+    return 'major'
+  }
+  return intervals.includes('b3') ? 'minor' : null
+}
+
+const wrap = (semitones: number) => ((semitones % 12) + 12) % 12
+
+// A slash bass is kept unless it lands on the root. The numeral carries it too, so a saved
+// progression reads back as a slash chord.
+function chordAt(offset: number, quality: ChordQuality, bass?: number): ProgressionChord {
+  const chord = { degree: formatOffsetNumeral(offset, quality), quality, scaleDegreeOffset: wrap(offset) }
+  if (bass === undefined || wrap(bass) === chord.scaleDegreeOffset) {
+    return chord
+  }
+  return { ...chord, degree: `${chord.degree}/${formatBassDegree(bass)}`, bassOffset: wrap(bass) }
+}
+
+// The chord's slash bass, if it has one, moved along with its root
+const shiftBass = (chord: ProgressionChord, semitones: number) =>
+  chord.bassOffset === undefined ? undefined : chord.bassOffset + semitones
+
+const isSameChord = (a: ProgressionChord, b: ProgressionChord) =>
+  a.scaleDegreeOffset === b.scaleDegreeOffset && a.quality === b.quality && a.bassOffset === b.bassOffset
+
+// Reflection across the axis between the minor and major third: tonic and fifth trade places
+const mirror = (semitones: number) => (((7 - semitones) % 12) + 12) % 12
+
+/**
+ * A chord in negative harmony: every note reflected, then named from the reflected fifth
+ * where that makes a chord the app knows (G B D -> C Ab F, Fm), or from any other note that
+ * does (G7 -> Dø7). Chords too rich to name come back as their reflected triad.
+ */
+function mirrorChord(chord: ProgressionChord): ProgressionChord {
+  const reflect = (semitones: number[]) => semitones.map((value) => mirror(chord.scaleDegreeOffset + value))
+  const readings = [
+    reflect(getSemitones(chord.quality)),
+    reflect(getSemitones(chord.quality).filter((value) => value === 0 || (value >= 3 && value <= 8)))
+  ]
+
+  for (const pitches of readings) {
+    for (const root of [mirror(chord.scaleDegreeOffset + 7), ...pitches]) {
+      const quality = pitches.includes(root) ? getQualityForSemitones(pitches.map((pitch) => pitch - root)) : null
+      if (quality) {
+        return chordAt(root, quality, chord.bassOffset !== undefined ? mirror(chord.bassOffset) : undefined)
+      }
+    }
+  }
+  return chord
+}
+
+/**
+ * A neo-Riemannian operation on a chord's triad. Seventh chords keep a seventh and a slash
+ * bass moves with the root; chords without a major or minor triad are left alone.
+ */
+function transformTriad(chord: ProgressionChord, move: NeoRiemannianMove): ProgressionChord {
+  const flavour = getTriadFlavour(chord.quality)
+  if (!flavour) {
+    return chord
+  }
+  const seventh = hasSeventh(chord.quality)
+  const quality: ChordQuality = flavour === 'major' ? (seventh ? 'minor7' : 'minor') : seventh ? 'major7' : 'major'
+  const shift = NEO_RIEMANNIAN_MOVES[move][flavour]
+  return chordAt(chord.scaleDegreeOffset + shift, quality, shiftBass(chord, shift))
+}
+
+/**
+ * Every chord moved to the same degree of another key: its diatonic chord there, or its own
+ * quality when it was already altered (a V7 in minor stays a dominant seventh). A slash bass
+ * moves with its chord; chords off the key's scale stay as they are.
+ */
+function swapKey(
+  progression: ChordProgression,
+  rootNote: NoteId,
+  tonicOffset: number,
+  targetMode: KeyMode
+): ProgressionChord[] {
+  const mode = getProgressionMode(progression)
+  const steps = KEY_SCALES[mode].intervals.map(getIntervalSemitones)
+  const harmonize = (root: NoteId, keyMode: KeyMode, stack: HarmonyStack) =>
+    harmonizeScale(root, KEY_SCALES[keyMode], stack)
+  const targetRoot = transposeNote(rootNote, tonicOffset)
+
+  return progression.chords.map((chord) => {
+    const step = steps.indexOf(chord.scaleDegreeOffset)
+    if (step < 0) {
+      return chord
+    }
+    const stack: HarmonyStack = hasSeventh(chord.quality) ? 'seventh' : 'triad'
+    const own = harmonize(rootNote, mode, stack)[step]
+    const target = harmonize(targetRoot, targetMode, stack)[step]
+    const quality = own.quality === chord.quality && target.quality ? target.quality : chord.quality
+    const offset = target.scaleDegreeOffset + tonicOffset
+    return chordAt(offset, quality, shiftBass(chord, offset - chord.scaleDegreeOffset))
+  })
+}
+
+// Same bookkeeping as an accepted substitution: saved progressions keep numerals the editor can read back
+const withChords = (progression: ChordProgression, chords: ProgressionChord[]): ChordProgression => ({
+  ...progression,
+  chords,
+  ...(progression.source !== undefined && { source: chords.map((chord) => chord.degree).join(' - ') })
+})
+
+/**
+ * Ways to rewrite a progression: negative harmony, the parallel and relative keys and the
+ * neo-Riemannian P, L and R across every chord, plus chromatic mediant moves out of the
+ * chord at `chordIndex`. Transformations that would change nothing are left out.
+ */
+export function getTransformations(
+  progression: ChordProgression,
+  rootNote: NoteId,
+  chordIndex: number
+): ProgressionTransformation[] {
+  const mode = getProgressionMode(progression)
+  const otherMode: KeyMode = mode === 'major' ? 'minor' : 'major'
+  const tonic = spellKeyTonic(rootNote, mode)
+  const nameOf = (chords: ProgressionChord[]) =>
+    transposeProgression({ ...progression, chords }, rootNote)
+      .map((chord) => {
+        const name = formatChordName(chord.note, chord.quality, chord.name)
+        return chord.bassName ? `${name}/${chord.bassName}` : name
+      })
+      .join(' - ')
+
+  const transformations: ProgressionTransformation[] = []
+  const add = (kind: TransformationKind, chords: ProgressionChord[], explanation: string) => {
+    const changed =
+      chords.length !== progression.chords.length ||
+      chords.some((chord, index) => !isSameChord(chord, progression.chords[index]))
+    if (changed) {
+      transformations.push({ kind, progression: withChords(progression, chords), label: nameOf(chords), explanation })
+    }
+  }
+
+  const [flatThird, third] = (['b3', '3'] as const).map((interval) => formatSpelledNote(spellInterval(tonic, interval)))
+  add(
+    'negative',
+    progression.chords.map(mirrorChord),
+    `Every note is mirrored across the axis between ${flatThird} and ${third}: the tonic and fifth trade places, ` +
+      'major chords come back minor and the dominant pull turns into a plagal one'
+  )
+
+  const parallelKey = `${formatSpelledNote(spellKeyTonic(rootNote, otherMode))} ${otherMode}`
+  add(
+    'parallelKey',
+    swapKey(progression, rootNote, 0, otherMode),
+    `The same degrees borrowed from ${parallelKey}, the parallel key: same tonic, the other mode`
+  )
+
+  const relativeOffset = mode === 'major' ? 9 : 3
+  const relativeTonic = spellKeyTonic(transposeNote(rootNote, relativeOffset), otherMode)
+  const relativeKey = `${formatSpelledNote(relativeTonic)} ${otherMode}`
+  add(
+    'relativeKey',
+    swapKey(progression, rootNote, relativeOffset, otherMode),
+    `The same degrees played in ${relativeKey}, the relative key: the same notes, centred on a new tonic`
+  )
+
+  for (const move of Object.keys(NEO_RIEMANNIAN_MOVES) as NeoRiemannianMove[]) {
+    add(move, progression.chords.map((chord) => transformTriad(chord, move)), NEO_RIEMANNIAN_EXPLANATIONS[move])
+  }
+
+  const chord = progression.chords[chordIndex]
+  const current = getProgressionChord(progression, rootNote, chordIndex)
+  if (chord && current && getTriadFlavour(chord.quality)) {
+    const pitches = getSemitones(chord.quality).map((value) => (chord.scaleDegreeOffset + value) % 12)
+    MEDIANT_MOVES.forEach(({ semitones, label }) => {
+      const mediant = chordAt(chord.scaleDegreeOffset + semitones, chord.quality)
+      const shared = getSemitones(chord.quality).filter((value) =>
+        pitches.includes((mediant.scaleDegreeOffset + value) % 12)
+      ).length
+      const chords = [
+        ...progression.chords.slice(0, chordIndex + 1),
+        mediant,
+        ...progression.chords.slice(chordIndex + 1)
+      ]
+      add(
+        'chromaticMediant',
+        chords,
+        `${formatChordName(current.note, current.quality, current.name)} moves to the same chord ${label}, ` +
+          `a chromatic mediant with ${shared === 1 ? 'one note' : `${shared} notes`} in common`
+      )
+    })
+  }
+
+  return transformations
+}
@@ -0,0 +1,179 @@
+import type { ChordQuality, IntervalSymbol, KeyMode, NoteId } from '../types/music'
+import type { ChordProgression, ChordSubstitution, ProgressionChord, SubstitutionKind } from '../types/progression'
+import { QUALITY_MAP } from '../data/chordQualities'
+import { formatChordName } from './chordUtils'
+import { formatSpelledNote, getQualityMode, spellDegreeRoot, spellKeyTonic } from './noteSpelling'
+import { formatOffsetNumeral } from './keyDetection'
+import { getProgressionMode, transposeNote } from './scaleUtils'
+
+// Semitones above the tonic, with the triad and seventh chord found there
+type BorrowedChord = [offset: number, triad: ChordQuality, seventh: ChordQuality]
+
+// The same degree in the parallel key, e.g. IV in C major borrows iv (Fm) from C minor
+const PARALLEL_CHORDS: Record<KeyMode, Record<number, BorrowedChord>> = {
+  major: {
+    0: [0, 'minor', 'minor7'],
+    2: [2, 'diminished', 'halfDiminished'],
+    4: [3, 'major', 'major7'],
+    5: [5, 'minor', 'minor7'],
+    7: [7, 'minor', 'minor7'],
+    9: [8, 'major', 'major7'],
+    11: [10, 'major', 'dominant7']
+  },
+  minor: {
+    0: [0, 'major', 'major7'],
+    2: [2, 'minor', 'minor7'],
+    3: [4, 'minor', 'minor7'],
+    5: [5, 'major', 'major7'],
+    7: [7, 'major', 'dominant7'],
+    8: [9, 'minor', 'minor7'],
+    10: [11, 'diminished', 'halfDiminished']
+  }
+}
+
+const hasIntervals = (quality: ChordQuality, ...intervals: IntervalSymbol[]) =>
+  intervals.every((interval) => QUALITY_MAP[quality].intervals.includes(interval))
+
+const isDominant = (quality: ChordQuality) => hasIntervals(quality, '3', 'b7')
+
+const hasSeventh = (quality: ChordQuality) =>
+  QUALITY_MAP[quality].intervals.some((interval) => interval === '7' || interval === 'b7' || interval === 'bb7')
+
+const chordAt = (offset: number, quality: ChordQuality, degree?: string): ProgressionChord => ({
+  degree: degree ?? formatOffsetNumeral(offset, quality),
+  quality,
+  scaleDegreeOffset: ((offset % 12) + 12) % 12
+})
+
+// "V7/ii" for a chord leaning on ii, plain "V7" when it leans on the tonic
+function formatSecondaryDegree(degree: string, target: ProgressionChord): string {
+  if (target.scaleDegreeOffset === 0) {
+    return degree
+  }
+  // The target is named by its bare triad: "V7/ii", not "V7/ii7"
+  const triad: ChordQuality = getQualityMode(target.quality) === 'minor' ? 'minor' : 'major'
+  return `${degree}/${formatOffsetNumeral(target.scaleDegreeOffset, triad)}`
+}
+
+/**
+ * Chords that could stand in for one chord of a progression, each with the reason it
+ * works. Chords that approach the next one count the first chord as following the last,
+ * as in playback.
+ */
+export function getSubstitutions(progression: ChordProgression, rootNote: NoteId, index: number): ChordSubstitution[] {
+  const chord = progression.chords[index]
+  if (!chord) {
+    return []
+  }
+  const next = progression.chords.length > 1 ? progression.chords[(index + 1) % progression.chords.length] : null
+  const offset = chord.scaleDegreeOffset
+  const keyMode = getProgressionMode(progression)
+  const tonic = spellKeyTonic(rootNote, keyMode)
+  const nameOf = (other: ProgressionChord) =>
+    formatChordName(
+      transposeNote(rootNote, other.scaleDegreeOffset),
+      other.quality,
+      formatSpelledNote(spellDegreeRoot(tonic, other.degree, other.scaleDegreeOffset, keyMode))
+    )
+  const current = nameOf(chord)
+
+  const substitutions: ChordSubstitution[] = []
+  const add = (kind: SubstitutionKind, chords: ProgressionChord[], explain: (label: string) => string) => {
+    const label = chords.map(nameOf).join(' - ')
+    substitutions.push({ kind, chords, label, explanation: explain(label) })
+  }
+
+  if (isDominant(chord.quality)) {
+    add(
+      'tritone',
+      [chordAt(offset + 6, 'dominant7')],
+      (label) => `${label} shares the tritone of ${current} and resolves down by half step instead of by fifth`
+    )
+  }
+
+  if (hasIntervals(chord.quality, '3', '5') && !hasIntervals(chord.quality, 'b7')) {
+    add(
+      'relative',
+      [chordAt(offset + 9, hasSeventh(chord.quality) ? 'minor7' : 'minor')],
+      (label) => `${label} is the relative minor of ${current}: two notes in common, a darker colour, the same role`
+    )
+  } else if (hasIntervals(chord.quality, 'b3', '5')) {
+    add(
+      'relative',
+      [chordAt(offset + 3, hasSeventh(chord.quality) ? 'major7' : 'major')],
+      (label) => `${label} is the relative major of ${current}: two notes in common, a brighter colour`
+    )
+  }
+
+  if (next && !hasIntervals(next.quality, 'b5')) {
+    const dominantOffset = (next.scaleDegreeOffset + 7) % 12
+    if (dominantOffset !== offset || !isDominant(chord.quality)) {
+      add(
+        'secondaryDominant',
+        [chordAt(dominantOffset, 'dominant7', formatSecondaryDegree('V7', next))],
+        (label) => `${label} is the dominant of ${nameOf(next)}, so it pulls straight into it`
+      )
+    }
+  }
+
+  if (next) {
+    const passingOffset = (next.scaleDegreeOffset + 11) % 12
+    if (passingOffset !== offset && next.scaleDegreeOffset !== offset) {
+      const passing = chordAt(passingOffset, 'diminished7', formatSecondaryDegree('vii°7', next))
+      add(
+        'diminishedPassing',
+        [chord, passing],
+        () => `${nameOf(passing)} after ${current} climbs by half step into ${nameOf(next)}`
+      )
+    }
+  }
+
+  const borrowed = PARALLEL_CHORDS[keyMode][offset]
+  if (borrowed) {
+    const [borrowedOffset, triad, seventh] = borrowed
+    const quality = hasSeventh(chord.quality) ? seventh : triad
+    if (borrowedOffset !== offset || quality !== chord.quality) {
+      const parallelMode: KeyMode = keyMode === 'major' ? 'minor' : 'major'
+      const parallelKey = `${formatSpelledNote(spellKeyTonic(rootNote, parallelMode))} ${parallelMode}`
+      add(
+        'modalInterchange',
+        [chordAt(borrowedOffset, quality)],
+        (label) => `${label} is borrowed from the parallel key, ${parallelKey}, in place of ${current}`
+      )
+    }
+  }
+
+  if (next && next.scaleDegreeOffset === 0 && getQualityMode(next.quality) === 'major') {
+    const isBackdoorDominant = offset === 10 && isDominant(chord.quality)
+    if (!isBackdoorDominant) {
+      add(
+        'backdoor',
+        [chordAt(5, 'minor7'), chordAt(10, 'dominant7')],
+        (label) => `${label} reaches ${nameOf(next)} through the back door, a whole step below instead of from V`
+      )
+    }
+  }
+
+  return substitutions
+}
+
+/**
+ * The progression with one chord replaced by a substitution
+ */
+export function applySubstitution(
+  progression: ChordProgression,
+  index: number,
+  substitution: ChordSubstitution
+): ChordProgression {
+  const chords = [
+    ...progression.chords.slice(0, index),
+    ...substitution.chords,
+    ...progression.chords.slice(index + 1)
+  ]
+  return {
+    ...progression,
+    chords,
+    // Saved progressions keep numerals the editor can read back
+    ...(progression.source !== undefined && { source: chords.map((chord) => chord.degree).join(' - ') })
+  }
+}
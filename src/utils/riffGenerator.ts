@@ -1,10 +1,16 @@
 import type { ChordQuality, GuitarString, IntervalSymbol, NoteId } from '../types/music'
-import type { ChordProgression } from '../types/progression'
+import type { ChordProgression, KeyCandidate } from '../types/progression'
 import type { ChordRiff, ProgressionRiff, RiffNote, RiffStyle, Technique } from '../types/songBuilder'
-import { GUITAR_STRINGS, INDEX_TO_NOTE, NOTE_TO_INDEX, STRING_TUNINGS } from '../data/notes'
-import { SCALES } from '../data/scales'
+import type { VoiceLeadingOptions } from '../types/voicing'
+import { INDEX_TO_NOTE, NOTE_TO_INDEX } from '../data/notes'
 import { QUALITY_MAP } from '../data/chordQualities'
-import { transposeProgression, calculateNoteFromInterval, getBestScaleForChord } from './scaleUtils'
+import { transposeProgression, calculateNoteFromInterval, getProgressionMode } from './scaleUtils'
+import { getScaleList } from './scaleLibrary'
+import { rankChordScales } from './chordScales'
+import { createKeyCandidate } from './keyDetection'
+import { formatSpelledNote, getQualityMode, spellChordRoot, spellNoteInKey } from './noteSpelling'
+import { applyVoiceLeading } from './voiceLeading'
+import { getActiveCapo, getActiveTuning, getPitchClass, getStrings } from './tuning'
 
 // Rhythmic patterns for different styles (values are beat positions)
 const MELODIC_PATTERNS = [
@@ -84,9 +90,8 @@ function findAllNotePositions(
   const positions: Array<{ string: GuitarString; fret: number }> = []
 
   for (const stringId of preferredStrings) {
-    const tuning = STRING_TUNINGS[stringId]
     for (let fret = fretRange.min; fret <= fretRange.max; fret++) {
-      const noteIndex = (tuning.index + fret) % 12
+      const noteIndex = getPitchClass(stringId, fret)
       if (noteIndex === targetIndex) {
         positions.push({ string: stringId, fret })
       }
@@ -111,7 +116,7 @@ export function findNotePosition(
 
   // If no positions on preferred strings, try all strings
   if (positions.length === 0) {
-    positions = findAllNotePositions(targetNote, GUITAR_STRINGS, fretRange)
+    positions = findAllNotePositions(targetNote, getStrings(), fretRange)
   }
 
   if (positions.length === 0) return null
@@ -158,18 +163,19 @@ function getChordTones(root: NoteId, quality: ChordQuality): NoteId[] {
 }
 
 /**
- * Get scale notes for a chord
+ * Notes of the best chord scale for a chord in its key, leaving out the avoid notes
  */
-function getScaleNotes(root: NoteId, quality: ChordQuality): NoteId[] {
-  const scaleList = Object.values(SCALES)
-  const scale = getBestScaleForChord(quality, scaleList)
+function getScaleNotes(root: NoteId, quality: ChordQuality, key: KeyCandidate | null = null): NoteId[] {
+  const [match] = rankChordScales(root, quality, getScaleList(), key)
 
-  if (!scale) {
+  if (!match) {
     // Fallback to chord tones
     return getChordTones(root, quality)
   }
 
-  return scale.intervals.map((interval) => calculateNoteFromInterval(root, interval))
+  return match.degrees
+    .filter((degree) => degree.role !== 'avoid')
+    .map((degree) => calculateNoteFromInterval(root, degree.interval))
 }
 
 /**
@@ -181,13 +187,17 @@ export function generateChordRiff(
   chordDegree: string,
   nextChordRoot: NoteId | null,
   style: RiffStyle,
-  beatsPerChord: number = 4
+  beatsPerChord: number = 4,
+  chordRootName: string = formatSpelledNote(spellChordRoot(chordRoot, chordQuality)),
+  chordBass?: NoteId,
+  key: KeyCandidate | null = null // Chooses the chord scale the riff's passing notes come from
 ): ChordRiff {
   const chordTones = getChordTones(chordRoot, chordQuality)
-  const scaleTones = getScaleNotes(chordRoot, chordQuality)
+  const scaleTones = getScaleNotes(chordRoot, chordQuality, key)
   const notes: RiffNote[] = []
 
-  // Select pattern and strings based on style
+  // Select pattern and strings based on style, lowest string first
+  const strings = getStrings()
   let pattern: number[]
   let preferredStrings: GuitarString[]
   let fretRange: { min: number; max: number }
@@ -196,22 +206,22 @@ export function generateChordRiff(
   switch (style) {
     case 'melodic':
       pattern = MELODIC_PATTERNS[Math.floor(Math.random() * MELODIC_PATTERNS.length)]
-      preferredStrings = [1, 2, 3, 4] // High to mid strings for melody
+      preferredStrings = strings.slice(-4) // High to mid strings for melody
       fretRange = { min: 0, max: 12 }
       break
     case 'arpeggiated':
       pattern = ARPEGGIATED_PATTERNS[Math.floor(Math.random() * ARPEGGIATED_PATTERNS.length)]
-      preferredStrings = [1, 2, 3, 4, 5] // Wide range for arpeggios
+      preferredStrings = strings.slice(-5) // Wide range for arpeggios
       fretRange = { min: 0, max: 9 }
       break
     case 'bass-driven':
       pattern = BASS_PATTERNS[Math.floor(Math.random() * BASS_PATTERNS.length)]
-      preferredStrings = [6, 5, 4] // Low strings
+      preferredStrings = strings.slice(0, 3) // Low strings
       fretRange = { min: 0, max: 5 }
       break
     case 'complex':
       pattern = COMPLEX_PATTERNS[Math.floor(Math.random() * COMPLEX_PATTERNS.length)]
-      preferredStrings = [1, 2, 3, 4, 5, 6] // All strings for maximum variety
+      preferredStrings = strings // All strings for maximum variety
       fretRange = { min: 0, max: 15 }
       useComplexTechniques = true
       break
@@ -257,10 +267,10 @@ export function generateChordRiff(
       targetNote = chordTones[toneIndex]
       interval = QUALITY_MAP[chordQuality]?.intervals[toneIndex]
     } else if (style === 'bass-driven') {
-      // Mostly root with occasional fifth
+      // Mostly root (or the slash bass) with occasional fifth
       if (isStrongBeat) {
-        targetNote = chordRoot
-        interval = 'R'
+        targetNote = chordBass ?? chordRoot
+        interval = chordBass ? QUALITY_MAP[chordQuality]?.intervals[chordTones.indexOf(chordBass)] : 'R'
       } else {
         // Use fifth or other chord tone
         targetNote = chordTones.length > 2 ? chordTones[2] : chordTones[0]
@@ -361,8 +371,10 @@ export function generateChordRiff(
 
   return {
     chordRoot,
+    chordRootName,
     chordQuality,
     chordDegree,
+    ...(chordBass && { chordBass }),
     notes,
     totalBeats: beatsPerChord
   }
@@ -375,9 +387,11 @@ export function generateProgressionRiff(
   progression: ChordProgression,
   rootNote: NoteId,
   style: RiffStyle,
-  bpm: number
+  bpm: number,
+  voiceLeading: VoiceLeadingOptions = {}
 ): ProgressionRiff {
   const transposed = transposeProgression(progression, rootNote)
+  const key = createKeyCandidate(rootNote, getProgressionMode(progression) === 'minor' ? 'aeolian' : 'ionian')
   const chordRiffs: ChordRiff[] = []
 
   transposed.forEach((chord, index) => {
@@ -387,17 +401,27 @@ export function generateProgressionRiff(
       chord.quality,
       chord.degree,
       nextChord.note,
-      style
+      style,
+      4,
+      chord.name,
+      chord.bass,
+      key
     )
     chordRiffs.push(riff)
   })
 
-  return {
-    id: `riff-${Date.now()}`,
-    chordRiffs,
-    bpm,
-    style
-  }
+  // Chord tracks strum the same voice-led grips the progression viewer shows
+  return applyVoiceLeading(
+    {
+      id: `riff-${Date.now()}`,
+      chordRiffs,
+      bpm,
+      style,
+      tuning: getActiveTuning(),
+      capo: getActiveCapo()
+    },
+    voiceLeading
+  )
 }
 
 /**
@@ -408,15 +432,16 @@ export function getAvailableNotesAtPosition(
   chordQuality: ChordQuality,
   stringId: GuitarString,
   fretRange: { min: number; max: number } = { min: 0, max: 12 }
-): Array<{ note: NoteId; fret: number; interval?: IntervalSymbol }> {
+): Array<{ note: NoteId; name: string; fret: number; interval?: IntervalSymbol }> {
   const scaleTones = getScaleNotes(chordRoot, chordQuality)
   const chordTones = getChordTones(chordRoot, chordQuality)
   const qualityDef = QUALITY_MAP[chordQuality]
-  const tuning = STRING_TUNINGS[stringId]
-  const available: Array<{ note: NoteId; fret: number; interval?: IntervalSymbol }> = []
+  const spelledRoot = spellChordRoot(chordRoot, chordQuality)
+  const mode = getQualityMode(chordQuality)
+  const available: Array<{ note: NoteId; name: string; fret: number; interval?: IntervalSymbol }> = []
 
   for (let fret = fretRange.min; fret <= fretRange.max; fret++) {
-    const noteIndex = (tuning.index + fret) % 12
+    const noteIndex = getPitchClass(stringId, fret)
     const note = INDEX_TO_NOTE[noteIndex]
 
     if (scaleTones.includes(note)) {
@@ -424,7 +449,12 @@ export function getAvailableNotesAtPosition(
       const chordToneIndex = chordTones.indexOf(note)
       const interval = chordToneIndex >= 0 ? qualityDef?.intervals[chordToneIndex] : undefined
 
-      available.push({ note, fret, interval })
+      available.push({
+        note,
+        name: formatSpelledNote(spellNoteInKey(note, spelledRoot, mode)),
+        fret,
+        interval
+      })
     }
   }
 
@@ -0,0 +1,173 @@
+import type { ChordQuality } from '../types/music'
+import type { ProgressionChord, RomanProgressionParseResult } from '../types/progression'
+import { getChordSymbolQuality, parseChordSymbol } from './chordSymbolParser'
+import { getRomanSuffixQuality } from './keyDetection'
+
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11]
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII']
+
+// One case throughout: upper case for a major third, lower case for a minor one
+const NUMERAL = '(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)'
+const CHORD_PATTERN = new RegExp(`^([b#]?)${NUMERAL}(.*)$`)
+const TARGET_PATTERN = new RegExp(`^([b#]?)${NUMERAL}$`)
+const BASS_PATTERN = /^([b#]?)([1-7])$/
+
+// Bar lines and repeat signs, chords, and anything else (reported as a mistake)
+const TOKEN_PATTERN = /\s+|[,\-–—]|\|:|:\|(?:\s*[x×]\s*(\d+))?|\||%|([^\s|,:%\-–—]+)|(.)/
+
+// Suffixes that already say the chord is diminished, so lower case adds no "m"
+const DIMINISHED_SUFFIX = /^(dim|°|o|ø|Ø)/
+
+const DEFAULT_REPEATS = 2
+const MAX_REPEATS = 8
+
+type ChordParseResult = { ok: true; chord: ProgressionChord } | { ok: false; error: string }
+
+const normalize = (input: string) => input.replace(/♭/g, 'b').replace(/♯/g, '#')
+
+/**
+ * Semitones above the tonic for a numeral read against the major scale ("bVI" -> 8)
+ */
+function getNumeralOffset(accidental: string, numeral: string): number {
+  const shift = accidental === 'b' ? -1 : accidental === '#' ? 1 : 0
+  return (MAJOR_SCALE[ROMAN_NUMERALS.indexOf(numeral.toUpperCase())] + shift + 12) % 12
+}
+
+/**
+ * One chord such as "V7/V", "bVII", "viiø7", "I/3" or "IV6/9/1"
+ */
+function parseRomanChord(token: string): ChordParseResult {
+  // Keep 6/9 in one piece before splitting off secondary targets and slash bass
+  const [head, ...slashes] = token.replace('6/9', '69').split('/')
+  const match = head.match(CHORD_PATTERN)
+  if (!match) {
+    return { ok: false, error: `"${token}" doesn't start with a Roman numeral (I to VII, or i to vii for minor)` }
+  }
+  const [, accidental, numeral, suffix] = match
+
+  // Numerals the app writes itself read straight back; anything else is read as a chord symbol,
+  // and must name a chord the app has rather than the nearest one ("I6" would play as "I")
+  const lowerCase = numeral === numeral.toLowerCase()
+  let quality: ChordQuality | null = getRomanSuffixQuality(suffix.replace('69', '6/9'), lowerCase)
+  if (!quality) {
+    const isMinor = lowerCase && !DIMINISHED_SUFFIX.test(suffix)
+    const parsed = parseChordSymbol(`C${isMinor ? 'm' : ''}${suffix}`)
+    if (!parsed.ok) {
+      return { ok: false, error: `"${suffix}" in "${token}" isn't a chord quality` }
+    }
+    const match = getChordSymbolQuality(parsed.chord)
+    if (!match.exact) {
+      return { ok: false, error: `"${suffix}" in "${token}" isn't a chord the app can play yet` }
+    }
+    quality = match.quality
+  }
+
+  let offset = getNumeralOffset(accidental, numeral)
+  let bassOffset: number | undefined
+  let hasTarget = false
+  for (const slash of slashes) {
+    const target = slash.match(TARGET_PATTERN)
+    const bass = slash.match(BASS_PATTERN)
+    if (target && !hasTarget && bassOffset === undefined) {
+      // Secondary chords count from the degree they lean on: V of V is a fifth above II
+      offset = (offset + getNumeralOffset(target[1], target[2])) % 12
+      hasTarget = true
+    } else if (bass && bassOffset === undefined) {
+      bassOffset = getNumeralOffset(bass[1], ROMAN_NUMERALS[Number(bass[2]) - 1])
+    } else {
+      return {
+        ok: false,
+        error: `"/${slash}" in "${token}" should be a chord to lean on ("/V") or a bass scale degree ("/3")`
+      }
+    }
+  }
+
+  return {
+    ok: true,
+    chord: {
+      degree: token,
+      quality,
+      scaleDegreeOffset: offset,
+      ...(bassOffset !== undefined && { bassOffset })
+    }
+  }
+}
+
+/**
+ * Whether typed chords are Roman numerals ("ii7 V7 I") rather than chord symbols ("Dm7 G7 C")
+ */
+export function isRomanProgression(input: string): boolean {
+  const [first] = normalize(input).split(/[\s|,:%\-–—]+/).filter(Boolean)
+  return first !== undefined && CHORD_PATTERN.test(first.split('/')[0])
+}
+
+/**
+ * Read a progression typed as Roman numerals, such as "ii7 - V7/V - V7 - Imaj7",
+ * "i bVI bIII bVII" or "|: I | IV :| x3 I | V7 |". Chords are read against the major
+ * scale, so minor keys write bIII and bVI. Bar lines are optional, "%" repeats the
+ * previous bar and "|: ... :|" plays a section twice (or "x3" times).
+ */
+export function parseRomanProgression(input: string): RomanProgressionParseResult {
+  const text = normalize(input.trim())
+  if (!text) {
+    return { ok: false, error: 'Type some Roman numerals, e.g. "I - vi - IV - V7"' }
+  }
+
+  const bars: ProgressionChord[][] = []
+  let bar: ProgressionChord[] = []
+  let repeatStart = 0
+  const closeBar = () => {
+    if (bar.length) {
+      bars.push(bar)
+      bar = []
+    }
+  }
+
+  const reader = new RegExp(TOKEN_PATTERN.source, 'gy')
+  let token: RegExpExecArray | null
+  while (reader.lastIndex < text.length && (token = reader.exec(text))) {
+    const [symbol, repeatCount, chordToken, stray] = token
+    if (stray) {
+      return { ok: false, error: `Unexpected "${stray}" in "${text}"` }
+    }
+    if (chordToken) {
+      const result = parseRomanChord(chordToken)
+      if (!result.ok) {
+        return result
+      }
+      bar.push(result.chord)
+    } else if (symbol === '|') {
+      closeBar()
+    } else if (symbol === '|:') {
+      closeBar()
+      repeatStart = bars.length
+    } else if (symbol.startsWith(':|')) {
+      closeBar()
+      const times = repeatCount ? Number(repeatCount) : DEFAULT_REPEATS
+      if (times < 1 || times > MAX_REPEATS) {
+        return { ok: false, error: `Repeat a section 1 to ${MAX_REPEATS} times, not ${times}` }
+      }
+      const section = bars.slice(repeatStart)
+      if (!section.length) {
+        return { ok: false, error: 'A repeat sign needs chords before it' }
+      }
+      for (let i = 1; i < times; i++) {
+        bars.push(...section)
+      }
+      repeatStart = bars.length
+    } else if (symbol === '%') {
+      closeBar()
+      if (!bars.length) {
+        return { ok: false, error: '"%" repeats the previous bar, so it needs a bar before it' }
+      }
+      bars.push(bars[bars.length - 1])
+    }
+  }
+  closeBar()
+
+  const chords = bars.flat().map((chord) => ({ ...chord }))
+  if (!chords.length) {
+    return { ok: false, error: 'Type at least one Roman numeral, e.g. "I - vi - IV - V7"' }
+  }
+  return { ok: true, chords }
+}
@@ -0,0 +1,69 @@
+import type { IntervalSymbol } from '../types/music'
+import type { ScaleDefinition } from '../types/progression'
+import { SCALE_LIST } from '../data/scales'
+import { isIntervalSymbol } from './noteSpelling'
+import { getCompatibleQualities } from './scaleUtils'
+import { loadStoredJson } from './storage'
+
+const STORAGE_KEY = 'customScales'
+
+// Saved scales without a usable name and formula are dropped; the rest are rebuilt from their formula
+function loadCustomScales(): ScaleDefinition[] {
+  return loadStoredJson<ScaleDefinition[]>(STORAGE_KEY, [], Array.isArray)
+    .filter(
+      (scale) =>
+        typeof scale?.id === 'string' &&
+        typeof scale.name === 'string' &&
+        Array.isArray(scale.intervals) &&
+        scale.intervals.length > 0 &&
+        scale.intervals.every(isIntervalSymbol)
+    )
+    .map((scale) => ({ ...createCustomScale(scale.name, scale.intervals), id: scale.id }))
+}
+
+let customScales = loadCustomScales()
+
+function storeCustomScales() {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(customScales))
+  }
+}
+
+/**
+ * Every scale on offer: the built-in library, then the ones typed in as formulas
+ */
+export function getScaleList(): ScaleDefinition[] {
+  return [...SCALE_LIST, ...customScales]
+}
+
+export function getCustomScales(): ScaleDefinition[] {
+  return customScales
+}
+
+/**
+ * A scale from a parsed formula, fitting every chord whose notes it contains
+ */
+export function createCustomScale(name: string, intervals: IntervalSymbol[]): ScaleDefinition {
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    name,
+    displayName: name,
+    intervals,
+    description: `Custom: ${intervals.join(' ')}`,
+    compatibleQualities: getCompatibleQualities(intervals),
+    custom: true
+  }
+}
+
+/**
+ * Keep a custom scale for later visits
+ */
+export function saveCustomScale(scale: ScaleDefinition) {
+  customScales = [...customScales.filter((other) => other.id !== scale.id), scale]
+  storeCustomScales()
+}
+
+export function deleteCustomScale(scaleId: string) {
+  customScales = customScales.filter((scale) => scale.id !== scaleId)
+  storeCustomScales()
+}
@@ -0,0 +1,163 @@
+import type { GuitarString, NoteId } from '../types/music'
+import type { ScaleDefinition, ScaleNote, ScalePosition, ScalePositionSystem } from '../types/progression'
+import { NOTE_TO_INDEX } from '../data/notes'
+import { generateScaleNotes } from './scaleUtils'
+import { getInstrument, getMidiNote, getStrings, isStandardTuning } from './tuning'
+
+export interface PitchedNote extends ScaleNote {
+  midi: number
+}
+
+// CAGED shapes in the order they climb the neck from the E shape, each box starting this
+// many frets from the root on the lowest string (in C: E at 7, D at 9, C at 0, A at 2, G at 4).
+// A box that would start just behind the nut starts on the open strings instead (E shape in E).
+const CAGED_BOXES: Array<{ shape: string; offset: number }> = [
+  { shape: 'E', offset: -1 },
+  { shape: 'D', offset: 1 },
+  { shape: 'C', offset: 4 },
+  { shape: 'A', offset: 6 },
+  { shape: 'G', offset: 8 }
+]
+
+// A box covers four frets plus a one-fret stretch
+const BOX_FRETS = 5
+
+/**
+ * Position systems that suit a scale: pentatonic boxes for five-note scales, three notes
+ * per string for six notes and up, CAGED boxes for everything
+ */
+export function getPositionSystems(scale: ScaleDefinition): ScalePositionSystem[] {
+  const count = scale.intervals.length
+  if (count === 5) {
+    return ['pentatonicBox', 'caged']
+  }
+  return count >= 6 ? ['caged', 'threeNotesPerString'] : ['caged']
+}
+
+/**
+ * Practice positions of a scale on the active tuning, each with suggested fingering
+ */
+export function getScalePositions(root: NoteId, scale: ScaleDefinition, system: ScalePositionSystem): ScalePosition[] {
+  const neck: PitchedNote[] = generateScaleNotes(root, scale, getInstrument().fretCount).map((note) => ({
+    ...note,
+    midi: getMidiNote(note.string, note.fret)
+  }))
+  switch (system) {
+    case 'caged':
+      return buildCagedBoxes(root, neck)
+    case 'threeNotesPerString':
+      return buildLinearPatterns(scale, neck, 3)
+    case 'pentatonicBox':
+      return buildLinearPatterns(scale, neck, 2)
+  }
+}
+
+/**
+ * Five overlapping boxes anchored on the root. A pitch that falls on two strings inside a
+ * box is kept on the higher string, where it needs no stretch.
+ */
+function buildCagedBoxes(root: NoteId, neck: PitchedNote[]): ScalePosition[] {
+  const lowest = getStrings()[0]
+  const { fretCount } = getInstrument()
+  const rootFret = (NOTE_TO_INDEX[root] - ((getMidiNote(lowest, 1) - 1) % 12) + 12) % 12
+  const named = isStandardTuning()
+
+  return CAGED_BOXES.map(({ shape, offset }) => ({ shape, start: Math.max(0, rootFret + offset) % 12 }))
+    .filter(({ start }) => start + BOX_FRETS - 1 <= fretCount)
+    .sort((a, b) => a.start - b.start)
+    .map(({ shape, start }, index) => {
+      const byPitch = new Map<number, PitchedNote>()
+      neck
+        .filter((note) => note.fret >= start && note.fret < start + BOX_FRETS)
+        .forEach((note) => {
+          const kept = byPitch.get(note.midi)
+          if (!kept || note.fret < kept.fret) {
+            byPitch.set(note.midi, note)
+          }
+        })
+      const notes = [...byPitch.values()]
+      const handStart = Math.min(...notes.map((note) => note.fret || Infinity))
+      return toPosition(`caged-${shape}`, named ? `${shape} shape` : `Position ${index + 1}`, notes, () => handStart)
+    })
+    .filter((position) => position.notes.length > 0)
+}
+
+/**
+ * One pattern per scale degree: start on that degree on the lowest string and climb the
+ * scale, `perString` notes on each string. Three per string gives the 3nps patterns, two
+ * per string on a pentatonic gives the five familiar boxes.
+ */
+function buildLinearPatterns(scale: ScaleDefinition, neck: PitchedNote[], perString: number): ScalePosition[] {
+  const strings = getStrings()
+  const pitches = [...new Map(neck.map((note) => [note.midi, note])).values()].sort((a, b) => a.midi - b.midi)
+  const findNote = (stringId: GuitarString, midi: number) =>
+    neck.find((note) => note.string === stringId && note.midi === midi)
+
+  const buildFrom = (start: PitchedNote): PitchedNote[] | null => {
+    let index = pitches.findIndex((pitch) => pitch.midi === start.midi)
+    const notes: PitchedNote[] = []
+    for (const stringId of strings) {
+      for (let count = 0; count < perString; count++) {
+        const note = pitches[index] && findNote(stringId, pitches[index].midi)
+        if (!note) {
+          return null
+        }
+        notes.push(note)
+        index++
+      }
+    }
+    return notes
+  }
+
+  return scale.intervals.flatMap((interval, degree) => {
+    const starts = neck
+      .filter((note) => note.string === strings[0] && note.interval === interval)
+      .sort((a, b) => a.fret - b.fret)
+    for (const start of starts) {
+      const notes = buildFrom(start)
+      if (notes) {
+        const label = perString === 2 ? `Box ${degree + 1}` : `Pattern ${degree + 1} (from ${interval})`
+        // Each string is fingered from its own lowest fret, so the hand shifts as it climbs
+        const position = toPosition(`${perString}nps-${degree}`, label, notes, (stringNotes) =>
+          perString === 2
+            ? Math.min(...notes.map((note) => note.fret || Infinity))
+            : Math.min(...stringNotes.map((note) => note.fret || Infinity))
+        )
+        return [position]
+      }
+    }
+    return []
+  })
+}
+
+/**
+ * Attach fingers and sort a position by pitch. Fingers follow one-finger-per-fret from
+ * the hand's position; when two notes on a string would share a finger the lower one
+ * moves back, so a whole-whole stretch reads 1-3-4.
+ */
+export function toPosition(
+  id: string,
+  label: string,
+  notes: PitchedNote[],
+  handStart: (stringNotes: PitchedNote[]) => number
+): ScalePosition {
+  const fingered = getStrings().flatMap((stringId) => {
+    const stringNotes = notes.filter((note) => note.string === stringId).sort((a, b) => a.fret - b.fret)
+    const start = handStart(stringNotes)
+    const fingers = stringNotes.map((note) => (note.fret === 0 ? 0 : Math.min(4, Math.max(1, note.fret - start + 1))))
+    for (let index = fingers.length - 2; index >= 0; index--) {
+      if (fingers[index] > 0 && fingers[index] >= fingers[index + 1]) {
+        fingers[index] = Math.max(1, fingers[index + 1] - 1)
+      }
+    }
+    return stringNotes.map((note, index) => ({ ...note, finger: fingers[index] }))
+  })
+  const frets = fingered.map((note) => note.fret)
+  return {
+    id,
+    label,
+    notes: fingered.sort((a, b) => a.midi - b.midi),
+    minFret: Math.min(...frets),
+    maxFret: Math.max(...frets)
+  }
+}
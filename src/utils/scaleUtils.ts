@@ -1,6 +1,22 @@
-import type { ChordQuality, IntervalSymbol, NoteId } from '../types/music'
-import type { ChordProgression, ScaleDefinition, ScaleNote } from '../types/progression'
-import { GUITAR_STRINGS, INDEX_TO_NOTE, NOTE_TO_INDEX, STRING_TUNINGS } from '../data/notes'
+import type { ChordQuality, IntervalSymbol, KeyMode, NoteId } from '../types/music'
+import type {
+  ChordProgression,
+  ScaleDefinition,
+  ScaleFormulaParseResult,
+  ScaleNote,
+  TransposedChord
+} from '../types/progression'
+import { INDEX_TO_NOTE, NOTE_TO_INDEX } from '../data/notes'
+import { CHORD_QUALITIES } from '../data/chordQualities'
+import {
+  formatSpelledNote,
+  getQualityMode,
+  spellDegreeBass,
+  spellDegreeRoot,
+  spellIntervals,
+  spellKeyTonic
+} from './noteSpelling'
+import { getInstrument, getPitchClass, getStrings } from './tuning'
 
 // Map intervals to semitone offsets from root
 const INTERVAL_TO_SEMITONES: Record<IntervalSymbol, number> = {
@@ -16,9 +32,76 @@ const INTERVAL_TO_SEMITONES: Record<IntervalSymbol, number> = {
   '#5': 8,
   'b6': 8,
   '6': 9,
+  'bb7': 9,
   'b7': 10,
   '7': 11,
-  '9': 14
+  'b9': 13,
+  '9': 14,
+  '#9': 15,
+  '11': 17,
+  '#11': 18,
+  'b13': 20,
+  '13': 21
+}
+
+// Other ways of writing a scale degree in a typed formula
+const FORMULA_ALIASES: Record<string, IntervalSymbol> = {
+  '1': 'R',
+  '#2': '#9',
+  '#1': 'b2',
+  'b4': '3',
+  '#6': 'b7'
+}
+
+// Scales shorter than this are chords, not scales
+const MIN_SCALE_NOTES = 5
+
+const getPitchClassOffset = (interval: IntervalSymbol) => INTERVAL_TO_SEMITONES[interval] % 12
+
+/**
+ * Read a typed interval formula such as "1 2 b3 #4 5 b6 7" (commas optional, R or 1 for
+ * the root). Degrees come back in pitch order with the root first.
+ */
+export function parseScaleFormula(input: string): ScaleFormulaParseResult {
+  const tokens = input
+    .replace(/♭/g, 'b')
+    .replace(/♯/g, '#')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+  if (!tokens.length) {
+    return { ok: false, error: 'Type the scale degrees, e.g. "1 2 b3 4 5 b6 7"' }
+  }
+
+  const intervals: IntervalSymbol[] = ['R']
+  for (const token of tokens) {
+    const interval = FORMULA_ALIASES[token] ?? (token.toUpperCase() === 'R' ? 'R' : token)
+    if (!(interval in INTERVAL_TO_SEMITONES)) {
+      return { ok: false, error: `"${token}" isn't a scale degree. Use degrees like b2, 3, #4 or b7` }
+    }
+    const symbol = interval as IntervalSymbol
+    if (symbol === 'R') continue
+    const clash = intervals.find((other) => getPitchClassOffset(other) === getPitchClassOffset(symbol))
+    if (clash) {
+      return { ok: false, error: `${token} is the same note as ${clash === 'R' ? 'the root' : clash}` }
+    }
+    intervals.push(symbol)
+  }
+
+  if (intervals.length < MIN_SCALE_NOTES) {
+    return { ok: false, error: `A scale needs at least ${MIN_SCALE_NOTES} notes including the root` }
+  }
+  return { ok: true, intervals: intervals.sort((a, b) => getPitchClassOffset(a) - getPitchClassOffset(b)) }
+}
+
+/**
+ * Chord qualities whose every note lies in a scale, e.g. whole tone fits aug7
+ */
+export function getCompatibleQualities(intervals: IntervalSymbol[]): ChordQuality[] {
+  const pitchClasses = new Set(intervals.map(getPitchClassOffset))
+  return CHORD_QUALITIES.filter(
+    (quality) =>
+      !quality.aliasOf && quality.intervals.every((interval) => pitchClasses.has(getPitchClassOffset(interval)))
+  ).map((quality) => quality.id)
 }
 
 /**
@@ -46,23 +129,23 @@ export function transposeNote(note: NoteId, semitones: number): NoteId {
 export function generateScaleNotes(
   root: NoteId,
   scale: ScaleDefinition,
-  maxFret: number = 15
+  maxFret: number = Math.min(15, getInstrument().fretCount)
 ): ScaleNote[] {
   const scaleNotes: ScaleNote[] = []
 
-  // Calculate all notes in the scale
-  const notesInScale = scale.intervals.map((interval) => ({
+  // Calculate all notes in the scale, spelled for the scale's own key
+  const spelling = spellIntervals(root, scale.intervals)
+  const notesInScale = scale.intervals.map((interval, index) => ({
     note: calculateNoteFromInterval(root, interval),
+    name: formatSpelledNote(spelling[index]),
     interval
   }))
 
   // For each string
-  GUITAR_STRINGS.forEach((stringId) => {
-    const tuning = STRING_TUNINGS[stringId]
-
+  getStrings().forEach((stringId) => {
     // Check each fret
     for (let fret = 0; fret <= maxFret; fret++) {
-      const noteIndex = (tuning.index + fret) % 12
+      const noteIndex = getPitchClass(stringId, fret)
       const note = INDEX_TO_NOTE[noteIndex]
 
       // Check if this note is in the scale
@@ -70,6 +153,7 @@ export function generateScaleNotes(
       if (scaleNote) {
         scaleNotes.push({
           note,
+          name: scaleNote.name,
           interval: scaleNote.interval,
           string: stringId,
           fret
@@ -81,17 +165,41 @@ export function generateScaleNotes(
   return scaleNotes
 }
 
+/**
+ * Spell the notes of a scale for display, e.g. Eb natural minor with flats
+ */
+export function spellScale(root: NoteId, scale: ScaleDefinition): string[] {
+  return spellIntervals(root, scale.intervals).map(formatSpelledNote)
+}
+
+/**
+ * Whether a progression lives in a major or minor key, judged by its tonic chord
+ */
+export function getProgressionMode(progression: ChordProgression): KeyMode {
+  const tonicChord = progression.chords.find((chord) => chord.scaleDegreeOffset === 0)
+  return tonicChord ? getQualityMode(tonicChord.quality) : 'major'
+}
+
 /**
  * Transpose a chord progression to a specific key
  */
 export function transposeProgression(
   progression: ChordProgression,
   rootNote: NoteId
-): Array<{ note: NoteId; quality: ChordQuality; degree: string }> {
+): TransposedChord[] {
+  const mode = getProgressionMode(progression)
+  const tonic = spellKeyTonic(rootNote, mode)
   return progression.chords.map((chord) => ({
     note: transposeNote(rootNote, chord.scaleDegreeOffset),
+    name: formatSpelledNote(
+      spellDegreeRoot(tonic, chord.degree, chord.scaleDegreeOffset, mode)
+    ),
     quality: chord.quality,
-    degree: chord.degree
+    degree: chord.degree,
+    ...(chord.bassOffset !== undefined && {
+      bass: transposeNote(rootNote, chord.bassOffset),
+      bassName: formatSpelledNote(spellDegreeBass(tonic, chord.degree, chord.bassOffset, mode))
+    })
   }))
 }
 
@@ -102,56 +210,7 @@ export function getProgressionChord(
   progression: ChordProgression,
   rootNote: NoteId,
   chordIndex: number
-): { note: NoteId; quality: ChordQuality; degree: string } | null {
+): TransposedChord | null {
   const transposed = transposeProgression(progression, rootNote)
   return transposed[chordIndex] || null
 }
-
-/**
- * Determine if a scale is compatible with a chord quality
- */
-export function isScaleCompatible(scale: ScaleDefinition, quality: ChordQuality): boolean {
-  return scale.compatibleQualities.includes(quality)
-}
-
-/**
- * Get the best scale for a given chord in a progression
- */
-export function getBestScaleForChord(
-  chordQuality: ChordQuality,
-  availableScales: ScaleDefinition[]
-): ScaleDefinition | null {
-  // Find scales compatible with this quality
-  const compatible = availableScales.filter((scale) => isScaleCompatible(scale, chordQuality))
-
-  if (compatible.length === 0) {
-    return null
-  }
-
-  // Prioritize certain scales based on quality
-  if (chordQuality === 'minor' || chordQuality === 'minor7') {
-    return (
-      compatible.find((s) => s.id === 'minorPentatonic') ||
-      compatible.find((s) => s.id === 'dorian') ||
-      compatible[0]
-    )
-  }
-
-  if (chordQuality === 'major' || chordQuality === 'major7') {
-    return (
-      compatible.find((s) => s.id === 'majorPentatonic') ||
-      compatible.find((s) => s.id === 'majorScale') ||
-      compatible[0]
-    )
-  }
-
-  if (chordQuality === 'dominant7') {
-    return (
-      compatible.find((s) => s.id === 'mixolydian') ||
-      compatible.find((s) => s.id === 'bluesScale') ||
-      compatible[0]
-    )
-  }
-
-  return compatible[0]
-}
@@ -0,0 +1,16 @@
+/**
+ * A value saved as JSON on an earlier visit, or the fallback when there is none or it can't
+ * be used: unreadable JSON, or a shape `accept` turns down (left by an older version of the app)
+ */
+export function loadStoredJson<T>(key: string, fallback: T, accept: (value: unknown) => boolean): T {
+  const saved = typeof localStorage === 'undefined' ? null : localStorage.getItem(key)
+  if (!saved) {
+    return fallback
+  }
+  try {
+    const value: unknown = JSON.parse(saved)
+    return accept(value) ? (value as T) : fallback
+  } catch {
+    return fallback
+  }
+}
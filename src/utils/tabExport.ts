@@ -1,23 +1,14 @@
 import type { GuitarString } from '../types/music'
 import type { TabSheet, TabPosition, Technique, Track } from '../types/songBuilder'
+import { formatChordName } from './chordUtils'
+import { detectKeyFromRiff } from './keyDetection'
+import { formatCapo, formatTuning, getStrings, getTabLabels } from './tuning'
 
 /**
  * ASCII tab export utilities
  * Creates text-based guitar tablature for easy sharing and printing
  */
 
-const STRING_LABELS: Record<GuitarString, string> = {
-  1: 'e',
-  2: 'B',
-  3: 'G',
-  4: 'D',
-  5: 'A',
-  6: 'E'
-}
-
-// Display order: high strings at top
-const DISPLAY_ORDER: GuitarString[] = [1, 2, 3, 4, 5, 6]
-
 // Technique symbols for ASCII display
 const TECHNIQUE_SYMBOLS: Record<Technique, string> = {
   'normal': '',
@@ -80,11 +71,22 @@ function padCenter(str: string, width: number): string {
 export function exportTabSheetToAscii(tabSheet: TabSheet, title?: string): string {
   const lines: string[] = []
   const subdivisionWidth = 4 // Width per subdivision in characters
+  const tabLabels = getTabLabels(tabSheet.tuning)
+  // Display order: high strings at top
+  const displayOrder = [...getStrings(tabSheet.tuning)].reverse()
 
   // Add title/header
   if (title) {
     lines.push(`# ${title}`)
     lines.push(`# BPM: ${tabSheet.bpm}`)
+    lines.push(`# Tuning: ${formatTuning(tabSheet.tuning)}`)
+    if (tabSheet.key) {
+      lines.push(`# Key: ${tabSheet.key}`)
+    }
+    if (formatCapo(tabSheet.capo)) {
+      // Frets below are counted from the capo
+      lines.push(`# ${formatCapo(tabSheet.capo)}`)
+    }
     lines.push('')
   }
 
@@ -106,8 +108,8 @@ export function exportTabSheetToAscii(tabSheet: TabSheet, title?: string): strin
     lines.push(chordLine)
 
     // Build each string line
-    DISPLAY_ORDER.forEach((stringId) => {
-      let stringLine = STRING_LABELS[stringId] + '|'
+    displayOrder.forEach((stringId) => {
+      let stringLine = tabLabels[stringId] + '|'
 
       measureGroup.forEach((measure) => {
         measure.positions[stringId].forEach((fret, subIndex) => {
@@ -147,8 +149,13 @@ export function exportAllTracksToAscii(tracks: Track[], bpm: number): string {
   const sections: string[] = []
 
   sections.push('=' .repeat(60))
-  sections.push('GUITAR TABLATURE EXPORT')
+  sections.push('TABLATURE EXPORT')
   sections.push(`BPM: ${bpm}`)
+  // Tracks share one progression, so the first one's key stands for the song
+  const [key] = tracks.length ? detectKeyFromRiff(tracks[0].riff, 1) : []
+  if (key) {
+    sections.push(`Key: ${key.name}`)
+  }
   sections.push(`Tracks: ${tracks.length}`)
   sections.push('=' .repeat(60))
   sections.push('')
@@ -158,6 +165,11 @@ export function exportAllTracksToAscii(tracks: Track[], bpm: number): string {
     sections.push(`TRACK ${index + 1}: ${track.name.toUpperCase()}`)
     sections.push(`Type: ${track.type === 'riff' ? 'Riff/Lead' : 'Chord Rhythm'}`)
     sections.push(`Volume: ${Math.round(track.volume * 100)}%`)
+    // Each track keeps the instrument and tuning it was written for
+    sections.push(`Tuning: ${formatTuning(track.riff.tuning)}`)
+    if (formatCapo(track.riff.capo)) {
+      sections.push(formatCapo(track.riff.capo))
+    }
     sections.push('-'.repeat(60))
     sections.push('')
 
@@ -175,25 +187,16 @@ export function exportAllTracksToAscii(tracks: Track[], bpm: number): string {
 function buildTabSheetFromRiff(riff: import('../types/songBuilder').ProgressionRiff): TabSheet {
   const subdivisions = 8 // Eighth note resolution
 
+  const strings = getStrings(riff.tuning)
+
   const measures = riff.chordRiffs.map((chordRiff) => {
     // Initialize positions
-    const positions: Record<GuitarString, (number | null)[]> = {
-      1: Array(subdivisions).fill(null),
-      2: Array(subdivisions).fill(null),
-      3: Array(subdivisions).fill(null),
-      4: Array(subdivisions).fill(null),
-      5: Array(subdivisions).fill(null),
-      6: Array(subdivisions).fill(null)
-    }
-
-    const positionsWithTechnique: Record<GuitarString, TabPosition[]> = {
-      1: Array(subdivisions).fill(null).map(() => ({ fret: null })),
-      2: Array(subdivisions).fill(null).map(() => ({ fret: null })),
-      3: Array(subdivisions).fill(null).map(() => ({ fret: null })),
-      4: Array(subdivisions).fill(null).map(() => ({ fret: null })),
-      5: Array(subdivisions).fill(null).map(() => ({ fret: null })),
-      6: Array(subdivisions).fill(null).map(() => ({ fret: null }))
-    }
+    const positions: Record<GuitarString, (number | null)[]> = {}
+    const positionsWithTechnique: Record<GuitarString, TabPosition[]> = {}
+    strings.forEach((stringId) => {
+      positions[stringId] = Array(subdivisions).fill(null)
+      positionsWithTechnique[stringId] = Array(subdivisions).fill(null).map(() => ({ fret: null }))
+    })
 
     // Place notes
     chordRiff.notes.forEach((note) => {
@@ -209,7 +212,7 @@ function buildTabSheetFromRiff(riff: import('../types/songBuilder').ProgressionR
     })
 
     return {
-      chordName: `${chordRiff.chordRoot}${chordRiff.chordQuality === 'major' ? '' : chordRiff.chordQuality === 'minor' ? 'm' : chordRiff.chordQuality}`,
+      chordName: formatChordName(chordRiff.chordRoot, chordRiff.chordQuality, chordRiff.chordRootName),
       chordDegree: chordRiff.chordDegree,
       positions,
       positionsWithTechnique,
@@ -220,7 +223,10 @@ function buildTabSheetFromRiff(riff: import('../types/songBuilder').ProgressionR
   return {
     measures,
     bpm: riff.bpm,
-    beatsPerMeasure: 4
+    beatsPerMeasure: 4,
+    tuning: riff.tuning,
+    capo: riff.capo,
+    key: detectKeyFromRiff(riff, 1)[0]?.name
   }
 }
 
@@ -1,14 +1,16 @@
 import type { GuitarString } from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
 import type { ChordRiff, ProgressionRiff, TabMeasure, TabPosition, TabSheet } from '../types/songBuilder'
-import { GUITAR_STRINGS } from '../data/notes'
-import { QUALITY_MAP } from '../data/chordQualities'
+import { formatChordName } from './chordUtils'
+import { formatCapo, getActiveTuning, getStrings, getTabLabels } from './tuning'
 
 /**
  * Convert a chord riff to a tab measure format
  */
 export function formatTabMeasure(
   chordRiff: ChordRiff,
-  subdivisions: number = 8 // 8 = eighth note subdivisions (8 per measure of 4/4)
+  subdivisions: number = 8, // 8 = eighth note subdivisions (8 per measure of 4/4)
+  tuning: TuningDefinition = getActiveTuning()
 ): TabMeasure {
   // Initialize positions for each string with null (empty)
   const positions: Record<GuitarString, (number | null)[]> = {} as Record<
@@ -20,10 +22,12 @@ export function formatTabMeasure(
     TabPosition[]
   >
 
-  GUITAR_STRINGS.forEach((stringId) => {
+  getStrings(tuning).forEach((stringId) => {
     positions[stringId] = Array(subdivisions).fill(null)
     positionsWithTechnique[stringId] = Array(subdivisions).fill(null).map(() => ({ fret: null }))
   })
+  const hasPicks = chordRiff.notes.some((note) => note.pick)
+  const pickDirections: TabMeasure['pickDirections'] = hasPicks ? Array(subdivisions).fill(null) : undefined
 
   // Place each note in the correct subdivision
   chordRiff.notes.forEach((note) => {
@@ -39,19 +43,21 @@ export function formatTabMeasure(
         technique: note.technique,
         targetFret: note.targetFret
       }
+      if (pickDirections && note.pick) {
+        pickDirections[subdivisionIndex] = note.pick
+      }
     }
   })
 
-  // Build chord name
-  const qualityDef = QUALITY_MAP[chordRiff.chordQuality]
-  const shortLabel = qualityDef?.shortLabel || ''
-  const chordName = `${chordRiff.chordRoot}${shortLabel}`
+  // Build chord name, spelled for the progression's key
+  const chordName = formatChordName(chordRiff.chordRoot, chordRiff.chordQuality, chordRiff.chordRootName)
 
   return {
     chordName,
     chordDegree: chordRiff.chordDegree,
     positions,
     positionsWithTechnique,
+    ...(pickDirections && { pickDirections }),
     subdivisions
   }
 }
@@ -60,12 +66,14 @@ export function formatTabMeasure(
  * Convert a full progression riff to a tab sheet
  */
 export function riffToTabSheet(riff: ProgressionRiff, subdivisions: number = 8): TabSheet {
-  const measures = riff.chordRiffs.map((chordRiff) => formatTabMeasure(chordRiff, subdivisions))
+  const measures = riff.chordRiffs.map((chordRiff) => formatTabMeasure(chordRiff, subdivisions, riff.tuning))
 
   return {
     measures,
     bpm: riff.bpm,
-    beatsPerMeasure: 4
+    beatsPerMeasure: 4,
+    tuning: riff.tuning,
+    capo: riff.capo
   }
 }
 
@@ -73,19 +81,13 @@ export function riffToTabSheet(riff: ProgressionRiff, subdivisions: number = 8):
  * Format tab positions as ASCII string for text display
  */
 export function tabToAscii(tabSheet: TabSheet): string {
-  const stringNames: Record<GuitarString, string> = {
-    1: 'e',
-    2: 'B',
-    3: 'G',
-    4: 'D',
-    5: 'A',
-    6: 'E'
-  }
+  const stringNames = getTabLabels(tabSheet.tuning)
+  const capo = formatCapo(tabSheet.capo)
 
-  const lines: string[] = []
+  const lines: string[] = capo ? [capo] : []
 
   // For each string (high to low for standard tab notation)
-  const displayOrder: GuitarString[] = [1, 2, 3, 4, 5, 6]
+  const displayOrder: GuitarString[] = [...getStrings(tabSheet.tuning)].reverse()
 
   displayOrder.forEach((stringId) => {
     let line = `${stringNames[stringId]}|`
@@ -192,7 +194,7 @@ export function hasNotesAtSubdivision(
   const measure = tabSheet.measures[measureIndex]
   if (!measure) return false
 
-  return GUITAR_STRINGS.some((stringId) => {
+  return getStrings(tabSheet.tuning).some((stringId) => {
     const fret = measure.positions[stringId][subdivisionIndex]
     return fret !== null
   })
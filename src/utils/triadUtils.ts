@@ -1,7 +1,12 @@
 import type { ChordQuality, GuitarString, IntervalSymbol, NoteId } from '../types/music'
-import type { TriadNote, TriadPosition } from '../types/triad'
+import type { TriadNote, TriadPathStep, TriadPosition } from '../types/triad'
 import { QUALITY_MAP } from '../data/chordQualities'
-import { GUITAR_STRINGS, INDEX_TO_NOTE, NOTE_TO_INDEX, STRING_TUNINGS } from '../data/notes'
+import { INDEX_TO_NOTE, NOTE_TO_INDEX } from '../data/notes'
+import { solveFingering } from './fingeringSolver'
+import { getInstrument, getMidiNote, getPitchClass, getStrings } from './tuning'
+
+// Highest fret a triad may use, on necks that reach it
+const MAX_TRIAD_FRET = 15
 
 // Map intervals to semitone offsets from root
 const INTERVAL_TO_SEMITONES: Record<IntervalSymbol, number> = {
@@ -17,22 +22,30 @@ const INTERVAL_TO_SEMITONES: Record<IntervalSymbol, number> = {
   '#5': 8,
   'b6': 8,
   '6': 9,
+  'bb7': 9,
   'b7': 10,
   '7': 11,
-  '9': 14
+  'b9': 13,
+  '9': 14,
+  '#9': 15,
+  '11': 17,
+  '#11': 18,
+  'b13': 20,
+  '13': 21
 }
 
 /**
- * Generate all possible 3-string combinations from 6 strings.
- * Returns C(6,3) = 20 combinations.
+ * Generate all possible 3-string combinations from the instrument's strings.
+ * Six strings give C(6,3) = 20 combinations, a 4-string bass 4.
  */
 export function generateStringCombinations(): [GuitarString, GuitarString, GuitarString][] {
   const combinations: [GuitarString, GuitarString, GuitarString][] = []
+  const strings = getStrings()
 
-  for (let i = 0; i < GUITAR_STRINGS.length - 2; i++) {
-    for (let j = i + 1; j < GUITAR_STRINGS.length - 1; j++) {
-      for (let k = j + 1; k < GUITAR_STRINGS.length; k++) {
-        combinations.push([GUITAR_STRINGS[i], GUITAR_STRINGS[j], GUITAR_STRINGS[k]])
+  for (let i = 0; i < strings.length - 2; i++) {
+    for (let j = i + 1; j < strings.length - 1; j++) {
+      for (let k = j + 1; k < strings.length; k++) {
+        combinations.push([strings[i], strings[j], strings[k]])
       }
     }
   }
@@ -50,28 +63,30 @@ export function calculateNoteFromInterval(root: NoteId, interval: IntervalSymbol
   return INDEX_TO_NOTE[targetIndex]
 }
 
+/**
+ * Highest fret a triad or four-note voicing may use on the current neck
+ */
+export function getTriadFretLimit(): number {
+  return Math.min(MAX_TRIAD_FRET, getInstrument().fretCount)
+}
+
 /**
  * Find all fret positions (0 to maxFret) for a given note on a string.
  */
 export function findAllFretsForNote(
   stringId: GuitarString,
   targetNote: NoteId,
-  maxFret: number = 15
+  maxFret: number = getTriadFretLimit()
 ): number[] {
-  const tuning = STRING_TUNINGS[stringId]
   const targetIndex = NOTE_TO_INDEX[targetNote]
   const frets: number[] = []
 
-  // Calculate the first occurrence
-  let fret = targetIndex - tuning.index
-  while (fret < 0) {
-    fret += 12
-  }
-
-  // Add all occurrences up to maxFret
-  while (fret <= maxFret) {
-    frets.push(fret)
-    fret += 12
+  // Walk the string rather than step by octaves: an open string left out of a
+  // partial capo doesn't sit an octave from the notes above it
+  for (let fret = 0; fret <= maxFret; fret++) {
+    if (getPitchClass(stringId, fret) === targetIndex) {
+      frets.push(fret)
+    }
   }
 
   return frets
@@ -79,12 +94,14 @@ export function findAllFretsForNote(
 
 /**
  * Filter positions to only include playable ones.
- * Max span of 5 frets, no frets > 15.
+ * Max span of 5 frets, no frets > 15 (or past the last fret), and a grip the
+ * fingering solver can finger.
  */
 export function filterPlayablePositions(positions: TriadPosition[]): TriadPosition[] {
+  const fretLimit = getTriadFretLimit()
   return positions.filter((pos) => {
-    // Exclude if any fret is beyond 15
-    if (pos.notes.some((note) => note.fret > 15)) {
+    // Exclude if any fret is beyond the limit
+    if (pos.notes.some((note) => note.fret > fretLimit)) {
       return false
     }
 
@@ -93,10 +110,22 @@ export function filterPlayablePositions(positions: TriadPosition[]): TriadPositi
       return false
     }
 
-    return true
+    return solveFingering(pos.notes).playable
   })
 }
 
+/**
+ * Add solved fingers (and any barre) to a triad position
+ */
+export function fingerTriadPosition(position: TriadPosition): TriadPosition {
+  const fingering = solveFingering(position.notes)
+  const notes = position.notes.map((note) => ({
+    ...note,
+    finger: fingering.fingers[note.string]
+  })) as [TriadNote, TriadNote, TriadNote]
+  return { ...position, notes, barre: fingering.barre }
+}
+
 /**
  * Main function to generate all playable triad positions for a given root and quality.
  */
@@ -122,6 +151,9 @@ export function generateTriadPositions(root: NoteId, quality: ChordQuality): Tri
     calculateNoteFromInterval(root, triadIntervals[2])
   ]
 
+  // Root position and both inversions: the lowest string takes the root, the third or the fifth
+  const inversions = [0, 1, 2].map((inversion) => [0, 1, 2].map((voice) => (inversion + voice) % 3))
+
   // Generate all string combinations
   const stringCombos = generateStringCombinations()
 
@@ -129,44 +161,48 @@ export function generateTriadPositions(root: NoteId, quality: ChordQuality): Tri
   const allPositions: TriadPosition[] = []
 
   stringCombos.forEach((stringSet) => {
-    // For each string, find all possible fret positions for the corresponding note
-    const fretOptions = stringSet.map((str, idx) => {
-      const frets = findAllFretsForNote(str, targetNotes[idx], 15)
-      return frets.map((fret) => ({
-        string: str,
-        fret,
-        interval: triadIntervals[idx],
-        note: targetNotes[idx]
-      }))
-    })
+    inversions.forEach((order) => {
+      // For each string, find all possible fret positions for the note it carries
+      const fretOptions = stringSet.map((str, idx) => {
+        const tone = order[idx]
+        const frets = findAllFretsForNote(str, targetNotes[tone])
+        return frets.map((fret) => ({
+          string: str,
+          fret,
+          interval: triadIntervals[tone],
+          note: targetNotes[tone]
+        }))
+      })
+
+      // Generate all combinations of fret positions across the 3 strings
+      fretOptions[0].forEach((note1) => {
+        fretOptions[1].forEach((note2) => {
+          fretOptions[2].forEach((note3) => {
+            const notes: [TriadNote, TriadNote, TriadNote] = [note1, note2, note3]
+            const frets = notes.map((n) => n.fret)
+            const minFret = Math.min(...frets)
+            const maxFret = Math.max(...frets)
+            const span = maxFret - minFret
+
+            const position: TriadPosition = {
+              id: `${stringSet.join('-')}-${frets.join('-')}`,
+              notes,
+              minFret,
+              maxFret,
+              span,
+              stringSet,
+              barre: null
+            }
 
-    // Generate all combinations of fret positions across the 3 strings
-    fretOptions[0].forEach((note1) => {
-      fretOptions[1].forEach((note2) => {
-        fretOptions[2].forEach((note3) => {
-          const notes: [TriadNote, TriadNote, TriadNote] = [note1, note2, note3]
-          const frets = notes.map((n) => n.fret)
-          const minFret = Math.min(...frets)
-          const maxFret = Math.max(...frets)
-          const span = maxFret - minFret
-
-          const position: TriadPosition = {
-            id: `${stringSet.join('-')}-${frets.join('-')}`,
-            notes,
-            minFret,
-            maxFret,
-            span,
-            stringSet
-          }
-
-          allPositions.push(position)
+            allPositions.push(position)
+          })
         })
       })
     })
   })
 
-  // Filter for playability
-  const playablePositions = filterPlayablePositions(allPositions)
+  // Filter for playability, then finger what's left
+  const playablePositions = filterPlayablePositions(allPositions).map(fingerTriadPosition)
 
   // Sort by minimum fret (ascending), then by string set
   playablePositions.sort((a, b) => {
@@ -179,3 +215,68 @@ export function generateTriadPositions(root: NoteId, quality: ChordQuality): Tri
 
   return playablePositions
 }
+
+/**
+ * String sets of three neighbouring strings, lowest string first: the sets triads are comped on
+ */
+export function getAdjacentStringSets(): [GuitarString, GuitarString, GuitarString][] {
+  const strings = getStrings()
+  return strings.slice(0, -2).map((stringId, index) => [stringId, strings[index + 1], strings[index + 2]])
+}
+
+/**
+ * Playable triads of a chord on one string set, up the neck
+ */
+export function getTriadsOnStringSet(root: NoteId, quality: ChordQuality, stringSet: GuitarString[]): TriadPosition[] {
+  const setId = stringSet.join('-')
+  return generateTriadPositions(root, quality).filter((position) => position.stringSet.join('-') === setId)
+}
+
+/**
+ * Semitones the voices move between two shapes on the same strings, added up
+ */
+export function getTriadMotion(from: TriadPosition, to: TriadPosition): number {
+  return to.notes.reduce((total, note, index) => {
+    const previous = from.notes[index]
+    return total + Math.abs(getMidiNote(note.string, note.fret) - getMidiNote(previous.string, previous.fret))
+  }, 0)
+}
+
+/**
+ * Comp a progression with triads on one string set. The first chord takes the chosen starting
+ * shape; every later chord takes the inversion whose voices move least from the last shape
+ * played, staying nearer the start on a tie so the path doesn't wander up the neck.
+ * Slash basses are left to the bass player.
+ */
+export function findTriadPath(
+  chords: { root: NoteId; quality: ChordQuality }[],
+  stringSet: GuitarString[],
+  startIndex = 0
+): TriadPathStep[] {
+  let start: TriadPosition | null = null
+  let previous: TriadPosition | null = null
+
+  return chords.map((chord, index) => {
+    const positions = getTriadsOnStringSet(chord.root, chord.quality, stringSet)
+    if (positions.length === 0) {
+      return { position: null, motion: 0 }
+    }
+    if (!start || !previous) {
+      start = index === 0 ? positions[startIndex % positions.length] : positions[0]
+      previous = start
+      return { position: start, motion: 0 }
+    }
+
+    const from: TriadPosition = previous
+    const anchor: TriadPosition = start
+    const [nearest] = positions
+      .map((position) => ({
+        position,
+        motion: getTriadMotion(from, position),
+        drift: getTriadMotion(anchor, position)
+      }))
+      .sort((a, b) => a.motion - b.motion || a.drift - b.drift)
+    previous = nearest.position
+    return { position: nearest.position, motion: nearest.motion }
+  })
+}
@@ -0,0 +1,370 @@
+import type {
+  CapoSetting,
+  GuitarString,
+  InstrumentDefinition,
+  InstrumentId,
+  NoteId,
+  StringTuning
+} from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
+import { GUITAR_STRINGS, INDEX_TO_NOTE, NOTE_TO_INDEX, STRING_TUNINGS } from '../data/notes'
+import { INSTRUMENTS } from '../data/instruments'
+import { TUNING_LIST, TUNING_PRESETS } from '../data/tunings'
+import { loadStoredJson } from './storage'
+
+const STORAGE_KEY = 'tuning'
+const CAPO_STORAGE_KEY = 'capo'
+const CUSTOM_STORAGE_KEY = 'customTunings'
+
+// How far the editor lets a string move from its standard pitch (Nashville strings go up an octave)
+const MAX_RETUNE = 12
+
+// Frets a hand covers on a 25.5" guitar neck; longer necks cover fewer
+const GUITAR_STRETCH = 4
+const GUITAR_SCALE_LENGTH = 25.5
+
+export const NO_CAPO: CapoSetting = { fret: 0, strings: [...GUITAR_STRINGS] }
+
+// Highest fret the capo menu offers
+export const MAX_CAPO_FRET = 12
+
+function loadCustomTunings(): TuningDefinition[] {
+  const tunings = loadStoredJson<TuningDefinition[]>(CUSTOM_STORAGE_KEY, [], Array.isArray)
+  return tunings.filter(
+    (tuning) => Array.isArray(tuning?.notes) && INSTRUMENTS[tuning.instrument]?.stringCount === tuning.notes.length
+  )
+}
+
+function loadTuning(): TuningDefinition {
+  const savedId = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY)
+  return getTuningList().find((tuning) => tuning.id === savedId) ?? TUNING_PRESETS.standard
+}
+
+// A saved capo only stands if it sits on a fret the menu offers and clamps strings the loaded tuning has
+function loadCapo(): CapoSetting {
+  const strings = getStrings(activeTuning)
+  return loadStoredJson<CapoSetting>(CAPO_STORAGE_KEY, { fret: 0, strings }, (value) => {
+    const capo = value as Partial<CapoSetting> | null
+    const fret = capo?.fret
+    return (
+      typeof fret === 'number' &&
+      Number.isInteger(fret) &&
+      fret >= 0 &&
+      fret <= MAX_CAPO_FRET &&
+      Array.isArray(capo?.strings) &&
+      capo.strings.every((string) => strings.includes(string))
+    )
+  })
+}
+
+const stringTuningCache = new Map<TuningDefinition, Record<GuitarString, StringTuning>>()
+const stringListCache = new Map<number, GuitarString[]>()
+let customTunings = loadCustomTunings()
+let activeTuning = loadTuning()
+let activeCapo = loadCapo()
+
+/**
+ * The tuning every shape, scale, riff, sound and export in the app is worked out for
+ */
+export function getActiveTuning(): TuningDefinition {
+  return activeTuning
+}
+
+/**
+ * Switch the app to another tuning and remember it for the next visit
+ */
+export function setActiveTuning(tuning: TuningDefinition) {
+  activeTuning = tuning
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, tuning.id)
+  }
+}
+
+/**
+ * The capo in use; every fret in the app is counted from it
+ */
+export function getActiveCapo(): CapoSetting {
+  return activeCapo
+}
+
+export function setActiveCapo(capo: CapoSetting) {
+  activeCapo = capo
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(CAPO_STORAGE_KEY, JSON.stringify(capo))
+  }
+}
+
+/**
+ * Every tuning on offer: the presets, then the ones saved in the tuning editor
+ */
+export function getTuningList(): TuningDefinition[] {
+  return [...TUNING_LIST, ...customTunings]
+}
+
+/**
+ * Keep a tuning from the editor for later visits, replacing an earlier save with its id
+ */
+export function saveCustomTuning(tuning: TuningDefinition) {
+  const saved = { ...tuning, custom: true }
+  const isUpdate = customTunings.some((other) => other.id === tuning.id)
+  customTunings = isUpdate
+    ? customTunings.map((other) => (other.id === tuning.id ? saved : other))
+    : [...customTunings, saved]
+  storeCustomTunings()
+  return saved
+}
+
+export function deleteCustomTuning(tuningId: string) {
+  customTunings = customTunings.filter((tuning) => tuning.id !== tuningId)
+  storeCustomTunings()
+}
+
+function storeCustomTunings() {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(CUSTOM_STORAGE_KEY, JSON.stringify(customTunings))
+  }
+}
+
+/**
+ * The instrument a tuning is for
+ */
+export function getInstrument(tuning: TuningDefinition = activeTuning): InstrumentDefinition {
+  return INSTRUMENTS[tuning.instrument]
+}
+
+/**
+ * String numbers of a tuning's instrument, lowest string first (8 ... 1 on an 8-string)
+ */
+export function getStrings(tuning: TuningDefinition = activeTuning): GuitarString[] {
+  const count = tuning.notes.length
+  const cached = stringListCache.get(count)
+  if (cached) {
+    return cached
+  }
+  const strings = Array.from({ length: count }, (_, index) => count - index)
+  stringListCache.set(count, strings)
+  return strings
+}
+
+/**
+ * A capo that leaves some strings ringing open below it
+ */
+export function isPartialCapo(capo: CapoSetting = activeCapo): boolean {
+  return capo.fret > 0 && capo.strings.length < getStrings().length
+}
+
+/**
+ * Whether the six highest strings sit at standard guitar pitch, so the CAGED templates
+ * apply as written (a 7-string in B standard counts)
+ */
+export function isStandardTuning(tuning: TuningDefinition = activeTuning): boolean {
+  if (!getInstrument(tuning).chordShapes) {
+    return false
+  }
+  const strings = getStringTunings(tuning)
+  return GUITAR_STRINGS.every((stringId) => strings[stringId].midi === STRING_TUNINGS[stringId].midi)
+}
+
+/**
+ * Whether a string is pitched above the one below it, as the G string of a ukulele is
+ */
+export function isReentrant(tuning: TuningDefinition = activeTuning): boolean {
+  const strings = getStringTunings(tuning)
+  return getStrings(tuning).some(
+    (stringId, index, all) => index > 0 && strings[stringId].midi < strings[all[index - 1]].midi
+  )
+}
+
+/**
+ * Frets the fretting hand spans comfortably: more on a ukulele, fewer on a bass
+ */
+export function getHandStretch(tuning: TuningDefinition = activeTuning): number {
+  const stretch = Math.round((GUITAR_STRETCH * GUITAR_SCALE_LENGTH) / getInstrument(tuning).scaleLength)
+  return Math.min(5, Math.max(3, stretch))
+}
+
+/**
+ * Drawn thickness of a string: heavier for lower open strings
+ */
+export function getStringGauge(stringId: GuitarString, tuning: TuningDefinition = activeTuning): number {
+  const midi = getStringTunings(tuning)[stringId].midi
+  return Math.min(4, Math.max(1, 3 - (midi - 40) * 0.075))
+}
+
+/**
+ * Semitones each string sits from the instrument's standard tuning. Strings are tuned
+ * down by up to a fifth (drop A) or up by up to a major third (open tunings).
+ */
+function getStringShift(note: NoteId, standardMidi: number): number {
+  const difference = NOTE_TO_INDEX[note] - (standardMidi % 12)
+  return ((difference + 19) % 12) - 7
+}
+
+/**
+ * Open-string pitch, MIDI note and label for every string of a tuning
+ */
+export function getStringTunings(tuning: TuningDefinition = activeTuning): Record<GuitarString, StringTuning> {
+  const cached = stringTuningCache.get(tuning)
+  if (cached) {
+    return cached
+  }
+  const { openMidi } = getInstrument(tuning)
+  const lowNote = tuning.notes[0]
+  const highNote = tuning.notes[tuning.notes.length - 1]
+  const lowestString = tuning.notes.length
+  const strings = getStrings(tuning).reduce(
+    (acc, stringId, index) => {
+      const note = tuning.notes[index]
+      const isOuterPair = lowNote === highNote && (stringId === lowestString || stringId === 1)
+      acc[stringId] = {
+        note,
+        index: NOTE_TO_INDEX[note],
+        midi: tuning.octaves
+          ? (tuning.octaves[index] + 1) * 12 + NOTE_TO_INDEX[note]
+          : openMidi[index] + getStringShift(note, openMidi[index]),
+        label: isOuterPair ? `${stringId === 1 ? 'High' : 'Low'} ${note}` : note
+      }
+      return acc
+    },
+    {} as Record<GuitarString, StringTuning>
+  )
+  stringTuningCache.set(tuning, strings)
+  return strings
+}
+
+/**
+ * MIDI note sounding at a fret. Frets count from the capo; fret 0 on a string the
+ * capo doesn't cover is the bare open string.
+ */
+export function getMidiNote(
+  stringId: GuitarString,
+  fret: number,
+  tuning: TuningDefinition = activeTuning,
+  capo: CapoSetting = activeCapo
+): number {
+  const openMidi = getStringTunings(tuning)[stringId].midi
+  if (fret === 0 && !capo.strings.includes(stringId)) {
+    return openMidi
+  }
+  return openMidi + capo.fret + fret
+}
+
+/**
+ * Semitone index (0-11) sounding at a fret
+ */
+export function getPitchClass(stringId: GuitarString, fret: number): number {
+  return getMidiNote(stringId, fret) % 12
+}
+
+/**
+ * Root a grip is named after under the capo: an A chord with capo 2 is played as a G shape
+ */
+export function getShapeRoot(root: NoteId, capo: CapoSetting = activeCapo): NoteId {
+  return INDEX_TO_NOTE[(NOTE_TO_INDEX[root] - capo.fret + 120) % 12]
+}
+
+/**
+ * "Capo 3", or "Capo 2 (strings 5-3)" for a partial capo; empty without a capo
+ */
+export function formatCapo(capo: CapoSetting = activeCapo): string {
+  if (capo.fret === 0) {
+    return ''
+  }
+  if (!isPartialCapo(capo)) {
+    return `Capo ${capo.fret}`
+  }
+  const strings = [...capo.strings].sort((a, b) => b - a)
+  const isRun = strings.every((stringId, i) => i === 0 || strings[i - 1] - stringId === 1)
+  const covered = isRun && strings.length > 1 ? `${strings[0]}-${strings[strings.length - 1]}` : strings.join(', ')
+  return `Capo ${capo.fret} (strings ${covered})`
+}
+
+/**
+ * Instrument and tuning together, e.g. "Bass, Drop D (D A D G)"
+ */
+export function formatTuning(tuning: TuningDefinition = activeTuning): string {
+  return `${getInstrument(tuning).name}, ${tuning.name}`
+}
+
+/**
+ * Tab line names, with the top string in lower case when another string shares its note ("e").
+ * Names are padded to one width so ASCII tab lines stay aligned (C# next to G).
+ */
+export function getTabLabels(tuning: TuningDefinition = activeTuning): Record<GuitarString, string> {
+  const strings = getStringTunings(tuning)
+  const stringIds = getStrings(tuning)
+  const width = Math.max(...stringIds.map((stringId) => strings[stringId].note.length))
+  return stringIds.reduce(
+    (acc, stringId) => {
+      const note = strings[stringId].note
+      const repeated = stringIds.some((other) => other !== 1 && strings[other].note === strings[1].note)
+      const label = stringId === 1 && repeated ? note.toLowerCase() : note
+      acc[stringId] = label.padEnd(width)
+      return acc
+    },
+    {} as Record<GuitarString, string>
+  )
+}
+
+/**
+ * Note name with its octave, e.g. "E2" for MIDI 40
+ */
+export function formatPitch(midi: number): string {
+  return `${INDEX_TO_NOTE[midi % 12]}${Math.floor(midi / 12) - 1}`
+}
+
+/**
+ * Open-string pitches the tuning editor offers for one string of an instrument
+ */
+export function getPitchChoices(instrument: InstrumentDefinition, index: number): number[] {
+  const standard = instrument.openMidi[index]
+  return Array.from({ length: MAX_RETUNE * 2 + 1 }, (_, offset) => standard - MAX_RETUNE + offset)
+}
+
+/**
+ * A tuning with these open-string MIDI pitches, lowest string first
+ */
+export function createTuning(
+  id: string,
+  name: string,
+  instrument: InstrumentDefinition,
+  pitches: number[]
+): TuningDefinition {
+  return {
+    id,
+    name,
+    instrument: instrument.id,
+    notes: pitches.map((midi) => INDEX_TO_NOTE[midi % 12]),
+    octaves: pitches.map((midi) => Math.floor(midi / 12) - 1)
+  }
+}
+
+/**
+ * Text that shares a tuning, e.g. "Nashville (guitar): E3 A3 D4 G4 B3 E4"
+ */
+export function encodeTuning(tuning: TuningDefinition): string {
+  const strings = getStringTunings(tuning)
+  const pitches = getStrings(tuning).map((stringId) => formatPitch(strings[stringId].midi))
+  return `${tuning.name} (${tuning.instrument}): ${pitches.join(' ')}`
+}
+
+/**
+ * Read a shared tuning back. Null unless it names a known instrument and gives every
+ * string a pitch within reach of its standard one.
+ */
+export function decodeTuning(code: string, id: string): TuningDefinition | null {
+  const match = code.trim().match(/^(.*)\((\w+)\):\s*(.+)$/)
+  const instrument = match ? INSTRUMENTS[match[2] as InstrumentId] : undefined
+  if (!match || !instrument) {
+    return null
+  }
+  const pitches = match[3].split(/\s+/).map((pitch) => {
+    const parts = pitch.match(/^([A-G]#?)(-?\d)$/)
+    return parts && parts[1] in NOTE_TO_INDEX ? (Number(parts[2]) + 1) * 12 + NOTE_TO_INDEX[parts[1] as NoteId] : NaN
+  })
+  const inReach = pitches.every((midi, index) => getPitchChoices(instrument, index).includes(midi))
+  if (pitches.length !== instrument.stringCount || !inReach) {
+    return null
+  }
+  return createTuning(id, match[1].trim() || 'Shared tuning', instrument, pitches)
+}
@@ -0,0 +1,195 @@
+import type { GuitarString, RuntimeChordShape } from '../types/music'
+import type { ChordRiff, ProgressionRiff } from '../types/songBuilder'
+import type { FretRange, VoiceLeadingChord, VoiceLeadingOptions } from '../types/voicing'
+import { NOTE_TO_INDEX } from '../data/notes'
+import { buildChordShapes } from './chordUtils'
+import { generateVoicings } from './voicingGenerator'
+import { getActiveTuning, getMidiNote } from './tuning'
+
+const DEFAULT_RANGE: FretRange = { start: 0, end: 12 }
+
+// Transition weights
+const POSITION_WEIGHT = 1
+const VOICE_MOTION_WEIGHT = 0.3
+const TOP_NOTE_WEIGHT = 1
+const HELD_NOTE_BONUS = 1
+const RANK_WEIGHT = 0.2
+const WRONG_BASS_COST = 10 // Classic shapes that miss a slash chord's bass, used only when nothing else fits
+
+interface Candidate {
+  shape: RuntimeChordShape
+  cost: number // Playability cost of the voicing on its own
+  midi: number[] // Sounding pitches, low to high
+  position: number // Lowest fretted fret, 0 for all-open voicings
+}
+
+type FretNote = { string: GuitarString; fret: number }
+
+function getPosition(notes: FretNote[]): number {
+  const fretted = notes.filter((note) => note.fret > 0).map((note) => note.fret)
+  return fretted.length ? Math.min(...fretted) : 0
+}
+
+function fitsRange(notes: FretNote[], range: FretRange): boolean {
+  return notes.every((note) =>
+    note.fret === 0 ? range.start === 0 : note.fret >= range.start && note.fret <= range.end
+  )
+}
+
+/**
+ * Classic shapes that fit the range come first, then the searched voicings by rank.
+ * Falls back to the whole neck when nothing fits.
+ */
+function getCandidates(chord: VoiceLeadingChord, options: VoiceLeadingOptions): Candidate[] {
+  const { tuning = getActiveTuning(), fretRange = DEFAULT_RANGE, candidatesPerChord = 30 } = options
+  const toCandidate = (shape: RuntimeChordShape, cost: number): Candidate => {
+    const midi = shape.notesForAudio.map((note) => getMidiNote(note.string, note.fret, tuning)).sort((a, b) => a - b)
+    const missesBass = chord.bass !== undefined && midi[0] % 12 !== NOTE_TO_INDEX[chord.bass]
+    return {
+      shape,
+      cost: missesBass ? cost + WRONG_BASS_COST : cost,
+      midi,
+      position: getPosition(shape.notesForAudio)
+    }
+  }
+
+  // Classic shapes are fitted to the active tuning only
+  const classic =
+    tuning === getActiveTuning()
+      ? buildChordShapes(chord.root, chord.quality, { bass: chord.bass }).filter((shape) =>
+          fitsRange(shape.notesForAudio, fretRange)
+        )
+      : []
+  const searched = generateVoicings(chord.root, chord.quality, {
+    tuning,
+    fretRange,
+    bass: chord.bass,
+    limit: candidatesPerChord
+  })
+  const seen = new Set(classic.map((shape) => JSON.stringify(shape.notesForAudio)))
+  const candidates = [
+    ...classic.map((shape) => toCandidate(shape, 0)),
+    ...searched
+      .filter((shape) => !seen.has(JSON.stringify(shape.notesForAudio)))
+      .map((shape, rank) => toCandidate(shape, RANK_WEIGHT * (rank + 1)))
+  ]
+
+  if (candidates.length > 0) {
+    return candidates
+  }
+  if (fretRange !== DEFAULT_RANGE) {
+    return getCandidates(chord, { ...options, fretRange: DEFAULT_RANGE })
+  }
+  return buildChordShapes(chord.root, chord.quality)
+    .slice(0, 1)
+    .map((shape) => toCandidate(shape, 0))
+}
+
+/**
+ * Average distance each voice travels, matching every note to the nearest note of the other chord
+ */
+function voiceMotion(from: number[], to: number[]): number {
+  const nearest = (pitch: number, chord: number[]) =>
+    Math.min(...chord.map((other) => Math.abs(other - pitch)))
+  const outward = from.reduce((sum, pitch) => sum + nearest(pitch, to), 0)
+  const inward = to.reduce((sum, pitch) => sum + nearest(pitch, from), 0)
+  return (outward + inward) / 2
+}
+
+function transitionCost(from: Candidate, to: Candidate, smoothTopNote: boolean): number {
+  const held = to.shape.notesForAudio.filter((note) =>
+    from.shape.notesForAudio.some((other) => other.string === note.string && other.fret === note.fret)
+  ).length
+  const topMotion = smoothTopNote
+    ? Math.abs(from.midi[from.midi.length - 1] - to.midi[to.midi.length - 1])
+    : 0
+  return (
+    Math.abs(from.position - to.position) * POSITION_WEIGHT +
+    voiceMotion(from.midi, to.midi) * VOICE_MOTION_WEIGHT +
+    topMotion * TOP_NOTE_WEIGHT -
+    held * HELD_NOTE_BONUS
+  )
+}
+
+/**
+ * Pick one voicing per chord so the whole progression moves as little as possible:
+ * the hand stays near one position, voices move by small steps and shared notes are held.
+ */
+export function optimizeVoiceLeading(
+  chords: VoiceLeadingChord[],
+  options: VoiceLeadingOptions = {}
+): RuntimeChordShape[] {
+  if (chords.length === 0) {
+    return []
+  }
+  const smoothTopNote = options.smoothTopNote ?? false
+  const candidates = chords.map((chord) => getCandidates(chord, options))
+  if (candidates.some((list) => list.length === 0)) {
+    return []
+  }
+
+  // Cheapest path to each candidate, chord by chord
+  let costs = candidates[0].map((candidate) => candidate.cost)
+  const previous: number[][] = [candidates[0].map(() => -1)]
+
+  for (let i = 1; i < candidates.length; i++) {
+    const nextCosts: number[] = []
+    const links: number[] = []
+    candidates[i].forEach((candidate) => {
+      let bestCost = Infinity
+      let bestLink = 0
+      candidates[i - 1].forEach((prior, j) => {
+        const cost = costs[j] + transitionCost(prior, candidate, smoothTopNote)
+        if (cost < bestCost) {
+          bestCost = cost
+          bestLink = j
+        }
+      })
+      nextCosts.push(bestCost + candidate.cost)
+      links.push(bestLink)
+    })
+    costs = nextCosts
+    previous.push(links)
+  }
+
+  let index = costs.indexOf(Math.min(...costs))
+  const chosen: RuntimeChordShape[] = []
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    chosen.unshift(candidates[i][index].shape)
+    index = previous[i][index]
+  }
+
+  return chosen.map((shape, i) => ({ ...shape, instanceId: `${shape.instanceId}-step-${i}` }))
+}
+
+/**
+ * Store the voice-led grip on every chord of a riff, for the chord track and MIDI export
+ */
+export function applyVoiceLeading(riff: ProgressionRiff, options: VoiceLeadingOptions = {}): ProgressionRiff {
+  const voicings = optimizeVoiceLeading(
+    riff.chordRiffs.map((chordRiff) => ({
+      root: chordRiff.chordRoot,
+      quality: chordRiff.chordQuality,
+      bass: chordRiff.chordBass
+    })),
+    { tuning: riff.tuning, ...options }
+  )
+  return {
+    ...riff,
+    chordRiffs: riff.chordRiffs.map((chordRiff, i) => ({
+      ...chordRiff,
+      voicing: voicings[i]?.notesForAudio
+    }))
+  }
+}
+
+/**
+ * Notes to strum for a chord riff: its voice-led grip, or the first shape when it has none
+ */
+export function getChordRiffVoicing(chordRiff: ChordRiff): FretNote[] | null {
+  if (chordRiff.voicing) {
+    return chordRiff.voicing
+  }
+  const shape = buildChordShapes(chordRiff.chordRoot, chordRiff.chordQuality, { bass: chordRiff.chordBass })[0]
+  return shape ? shape.notesForAudio : null
+}
@@ -0,0 +1,349 @@
+import type {
+  CalculatedBarre,
+  CalculatedFingerPlacement,
+  ChordQuality,
+  FingeringResult,
+  GuitarString,
+  IntervalSymbol,
+  NoteId,
+  RuntimeChordShape
+} from '../types/music'
+import type { TuningDefinition } from '../types/analyzer'
+import type { VoicingSearchOptions } from '../types/voicing'
+import { QUALITY_MAP } from '../data/chordQualities'
+import { NOTE_TO_INDEX } from '../data/notes'
+import { getIntervalSemitones } from './noteSpelling'
+import { solveFingering } from './fingeringSolver'
+import {
+  getActiveCapo,
+  getActiveTuning,
+  getHandStretch,
+  getInstrument,
+  getMidiNote,
+  getShapeRoot,
+  getStrings,
+  isReentrant
+} from './tuning'
+import {
+  buildInstructions,
+  buildNoteList,
+  createEmptyStringStates,
+  determineFretWindow,
+  formatChordName
+} from './chordUtils'
+
+// Interval names for a bass note that is not part of the chord (C/Bb, Am/F# ...)
+const CHROMATIC_INTERVALS: IntervalSymbol[] = [
+  'R', 'b2', '2', 'b3', '3', '4', 'b5', '5', 'b6', '6', 'b7', '7'
+]
+
+const ORDINALS = ['', '1st', '2nd', '3rd', '4th', '5th', '6th', '7th', '8th']
+
+// Tensions that crowded chords (11, 13, 7alt) may drop one of
+const DROPPABLE_TENSIONS: IntervalSymbol[] = ['b9', '9', '#9']
+
+const MAX_SKIPPED_STRINGS = 2
+
+// Strings a full-sounding chord uses; extended-range guitars rarely strum more than six
+const FULL_VOICING_STRINGS = 6
+
+// Searches kept for chords met again; one on an eight-string neck can take most of a second
+const SEARCH_CACHE_SIZE = 48
+
+// Search options with their defaults filled in
+interface VoicingSearch extends Required<Omit<VoicingSearchOptions, 'bass' | 'limit'>> {
+  bass: NoteId
+  checkBass: boolean // Whether the lowest note must be the bass
+}
+
+const searchCache = new Map<string, RuntimeChordShape[]>()
+
+interface VoicingNote {
+  string: GuitarString
+  fret: number
+  pitchClass: number
+  midi: number
+}
+
+/**
+ * Whether a voicing may leave out these tones: the perfect fifth, plus one ninth
+ * of chords with six tones
+ */
+function canOmit(missing: IntervalSymbol[], intervals: IntervalSymbol[], allowOmittedFifth: boolean): boolean {
+  const tensions = missing.filter((interval) => DROPPABLE_TENSIONS.includes(interval))
+  if (tensions.length > (intervals.length > 5 ? 1 : 0)) {
+    return false
+  }
+  return missing.every(
+    (interval) => (interval === '5' && allowOmittedFifth) || DROPPABLE_TENSIONS.includes(interval)
+  )
+}
+
+/**
+ * Lower is easier: compact, few fingers, no skipped strings, every chord tone present
+ */
+function scoreVoicing(
+  notes: VoicingNote[],
+  assignment: FingeringResult,
+  skippedStrings: number,
+  omittedTones: number,
+  rootPitchClass: number,
+  stringCount: number
+): number {
+  const fretted = notes.filter((note) => note.fret > 0).map((note) => note.fret)
+  const span = fretted.length ? Math.max(...fretted) - Math.min(...fretted) : 0
+  const highestFret = fretted.length ? Math.max(...fretted) : 0
+  const fingerCount = new Set(Object.values(assignment.fingers)).size
+  const openCount = notes.length - fretted.length
+  const pitchCounts = new Map<number, number>()
+  notes.forEach((note) => pitchCounts.set(note.pitchClass, (pitchCounts.get(note.pitchClass) ?? 0) + 1))
+  const doubledTones = Array.from(pitchCounts.entries()).reduce(
+    (sum, [pitchClass, count]) => sum + (pitchClass === rootPitchClass ? 0 : count - 1),
+    0
+  )
+
+  // Open strings only help near the nut; higher up they force a long reach
+  const openWeight = highestFret <= 4 ? -0.5 : 0.5
+
+  return (
+    span +
+    (span >= 3 ? 2 : 0) +
+    fingerCount +
+    (assignment.barre ? 1.5 : 0) +
+    skippedStrings * 3 +
+    omittedTones * 2 +
+    doubledTones * 0.5 +
+    highestFret * 0.2 +
+    Math.max(0, Math.min(FULL_VOICING_STRINGS, stringCount) - notes.length) * 1.2 +
+    openCount * openWeight
+  )
+}
+
+function describeVoicing(
+  notes: VoicingNote[],
+  intervals: Map<number, IntervalSymbol>,
+  omitted: IntervalSymbol[],
+  skippedStrings: number,
+  barre: CalculatedBarre | null,
+  rootPitchClass: number
+): string {
+  const bass = notes.reduce((lowest, note) => (note.midi < lowest.midi ? note : lowest))
+  const bassInterval = intervals.get(bass.pitchClass)
+  const parts = [
+    bassInterval === 'R'
+      ? `Root on the ${ORDINALS[bass.string]} string`
+      : `${bassInterval} in the bass on the ${ORDINALS[bass.string]} string`
+  ]
+  if (omitted.length) {
+    parts.push(`no ${omitted.join(' or ')}`)
+  }
+  if (notes.filter((note) => note.pitchClass === rootPitchClass).length > 1) {
+    parts.push('doubled root')
+  }
+  if (skippedStrings > 0) {
+    parts.push(skippedStrings === 1 ? 'one string skipped' : `${skippedStrings} strings skipped`)
+  }
+  if (barre) {
+    parts.push(`barre at fret ${barre.fret}`)
+  }
+  return `${parts.join(', ')}.`
+}
+
+function buildVoicingShape(
+  notes: VoicingNote[],
+  assignment: FingeringResult,
+  intervals: Map<number, IntervalSymbol>,
+  description: string,
+  root: NoteId,
+  quality: ChordQuality,
+  tuning: TuningDefinition
+): RuntimeChordShape {
+  const states = createEmptyStringStates(tuning)
+  Object.values(states).forEach((state) => {
+    state.isMuted = true
+  })
+  notes.forEach((note) => {
+    states[note.string] = {
+      string: note.string,
+      fret: note.fret,
+      interval: intervals.get(note.pitchClass),
+      finger: assignment.fingers[note.string],
+      isOpen: note.fret === 0,
+      isMuted: false
+    }
+  })
+
+  // Like the templates, notes held down by the barre are drawn by the barre itself
+  const { barre } = assignment
+  const isUnderBarre = (note: VoicingNote) =>
+    barre !== null && note.fret === barre.fret && assignment.fingers[note.string] === barre.finger
+  const fingerPlacements: CalculatedFingerPlacement[] = notes
+    .filter((note) => note.fret > 0 && !isUnderBarre(note))
+    .map((note) => ({
+      string: note.string,
+      fret: note.fret,
+      finger: assignment.fingers[note.string],
+      interval: intervals.get(note.pitchClass),
+      isRoot: intervals.get(note.pitchClass) === 'R'
+    }))
+
+  const frets = getStrings(tuning).map((stringId) => states[stringId].fret ?? 'x')
+  // "x32010", or "8-10-9-9-x-x" once two-digit frets appear
+  const fretText = frets.join(frets.some((fret) => typeof fret === 'number' && fret > 9) ? '-' : '')
+  const fretted = notes.filter((note) => note.fret > 0).map((note) => note.fret)
+  const position = fretted.length ? Math.min(...fretted) : 0
+  const hasOpen = notes.some((note) => note.fret === 0)
+  const label = hasOpen && position <= 4 ? 'Open voicing' : `Voicing at fret ${position}`
+
+  return {
+    instanceId: '',
+    templateId: `voicing-${frets.join('-')}`,
+    templateLabel: label,
+    description,
+    quality,
+    root,
+    displayName: `${formatChordName(root, quality)} (${fretText})`,
+    accentColor: QUALITY_MAP[quality].color,
+    fingerPlacements,
+    openIndicators: [],
+    stringStates: states,
+    barre,
+    fretWindow: determineFretWindow(states, barre),
+    instructions: buildInstructions(states, tuning),
+    notesForAudio: buildNoteList(states)
+  }
+}
+
+/**
+ * Search every playable voicing of a chord inside a fret range and rank them by playability.
+ * Voicings may skip strings, double the root and drop the fifth, but always keep the
+ * root (or the requested bass) as the lowest note and fit within the hand's stretch.
+ * Re-entrant tunings such as the ukulele's only hold the bass to a slash chord's bass.
+ * Searches are remembered, so a chord met again (a progression's next pass) costs nothing.
+ */
+export function generateVoicings(
+  root: NoteId,
+  quality: ChordQuality,
+  options: VoicingSearchOptions = {}
+): RuntimeChordShape[] {
+  const tuning = options.tuning ?? getActiveTuning()
+  const fretRange = options.fretRange ?? { start: 0, end: 12 }
+  const settings: VoicingSearch = {
+    tuning,
+    fretRange,
+    maxStretch: options.maxStretch ?? getHandStretch(tuning),
+    minStrings: options.minStrings ?? 3,
+    allowOpenStrings: options.allowOpenStrings ?? fretRange.start === 0,
+    allowOmittedFifth: options.allowOmittedFifth ?? true,
+    bass: options.bass ?? root,
+    checkBass: options.bass !== undefined || !isReentrant(tuning)
+  }
+  const capo = getActiveCapo()
+  const key = JSON.stringify([
+    root,
+    quality,
+    { ...settings, tuning: [tuning.id, tuning.instrument, tuning.notes, tuning.octaves] },
+    capo
+  ])
+  let ranked = searchCache.get(key)
+  if (!ranked) {
+    ranked = searchVoicings(root, quality, settings)
+    // Oldest search out first, so a long session doesn't hold every chord it looked at
+    if (searchCache.size >= SEARCH_CACHE_SIZE) {
+      searchCache.delete(searchCache.keys().next().value as string)
+    }
+    searchCache.set(key, ranked)
+  }
+
+  const { limit } = options
+  return (limit === undefined ? ranked : ranked.slice(0, limit)).map((shape, index) => ({
+    ...shape,
+    instanceId: `${shape.templateId}-${root}-${quality}-${index}`,
+    shapeName: capo.fret > 0 ? formatChordName(getShapeRoot(root, capo), quality) : undefined
+  }))
+}
+
+function searchVoicings(root: NoteId, quality: ChordQuality, settings: VoicingSearch): RuntimeChordShape[] {
+  const { tuning, fretRange, maxStretch, minStrings, allowOpenStrings, allowOmittedFifth, bass, checkBass } = settings
+  const strings = getStrings(tuning)
+  const highestFret = Math.min(fretRange.end, getInstrument(tuning).fretCount)
+
+  const chordIntervals = QUALITY_MAP[quality].intervals
+  const rootIndex = NOTE_TO_INDEX[root]
+  const bassPitchClass = NOTE_TO_INDEX[bass]
+  const intervals = new Map<number, IntervalSymbol>()
+  chordIntervals.forEach((interval) => {
+    intervals.set((rootIndex + getIntervalSemitones(interval)) % 12, interval)
+  })
+  if (!intervals.has(bassPitchClass)) {
+    intervals.set(bassPitchClass, CHROMATIC_INTERVALS[(bassPitchClass - rootIndex + 12) % 12])
+  }
+
+  const lowestFret = Math.max(1, fretRange.start)
+
+  // Candidate notes per string, open string first
+  const candidates = strings.map((stringId) => {
+    const notes: VoicingNote[] = []
+    const frets = allowOpenStrings ? [0] : []
+    for (let fret = lowestFret; fret <= highestFret; fret++) {
+      frets.push(fret)
+    }
+    frets.forEach((fret) => {
+      const midi = getMidiNote(stringId, fret, tuning)
+      if (intervals.has(midi % 12)) {
+        notes.push({ string: stringId, fret, pitchClass: midi % 12, midi })
+      }
+    })
+    return notes
+  })
+
+  const results: Array<{ shape: RuntimeChordShape; score: number; position: number }> = []
+
+  const evaluate = (notes: VoicingNote[]) => {
+    if (notes.length < minStrings) return
+    const bassNote = notes.reduce((lowest, note) => (note.midi < lowest.midi ? note : lowest))
+    if (checkBass && bassNote.pitchClass !== bassPitchClass) return
+
+    const sounding = new Set(notes.map((note) => note.pitchClass))
+    const missing = chordIntervals.filter(
+      (interval) => !sounding.has((rootIndex + getIntervalSemitones(interval)) % 12)
+    )
+    if (!canOmit(missing, chordIntervals, allowOmittedFifth)) return
+
+    const firstString = notes[0].string
+    const lastString = notes[notes.length - 1].string
+    const skippedStrings = firstString - lastString + 1 - notes.length
+    if (skippedStrings > MAX_SKIPPED_STRINGS) return
+
+    const assignment = solveFingering(notes)
+    if (!assignment.playable) return
+
+    const score = scoreVoicing(notes, assignment, skippedStrings, missing.length, rootIndex, strings.length)
+    const description = describeVoicing(notes, intervals, missing, skippedStrings, assignment.barre, rootIndex)
+    const shape = buildVoicingShape(notes, assignment, intervals, description, root, quality, tuning)
+    const fretted = notes.filter((note) => note.fret > 0).map((note) => note.fret)
+    results.push({ shape, score, position: fretted.length ? Math.min(...fretted) : 0 })
+  }
+
+  // Walk the strings from low to high, each either muted or sounding a chord tone
+  const search = (stringIndex: number, chosen: VoicingNote[], minFret: number, maxFret: number) => {
+    if (stringIndex === strings.length) {
+      evaluate(chosen)
+      return
+    }
+    search(stringIndex + 1, chosen, minFret, maxFret)
+    candidates[stringIndex].forEach((note) => {
+      if (note.fret > 0) {
+        const nextMin = Math.min(minFret, note.fret)
+        const nextMax = Math.max(maxFret, note.fret)
+        if (nextMax - nextMin + 1 > maxStretch) return
+        search(stringIndex + 1, [...chosen, note], nextMin, nextMax)
+      } else {
+        search(stringIndex + 1, [...chosen, note], minFret, maxFret)
+      }
+    })
+  }
+  search(0, [], Infinity, -Infinity)
+
+  return results.sort((a, b) => a.score - b.score || a.position - b.position).map((result) => result.shape)
+}